@@ -1,5 +1,8 @@
 import { contextBridge, ipcRenderer } from 'electron';
 import type { FileOperationOptions, SaveFileOptions } from '../src/types/electron';
+import type { InstallLogEntry } from '../src/services/install-runner';
+import type { VersionInstallProgress } from '../src/services/version-manager-types';
+import type { MigrationOptions } from '../src/services/version-manager-migration';
 
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
@@ -17,6 +20,9 @@ contextBridge.exposeInMainWorld('electronAPI', {
   discoverManifests: (directory: string, recursive?: boolean) => ipcRenderer.invoke('manifest:discover', directory, recursive),
   saveManifest: (data: unknown, filePath: string) => ipcRenderer.invoke('manifest:save', data, filePath),
   getDefaultManifestDirs: () => ipcRenderer.invoke('manifest:get-default-dirs'),
+  getManifestLayers: () => ipcRenderer.invoke('manifest:get-layers'),
+  checkManifestTrust: (filePath: string) => ipcRenderer.invoke('manifest:check-trust', filePath),
+  trustManifest: (filePath: string, trustPublisher?: boolean) => ipcRenderer.invoke('manifest:trust', filePath, trustPublisher),
   ensureCacheDir: () => ipcRenderer.invoke('manifest:ensure-cache-dir'),
   clearManifestCache: () => ipcRenderer.invoke('manifest:clear-cache'),
   
@@ -43,12 +49,30 @@ contextBridge.exposeInMainWorld('electronAPI', {
   
   // Installation APIs
   installTools: (toolIds: string[]) => ipcRenderer.invoke('install-tools', toolIds),
+  previewInstallPlan: (toolIds: string[]) => ipcRenderer.invoke('install:plan', toolIds),
+  dryRunInstall: (toolIds: string[]) => ipcRenderer.invoke('install:dry-run', toolIds),
+  cancelInstallation: () => ipcRenderer.invoke('install:cancel'),
+  resumeInstallation: () => ipcRenderer.invoke('install:resume'),
+  getInstallSession: () => ipcRenderer.invoke('install:get-session'),
+  discardInstallSession: () => ipcRenderer.invoke('install:discard-session'),
+  uninstallTools: (toolIds: string[]) => ipcRenderer.invoke('uninstall-tools', toolIds),
+  getRollback: () => ipcRenderer.invoke('install:get-rollback'),
+  rollbackLastSession: () => ipcRenderer.invoke('install:rollback'),
+  upgradeTools: (toolIds: string[]) => ipcRenderer.invoke('upgrade-tools', toolIds),
   checkPrerequisites: () => ipcRenderer.invoke('check-prerequisites'),
   
   // Tool detection APIs
   detectTools: (toolIds?: string[]) => ipcRenderer.invoke('detect-tools', toolIds),
   detectSingleTool: (toolId: string) => ipcRenderer.invoke('detect-tool', toolId),
   clearDetectionCache: (toolId?: string) => ipcRenderer.invoke('clear-detection-cache', toolId),
+  getDetectionCache: () => ipcRenderer.invoke('detection-cache:get'),
+  checkForUpdates: (toolIds?: string[]) => ipcRenderer.invoke('tools:check-updates', toolIds),
+  runDoctor: (checks?: string[]) => ipcRenderer.invoke('doctor:run', checks),
+  applyDoctorFix: (findingId: string) => ipcRenderer.invoke('doctor:fix', findingId),
+  exportInventory: (format: string, redaction: { hostname: boolean; username: boolean; homePaths: boolean }) =>
+    ipcRenderer.invoke('inventory:export', format, redaction),
+  checkDrift: () => ipcRenderer.invoke('drift:check'),
+  saveDriftBaseline: () => ipcRenderer.invoke('drift:save-baseline'),
   
   // Progress tracking APIs
   onInstallationProgress: (callback: (progress: { message: string; progress: number }) => void) => {
@@ -57,6 +81,11 @@ contextBridge.exposeInMainWorld('electronAPI', {
     // Return cleanup function
     return () => ipcRenderer.removeListener('installation-progress', listener);
   },
+  onInstallationLog: (callback: (entry: InstallLogEntry) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, entry: InstallLogEntry) => callback(entry);
+    ipcRenderer.on('installation-log', listener);
+    return () => ipcRenderer.removeListener('installation-log', listener);
+  },
   
   // Version Management APIs - Minimal MVP implementation
   versionManager: {
@@ -67,13 +96,39 @@ contextBridge.exposeInMainWorld('electronAPI', {
     checkInstalled: (managerType: string) => 
       ipcRenderer.invoke('version-manager:check-installed', managerType),
     
-    // Get installed versions for a tool
-    listVersions: (tool: string) => 
-      ipcRenderer.invoke('version-manager:list-versions', tool),
+    // Get installed versions for a tool, optionally with the versions that can be installed
+    listVersions: (tool: string, includeAvailable?: boolean) => 
+      ipcRenderer.invoke('version-manager:list-versions', tool, includeAvailable),
     
     // Get current active version for a tool
     getCurrentVersion: (tool: string) => 
       ipcRenderer.invoke('version-manager:current-version', tool),
+    
+    // Detect installed managers and which one owns each tool
+    detect: () => ipcRenderer.invoke('version-manager:detect'),
+    
+    // Version operations, routed to the manager that owns the tool
+    installVersion: (tool: string, version: string, installManager?: boolean) =>
+      ipcRenderer.invoke('version-manager:install-version', tool, version, installManager),
+    uninstallVersion: (tool: string, version: string) =>
+      ipcRenderer.invoke('version-manager:uninstall-version', tool, version),
+    setGlobal: (tool: string, version: string) =>
+      ipcRenderer.invoke('version-manager:set-global', tool, version),
+    setLocal: (tool: string, version: string, projectRoot: string) =>
+      ipcRenderer.invoke('version-manager:set-local', tool, version, projectRoot),
+    
+    // Move nvm, pyenv and rbenv runtimes to mise, and undo the last migration
+    planMigration: (options?: MigrationOptions) => ipcRenderer.invoke('version-manager:migration-plan', options),
+    migrate: (options?: MigrationOptions) => ipcRenderer.invoke('version-manager:migrate', options),
+    rollbackMigration: () => ipcRenderer.invoke('version-manager:migration-rollback'),
+    getMigrationReport: () => ipcRenderer.invoke('version-manager:migration-report'),
+    
+    // Install progress
+    onProgress: (callback: (progress: VersionInstallProgress) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, progress: VersionInstallProgress) => callback(progress);
+      ipcRenderer.on('version-manager:progress', listener);
+      return () => ipcRenderer.removeListener('version-manager:progress', listener);
+    },
   },
   
   // Clean up listeners
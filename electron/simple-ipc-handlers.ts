@@ -3,15 +3,61 @@
  * Replaces 489 lines of over-engineered IPC with straightforward handlers
  */
 
-import { ipcMain, IpcMainInvokeEvent } from 'electron';
+import { app, BrowserWindow, dialog, ipcMain, IpcMainInvokeEvent } from 'electron';
 import { promises as fs } from 'fs';
 import * as path from 'path';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import type { SimpleTool, SimpleManifest } from '../src/shared/simple-manifest-types';
-import { toolDetectionService } from '../src/services/tool-detection-service';
-
-const execAsync = promisify(exec);
+import type { SimpleManifest } from '../src/shared/simple-manifest-types';
+import { isInstalledAsRequired, toolDetectionService } from '../src/services/tool-detection-service';
+import { DetectionCache } from '../src/services/detection-cache';
+import { EnvironmentDoctor } from '../src/services/environment-doctor';
+import type { DoctorCheckId } from '../src/services/environment-doctor';
+import { collectMachineInventory, createInventorySources, formatInventory, redactInventory } from '../src/services/machine-inventory';
+import type { InventoryFormat, InventoryRedaction, MachineInventory } from '../src/services/machine-inventory';
+import { compareInventories, InventoryBaselineStore } from '../src/services/inventory-drift';
+import { VERSION_MANAGER_INFO, VersionManagementEngine } from '../src/services/version-management-engine';
+import { VersionManagerFactory } from '../src/services/version-manager-factory';
+import { MiseMigrationAssistant } from '../src/services/version-manager-migration';
+import type { MigrationOptions } from '../src/services/version-manager-migration';
+import type { IVersionOperationResult, VersionedTool, VersionManagerType } from '../src/services/version-manager-types';
+import { createManifestDetector, detectorRegistry } from '../src/services/detector-registry';
+import { upgradeDetectionService } from '../src/services/upgrade-detection-service';
+import { createDryRunReport } from '../src/services/install-dry-run';
+import { InstallLedger } from '../src/services/install-ledger';
+import { ManifestCatalog } from '../src/services/manifest-catalog';
+import type { ManifestCatalogResult, ManifestLayerFiles } from '../src/services/manifest-catalog';
+import { isManifestTrusted, ManifestTrustStore } from '../src/services/manifest-trust';
+import type { ManifestTrustCheck } from '../src/services/manifest-trust';
+import { detectPackageManagers } from '../src/services/package-manager-detection';
+import type { PackageManagerDetectionResult } from '../src/services/package-manager-detection';
+import { getFailureReason, runInstallCommand } from '../src/services/install-runner';
+import { downloadInstallScript, removeInstallScript } from '../src/services/install-script';
+import {
+  createInstallSession,
+  finishInstallSession,
+  getRemainingToolIds,
+  InstallSessionStore,
+  isResumable,
+  updateToolState
+} from '../src/services/install-session';
+import type { InstallSession, InstallSessionToolState } from '../src/services/install-session';
+import { createCommandExecutor } from '../src/services/command-execution';
+import type { CommandExecutionResult, ICommandExecutor } from '../src/services/command-execution';
+import {
+  getInstallCommand,
+  getInstallScript,
+  getScriptCommand,
+  getUninstallCommand,
+  getUpgradeCommand,
+  hasCustomInstall
+} from '../src/shared/install-commands';
+import { createInstallPlan, walkInstallPlan } from '../src/shared/install-planner';
+import type { InstallPlanStep } from '../src/shared/install-planner';
+import { getKegOnlyProbe, getPackageManager, resolvePackage } from '../src/shared/package-managers';
+import { satisfiesToolVersion } from '../src/shared/version-constraint';
+import { discoverManifests, loadManifest, saveManifest } from '../src/shared/simple-manifest-loader';
+import { validateManifest } from '../src/shared/simple-manifest-validator';
+import { MANIFEST_LAYERS } from '../src/shared/manifest-layers';
+import type { ManifestLayerName } from '../src/shared/manifest-layers';
 
 /**
  * Simple error handler that returns a plain error object
@@ -27,6 +73,10 @@ function handleError(error: unknown): { error: string; details?: unknown } {
  * Register all IPC handlers
  */
 export function registerSimpleHandlers(): void {
+  // Detection results survive restarts; each is reused until the tool's fingerprint changes
+  toolDetectionService.setCache(new DetectionCache(path.join(app.getPath('userData'), 'detection-cache.json')));
+  detectorRegistry.register(createManifestDetector(async () => (await loadLayeredCatalog()).manifest.tools));
+
   // Load manifest - keep for backward compatibility
   ipcMain.handle('load-manifest', async (): Promise<SimpleManifest | { error: string }> => {
     try {
@@ -45,9 +95,13 @@ export function registerSimpleHandlers(): void {
   // Manifest APIs expected by preload
   ipcMain.handle('manifest:load-file', async (_event, filePath: string) => {
     try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      const manifest: SimpleManifest = JSON.parse(content);
-      return { success: true, data: manifest };
+      // Files from outside the app need a trusted signature or the user's approval
+      const trust = await getManifestTrustStore().check(filePath);
+      if (!isManifestTrusted(trust)) {
+        return { error: describeUntrustedManifest(trust), trustRequired: trust.status !== 'invalid-signature', trust };
+      }
+      const manifest = await loadManifest(filePath);
+      return { success: true, data: manifest, trust };
     } catch (error) {
       return handleError(error);
     }
@@ -56,21 +110,124 @@ export function registerSimpleHandlers(): void {
   ipcMain.handle('manifest:get-default-dirs', async () => {
     return {
       success: true,
-      data: [path.join(__dirname, '../src/shared')]
+      data: [path.join(__dirname, '../src/shared'), ...OVERLAY_LAYERS.map(getManifestLayerDir)]
     };
   });
 
+  ipcMain.handle('manifest:get-layers', async () => {
+    try {
+      const layerFiles = await getManifestLayerFiles();
+      const catalog = await loadLayeredCatalog(layerFiles);
+      return {
+        success: true,
+        layers: layerFiles.map(({ layer, filePaths }) => ({
+          layer,
+          directory: layer === 'builtin' ? path.dirname(getBuiltinManifestPath()) : getManifestLayerDir(layer),
+          files: filePaths
+        })),
+        provenance: catalog.provenance,
+        errors: catalog.errors,
+        untrusted: catalog.untrusted
+      };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  ipcMain.handle('manifest:check-trust', async (_event, filePath: string) => {
+    try {
+      return { success: true, trust: await getManifestTrustStore().check(filePath) };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  ipcMain.handle('manifest:trust', async (_event, filePath: string, trustPublisher = false) => {
+    try {
+      const trust = await getManifestTrustStore().trust(filePath, trustPublisher);
+      // The newly trusted file joins the catalog on the next load
+      await getManifestCatalog().clear();
+      return { success: true, trust };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  ipcMain.handle('manifest:load-multiple', async (_event, filePaths: string[]) => {
+    try {
+      // Same gate as manifest:load-file; only the built-in manifest is exempt, and
+      // unreadable files are left to the catalog to report
+      const builtinPath = path.resolve(getBuiltinManifestPath());
+      const checks = await Promise.all(filePaths
+        .filter(filePath => path.resolve(filePath) !== builtinPath)
+        .map(filePath => getManifestTrustStore().check(filePath).catch(() => null)));
+      const untrusted = checks.filter((check): check is ManifestTrustCheck => !!check && !isManifestTrusted(check));
+      const untrustedPaths = new Set(untrusted.map(check => check.filePath));
+
+      const catalog = await getManifestCatalog().load(filePaths.filter(filePath => !untrustedPaths.has(filePath)));
+      return {
+        success: true,
+        data: catalog.manifest,
+        sources: catalog.sources,
+        errors: catalog.errors,
+        untrusted,
+        trustRequired: untrusted.some(check => check.status !== 'invalid-signature')
+      };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  ipcMain.handle('manifest:discover', async (_event, directory: string, recursive = true) => {
+    try {
+      return { success: true, data: await discoverManifests(directory, recursive) };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  ipcMain.handle('manifest:save', async (_event, data: unknown, filePath: string) => {
+    try {
+      const errors = validateManifest(data);
+      if (errors.length > 0) {
+        return { error: `Invalid manifest: ${errors.join('; ')}` };
+      }
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await saveManifest(data as SimpleManifest, filePath);
+      // The saved file may be part of the cached catalog
+      await getManifestCatalog().clear();
+      return { success: true };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  ipcMain.handle('manifest:ensure-cache-dir', async () => {
+    try {
+      return { success: true, path: await getManifestCatalog().ensureCacheDir() };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  ipcMain.handle('manifest:clear-cache', async () => {
+    try {
+      await getManifestCatalog().clear();
+      return { success: true };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
   // System detection API
   ipcMain.handle('system-detection:detect', async () => {
     try {
-      const manifestResult = await loadManifestData();
-      if ('error' in manifestResult) {
-        return manifestResult;
-      }
+      const catalog = await loadLayeredCatalog();
+      const manifestResult = catalog.manifest;
       
       // Detect all tools
-      const detectionResults = await toolDetectionService.detectMultipleTools(manifestResult.tools);
-      const detectionMap = new Map(detectionResults.map(r => [r.toolId, r]));
+      const detectionResults = await detectorRegistry.detect(manifestResult.tools.map(tool => tool.id));
+      const detectionMap = new Map(detectionResults.map(r => [r.name, r]));
       
       // Group tools by category
       const categories = Array.from(new Set(manifestResult.tools.map(t => t.category)));
@@ -92,19 +249,20 @@ export function registerSimpleHandlers(): void {
           categories: categorizedTools.map(cat => ({
             category: cat.id,
             tools: cat.tools.map(tool => {
-              const detection = detectionMap.get(tool.id);
-              console.log(`system-detection:detect - Tool: ${tool.id} (${tool.name}) - Installed: ${detection?.installed}`);
+              const detection = detectionMap.get(tool.id)!;
+              console.log(`system-detection:detect - Tool: ${tool.id} (${tool.name}) - Installed: ${detection.found}`);
               return {
-                name: tool.id, // Use tool.id so it matches when installing
-                found: detection?.installed || false,
-                version: detection?.version || (tool.verification ? 'Unknown' : undefined),
-                path: '',
-                detectionMethod: 'command' as const,
-                error: null,
+                ...detection,
+                version: detection.version || (detection.found && tool.verification ? 'Unknown' : undefined),
                 // Add metadata to pass display name
                 metadata: {
+                  ...detection.metadata,
                   displayName: tool.name,
-                  description: tool.description
+                  description: tool.description,
+                  // Layer that set each field, for tools an overlay added or customized
+                  provenance: Object.fromEntries(
+                    Object.entries(catalog.provenance[tool.id] ?? {}).map(([field, source]) => [field, source.layer])
+                  )
                 }
               };
             })
@@ -129,141 +287,258 @@ export function registerSimpleHandlers(): void {
     };
   });
 
-  // Install tools
-  ipcMain.handle('install-tools', async (
-    event: IpcMainInvokeEvent,
+  // Preview the resolved install plan without installing anything
+  ipcMain.handle('install:plan', async (
+    _event: IpcMainInvokeEvent,
     toolIds: string[]
   ) => {
     try {
-      console.log('install-tools: Received tool IDs:', toolIds);
       const manifestResult = await loadManifestData();
       if ('error' in manifestResult) {
         return manifestResult;
       }
 
-      const results = [];
-      const platform = process.platform as 'darwin' | 'win32' | 'linux';
+      const plan = createInstallPlan(toolIds, manifestResult);
+      return { success: true, plan };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  // Dry run - report detection, commands and elevation per tool without installing
+  ipcMain.handle('install:dry-run', async (
+    _event: IpcMainInvokeEvent,
+    toolIds: string[]
+  ) => {
+    try {
+      const manifestResult = await loadManifestData();
+      if ('error' in manifestResult) {
+        return manifestResult;
+      }
 
-      // Find tools in manifest
-      const toolsToInstall = manifestResult.tools.filter(tool => 
-        toolIds.includes(tool.id)
+      const platform = process.platform as 'darwin' | 'win32' | 'linux';
+      const packageManagers = await getPackageManagers();
+      const report = await createDryRunReport(
+        toolIds,
+        manifestResult,
+        platform,
+        toolDetectionService,
+        packageManagers
       );
-      console.log('install-tools: Found tools to install:', toolsToInstall.map(t => t.id));
+      return { success: true, report };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  // Install tools
+  ipcMain.handle('install-tools', (
+    event: IpcMainInvokeEvent,
+    toolIds: string[]
+  ) => exclusiveInstall(async install => {
+    try {
+      console.log('install-tools: Received tool IDs:', toolIds);
+      const manifestResult = await loadManifestData();
+      if ('error' in manifestResult) {
+        return manifestResult;
+      }
+
+      // Resolve prerequisites and install order
+      const plan = createInstallPlan(toolIds, manifestResult);
+      console.log('install-tools: Install plan:', plan.steps.map(s => s.toolId));
 
       // If no tools found, check if it's a naming mismatch
-      if (toolsToInstall.length === 0) {
-        console.log('install-tools: No exact matches. Available tools:', manifestResult.tools.map(t => ({ id: t.id, name: t.name })));
+      if (plan.unknown.length > 0) {
+        console.log('install-tools: Unknown tool IDs:', plan.unknown, 'Available tools:', manifestResult.tools.map(t => ({ id: t.id, name: t.name })));
       }
 
-      // Install each tool
-      let alreadyInstalled = 0;
-      
-      for (let i = 0; i < toolsToInstall.length; i++) {
-        const tool = toolsToInstall[i];
-        const progress = ((i + 1) / toolsToInstall.length) * 100;
-        
-        // Send progress update
-        event.sender.send('installation-progress', {
-          message: `Checking ${tool.name}...`,
-          progress: progress * 0.3 // 30% for checking
-        });
+      const session = createInstallSession(toolIds, plan);
+      await getLedger().startSession(session.id);
+      const { results, alreadyInstalled } = await runInstallSession(event, install, session, plan.steps, manifestResult);
 
-        // Check if already installed
-        const detection = await toolDetectionService.detectTool(tool);
-        if (detection.installed) {
-          console.log(`install-tools: ${tool.name} is already installed (version: ${detection.version})`);
-          alreadyInstalled++;
-          results.push({
-            success: true,
-            tool: tool.id,
-            message: `${tool.name} is already installed${detection.version ? ` (version ${detection.version})` : ''}`
-          });
-          continue;
-        }
+      // Generate summary
+      const summary = summarizeInstallResults(results, alreadyInstalled, plan.steps.length + plan.unknown.length);
 
-        // Send progress update
-        event.sender.send('installation-progress', {
-          message: `Installing ${tool.name}...`,
-          progress: progress * 0.6 + 30 // 60% for installing + 30% from checking
-        });
+      return { success: true, summary, results, plan, session };
+    } catch (error) {
+      return handleError(error);
+    }
+  }));
 
-        try {
-          // Get install command based on platform
-          const command = getInstallCommand(tool, platform);
-          console.log(`install-tools: Installing ${tool.name} with command: ${command}`);
-          if (!command) {
-            results.push({
-              success: false,
-              tool: tool.id,
-              message: `No installation method for ${tool.name} on ${platform}`
-            });
-            continue;
-          }
+  // Cancel the running installation - kills the current install command
+  ipcMain.handle('install:cancel', async () => {
+    if (!activeInstall) {
+      return { success: false, error: 'No installation is running' };
+    }
 
-          // Execute installation
-          await execAsync(command);
-          
-          // Clear cache for this tool so next detection is fresh
-          toolDetectionService.clearCache(tool.id);
-          
-          results.push({
-            success: true,
-            tool: tool.id,
-            message: `Successfully installed ${tool.name}`
-          });
-        } catch (error) {
-          results.push({
-            success: false,
-            tool: tool.id,
-            message: `Failed to install ${tool.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
-          });
+    // Only the executor that spawned the install can stop its whole process tree
+    activeInstall.cancelRequested = true;
+    if (activeInstall.pid) {
+      await activeInstall.executor.killProcess(activeInstall.pid);
+    }
+    return { success: true };
+  });
+
+  // Get the last install session, marking it interrupted if the app closed mid-install
+  ipcMain.handle('install:get-session', async () => {
+    try {
+      const session = await getSessionStore().load();
+      if (session && session.status === 'running' && !activeInstall) {
+        finishInstallSession(session, 'interrupted');
+        await getSessionStore().save(session);
+      }
+      return {
+        success: true,
+        session,
+        resumable: session ? isResumable(session) : false,
+        remainingToolIds: session ? getRemainingToolIds(session) : []
+      };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  // Resume the last session from its first unfinished tool
+  ipcMain.handle('install:resume', (event: IpcMainInvokeEvent) => exclusiveInstall(async install => {
+    try {
+      const session = await getSessionStore().load();
+      if (!session || session.status === 'completed' || getRemainingToolIds(session).length === 0) {
+        return { error: 'There is no installation to resume' };
+      }
+
+      const manifestResult = await loadManifestData();
+      if ('error' in manifestResult) {
+        return manifestResult;
+      }
+
+      // Re-run detection - tools may have been installed or removed in the meantime
+      await toolDetectionService.clearCache();
+
+      const remaining = new Set(getRemainingToolIds(session));
+      const plan = createInstallPlan(session.selectedToolIds, manifestResult);
+      const steps = plan.steps.filter(step => remaining.has(step.toolId));
+      for (const toolId of remaining) {
+        updateToolState(session, toolId, 'pending');
+      }
+      session.status = 'running';
+      session.finishedAt = undefined;
+
+      const { results, alreadyInstalled } = await runInstallSession(event, install, session, steps, manifestResult);
+
+      const summary = summarizeInstallResults(results, alreadyInstalled, steps.length);
+
+      return { success: true, summary, results, plan, session };
+    } catch (error) {
+      return handleError(error);
+    }
+  }));
+
+  // Forget the last session so it is no longer offered for resume
+  ipcMain.handle('install:discard-session', async () => {
+    try {
+      await getSessionStore().clear();
+      return { success: true };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  // Uninstall tools - prefers the command recorded when HatStart installed them
+  ipcMain.handle('uninstall-tools', (
+    event: IpcMainInvokeEvent,
+    toolIds: string[]
+  ) => exclusiveInstall(async install => {
+    try {
+      const manifestResult = await loadManifestData();
+      if ('error' in manifestResult) {
+        return manifestResult;
+      }
+
+      const platform = process.platform as 'darwin' | 'win32' | 'linux';
+      const packageManagers = await getPackageManagers();
+      const { entries } = await getLedger().load();
+      const targets: ToolCommandTarget[] = [];
+      for (const toolId of toolIds) {
+        const tool = manifestResult.tools.find(t => t.id === toolId);
+        const entry = entries.find(e => e.toolId === toolId);
+        if (!tool && !entry) {
+          continue;
         }
+        targets.push({
+          toolId,
+          name: tool?.name ?? entry!.name,
+          command: entry?.uninstallCommand ?? (tool ? getUninstallCommand(tool, platform, packageManagers) : null)
+        });
       }
 
-      // Generate summary
-      const summary = {
-        total: toolIds.length, // Use requested count, not found count
-        successful: results.filter(r => r.success).length,
-        failed: results.filter(r => !r.success).length,
-        alreadyInstalled: alreadyInstalled,
-        failures: results.filter(r => !r.success).map(r => ({
-          tool: r.tool,
-          error: r.message
+      const results = await runUninstall(event, install, targets, manifestResult);
+      const summary = summarizeInstallResults(results, 0, toolIds.length);
+
+      return { success: true, summary, results };
+    } catch (error) {
+      return handleError(error);
+    }
+  }));
+
+  // Tools the last install-tools run added, i.e. what a rollback would remove
+  ipcMain.handle('install:get-rollback', async () => {
+    try {
+      const entries = await getLedger().getLastSessionEntries();
+      return {
+        success: true,
+        tools: entries.map(entry => ({
+          toolId: entry.toolId,
+          name: entry.name,
+          installedAt: entry.installedAt,
+          uninstallCommand: entry.uninstallCommand
         }))
       };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  // Roll back the last session - uninstalls only the tools it added, newest first
+  ipcMain.handle('install:rollback', (event: IpcMainInvokeEvent) => exclusiveInstall(async install => {
+    try {
+      const manifestResult = await loadManifestData();
+      if ('error' in manifestResult) {
+        return manifestResult;
+      }
+
+      const entries = await getLedger().getLastSessionEntries();
+      if (entries.length === 0) {
+        return { error: 'The last installation did not add any tools' };
+      }
+
+      const targets = entries.map(entry => ({
+        toolId: entry.toolId,
+        name: entry.name,
+        command: entry.uninstallCommand
+      }));
+      const results = await runUninstall(event, install, targets, manifestResult);
+      const summary = summarizeInstallResults(results, 0, targets.length);
 
       return { success: true, summary, results };
     } catch (error) {
       return handleError(error);
     }
-  });
+  }));
 
   // Check prerequisites
   ipcMain.handle('check-prerequisites', async () => {
     try {
-      const platform = process.platform;
-      const packageManagers: Record<string, string> = {
-        darwin: 'brew',
-        win32: 'choco',
-        linux: 'apt-get'
+      const detection = await getPackageManagers();
+      const manager = detection.primary ? getPackageManager(detection.primary) : null;
+
+      return {
+        platform: detection.platform,
+        packageManager: manager?.executable ?? 'unknown',
+        packageManagerName: manager?.name,
+        available: manager ? detection.available.includes(manager.id) : false,
+        fallbacks: detection.fallbacks,
+        distribution: detection.distribution?.name
       };
-      
-      const manager = packageManagers[platform] || 'unknown';
-      
-      try {
-        await execAsync(`${manager} --version`);
-        return {
-          platform,
-          packageManager: manager,
-          available: true
-        };
-      } catch {
-        return {
-          platform,
-          packageManager: manager,
-          available: false
-        };
-      }
     } catch (error) {
       return handleError(error);
     }
@@ -280,13 +555,8 @@ export function registerSimpleHandlers(): void {
         return manifestResult;
       }
 
-      // Filter tools if specific IDs provided
-      const toolsToCheck = toolIds 
-        ? manifestResult.tools.filter(tool => toolIds.includes(tool.id))
-        : manifestResult.tools;
-
-      // Detect tools
-      const detectionResults = await toolDetectionService.detectMultipleTools(toolsToCheck);
+      // Any tool a detector handles can be asked for; by default, the manifest's tools
+      const detectionResults = await detectorRegistry.detect(toolIds ?? manifestResult.tools.map(tool => tool.id));
       
       return { 
         success: true, 
@@ -326,84 +596,958 @@ export function registerSimpleHandlers(): void {
     toolId?: string
   ) => {
     try {
-      toolDetectionService.clearCache(toolId);
+      await detectorRegistry.clearCache(toolId);
+      if (!toolId) {
+        upgradeDetectionService.clearCache();
+      }
       return { success: true };
     } catch (error) {
       return handleError(error);
     }
   });
 
-  // Get job roles
-  ipcMain.handle('get-job-roles', async () => {
+  // Inspect the detection cache; entries are stale once a tool's fingerprint changed
+  ipcMain.handle('detection-cache:get', async () => {
     try {
-      const jobRolePath = path.join(__dirname, '../src/data/job-role-configs.ts');
-      const content = await fs.readFile(jobRolePath, 'utf-8');
-      
-      // Extract the job roles array
-      const rolesMatch = content.match(/export const jobRoleConfigs[^=]*=\s*(\[[\s\S]*?\]);/);
-      if (!rolesMatch) {
-        throw new Error('Could not parse job roles file');
+      const catalog = await loadLayeredCatalog();
+      const entries = await toolDetectionService.getCacheStatus(catalog.manifest.tools);
+      return { success: true, entries };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  // Run the environment health checks
+  ipcMain.handle('doctor:run', async (
+    _event: IpcMainInvokeEvent,
+    checks?: DoctorCheckId[]
+  ) => {
+    try {
+      const report = await getDoctor().run(checks);
+      return { success: true, report };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  // Apply the automated fix of a finding from the last doctor run
+  ipcMain.handle('doctor:fix', async (
+    _event: IpcMainInvokeEvent,
+    findingId: string
+  ) => {
+    try {
+      const result = await getDoctor().applyFix(findingId);
+      if (result.applied) {
+        // PATH changes can change which executable detection finds
+        await detectorRegistry.clearCache();
       }
-      
-      const roles = new Function(`return ${rolesMatch[1]}`)();
-      return { success: true, roles };
+      return { success: true, result };
     } catch (error) {
       return handleError(error);
     }
   });
 
-  // Version management placeholder
-  ipcMain.handle('version-manager:list', async () => {
-    return { success: true, managers: [] };
+  // Export the machine inventory to a file the user picks
+  ipcMain.handle('inventory:export', async (
+    event: IpcMainInvokeEvent,
+    format: InventoryFormat,
+    redaction: InventoryRedaction
+  ) => {
+    try {
+      const extensions: Record<InventoryFormat, string> = { json: 'json', markdown: 'md', csv: 'csv' };
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options = {
+        title: 'Export Machine Inventory',
+        defaultPath: path.join(app.getPath('documents'), `machine-inventory.${extensions[format]}`),
+        filters: [{ name: format.toUpperCase(), extensions: [extensions[format]] }]
+      };
+      const { canceled, filePath } = window
+        ? await dialog.showSaveDialog(window, options)
+        : await dialog.showSaveDialog(options);
+      if (canceled || !filePath) {
+        return { success: false, cancelled: true };
+      }
+
+      const inventory = await collectInventory();
+      const report = Object.values(redaction).some(Boolean) ? redactInventory(inventory, redaction) : inventory;
+      await fs.writeFile(filePath, formatInventory(report, format), 'utf-8');
+      return { success: true, filePath };
+    } catch (error) {
+      return handleError(error);
+    }
   });
 
-  ipcMain.handle('version-manager:detect', async () => {
-    return { success: true, detected: [] };
+  // Compare this machine with the saved baseline; no report until a baseline is saved
+  ipcMain.handle('drift:check', async () => {
+    try {
+      const baseline = await getBaselineStore().load();
+      if (!baseline) {
+        return { success: true, report: null };
+      }
+      const report = compareInventories(baseline, await collectInventory());
+      return { success: true, report };
+    } catch (error) {
+      return handleError(error);
+    }
   });
-}
 
-/**
- * Load manifest data helper
- */
-async function loadManifestData(): Promise<SimpleManifest | { error: string }> {
-  try {
-    // Fix path - in compiled output, __dirname is dist-electron/electron
-    const manifestPath = path.join(__dirname, '../src/shared/default-tools.json');
-    console.log('Loading manifest from:', manifestPath);
-    const content = await fs.readFile(manifestPath, 'utf-8');
-    const manifest: SimpleManifest = JSON.parse(content);
-    console.log('Loaded manifest with', manifest.tools.length, 'tools');
-    return manifest;
-  } catch (error) {
-    console.error('Failed to load manifest:', error);
-    return handleError(error);
-  }
-}
+  // Save this machine's current inventory as the drift baseline
+  ipcMain.handle('drift:save-baseline', async () => {
+    try {
+      const inventory = await collectInventory();
+      await getBaselineStore().save(inventory);
+      return { success: true, generatedAt: inventory.generatedAt };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  // Check installed tools for newer versions in their package manager
+  ipcMain.handle('tools:check-updates', async (
+    _event: IpcMainInvokeEvent,
+    toolIds?: string[]
+  ) => {
+    try {
+      const manifestResult = await loadManifestData();
+      if ('error' in manifestResult) {
+        return manifestResult;
+      }
+
+      const toolsToCheck = toolIds
+        ? manifestResult.tools.filter(tool => toolIds.includes(tool.id))
+        : manifestResult.tools;
+
+      const detections = await toolDetectionService.detectMultipleTools(toolsToCheck);
+      const results = await upgradeDetectionService.annotateDetections(
+        detections,
+        toolsToCheck,
+        process.platform as 'darwin' | 'win32' | 'linux',
+        await getPackageManagers()
+      );
+
+      return { success: true, results };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  // Upgrade tools through the package manager that provides them
+  ipcMain.handle('upgrade-tools', (
+    event: IpcMainInvokeEvent,
+    toolIds: string[]
+  ) => exclusiveInstall(async install => {
+    try {
+      const manifestResult = await loadManifestData();
+      if ('error' in manifestResult) {
+        return manifestResult;
+      }
+
+      const platform = process.platform as 'darwin' | 'win32' | 'linux';
+      const packageManagers = await getPackageManagers();
+      const targets = manifestResult.tools
+        .filter(tool => toolIds.includes(tool.id))
+        .map(tool => ({
+          toolId: tool.id,
+          name: tool.name,
+          command: getUpgradeCommand(tool, platform, packageManagers)
+        }));
+
+      const results = await runToolCommands(event, install, targets, {
+        verb: 'upgrade',
+        progressVerb: 'Upgrading',
+        pastVerb: 'Upgraded'
+      });
+      upgradeDetectionService.clearCache();
+      const summary = summarizeInstallResults(results, 0, toolIds.length);
+
+      return { success: true, summary, results };
+    } catch (error) {
+      return handleError(error);
+    }
+  }));
+
+  // Get job roles
+  ipcMain.handle('get-job-roles', async () => {
+    try {
+      const jobRolePath = path.join(__dirname, '../src/data/job-role-configs.ts');
+      const content = await fs.readFile(jobRolePath, 'utf-8');
+      
+      // Extract the job roles array
+      const rolesMatch = content.match(/export const jobRoleConfigs[^=]*=\s*(\[[\s\S]*?\]);/);
+      if (!rolesMatch) {
+        throw new Error('Could not parse job roles file');
+      }
+      
+      const roles = new Function(`return ${rolesMatch[1]}`)();
+      return { success: true, roles };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  // Version managers supported on this platform, whether installed or not
+  ipcMain.handle('version-manager:list', async () => {
+    try {
+      const engine = getVersionEngine();
+      const available = new Set((await engine.getAvailableManagers()).map(manager => manager.type));
+      const recommended = new Set(engine.getManagers().flatMap(manager =>
+        manager.capabilities.supportedTools.map(tool => getVersionManagerFactory().getRecommendedManager(tool))));
+
+      const managers = engine.getManagers().map(manager => ({
+        type: manager.type,
+        ...VERSION_MANAGER_INFO[manager.type],
+        isInstalled: available.has(manager.type),
+        isRecommended: recommended.has(manager.type),
+        supportedTools: [...manager.capabilities.supportedTools]
+      }));
+      return { success: true, managers };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  // Installed managers with their status, and which manager owns each tool they support
+  ipcMain.handle('version-manager:detect', async () => {
+    try {
+      const engine = getVersionEngine();
+      engine.refresh();
+      const managers = await engine.detectExistingManagers();
+      const tools = [...new Set(managers.flatMap(manager => manager.capabilities.supportedTools))];
+      const ownership = await Promise.all(tools.map(tool => engine.getToolOwnership(tool)));
+
+      return {
+        success: true,
+        detected: managers.map(manager => ({ type: manager.type, status: manager.status })),
+        ownership: ownership.filter(owner => owner !== null)
+      };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  ipcMain.handle('version-manager:check-installed', async (
+    _event: IpcMainInvokeEvent,
+    managerType: VersionManagerType
+  ) => {
+    try {
+      const manager = getVersionEngine().getManager(managerType);
+      return { success: true, isInstalled: manager ? await manager.isAvailable() : false };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  // Installed versions of a tool with the manager that owns it, optionally with installable ones
+  ipcMain.handle('version-manager:list-versions', async (
+    _event: IpcMainInvokeEvent,
+    tool: VersionedTool,
+    includeAvailable = false
+  ) => {
+    try {
+      const engine = getVersionEngine();
+      const [ownership, versions, available] = await Promise.all([
+        engine.getToolOwnership(tool),
+        engine.getToolVersions(tool),
+        includeAvailable ? engine.getAvailableToolVersions(tool) : Promise.resolve([])
+      ]);
+      return { success: true, manager: ownership?.manager, versions, available };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  ipcMain.handle('version-manager:current-version', async (
+    _event: IpcMainInvokeEvent,
+    tool: VersionedTool
+  ) => {
+    try {
+      const current = await getVersionEngine().getCurrentToolVersion(tool);
+      return { success: true, version: current?.version };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  // Install a version with the tool's manager. Without one, names the manager that would be
+  // set up and installs it only when the renderer confirms with installManager.
+  // Progress is sent as 'version-manager:progress' events.
+  ipcMain.handle('version-manager:install-version', async (
+    event: IpcMainInvokeEvent,
+    tool: VersionedTool,
+    version: string,
+    installManager = false
+  ) => {
+    if (!installManager) {
+      try {
+        const required = await getVersionEngine().getManagerToInstall(tool);
+        if (required) {
+          return {
+            success: false,
+            managerRequired: required.type,
+            error: `${VERSION_MANAGER_INFO[required.type].name} must be installed before ${tool} ${version}`
+          };
+        }
+      } catch (error) {
+        return handleError(error);
+      }
+    }
+    return runVersionOperation(version, () => getVersionEngine().installToolVersion(tool, version, {
+      onProgress: progress => event.sender.send('version-manager:progress', progress)
+    }));
+  });
+
+  ipcMain.handle('version-manager:uninstall-version', async (
+    _event: IpcMainInvokeEvent,
+    tool: VersionedTool,
+    version: string
+  ) => {
+    return runVersionOperation(version, () => getVersionEngine().uninstallToolVersion(tool, version));
+  });
+
+  ipcMain.handle('version-manager:set-global', async (
+    _event: IpcMainInvokeEvent,
+    tool: VersionedTool,
+    version: string
+  ) => {
+    return runVersionOperation(version, () => getVersionEngine().switchToolVersion(tool, version, 'global'));
+  });
+
+  ipcMain.handle('version-manager:set-local', async (
+    _event: IpcMainInvokeEvent,
+    tool: VersionedTool,
+    version: string,
+    projectRoot: string
+  ) => {
+    if (!path.isAbsolute(projectRoot ?? '')) {
+      return { success: false, error: 'The project directory must be an absolute path' };
+    }
+    return runVersionOperation(version, () => getVersionEngine().setLocalToolVersion(tool, version, projectRoot));
+  });
+
+  // What moving nvm, pyenv and rbenv runtimes to mise would do
+  ipcMain.handle('version-manager:migration-plan', async (
+    _event: IpcMainInvokeEvent,
+    options: MigrationOptions = {}
+  ) => {
+    try {
+      if (!(options.projectRoots ?? []).every(root => path.isAbsolute(root))) {
+        return { success: false, error: 'Project directories must be absolute paths' };
+      }
+      return { success: true, plan: await getMigrationAssistant().plan(options) };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  ipcMain.handle('version-manager:migrate', async (
+    _event: IpcMainInvokeEvent,
+    options: MigrationOptions = {}
+  ) => {
+    try {
+      if (!(options.projectRoots ?? []).every(root => path.isAbsolute(root))) {
+        return { success: false, error: 'Project directories must be absolute paths' };
+      }
+      const report = await getMigrationAssistant().migrate(options);
+      // Tools the old managers owned now belong to mise
+      getVersionEngine().refresh();
+      await clearVersionDetections();
+      return { success: true, report };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  // Undo the last migration, from this run or an earlier one
+  ipcMain.handle('version-manager:migration-rollback', async () => {
+    try {
+      const report = await getMigrationAssistant().rollback();
+      getVersionEngine().refresh();
+      await clearVersionDetections();
+      return { success: true, report };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+
+  ipcMain.handle('version-manager:migration-report', async () => {
+    try {
+      return { success: true, report: await getMigrationAssistant().getLastReport() };
+    } catch (error) {
+      return handleError(error);
+    }
+  });
+}
+
+// Versions are passed to the manager as arguments; anything else could be read as a flag
+const VERSION_ARGUMENT = /^[A-Za-z0-9][\w.+-]*$/;
 
 /**
- * Get install command for a tool on a platform
+ * Forget detected tools after a version manager changes what its shims run. PATH and the
+ * shims stay the same, so the cached detections would otherwise still look current.
  */
-function getInstallCommand(tool: SimpleTool, platform: 'darwin' | 'win32' | 'linux'): string | null {
-  // Check for custom install command first
-  if (tool.customInstall?.[platform]) {
-    return tool.customInstall[platform];
+async function clearVersionDetections(): Promise<void> {
+  await detectorRegistry.clearCache();
+  upgradeDetectionService.clearCache();
+}
+
+/**
+ * Run a version operation for the renderer, rejecting malformed versions
+ */
+async function runVersionOperation(
+  version: string,
+  operation: () => Promise<IVersionOperationResult>
+): Promise<{ success: boolean; result?: IVersionOperationResult; error?: string }> {
+  if (typeof version !== 'string' || !VERSION_ARGUMENT.test(version)) {
+    return { success: false, error: `Invalid version: ${version}` };
   }
-  
-  // Check for package name
-  const packageName = tool.packageNames?.[platform];
-  if (!packageName) {
-    return null;
+  try {
+    const result = await operation();
+    if (result.success) {
+      await clearVersionDetections();
+    }
+    return { success: result.success, result, error: result.success ? undefined : result.error ?? result.message };
+  } catch (error) {
+    return { success: false, ...handleError(error) };
   }
-  
-  // Generate package manager command based on platform
-  switch (platform) {
-    case 'darwin':
-      return `brew install ${packageName}`;
-    case 'win32':
-      return `choco install -y ${packageName}`;
-    case 'linux':
-      return `sudo apt-get install -y ${packageName}`;
+}
+
+/**
+ * Load manifest data helper
+ */
+async function loadManifestData(): Promise<SimpleManifest | { error: string }> {
+  try {
+    const catalog = await loadLayeredCatalog();
+    console.log('Loaded manifest with', catalog.manifest.tools.length, 'tools from', catalog.sources.length, 'files');
+    return catalog.manifest;
+  } catch (error) {
+    console.error('Failed to load manifest:', error);
+    return handleError(error);
+  }
+}
+
+/**
+ * Merge the built-in manifest with the organization, team and user overlays.
+ * Overlays that aren't signed by a trusted publisher or approved by the user are held back
+ * until the user trusts them. Broken overlays are logged and skipped; a broken built-in
+ * manifest is an error.
+ */
+async function loadLayeredCatalog(
+  layerFiles?: ManifestLayerFiles[]
+): Promise<ManifestCatalogResult & { untrusted: ManifestTrustCheck[] }> {
+  const untrusted: ManifestTrustCheck[] = [];
+  const trustedLayers = await Promise.all((layerFiles ?? await getManifestLayerFiles()).map(async ({ layer, filePaths }) => {
+    if (layer === 'builtin') {
+      return { layer, filePaths };
+    }
+    const checks = await Promise.all(filePaths.map(filePath => getManifestTrustStore().check(filePath)));
+    untrusted.push(...checks.filter(check => !isManifestTrusted(check)));
+    return { layer, filePaths: checks.filter(isManifestTrusted).map(check => check.filePath) };
+  }));
+
+  const catalog = await getManifestCatalog().loadLayers(trustedLayers);
+  const builtinPath = getBuiltinManifestPath();
+  for (const { filePath, errors } of catalog.errors) {
+    if (filePath === builtinPath) {
+      throw new Error(`Invalid built-in manifest: ${errors.join('; ')}`);
+    }
+    console.warn(`Skipping manifest ${filePath}: ${errors.join('; ')}`);
+  }
+  for (const check of untrusted) {
+    console.warn(`Skipping manifest ${check.filePath}: ${describeUntrustedManifest(check)}`);
+  }
+  return { ...catalog, untrusted };
+}
+
+function describeUntrustedManifest(check: ManifestTrustCheck): string {
+  switch (check.status) {
+    case 'invalid-signature':
+      return 'its signature does not match its content or the trusted publisher key';
+    case 'unknown-publisher':
+      return `it is signed by ${check.publisher}, who is not a trusted publisher`;
     default:
-      return null;
+      return 'it is not signed and has not been trusted';
+  }
+}
+
+const OVERLAY_LAYERS = MANIFEST_LAYERS.filter(layer => layer !== 'builtin');
+
+function getBuiltinManifestPath(): string {
+  // In compiled output, __dirname is dist-electron/electron
+  return path.join(__dirname, '../src/shared/default-tools.json');
+}
+
+/**
+ * Overlay manifests live in userData/manifests/<layer>, e.g. a team manifest synced by IT
+ */
+function getManifestLayerDir(layer: ManifestLayerName): string {
+  return path.join(app.getPath('userData'), 'manifests', layer);
+}
+
+/**
+ * Manifest files for every layer, in merge order. Missing layer directories are empty layers.
+ */
+async function getManifestLayerFiles(): Promise<ManifestLayerFiles[]> {
+  const overlays = await Promise.all(OVERLAY_LAYERS.map(async layer => ({
+    layer,
+    filePaths: await discoverManifests(getManifestLayerDir(layer)).catch(() => [])
+  })));
+  return [{ layer: 'builtin', filePaths: [getBuiltinManifestPath()] }, ...overlays];
+}
+
+/**
+ * An install, uninstall or upgrade run, with the executor running its commands
+ */
+interface ActiveInstall {
+  cancelRequested: boolean;
+  executor: ICommandExecutor;
+  pid?: number;
+}
+
+/**
+ * The installation currently running, if any
+ */
+let activeInstall: ActiveInstall | null = null;
+
+/**
+ * Run an install-like operation unless another one is running.
+ * The slot is taken before anything is awaited, so two requests can't both get it.
+ */
+async function exclusiveInstall<T>(operation: (install: ActiveInstall) => Promise<T>): Promise<T | { error: string }> {
+  if (activeInstall) {
+    return { error: 'An installation is already running' };
+  }
+
+  const install: ActiveInstall = { cancelRequested: false, executor: createCommandExecutor() };
+  activeInstall = install;
+  try {
+    return await operation(install);
+  } finally {
+    activeInstall = null;
+  }
+}
+
+let sessionStore: InstallSessionStore | null = null;
+
+let ledger: InstallLedger | null = null;
+
+let manifestCatalog: ManifestCatalog | null = null;
+
+let manifestTrustStore: ManifestTrustStore | null = null;
+
+let packageManagerDetection: Promise<PackageManagerDetectionResult> | null = null;
+
+let doctor: EnvironmentDoctor | null = null;
+
+let baselineStore: InventoryBaselineStore | null = null;
+
+let versionEngine: VersionManagementEngine | null = null;
+
+let versionManagerFactory: VersionManagerFactory | null = null;
+
+let migrationAssistant: MiseMigrationAssistant | null = null;
+
+/**
+ * Package managers for this machine, detected once per app run
+ */
+function getPackageManagers(): Promise<PackageManagerDetectionResult> {
+  if (!packageManagerDetection) {
+    packageManagerDetection = detectPackageManagers(process.platform as 'darwin' | 'win32' | 'linux');
+  }
+  return packageManagerDetection;
+}
+
+/**
+ * Environment doctor, kept so fixes apply to the findings of its last run.
+ * Shell integrations come from the workspace configuration in the home directory.
+ */
+function getDoctor(): EnvironmentDoctor {
+  if (!doctor) {
+    doctor = new EnvironmentDoctor({ detectPackageManagers: getPackageManagers }, app.getPath('home'));
+  }
+  return doctor;
+}
+
+/**
+ * Baseline in ~/.hatstart, shared with `workspace drift` so scheduled checks use the same one
+ */
+function getBaselineStore(): InventoryBaselineStore {
+  if (!baselineStore) {
+    baselineStore = new InventoryBaselineStore();
+  }
+  return baselineStore;
+}
+
+/**
+ * The engine behind every version-manager channel, so tool ownership is resolved once
+ */
+function getVersionEngine(): VersionManagementEngine {
+  if (!versionEngine) {
+    versionEngine = new VersionManagementEngine(getVersionManagerFactory());
+  }
+  return versionEngine;
+}
+
+function getVersionManagerFactory(): VersionManagerFactory {
+  if (!versionManagerFactory) {
+    versionManagerFactory = new VersionManagerFactory();
+  }
+  return versionManagerFactory;
+}
+
+/**
+ * Migration to mise, using the engine's adapters. Kept so rollback undoes its last migration;
+ * the report is also saved in ~/.hatstart for after a restart.
+ */
+function getMigrationAssistant(): MiseMigrationAssistant {
+  if (!migrationAssistant) {
+    migrationAssistant = new MiseMigrationAssistant({ getManager: type => getVersionEngine().getManager(type) });
+  }
+  return migrationAssistant;
+}
+
+/**
+ * Inventory of this machine, covering the tools of every trusted manifest layer
+ */
+async function collectInventory(): Promise<MachineInventory> {
+  return collectMachineInventory(createInventorySources(async () => (await loadLayeredCatalog()).manifest.tools));
+}
+
+/**
+ * Session store in the app's user data directory (created lazily, after app ready)
+ */
+function getSessionStore(): InstallSessionStore {
+  if (!sessionStore) {
+    sessionStore = new InstallSessionStore(path.join(app.getPath('userData'), 'install-session.json'));
+  }
+  return sessionStore;
+}
+
+/**
+ * Ledger of tools HatStart installed, next to the session store
+ */
+function getLedger(): InstallLedger {
+  if (!ledger) {
+    ledger = new InstallLedger(path.join(app.getPath('userData'), 'install-ledger.json'));
+  }
+  return ledger;
+}
+
+/**
+ * Merged catalog of manifest files, cached in the app's user data directory
+ */
+function getManifestCatalog(): ManifestCatalog {
+  if (!manifestCatalog) {
+    manifestCatalog = new ManifestCatalog(path.join(app.getPath('userData'), 'manifest-cache'));
   }
-}
\ No newline at end of file
+  return manifestCatalog;
+}
+
+/**
+ * Trusted manifest publishers and approved manifest files
+ */
+function getManifestTrustStore(): ManifestTrustStore {
+  if (!manifestTrustStore) {
+    manifestTrustStore = new ManifestTrustStore(path.join(app.getPath('userData'), 'manifest-trust.json'));
+  }
+  return manifestTrustStore;
+}
+
+interface InstallToolResult {
+  success: boolean;
+  skipped?: boolean;
+  cancelled?: boolean;
+  tool: string;
+  message: string;
+}
+
+/**
+ * Summarize install results for the renderer
+ */
+function summarizeInstallResults(results: InstallToolResult[], alreadyInstalled: number, total: number) {
+  return {
+    total,
+    successful: results.filter(r => r.success).length,
+    failed: results.filter(r => !r.success).length,
+    alreadyInstalled,
+    failures: results.filter(r => !r.success).map(r => ({
+      tool: r.tool,
+      error: r.message
+    }))
+  };
+}
+
+/**
+ * Install the given plan steps in order, recording progress in the session.
+ * Dependents of failed tools are skipped; a cancel request stops before the next tool.
+ */
+async function runInstallSession(
+  event: IpcMainInvokeEvent,
+  install: ActiveInstall,
+  session: InstallSession,
+  steps: InstallPlanStep[],
+  manifest: SimpleManifest
+): Promise<{ results: InstallToolResult[]; alreadyInstalled: number }> {
+  const store = getSessionStore();
+  const platform = process.platform as 'darwin' | 'win32' | 'linux';
+  const packageManagers = await getPackageManagers();
+  const toolMap = new Map(manifest.tools.map(tool => [tool.id, tool]));
+  const results: InstallToolResult[] = [];
+  let alreadyInstalled = 0;
+
+  const record = async (result: InstallToolResult, state: InstallSessionToolState) => {
+    results.push(result);
+    updateToolState(session, result.tool, state, result.message);
+    await store.save(session);
+  };
+
+  await store.save(session);
+
+  // Install each tool, skipping dependents of anything that failed
+  await walkInstallPlan(steps, async (step, failedPrerequisite, i) => {
+    const tool = toolMap.get(step.toolId)!;
+    const progress = ((i + 1) / steps.length) * 100;
+
+    if (install.cancelRequested) {
+      await record({ success: false, cancelled: true, tool: tool.id, message: `Cancelled before installing ${tool.name}` }, 'cancelled');
+      return false;
+    }
+
+    if (failedPrerequisite) {
+      await record({
+        success: false,
+        skipped: true,
+        tool: tool.id,
+        message: `Skipped ${tool.name}: prerequisite ${toolMap.get(failedPrerequisite)?.name ?? failedPrerequisite} was not installed`
+      }, 'skipped');
+      return false;
+    }
+
+    updateToolState(session, tool.id, 'running');
+    await store.save(session);
+
+    // Send progress update
+    event.sender.send('installation-progress', {
+      message: `Checking ${tool.name}...`,
+      progress: progress * 0.3 // 30% for checking
+    });
+
+    // Check if already installed (at the pinned and minimum versions, if any)
+    const detection = await toolDetectionService.detectTool(tool);
+    if (isInstalledAsRequired(tool, detection)) {
+      console.log(`install-tools: ${tool.name} is already installed (version: ${detection.version})`);
+      alreadyInstalled++;
+      await record({
+        success: true,
+        tool: tool.id,
+        message: `${tool.name} is already installed${detection.version ? ` (version ${detection.version})` : ''}`
+      }, 'already-installed');
+      return true;
+    }
+
+    // Send progress update
+    event.sender.send('installation-progress', {
+      message: `Installing ${tool.name}...`,
+      progress: progress * 0.6 + 30 // 60% for installing + 30% from checking
+    });
+
+    try {
+      // Get install command based on platform
+      const command = getInstallCommand(tool, platform, packageManagers);
+      console.log(`install-tools: Installing ${tool.name} with command: ${command}`);
+      if (!command) {
+        await record({
+          success: false,
+          tool: tool.id,
+          message: `No installation method for ${tool.name} on ${platform}`
+        }, 'failed');
+        return false;
+      }
+
+      // Install scripts run from a local copy that matched its checksum, never straight from the network
+      const script = getInstallScript(tool, platform);
+      const scriptPath = script ? await downloadInstallScript(script, platform) : null;
+
+      // Execute installation, streaming output to the renderer line by line
+      let execution: CommandExecutionResult;
+      try {
+        execution = await runInstallCommand(scriptPath ? getScriptCommand(scriptPath, platform, script!.args) : command, platform, {
+          toolId: tool.id,
+          onLog: entry => event.sender.send('installation-log', entry),
+          onSpawn: pid => {
+            install.pid = pid;
+          }
+        }, install.executor);
+      } finally {
+        if (scriptPath) await removeInstallScript(scriptPath);
+      }
+      install.pid = undefined;
+
+      // Clear cache for this tool so next detection is fresh
+      await toolDetectionService.clearCache(tool.id);
+
+      if (install.cancelRequested && !execution.success) {
+        await record({ success: false, cancelled: true, tool: tool.id, message: `Cancelled while installing ${tool.name}` }, 'cancelled');
+        return false;
+      }
+      if (!execution.success) {
+        throw new Error(getFailureReason(execution));
+      }
+
+      // Only tools installed here go in the ledger, so rollback never removes pre-existing ones
+      const resolved = hasCustomInstall(tool, platform) ? null : resolvePackage(tool, platform, packageManagers);
+      await getLedger().record({
+        toolId: tool.id,
+        name: tool.name,
+        sessionId: session.id,
+        platform,
+        installedAt: new Date().toISOString(),
+        installCommand: command,
+        uninstallCommand: getUninstallCommand(tool, platform, packageManagers),
+        packageManager: resolved?.manager
+      });
+
+      // Package managers can quietly install another version than the one asked for
+      if (tool.version) {
+        // Keg-only versioned formulae aren't on PATH, so ask the package manager for them
+        const kegOnlyProbe = resolved && getKegOnlyProbe(resolved);
+        const installed = await toolDetectionService.detectTool(kegOnlyProbe ? { ...tool, detection: { probes: [kegOnlyProbe] } } : tool);
+        if (!satisfiesToolVersion(tool, installed.version)) {
+          throw new Error(installed.version
+            ? `installed version ${installed.version} does not satisfy ${tool.version}`
+            : `could not verify version ${tool.version}`);
+        }
+      }
+
+      await record({
+        success: true,
+        tool: tool.id,
+        message: `Successfully installed ${tool.name}${tool.version ? ` (version ${tool.version})` : ''}`
+      }, 'installed');
+      return true;
+    } catch (error) {
+      await record({
+        success: false,
+        tool: tool.id,
+        message: `Failed to install ${tool.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }, 'failed');
+      return false;
+    }
+  });
+
+  finishInstallSession(session, install.cancelRequested ? 'cancelled' : 'completed');
+  await store.save(session);
+
+  return { results, alreadyInstalled };
+}
+
+interface ToolCommandTarget {
+  toolId: string;
+  name: string;
+  command: string | null;
+}
+
+/**
+ * Wording and hooks for a batch of per-tool commands (uninstall, upgrade)
+ */
+interface ToolCommandOperation {
+  verb: string;
+  progressVerb: string;
+  pastVerb: string;
+  // Returns a result to record instead of running the command
+  beforeRun?: (target: ToolCommandTarget) => Promise<InstallToolResult | null>;
+  onSuccess?: (target: ToolCommandTarget) => Promise<void>;
+}
+
+/**
+ * Run one command per tool in the given order, streaming output like an install.
+ * A cancel request stops before the next tool.
+ */
+async function runToolCommands(
+  event: IpcMainInvokeEvent,
+  install: ActiveInstall,
+  targets: ToolCommandTarget[],
+  operation: ToolCommandOperation
+): Promise<InstallToolResult[]> {
+  const platform = process.platform as 'darwin' | 'win32' | 'linux';
+  const results: InstallToolResult[] = [];
+
+  for (let i = 0; i < targets.length; i++) {
+    const target = targets[i];
+
+    if (install.cancelRequested) {
+      results.push({ success: false, cancelled: true, tool: target.toolId, message: `Cancelled before ${operation.progressVerb.toLowerCase()} ${target.name}` });
+      continue;
+    }
+
+    event.sender.send('installation-progress', {
+      message: `${operation.progressVerb} ${target.name}...`,
+      progress: (i / targets.length) * 100
+    });
+
+    const earlyResult = await operation.beforeRun?.(target);
+    if (earlyResult) {
+      results.push(earlyResult);
+      continue;
+    }
+
+    if (!target.command) {
+      results.push({ success: false, tool: target.toolId, message: `No ${operation.verb} method for ${target.name} on ${platform}` });
+      continue;
+    }
+
+    const execution = await runInstallCommand(target.command, platform, {
+      toolId: target.toolId,
+      onLog: entry => event.sender.send('installation-log', entry),
+      onSpawn: pid => {
+        install.pid = pid;
+      }
+    }, install.executor);
+    install.pid = undefined;
+    await toolDetectionService.clearCache(target.toolId);
+
+    if (execution.success) {
+      await operation.onSuccess?.(target);
+      results.push({ success: true, tool: target.toolId, message: `${operation.pastVerb} ${target.name}` });
+    } else if (install.cancelRequested) {
+      results.push({ success: false, cancelled: true, tool: target.toolId, message: `Cancelled while ${operation.progressVerb.toLowerCase()} ${target.name}` });
+    } else {
+      const reason = getFailureReason(execution);
+      results.push({ success: false, tool: target.toolId, message: `Failed to ${operation.verb} ${target.name}: ${reason}` });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Uninstall tools, dropping them from the ledger once removed.
+ * Tools that are already gone are dropped without running anything.
+ */
+function runUninstall(
+  event: IpcMainInvokeEvent,
+  install: ActiveInstall,
+  targets: ToolCommandTarget[],
+  manifest: SimpleManifest
+): Promise<InstallToolResult[]> {
+  const toolMap = new Map(manifest.tools.map(tool => [tool.id, tool]));
+
+  return runToolCommands(event, install, targets, {
+    verb: 'remove',
+    progressVerb: 'Removing',
+    pastVerb: 'Removed',
+    beforeRun: async target => {
+      const tool = toolMap.get(target.toolId);
+      if (!tool) {
+        return null;
+      }
+      await toolDetectionService.clearCache(tool.id);
+      const detection = await toolDetectionService.detectTool(tool);
+      if (detection.installed) {
+        return null;
+      }
+      await getLedger().remove(target.toolId);
+      return { success: true, tool: target.toolId, message: `${target.name} is not installed` };
+    },
+    onSuccess: target => getLedger().remove(target.toolId)
+  });
+}
@@ -0,0 +1,20 @@
+/**
+ * Writes schemas/simple-manifest.schema.json and the overlay schema for organization,
+ * team and user manifests from the schemas the validator uses.
+ * Run with `npm run schema:generate` after changing SimpleTool.
+ */
+
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { buildManifestSchema } from '../src/shared/simple-manifest-schema';
+
+const outputs = {
+  'simple-manifest.schema.json': buildManifestSchema('complete'),
+  'simple-manifest-overlay.schema.json': buildManifestSchema('overlay')
+};
+
+for (const [fileName, schema] of Object.entries(outputs)) {
+  const outputPath = resolve(__dirname, '../schemas', fileName);
+  writeFileSync(outputPath, JSON.stringify(schema, null, 2) + '\n', 'utf-8');
+  console.log(`Wrote ${outputPath}`);
+}
@@ -0,0 +1,52 @@
+/**
+ * Lints manifest files as one catalog, e.g. in a manifest repository's CI:
+ *   npm run manifest:lint -- [--json] [--layer=organization|team|user] [files...]
+ * Files are overlays of the given layer (organization by default), merged in the order given
+ * on top of the built-in manifest the way the app loads them; without files the built-in
+ * manifest is linted on its own.
+ * Exits with 1 when there are errors, so warnings alone don't fail a build.
+ */
+
+import { resolve } from 'path';
+import { lintManifestFiles } from '../src/services/manifest-lint';
+import { MANIFEST_LAYERS } from '../src/shared/manifest-layers';
+import type { ManifestLintFinding } from '../src/services/manifest-lint';
+import type { ManifestLayerName } from '../src/shared/manifest-layers';
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const json = args.includes('--json');
+  const layer = (args.find(arg => arg.startsWith('--layer='))?.slice('--layer='.length) ?? 'organization') as ManifestLayerName;
+  if (layer === 'builtin' || !MANIFEST_LAYERS.includes(layer)) {
+    console.error(`Unknown overlay layer "${layer}"; use organization, team or user`);
+    return 2;
+  }
+  const files = args.filter(arg => !arg.startsWith('--'));
+
+  const report = await lintManifestFiles([
+    { layer: 'builtin', filePaths: [resolve(__dirname, '../src/shared/default-tools.json')] },
+    { layer, filePaths: files.map(file => resolve(file)) }
+  ]);
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    report.findings.forEach(finding => console.log(formatFinding(finding)));
+    console.log(`${report.errorCount} errors, ${report.warningCount} warnings`);
+  }
+  return report.errorCount > 0 ? 1 : 0;
+}
+
+// file:line:column: severity [rule] tool: message
+function formatFinding(finding: ManifestLintFinding): string {
+  const location = [finding.filePath ?? 'catalog', finding.line, finding.column].filter(part => part !== undefined).join(':');
+  const tool = finding.toolId ? `${finding.toolId}: ` : '';
+  return `${location}: ${finding.severity} [${finding.rule}] ${tool}${finding.message}`;
+}
+
+main().then(code => {
+  process.exitCode = code;
+}, error => {
+  console.error(error);
+  process.exitCode = 2;
+});
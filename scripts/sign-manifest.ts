@@ -0,0 +1,29 @@
+/**
+ * Signs a manifest for publishing, writing the detached signature next to it:
+ *   npm run manifest:sign -- <manifest> --key <ed25519-private.pem> --publisher <id>
+ * Create a key with `openssl genpkey -algorithm ed25519 -out private.pem`. Users who add
+ * the publisher to their keyring can load the manifest without a trust prompt.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { getKeyFingerprint, signManifest, SIGNATURE_EXTENSION } from '../src/services/manifest-trust';
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const manifestPath = process.argv.slice(2).find((arg, index, args) => !arg.startsWith('--') && !args[index - 1]?.startsWith('--'));
+const keyPath = option('key');
+const publisher = option('publisher');
+
+if (!manifestPath || !keyPath || !publisher) {
+  console.error('Usage: npm run manifest:sign -- <manifest> --key <ed25519-private.pem> --publisher <id>');
+  process.exit(1);
+}
+
+const signature = signManifest(readFileSync(resolve(manifestPath)), readFileSync(resolve(keyPath), 'utf-8'), publisher);
+const signaturePath = resolve(manifestPath) + SIGNATURE_EXTENSION;
+writeFileSync(signaturePath, JSON.stringify(signature, null, 2) + '\n', 'utf-8');
+console.log(`Wrote ${signaturePath} (key ${getKeyFingerprint(signature.publicKey)})`);
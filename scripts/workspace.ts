@@ -0,0 +1,14 @@
+/**
+ * Runs the workspace CLI, e.g. to check the environment's health:
+ *   npm run workspace -- doctor [--fix] [--checks package-manager,orphaned-path]
+ * or, from a scheduled job, to alert when the machine drifts from a saved baseline:
+ *   npm run workspace -- drift [baseline-file]   (exit code 1 on drift, 2 on errors)
+ * See `npm run workspace -- help` for the other commands.
+ */
+
+import { runWorkspaceCLI } from '../src/services/workspace-configuration/workspace-cli';
+
+runWorkspaceCLI(process.argv.slice(2)).catch(error => {
+  console.error(error);
+  process.exitCode = 2;
+});
@@ -4,11 +4,26 @@ import { RecommendationPanel } from './components/RecommendationPanel';
 import { SearchFilterPanel } from './components/SearchFilterPanel';
 import { SelectionSummary } from './components/SelectionSummary';
 import { ConflictWarningDialog } from './components/ConflictWarningDialog';
+import { DoctorDialog } from './components/DoctorDialog';
+import { InventoryExportDialog } from './components/InventoryExportDialog';
+import { DriftDialog } from './components/DriftDialog';
+import { DryRunDialog } from './components/DryRunDialog';
+import { InstallLogDrawer } from './components/InstallLogDrawer';
+import { InstallPlanDialog } from './components/InstallPlanDialog';
+import { ManifestTrustDialog } from './components/ManifestTrustDialog';
 import './index.css';
 import { JobRoleConfigService } from './services/job-role-config-service';
 import { JobRoleRecommendationService } from './services/job-role-recommendation-service';
 import { SystemDetectionService } from './services/system-detection-service';
 import { checkForConflicts, type ConflictRule } from './services/conflict-rules';
+import type { DoctorReport } from './services/environment-doctor';
+import type { InventoryFormat, InventoryRedaction } from './services/machine-inventory';
+import type { DriftReport } from './services/inventory-drift';
+import type { DryRunReport } from './services/install-dry-run';
+import type { InstallLogEntry } from './services/install-runner';
+import type { ManifestTrustCheck } from './services/manifest-trust';
+import type { ToolDetectionResult } from './services/tool-detection-service';
+import type { InstallPlan } from './shared/install-planner';
 import type {
   CategoryInfo,
   FilterOptions,
@@ -17,12 +32,65 @@ import type {
   ToolSelection,
   ToolWithStatus
 } from './types/ui-types';
+import type { InstallToolsResult } from './types/electron';
 
 // Initialize services
 const systemDetectionService = new SystemDetectionService();
 const jobRoleRecommendationService = new JobRoleRecommendationService();
 const jobRoleConfigService = new JobRoleConfigService();
 
+// Keep at most this many log lines per tool in memory
+const MAX_LOG_LINES_PER_TOOL = 2000;
+
+interface RollbackTool {
+  toolId: string;
+  name: string;
+}
+
+// Installed tools whose package manager has a newer version, keyed by tool id
+async function fetchUpdates(): Promise<Map<string, ToolDetectionResult>> {
+  try {
+    const result = await window.electronAPI.checkForUpdates();
+    return new Map((result.results || []).map(detection => [detection.toolId, detection]));
+  } catch (err) {
+    console.error('Failed to check for updates:', err);
+    return new Map();
+  }
+}
+
+function applyUpdates(categories: CategoryInfo[], updates: Map<string, ToolDetectionResult>): CategoryInfo[] {
+  return categories.map(category => ({
+    ...category,
+    tools: category.tools.map(tool => ({
+      ...tool,
+      updateAvailable: updates.get(tool.id)?.updateAvailable,
+      latestVersion: updates.get(tool.id)?.latestVersion,
+    })),
+  }));
+}
+
+// Overlay manifests held back until the user trusts them
+async function fetchUntrustedManifests(): Promise<ManifestTrustCheck[]> {
+  try {
+    const result = await window.electronAPI.getManifestLayers();
+    return result.success && result.untrusted ? result.untrusted : [];
+  } catch (err) {
+    console.error('Failed to load manifest layers:', err);
+    return [];
+  }
+}
+
+// Tools the last installation added, which "Roll back last session" would remove
+async function fetchRollbackTools(): Promise<RollbackTool[]> {
+  try {
+    const result = await window.electronAPI.getRollback();
+    return result.success && result.tools ? result.tools : [];
+  } catch (err) {
+    console.error('Failed to load rollback information:', err);
+    return [];
+  }
+}
+
 function App() {
   // Essential state only
   const [categories, setCategories] = useState<CategoryInfo[]>([]);
@@ -52,6 +120,27 @@ function App() {
   });
   const [showConflictDialog, setShowConflictDialog] = useState(false);
   const [conflicts, setConflicts] = useState<ConflictRule[]>([]);
+  const [dryRunReport, setDryRunReport] = useState<DryRunReport | null>(null);
+  const [pendingPlan, setPendingPlan] = useState<{ plan: InstallPlan; toolIds: string[] } | null>(null);
+  const [showDoctor, setShowDoctor] = useState(false);
+  const [doctorReport, setDoctorReport] = useState<DoctorReport | null>(null);
+  const [isDoctorRunning, setIsDoctorRunning] = useState(false);
+  const [fixingFindingId, setFixingFindingId] = useState<string | null>(null);
+  const [showInventoryExport, setShowInventoryExport] = useState(false);
+  const [isExportingInventory, setIsExportingInventory] = useState(false);
+  const [exportedInventoryPath, setExportedInventoryPath] = useState<string | null>(null);
+  const [showDrift, setShowDrift] = useState(false);
+  const [driftReport, setDriftReport] = useState<DriftReport | null>(null);
+  const [isCheckingDrift, setIsCheckingDrift] = useState(false);
+  const [isSavingBaseline, setIsSavingBaseline] = useState(false);
+  const [installLogs, setInstallLogs] = useState<Record<string, InstallLogEntry[]>>({});
+  const [showInstallLogs, setShowInstallLogs] = useState(false);
+  const [interruptedSession, setInterruptedSession] = useState<{
+    remainingToolIds: string[];
+    createdAt: string;
+  } | null>(null);
+  const [rollbackTools, setRollbackTools] = useState<RollbackTool[]>([]);
+  const [untrustedManifests, setUntrustedManifests] = useState<ManifestTrustCheck[]>([]);
   const [expandedCategories, setExpandedCategories] = useState<Set<ToolCategory>>(new Set());
 
   // Load system detection data on mount
@@ -113,9 +202,47 @@ function App() {
       }
     };
 
-    loadSystemData();
+    loadSystemData().then(async () => {
+      // Outdated checks can be slow, so update badges appear after the tool list
+      const updates = await fetchUpdates();
+      setCategories(prev => applyUpdates(prev, updates));
+    });
+  }, []);
+
+  // Offer to resume an installation that was interrupted or cancelled
+  useEffect(() => {
+    const loadInstallSession = async () => {
+      try {
+        const result = await window.electronAPI.getInstallSession();
+        if (result.success && result.session && result.resumable) {
+          setInterruptedSession({
+            remainingToolIds: result.remainingToolIds || [],
+            createdAt: result.session.createdAt,
+          });
+        }
+      } catch (err) {
+        console.error('Failed to load install session:', err);
+      }
+    };
+
+    loadInstallSession();
+    fetchRollbackTools().then(setRollbackTools);
+    fetchUntrustedManifests().then(setUntrustedManifests);
   }, []);
 
+  const handleTrustManifest = async (filePath: string, trustPublisher: boolean) => {
+    const result = await window.electronAPI.trustManifest(filePath, trustPublisher);
+    if (!result.success) {
+      setError(`Failed to trust manifest: ${result.error}`);
+      return;
+    }
+
+    // Trusting a publisher can also trust other manifests it signed
+    setUntrustedManifests(await fetchUntrustedManifests());
+    await systemDetectionService.refreshDetection();
+    setCategories(await systemDetectionService.getCategoriesForUI());
+  };
+
   // Apply job role recommendations when selected role changes
   useEffect(() => {
     if (filterOptions.filterByJobRole && filterOptions.selectedJobRole && categories.length > 0) {
@@ -138,7 +265,7 @@ function App() {
     setSelection(newSelection);
   };
 
-  const handleInstall = async () => {
+  const handleInstall = async (planConfirmed = false) => {
     const toolIds = Array.from(selection.selectedTools);
     console.log('App: Starting installation for tools:', toolIds);
     if (toolIds.length === 0) return;
@@ -152,35 +279,119 @@ function App() {
       return;
     }
 
-    await proceedWithInstallation(toolIds);
+    await proceedWithInstallation(toolIds, planConfirmed);
+  };
+
+  // The resolved order is confirmed first, unless the user just saw it in the dry run
+  const proceedWithInstallation = async (toolIds: string[], planConfirmed = false) => {
+    // Resolve prerequisites and install order before anything runs
+    const planResult = await window.electronAPI.previewInstallPlan(toolIds);
+    if (!planResult.success || !planResult.plan) {
+      setError(planResult.error || 'Could not resolve tool dependencies');
+      return;
+    }
+    if (!planConfirmed) {
+      setPendingPlan({ plan: planResult.plan, toolIds });
+      return;
+    }
+
+    await runInstallation(
+      planResult.plan.steps.map(step => step.toolId),
+      () => window.electronAPI.installTools(toolIds)
+    );
+  };
+
+  const handleConfirmPlan = async () => {
+    if (!pendingPlan) return;
+    const { plan, toolIds } = pendingPlan;
+    setPendingPlan(null);
+
+    await runInstallation(
+      plan.steps.map(step => step.toolId),
+      () => window.electronAPI.installTools(toolIds)
+    );
+  };
+
+  const handleResumeInstallation = async () => {
+    if (!interruptedSession) return;
+    const { remainingToolIds } = interruptedSession;
+    setInterruptedSession(null);
+
+    await runInstallation(remainingToolIds, () => window.electronAPI.resumeInstallation());
+  };
+
+  const handleDiscardSession = async () => {
+    setInterruptedSession(null);
+    await window.electronAPI.discardInstallSession();
+  };
+
+  const handleUpgradeSelected = async (toolIds: string[]) => {
+    await runInstallation(toolIds, () => window.electronAPI.upgradeTools(toolIds), 'upgrade');
+  };
+
+  const handleRollback = async () => {
+    if (rollbackTools.length === 0) return;
+    const names = rollbackTools.map(tool => tool.name).join(', ');
+    if (!window.confirm(`Uninstall the tools added by the last installation?\n\n${names}`)) return;
+
+    await runInstallation(
+      rollbackTools.map(tool => tool.toolId),
+      () => window.electronAPI.rollbackLastSession(),
+      'rollback'
+    );
+  };
+
+  const handleCancelInstallation = async () => {
+    setInstallationProgress(prev => ({ ...prev, currentTool: 'Cancelling...' }));
+    await window.electronAPI.cancelInstallation();
   };
 
-  const proceedWithInstallation = async (toolIds: string[]) => {
+  const runInstallation = async (
+    plannedToolIds: string[],
+    install: () => Promise<InstallToolsResult>,
+    action: 'install' | 'upgrade' | 'rollback' = 'install'
+  ) => {
     setInstallationProgress({
       isInstalling: true,
-      currentTool: 'Preparing installation...',
+      currentTool: `Preparing ${action === 'install' ? 'installation' : action}...`,
       completed: 0,
-      total: toolIds.length,
+      total: plannedToolIds.length,
     });
 
-    try {
-      // Set up progress listener
-      const removeListener = window.electronAPI.onInstallationProgress((progress) => {
-        console.log('App: Installation progress:', progress);
-        setInstallationProgress(prev => ({
-          ...prev,
-          currentTool: progress.message,
-          completed: Math.floor((progress.progress / 100) * prev.total),
-        }));
-      });
+    // Start fresh logs for the tools in this run, keep older ones for troubleshooting
+    setInstallLogs(prev => {
+      const next = { ...prev };
+      plannedToolIds.forEach(toolId => delete next[toolId]);
+      return next;
+    });
+    setShowInstallLogs(true);
+
+    // Set up progress listener
+    const removeListener = window.electronAPI.onInstallationProgress((progress) => {
+      console.log('App: Installation progress:', progress);
+      setInstallationProgress(prev => ({
+        ...prev,
+        currentTool: progress.message,
+        completed: Math.floor((progress.progress / 100) * prev.total),
+      }));
+    });
+
+    // Stream per-tool output into the log drawer
+    const removeLogListener = window.electronAPI.onInstallationLog((entry) => {
+      setInstallLogs(prev => ({
+        ...prev,
+        [entry.toolId]: [...(prev[entry.toolId] || []), entry].slice(-MAX_LOG_LINES_PER_TOOL),
+      }));
+    });
 
+    try {
       // Install tools
-      console.log('App: Calling installTools IPC...');
-      const result = await window.electronAPI.installTools(toolIds);
+      console.log('App: Calling install IPC...');
+      const result = await install();
       console.log('App: Installation result:', result);
       
       if (result.success) {
-        const { summary } = result;
+        const { summary, session } = result;
         
         // Clear detection cache to force refresh
         await window.electronAPI.clearDetectionCache();
@@ -211,9 +422,32 @@ function App() {
         } else {
           setCategories(updatedCategories);
         }
+        const updates = await fetchUpdates();
+        setCategories(prev => applyUpdates(prev, updates));
 
         // Show summary
-        if (summary && summary.failed && summary.failed > 0) {
+        if (action === 'rollback') {
+          if (summary && summary.failed > 0) {
+            setError(`Rollback completed with errors. ${summary.successful} removed, ${summary.failed} failed.`);
+          } else {
+            console.log(`Rolled back ${summary?.successful ?? 0} tools`);
+          }
+        } else if (action === 'upgrade') {
+          if (summary && summary.failed > 0) {
+            setError(`Upgrade completed with errors. ${summary.successful} upgraded, ${summary.failed} failed.`);
+          } else {
+            console.log(`Upgraded ${summary?.successful ?? 0} tools`);
+          }
+        } else if (session?.status === 'cancelled') {
+          setError('Installation cancelled. You can resume it at any time.');
+          const sessionResult = await window.electronAPI.getInstallSession();
+          if (sessionResult.session && sessionResult.resumable) {
+            setInterruptedSession({
+              remainingToolIds: sessionResult.remainingToolIds || [],
+              createdAt: sessionResult.session.createdAt,
+            });
+          }
+        } else if (summary && summary.failed && summary.failed > 0) {
           setError(`Installation completed with errors. ${summary.successful} succeeded, ${summary.failed} failed.`);
         } else if (summary && summary.alreadyInstalled > 0) {
           console.log(`Successfully installed ${summary.successful - summary.alreadyInstalled} tools. ${summary.alreadyInstalled} were already installed.`);
@@ -223,28 +457,137 @@ function App() {
         }
         
         // Clear selection after successful installation
-        setSelection({
-          selectedTools: new Set(),
-          deselectedRecommendations: new Set(),
-          customSelections: new Set(),
-        });
+        if (action !== 'rollback') {
+          setSelection({
+            selectedTools: new Set(),
+            deselectedRecommendations: new Set(),
+            customSelections: new Set(),
+          });
+        }
       } else {
-        setError(result.error || 'Installation failed');
+        setError(result.error || (action === 'install' ? 'Installation failed' : `${action === 'upgrade' ? 'Upgrade' : 'Rollback'} failed`));
       }
-
-      // Cleanup
-      removeListener();
     } catch (error) {
       console.error('Installation error:', error);
-      setError('Failed to install tools. Please try again.');
+      setError(action === 'rollback'
+        ? 'Failed to roll back the last installation. Please try again.'
+        : `Failed to ${action} tools. Please try again.`);
     } finally {
+      removeListener();
+      removeLogListener();
       setInstallationProgress({
         isInstalling: false,
         currentTool: '',
         completed: 0,
         total: 0,
       });
+      setRollbackTools(await fetchRollbackTools());
+    }
+  };
+
+  const handlePreviewCommands = async () => {
+    const toolIds = Array.from(selection.selectedTools);
+    if (toolIds.length === 0) return;
+
+    const result = await window.electronAPI.dryRunInstall(toolIds);
+    if (result.success && result.report) {
+      setDryRunReport(result.report);
+    } else {
+      setError(result.error || 'Failed to preview installation commands');
+    }
+  };
+
+  const handleDryRunInstall = async () => {
+    setDryRunReport(null);
+    await handleInstall(true);
+  };
+
+  const runDoctor = async () => {
+    setIsDoctorRunning(true);
+    try {
+      const result = await window.electronAPI.runDoctor();
+      if (result.success && result.report) {
+        setDoctorReport(result.report);
+      } else {
+        setShowDoctor(false);
+        setError(result.error || 'Failed to check the environment');
+      }
+    } finally {
+      setIsDoctorRunning(false);
+    }
+  };
+
+  const handleOpenDoctor = async () => {
+    setShowDoctor(true);
+    await runDoctor();
+  };
+
+  const handleDoctorFix = async (findingId: string) => {
+    setFixingFindingId(findingId);
+    try {
+      const result = await window.electronAPI.applyDoctorFix(findingId);
+      if (!result.success || !result.result?.applied) {
+        setError(result.error || result.result?.message || 'Failed to apply the fix');
+      }
+      await runDoctor();
+    } finally {
+      setFixingFindingId(null);
+    }
+  };
+
+  const handleOpenInventoryExport = () => {
+    setExportedInventoryPath(null);
+    setShowInventoryExport(true);
+  };
+
+  const handleExportInventory = async (format: InventoryFormat, redaction: InventoryRedaction) => {
+    setIsExportingInventory(true);
+    try {
+      const result = await window.electronAPI.exportInventory(format, redaction);
+      if (result.success && result.filePath) {
+        setExportedInventoryPath(result.filePath);
+      } else if (!result.cancelled) {
+        setShowInventoryExport(false);
+        setError(result.error || 'Failed to export the machine inventory');
+      }
+    } finally {
+      setIsExportingInventory(false);
+    }
+  };
+
+  const checkDrift = async () => {
+    setIsCheckingDrift(true);
+    try {
+      const result = await window.electronAPI.checkDrift();
+      if (result.success) {
+        setDriftReport(result.report ?? null);
+      } else {
+        setShowDrift(false);
+        setError(result.error || 'Failed to check for drift');
+      }
+    } finally {
+      setIsCheckingDrift(false);
+    }
+  };
+
+  const handleOpenDrift = async () => {
+    setDriftReport(null);
+    setShowDrift(true);
+    await checkDrift();
+  };
+
+  const handleSaveBaseline = async () => {
+    setIsSavingBaseline(true);
+    try {
+      const result = await window.electronAPI.saveDriftBaseline();
+      if (!result.success) {
+        setError(result.error || 'Failed to save the baseline');
+        return;
+      }
+    } finally {
+      setIsSavingBaseline(false);
     }
+    await checkDrift();
   };
 
   const handleFilterChange = (newFilters: FilterOptions) => {
@@ -301,11 +644,46 @@ function App() {
           <p className="text-lg text-gray-600 max-w-2xl mx-auto">
             Automatically detect and install the development tools you need
           </p>
+          <button onClick={handleOpenDoctor} className="btn-secondary text-sm mt-4">
+            Check environment health
+          </button>
+          <button onClick={handleOpenInventoryExport} className="btn-secondary text-sm mt-4 ml-2">
+            Export machine inventory
+          </button>
+          <button onClick={handleOpenDrift} className="btn-secondary text-sm mt-4 ml-2">
+            Check for drift
+          </button>
           {error && (
             <div className="mt-4 p-3 bg-yellow-100 border border-yellow-300 rounded-md text-yellow-800">
               {error}
             </div>
           )}
+          {interruptedSession && !installationProgress.isInstalling && (
+            <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-md text-blue-900 flex items-center justify-between">
+              <span>
+                An installation started {new Date(interruptedSession.createdAt).toLocaleString()} did not finish.
+                {' '}{interruptedSession.remainingToolIds.length} tool{interruptedSession.remainingToolIds.length === 1 ? '' : 's'} left to install.
+              </span>
+              <span className="flex space-x-2 ml-4">
+                <button onClick={handleResumeInstallation} className="btn-primary text-sm">
+                  Resume
+                </button>
+                <button onClick={handleDiscardSession} className="btn-secondary text-sm">
+                  Dismiss
+                </button>
+              </span>
+            </div>
+          )}
+          {rollbackTools.length > 0 && !installationProgress.isInstalling && (
+            <div className="mt-4 flex items-center justify-center space-x-3 text-sm text-gray-600">
+              <span>
+                The last installation added {rollbackTools.length} tool{rollbackTools.length === 1 ? '' : 's'}.
+              </span>
+              <button onClick={handleRollback} className="btn-secondary text-sm">
+                Roll back last session
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Loading State */}
@@ -357,6 +735,9 @@ function App() {
                 selection={selection}
                 tools={allTools}
                 onInstallSelected={() => handleInstall()}
+                onPreviewCommands={() => handlePreviewCommands()}
+                onCancelInstallation={() => handleCancelInstallation()}
+                onUpgradeSelected={(toolIds) => handleUpgradeSelected(toolIds)}
                 onClearSelection={() => setSelection({
                   selectedTools: new Set(),
                   deselectedRecommendations: new Set(),
@@ -377,6 +758,70 @@ function App() {
         onResolve={handleConflictResolve}
         onCancel={handleConflictCancel}
       />
+
+      {/* Install Order Confirmation */}
+      <InstallPlanDialog
+        isOpen={pendingPlan !== null}
+        plan={pendingPlan?.plan ?? null}
+        onConfirm={handleConfirmPlan}
+        onCancel={() => setPendingPlan(null)}
+      />
+
+      {/* Install Log Drawer */}
+      <InstallLogDrawer
+        logs={installLogs}
+        toolNames={Object.fromEntries(allTools.map(tool => [tool.id, tool.name]))}
+        isOpen={showInstallLogs}
+        onToggle={() => setShowInstallLogs(!showInstallLogs)}
+        onClear={() => setInstallLogs({})}
+      />
+
+      {/* Manifest Trust Prompt */}
+      <ManifestTrustDialog
+        isOpen={untrustedManifests.length > 0}
+        manifests={untrustedManifests}
+        onTrust={handleTrustManifest}
+        onClose={() => setUntrustedManifests([])}
+      />
+
+      {/* Dry Run Preview Dialog */}
+      <DryRunDialog
+        isOpen={dryRunReport !== null}
+        report={dryRunReport}
+        onInstall={handleDryRunInstall}
+        onClose={() => setDryRunReport(null)}
+      />
+
+      {/* Environment Health Dialog */}
+      <DoctorDialog
+        isOpen={showDoctor}
+        report={doctorReport}
+        isRunning={isDoctorRunning}
+        fixingId={fixingFindingId}
+        onFix={handleDoctorFix}
+        onRerun={runDoctor}
+        onClose={() => setShowDoctor(false)}
+      />
+
+      {/* Machine Inventory Export Dialog */}
+      <InventoryExportDialog
+        isOpen={showInventoryExport}
+        isExporting={isExportingInventory}
+        exportedPath={exportedInventoryPath}
+        onExport={handleExportInventory}
+        onClose={() => setShowInventoryExport(false)}
+      />
+
+      {/* Environment Drift Dialog */}
+      <DriftDialog
+        isOpen={showDrift}
+        report={driftReport}
+        isChecking={isCheckingDrift}
+        isSavingBaseline={isSavingBaseline}
+        onSaveBaseline={handleSaveBaseline}
+        onRecheck={checkDrift}
+        onClose={() => setShowDrift(false)}
+      />
     </div>
   );
 }
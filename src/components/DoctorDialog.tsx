@@ -0,0 +1,121 @@
+import type { DoctorFinding, DoctorReport, DoctorSeverity } from '../services/environment-doctor';
+
+interface DoctorDialogProps {
+  isOpen: boolean;
+  report: DoctorReport | null;
+  isRunning: boolean;
+  // Finding whose fix is being applied
+  fixingId: string | null;
+  onFix: (findingId: string) => void;
+  onRerun: () => void;
+  onClose: () => void;
+}
+
+const SEVERITY_STYLES: Record<DoctorSeverity, { card: string; badge: string }> = {
+  error: { card: 'border-red-200 bg-red-50', badge: 'bg-red-100 text-red-800' },
+  warning: { card: 'border-yellow-200 bg-yellow-50', badge: 'bg-yellow-100 text-yellow-800' },
+  info: { card: 'border-gray-200 bg-gray-50', badge: 'bg-gray-200 text-gray-700' }
+};
+
+const CHECK_NAMES: Record<DoctorFinding['check'], string> = {
+  'package-manager': 'Package manager',
+  'shell-integration': 'Shell profiles',
+  'version-manager-path': 'Version managers',
+  'orphaned-path': 'PATH entries',
+  'ide-cli': 'IDE command-line tools',
+  'disk-space': 'Disk space'
+};
+
+export function DoctorDialog({
+  isOpen,
+  report,
+  isRunning,
+  fixingId,
+  onFix,
+  onRerun,
+  onClose
+}: DoctorDialogProps) {
+  if (!isOpen) return null;
+
+  const passed = report ? report.checks.filter(check => !report.findings.some(finding => finding.check === check)) : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[80vh] overflow-hidden">
+        <div className="p-6">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            Environment Health
+          </h2>
+
+          {isRunning || !report ? (
+            <div className="flex items-center py-8 text-gray-600">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500 mr-3"></div>
+              Checking your package manager, shell profiles and PATH...
+            </div>
+          ) : (
+            <>
+              <p className="text-gray-700 mb-4">
+                {report.findings.length === 0
+                  ? 'No problems found.'
+                  : `${report.errorCount} error${report.errorCount === 1 ? '' : 's'} and ${report.warningCount} warning${report.warningCount === 1 ? '' : 's'} found.`}
+              </p>
+
+              <div className="space-y-3 max-h-[45vh] overflow-y-auto">
+                {report.findings.map(finding => (
+                  <div key={finding.id} className={`border rounded-lg p-3 ${SEVERITY_STYLES[finding.severity].card}`}>
+                    <div className="flex items-start justify-between">
+                      <div className="mr-3">
+                        <div className="text-xs text-gray-500 mb-1">{CHECK_NAMES[finding.check]}</div>
+                        <div className="text-sm text-gray-900">{finding.message}</div>
+                        {!finding.fix && finding.suggestion && (
+                          <div className="mt-1 text-xs text-gray-600">{finding.suggestion}</div>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2 shrink-0">
+                        <span className={`px-2 py-1 rounded-full text-xs ${SEVERITY_STYLES[finding.severity].badge}`}>
+                          {finding.severity}
+                        </span>
+                        {finding.fix && (
+                          <button
+                            onClick={() => onFix(finding.id)}
+                            disabled={fixingId !== null}
+                            title={finding.fix.description}
+                            className="px-3 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+                          >
+                            {fixingId === finding.id ? 'Fixing...' : 'Fix'}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {passed.length > 0 && (
+                <p className="mt-4 text-sm text-green-700">
+                  Passed: {passed.map(check => CHECK_NAMES[check]).join(', ')}
+                </p>
+              )}
+            </>
+          )}
+
+          <div className="mt-6 flex justify-end space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+            >
+              Close
+            </button>
+            <button
+              onClick={onRerun}
+              disabled={isRunning}
+              className="px-4 py-2 rounded transition-colors bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+            >
+              Check Again
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
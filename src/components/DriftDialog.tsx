@@ -0,0 +1,114 @@
+import type { DriftCategory, DriftKind, DriftReport } from '../services/inventory-drift';
+
+interface DriftDialogProps {
+  isOpen: boolean;
+  // null when no baseline has been saved yet
+  report: DriftReport | null;
+  isChecking: boolean;
+  isSavingBaseline: boolean;
+  onSaveBaseline: () => void;
+  onRecheck: () => void;
+  onClose: () => void;
+}
+
+const CATEGORY_NAMES: Record<DriftCategory, string> = {
+  tool: 'Tools',
+  runtime: 'Runtime versions',
+  path: 'PATH entries',
+  extension: 'IDE extensions'
+};
+
+const KIND_STYLES: Record<DriftKind, string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  changed: 'bg-yellow-100 text-yellow-800'
+};
+
+export function DriftDialog({
+  isOpen,
+  report,
+  isChecking,
+  isSavingBaseline,
+  onSaveBaseline,
+  onRecheck,
+  onClose
+}: DriftDialogProps) {
+  if (!isOpen) return null;
+
+  const categories = (Object.keys(CATEGORY_NAMES) as DriftCategory[])
+    .map(category => ({ category, changes: report?.changes.filter(change => change.category === category) ?? [] }))
+    .filter(({ changes }) => changes.length > 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[80vh] overflow-hidden">
+        <div className="p-6">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            Environment Drift
+          </h2>
+
+          {isChecking ? (
+            <div className="flex items-center py-8 text-gray-600">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500 mr-3"></div>
+              Comparing this machine with the baseline...
+            </div>
+          ) : !report ? (
+            <p className="text-gray-700 mb-4">
+              No baseline has been saved yet. Save this machine's current toolset as the baseline to track changes from now on.
+            </p>
+          ) : (
+            <>
+              <p className="text-gray-700 mb-4">
+                {report.hasDrift
+                  ? `${report.changes.length} change${report.changes.length === 1 ? '' : 's'} since the baseline of ${new Date(report.baselineGeneratedAt).toLocaleString()}.`
+                  : `No drift since the baseline of ${new Date(report.baselineGeneratedAt).toLocaleString()}.`}
+              </p>
+
+              <div className="space-y-4 max-h-[45vh] overflow-y-auto">
+                {categories.map(({ category, changes }) => (
+                  <div key={category}>
+                    <h3 className="text-sm font-semibold text-gray-900 mb-2">{CATEGORY_NAMES[category]}</h3>
+                    <ul className="space-y-1">
+                      {changes.map(change => (
+                        <li key={`${change.kind}:${change.subject}`} className="flex items-center text-sm text-gray-800">
+                          <span className={`px-2 py-0.5 rounded-full text-xs mr-2 ${KIND_STYLES[change.kind]}`}>
+                            {change.kind}
+                          </span>
+                          {change.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          <div className="mt-6 flex justify-end space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+            >
+              Close
+            </button>
+            <button
+              onClick={onSaveBaseline}
+              disabled={isChecking || isSavingBaseline}
+              title="Replace the baseline with this machine's current toolset"
+              className="px-4 py-2 text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors disabled:text-gray-400"
+            >
+              {isSavingBaseline ? 'Saving...' : report ? 'Update Baseline' : 'Save Baseline'}
+            </button>
+            <button
+              onClick={onRecheck}
+              disabled={isChecking || !report}
+              className="px-4 py-2 rounded transition-colors bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+            >
+              Check Again
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import type { DryRunReport } from '../services/install-dry-run';
+
+interface DryRunDialogProps {
+  isOpen: boolean;
+  report: DryRunReport | null;
+  onInstall: () => void;
+  onClose: () => void;
+}
+
+export function DryRunDialog({
+  isOpen,
+  report,
+  onInstall,
+  onClose
+}: DryRunDialogProps) {
+  if (!isOpen || !report) return null;
+
+  const toInstall = report.tools.filter(tool => tool.action === 'install');
+  const elevatedCount = toInstall.filter(tool => tool.requiresElevation).length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[80vh] overflow-hidden">
+        <div className="p-6">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            Installation Preview
+          </h2>
+
+          <p className="text-gray-700 mb-4">
+            Nothing has been installed yet. These are the exact commands HatStart would run on {report.platform}, in order.
+          </p>
+
+          {elevatedCount > 0 && (
+            <div className="mb-4 p-3 bg-yellow-50 border border-yellow-300 rounded-md text-sm text-yellow-800">
+              {elevatedCount} command{elevatedCount === 1 ? '' : 's'} will need administrator privileges.
+            </div>
+          )}
+
+          <div className="space-y-3 max-h-[45vh] overflow-y-auto">
+            {report.tools.map((tool, index) => (
+              <div
+                key={tool.toolId}
+                className={`border rounded-lg p-3 ${
+                  tool.action === 'install' ? 'border-blue-200 bg-blue-50' : 'border-gray-200 bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-semibold text-sm">
+                    {index + 1}. {tool.name}
+                    {tool.autoAdded && (
+                      <span className="ml-2 text-xs font-normal text-blue-700">(required prerequisite)</span>
+                    )}
+                  </span>
+                  <span className={`px-2 py-1 rounded-full text-xs ${
+                    tool.action === 'install' ? 'bg-blue-100 text-blue-800' : 'bg-gray-200 text-gray-700'
+                  }`}>
+                    {tool.action === 'install' ? 'Will install' : 'Skipped'}
+                  </span>
+                </div>
+
+                {tool.command && (
+                  <pre className="text-xs bg-gray-900 text-gray-100 rounded p-2 overflow-x-auto whitespace-pre-wrap break-all">
+                    {tool.command}
+                  </pre>
+                )}
+
+                {tool.script && (
+                  <div className="mt-1 text-xs text-gray-600 break-all">
+                    Runs only if the downloaded script matches SHA-256 {tool.script.sha256}
+                  </div>
+                )}
+
+                <div className="mt-1 text-xs text-gray-600">
+                  {tool.skipReason && <span>{tool.skipReason}</span>}
+                  {tool.action === 'install' && tool.requiresElevation && (
+                    <span className="text-yellow-700">Requires sudo / administrator privileges</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-6 flex justify-end space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+            >
+              Close
+            </button>
+            <button
+              onClick={onInstall}
+              disabled={toInstall.length === 0}
+              className={`px-4 py-2 rounded transition-colors ${
+                toInstall.length > 0
+                  ? 'bg-blue-600 text-white hover:bg-blue-700'
+                  : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              }`}
+            >
+              Install {toInstall.length} Tool{toInstall.length === 1 ? '' : 's'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+/**
+ * Install Log Drawer Component
+ * Shows live install output per tool and keeps it after completion for troubleshooting
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { InstallLogEntry } from '../services/install-runner';
+
+interface InstallLogDrawerProps {
+  logs: Record<string, InstallLogEntry[]>;
+  toolNames: Record<string, string>;
+  isOpen: boolean;
+  onToggle: () => void;
+  onClear: () => void;
+}
+
+export const InstallLogDrawer: React.FC<InstallLogDrawerProps> = ({
+  logs,
+  toolNames,
+  isOpen,
+  onToggle,
+  onClear
+}) => {
+  const toolIds = Object.keys(logs);
+  const [selectedToolId, setSelectedToolId] = useState<string | undefined>();
+  const outputRef = useRef<HTMLDivElement>(null);
+
+  // Follow the most recently started tool unless the user picked one
+  const activeToolId = selectedToolId && logs[selectedToolId]
+    ? selectedToolId
+    : toolIds[toolIds.length - 1];
+  const entries = activeToolId ? logs[activeToolId] : [];
+
+  // Keep the newest output in view
+  useEffect(() => {
+    if (outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight;
+    }
+  }, [entries.length, isOpen]);
+
+  if (toolIds.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-0 left-0 right-0 z-40" role="region" aria-label="Installation logs">
+      <div className="max-w-5xl mx-auto px-4">
+        <button
+          onClick={onToggle}
+          className="ml-auto block px-4 py-2 text-sm bg-gray-900 text-gray-100 rounded-t-lg hover:bg-gray-800 transition-colors"
+          aria-expanded={isOpen}
+        >
+          {isOpen ? 'Hide' : 'Show'} Install Logs ({toolIds.length})
+        </button>
+
+        {isOpen && (
+          <div className="bg-gray-900 text-gray-100 rounded-tl-lg shadow-xl">
+            <div className="flex items-center justify-between border-b border-gray-700 px-3">
+              <nav className="flex space-x-1 overflow-x-auto" aria-label="Tools">
+                {toolIds.map(toolId => (
+                  <button
+                    key={toolId}
+                    onClick={() => setSelectedToolId(toolId)}
+                    className={`px-3 py-2 text-xs whitespace-nowrap border-b-2 transition-colors ${
+                      toolId === activeToolId
+                        ? 'border-blue-400 text-white'
+                        : 'border-transparent text-gray-400 hover:text-gray-200'
+                    }`}
+                  >
+                    {toolNames[toolId] || toolId}
+                  </button>
+                ))}
+              </nav>
+              <button
+                onClick={onClear}
+                className="px-2 py-1 text-xs text-gray-400 hover:text-gray-200"
+              >
+                Clear
+              </button>
+            </div>
+
+            <div ref={outputRef} className="h-64 overflow-y-auto p-3 font-mono text-xs">
+              {entries.map((entry, index) => (
+                <div
+                  key={index}
+                  className={`whitespace-pre-wrap break-all ${
+                    entry.stream === 'stderr'
+                      ? 'text-red-300'
+                      : entry.stream === 'system'
+                      ? 'text-blue-300'
+                      : 'text-gray-100'
+                  }`}
+                >
+                  {entry.line}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import type { InstallPlan } from '../shared/install-planner';
+
+interface InstallPlanDialogProps {
+  isOpen: boolean;
+  plan: InstallPlan | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export function InstallPlanDialog({
+  isOpen,
+  plan,
+  onConfirm,
+  onCancel
+}: InstallPlanDialogProps) {
+  if (!isOpen || !plan) return null;
+
+  const names = Object.fromEntries(plan.steps.map(step => [step.toolId, step.name]));
+  const missingIds = new Set(plan.missingDependencies.map(missing => missing.dependsOn));
+  const skipped = plan.unknown.filter(toolId => !missingIds.has(toolId));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[80vh] overflow-hidden">
+        <div className="p-6">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            Confirm Installation Order
+          </h2>
+
+          <p className="text-gray-700 mb-4">
+            Tools will be installed in this order, each after the tools it depends on.
+          </p>
+
+          {plan.autoAdded.length > 0 && (
+            <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-md text-sm text-blue-900">
+              {plan.autoAdded.length} required prerequisite{plan.autoAdded.length === 1 ? ' was' : 's were'} added
+              that you did not select: {plan.autoAdded.map(toolId => names[toolId] ?? toolId).join(', ')}.
+            </div>
+          )}
+
+          {skipped.length > 0 && (
+            <div className="mb-4 p-3 bg-yellow-50 border border-yellow-300 rounded-md text-sm text-yellow-800">
+              Not in the manifest and will be skipped: {skipped.join(', ')}.
+            </div>
+          )}
+
+          {plan.missingDependencies.length > 0 && (
+            <div className="mb-4 p-3 bg-yellow-50 border border-yellow-300 rounded-md text-sm text-yellow-800">
+              Prerequisites not in the manifest, these tools will be installed without them:
+              <ul className="mt-1 list-disc list-inside">
+                {plan.missingDependencies.map(missing => (
+                  <li key={`${missing.toolId}:${missing.dependsOn}`}>
+                    {names[missing.toolId] ?? missing.toolId} requires {missing.dependsOn}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <ol className="space-y-2 max-h-[40vh] overflow-y-auto">
+            {plan.steps.map((step, index) => (
+              <li
+                key={step.toolId}
+                className={`border rounded-lg p-3 text-sm ${
+                  step.autoAdded ? 'border-blue-200 bg-blue-50' : 'border-gray-200 bg-gray-50'
+                }`}
+              >
+                <span className="font-semibold">
+                  {index + 1}. {step.name}
+                </span>
+                {step.autoAdded && (
+                  <span className="ml-2 text-xs text-blue-700">(required prerequisite)</span>
+                )}
+                {step.dependsOn.length > 0 && (
+                  <div className="mt-1 text-xs text-gray-600">
+                    After {step.dependsOn.map(toolId => names[toolId] ?? toolId).join(', ')}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+
+          <div className="mt-6 flex justify-end space-x-3">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={onConfirm}
+              disabled={plan.steps.length === 0}
+              className={`px-4 py-2 rounded transition-colors ${
+                plan.steps.length > 0
+                  ? 'bg-blue-600 text-white hover:bg-blue-700'
+                  : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              }`}
+            >
+              Install {plan.steps.length} Tool{plan.steps.length === 1 ? '' : 's'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import type { InventoryFormat, InventoryRedaction } from '../services/machine-inventory';
+
+interface InventoryExportDialogProps {
+  isOpen: boolean;
+  isExporting: boolean;
+  // Path of the last successful export
+  exportedPath: string | null;
+  onExport: (format: InventoryFormat, redaction: InventoryRedaction) => void;
+  onClose: () => void;
+}
+
+const FORMATS: Array<{ value: InventoryFormat; label: string; description: string }> = [
+  { value: 'markdown', label: 'Markdown', description: 'Readable tables to paste into a ticket' },
+  { value: 'json', label: 'JSON', description: 'The full report for scripts and tooling' },
+  { value: 'csv', label: 'CSV', description: 'One row per item for spreadsheets' }
+];
+
+const REDACTIONS: Array<{ key: keyof InventoryRedaction; label: string }> = [
+  { key: 'hostname', label: 'Hostname' },
+  { key: 'username', label: 'Username' },
+  { key: 'homePaths', label: 'Home directory paths' }
+];
+
+export function InventoryExportDialog({
+  isOpen,
+  isExporting,
+  exportedPath,
+  onExport,
+  onClose
+}: InventoryExportDialogProps) {
+  const [format, setFormat] = useState<InventoryFormat>('markdown');
+  const [redaction, setRedaction] = useState<InventoryRedaction>({ hostname: true, username: true, homePaths: true });
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4">
+        <div className="p-6">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            Export Machine Inventory
+          </h2>
+          <p className="text-gray-700 mb-4">
+            Your OS, detected tools, version managers, IDE extensions and the shell and PATH changes HatStart made.
+          </p>
+
+          <div className="space-y-2 mb-4">
+            {FORMATS.map(option => (
+              <label key={option.value} className="flex items-start p-2 border rounded cursor-pointer hover:bg-gray-50">
+                <input
+                  type="radio"
+                  name="inventory-format"
+                  checked={format === option.value}
+                  onChange={() => setFormat(option.value)}
+                  className="mt-1 mr-3"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                  <span className="block text-xs text-gray-600">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="mb-4">
+            <div className="text-sm font-medium text-gray-900 mb-2">Redact</div>
+            {REDACTIONS.map(option => (
+              <label key={option.key} className="flex items-center text-sm text-gray-700 mb-1">
+                <input
+                  type="checkbox"
+                  checked={redaction[option.key]}
+                  onChange={event => setRedaction({ ...redaction, [option.key]: event.target.checked })}
+                  className="mr-2"
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+
+          {exportedPath && (
+            <p className="text-sm text-green-700 break-all">Saved to {exportedPath}</p>
+          )}
+
+          <div className="mt-6 flex justify-end space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+            >
+              Close
+            </button>
+            <button
+              onClick={() => onExport(format, redaction)}
+              disabled={isExporting}
+              className="px-4 py-2 rounded transition-colors bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+            >
+              {isExporting ? 'Exporting...' : 'Export'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import type { ManifestTrustCheck } from '../services/manifest-trust';
+
+interface ManifestTrustDialogProps {
+  isOpen: boolean;
+  manifests: ManifestTrustCheck[];
+  onTrust: (filePath: string, trustPublisher: boolean) => void;
+  onClose: () => void;
+}
+
+function describeStatus(manifest: ManifestTrustCheck): string {
+  switch (manifest.status) {
+    case 'unknown-publisher':
+      return `Signed by "${manifest.publisher}", who is not in your list of trusted publishers.`;
+    case 'invalid-signature':
+      return 'The signature does not match this file. It may have been tampered with and cannot be trusted.';
+    default:
+      return 'This manifest is not signed. Only trust it if you know where it came from.';
+  }
+}
+
+export function ManifestTrustDialog({
+  isOpen,
+  manifests,
+  onTrust,
+  onClose
+}: ManifestTrustDialogProps) {
+  if (!isOpen || manifests.length === 0) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[80vh] overflow-hidden">
+        <div className="p-6">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            Trust Tool Manifests?
+          </h2>
+
+          <p className="text-gray-700 mb-4">
+            Manifests decide which commands HatStart runs on your machine. These were not loaded
+            because they are not signed by a publisher you trust.
+          </p>
+
+          <div className="space-y-3 max-h-[45vh] overflow-y-auto">
+            {manifests.map(manifest => (
+              <div
+                key={manifest.filePath}
+                className={`border rounded-lg p-3 ${
+                  manifest.status === 'invalid-signature' ? 'border-red-200 bg-red-50' : 'border-yellow-200 bg-yellow-50'
+                }`}
+              >
+                <p className="font-semibold text-sm break-all">{manifest.filePath}</p>
+                <p className="mt-1 text-sm text-gray-700">{describeStatus(manifest)}</p>
+                {manifest.keyFingerprint && (
+                  <p className="mt-1 text-xs text-gray-600 break-all">
+                    Key fingerprint: <code>{manifest.keyFingerprint}</code>
+                  </p>
+                )}
+                <p className="mt-1 text-xs text-gray-600 break-all">
+                  SHA-256: <code>{manifest.sha256}</code>
+                </p>
+
+                {manifest.status !== 'invalid-signature' && (
+                  <div className="mt-3 flex justify-end space-x-2">
+                    {manifest.status === 'unknown-publisher' && (
+                      <button
+                        onClick={() => onTrust(manifest.filePath, true)}
+                        className="px-3 py-1 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+                      >
+                        Trust publisher
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onTrust(manifest.filePath, false)}
+                      className="px-3 py-1 text-sm rounded bg-gray-200 text-gray-800 hover:bg-gray-300 transition-colors"
+                    >
+                      Trust this file
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-6 flex justify-end">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+            >
+              Not now
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
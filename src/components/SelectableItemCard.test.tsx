@@ -214,6 +214,38 @@ describe('SelectableItemCard', () => {
     expect(screen.queryByRole('button', { name: /install/i })).not.toBeInTheDocument();
   });
 
+  it('shows an update badge when a newer version is available', () => {
+    render(
+      <SelectableItemCard
+        tool={{ ...sampleTool, isInstalled: true, version: '1.89.0', updateAvailable: true, latestVersion: '1.90.0' }}
+        isSelected={false}
+        onToggle={mockOnToggle}
+      />
+    );
+
+    expect(screen.getByText('Update available')).toHaveAttribute('title', 'Version 1.90.0 is available');
+  });
+
+  it('shows which manifest layer customized or added a tool', () => {
+    const { rerender } = render(
+      <SelectableItemCard
+        tool={{ ...sampleTool, provenance: { id: 'builtin', name: 'builtin', 'packageNames.linux': 'team' } }}
+        isSelected={false}
+        onToggle={mockOnToggle}
+      />
+    );
+    expect(screen.getByText('Customized by team')).toHaveAttribute('title', 'Overridden: packageNames.linux');
+
+    rerender(
+      <SelectableItemCard
+        tool={{ ...sampleTool, provenance: { id: 'organization', name: 'organization' } }}
+        isSelected={false}
+        onToggle={mockOnToggle}
+      />
+    );
+    expect(screen.getByText('Added by organization')).toBeInTheDocument();
+  });
+
   it('displays the recommendation rationale in a tooltip', async () => {
     render(
       <SelectableItemCard
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { getOverridingLayer } from '../shared/manifest-layers';
 import type { SelectableItemCardProps } from '../types/ui-types';
 
 /**
@@ -71,6 +72,28 @@ export const SelectableItemCard: React.FC<SelectableItemCardProps> = ({
 
   const priorityBadge = getPriorityBadgeInfo();
 
+  // Tools added or customized by an organization, team or user manifest
+  const getLayerBadgeInfo = () => {
+    const provenance = tool.provenance ?? {};
+    const idLayer = provenance.id;
+    if (idLayer && idLayer !== 'builtin') {
+      return { text: `Added by ${idLayer}`, title: `Defined in the ${idLayer} manifest` };
+    }
+    const layer = getOverridingLayer(
+      Object.fromEntries(Object.entries(provenance).map(([field, source]) => [field, { layer: source }]))
+    );
+    if (!layer) return null;
+    const fields = Object.keys(provenance).filter(field => provenance[field] !== 'builtin');
+    return { text: `Customized by ${layer}`, title: `Overridden: ${fields.join(', ')}` };
+  };
+
+  const layerBadge = getLayerBadgeInfo();
+
+  // Every copy of the executable, the one the shell runs marked with *
+  const installationList = (tool.installations ?? [])
+    .map(installation => `${installation.active ? '* ' : '  '}${installation.path} (${installation.manager ?? installation.origin}${installation.version ? ` ${installation.version}` : ''})`)
+    .join('\n');
+
   return (
     <div 
       className={`relative flex items-start p-4 rounded-lg border ${
@@ -109,10 +132,45 @@ export const SelectableItemCard: React.FC<SelectableItemCardProps> = ({
           <div className="flex items-center space-x-2">
             {/* Installation Status */}
             {tool.isInstalled && (
-              <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
+              <span
+                className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800"
+                title={(tool.installations?.length ?? 0) > 1
+                  ? [tool.detectionExplanation, installationList].filter(Boolean).join('\n\n')
+                  : tool.detectionExplanation}
+              >
                 Installed
               </span>
             )}
+
+            {/* Update Available */}
+            {tool.isInstalled && tool.updateAvailable && (
+              <span
+                className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800"
+                title={tool.latestVersion ? `Version ${tool.latestVersion} is available` : undefined}
+              >
+                Update available
+              </span>
+            )}
+            
+            {/* Version manager shim shadowed on PATH */}
+            {tool.isInstalled && tool.shadowingWarning && (
+              <span
+                className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800"
+                title={`${tool.shadowingWarning}\n\n${installationList}`}
+              >
+                PATH conflict
+              </span>
+            )}
+            
+            {/* Manifest Layer Badge */}
+            {layerBadge && (
+              <span
+                className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800"
+                title={layerBadge.title}
+              >
+                {layerBadge.text}
+              </span>
+            )}
             
             {/* Recommended Badge */}
             {tool.isRecommended && !hasRoleRecommendation && (
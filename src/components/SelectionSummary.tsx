@@ -11,6 +11,9 @@ export const SelectionSummary: React.FC<SelectionSummaryProps> = ({
   onInstallSelected,
   onClearSelection,
   onExportSelection,
+  onPreviewCommands,
+  onCancelInstallation,
+  onUpgradeSelected,
   installationProgress,
   estimatedTime,
   estimatedSize,
@@ -26,6 +29,7 @@ export const SelectionSummary: React.FC<SelectionSummaryProps> = ({
   const recommendedCount = selectedTools.filter(tool => tool.isRecommended).length;
   const alreadyInstalledCount = selectedTools.filter(tool => tool.isInstalled).length;
   const toInstallCount = selectedCount - alreadyInstalledCount;
+  const upgradableTools = selectedTools.filter(tool => tool.isInstalled && tool.updateAvailable);
 
   // Calculate totals
   const totalSize = selectedTools.reduce((total, tool) => {
@@ -89,8 +93,17 @@ export const SelectionSummary: React.FC<SelectionSummaryProps> = ({
               <span className="text-primary-900 font-medium">
                 Installing {installationProgress.currentTool}...
               </span>
-              <span className="text-primary-700">
-                {installationProgress.completed} / {installationProgress.total}
+              <span className="flex items-center space-x-3 text-primary-700">
+                <span>{installationProgress.completed} / {installationProgress.total}</span>
+                {onCancelInstallation && (
+                  <button
+                    onClick={onCancelInstallation}
+                    className="text-xs text-red-600 hover:text-red-800 font-medium"
+                    aria-label="Cancel installation"
+                  >
+                    Cancel
+                  </button>
+                )}
               </span>
             </div>
             <div className="mt-2 w-full bg-primary-200 rounded-full h-2">
@@ -199,6 +212,17 @@ export const SelectionSummary: React.FC<SelectionSummaryProps> = ({
               )}
             </button>
 
+            {onUpgradeSelected && upgradableTools.length > 0 && (
+              <button
+                onClick={() => onUpgradeSelected(upgradableTools.map(tool => tool.id))}
+                disabled={installationProgress?.isInstalling}
+                className="w-full btn-secondary"
+                aria-label={`Upgrade ${upgradableTools.length} selected tools`}
+              >
+                Upgrade {upgradableTools.length} Tool{upgradableTools.length === 1 ? '' : 's'}
+              </button>
+            )}
+
             {/* Secondary Actions */}
             <div className="flex space-x-2">
               <button
@@ -209,6 +233,17 @@ export const SelectionSummary: React.FC<SelectionSummaryProps> = ({
               >
                 Export List
               </button>
+
+              {onPreviewCommands && (
+                <button
+                  onClick={onPreviewCommands}
+                  disabled={toInstallCount === 0 || installationProgress?.isInstalling}
+                  className="flex-1 btn-secondary text-sm"
+                  aria-label="Preview installation commands"
+                >
+                  Preview Commands
+                </button>
+              )}
               
               {/* View Selected Tools */}
               <details className="flex-1">
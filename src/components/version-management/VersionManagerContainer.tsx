@@ -1,6 +1,12 @@
 import React, { useEffect, useState } from 'react';
-import type { VersionManagerType, VersionedTool } from '../../services/version-manager-types';
-import type { VersionManagerUI, ToolVersionUI } from '../../types/version-management-ui-types';
+import type { IVersionInfo, VersionManagerType, VersionedTool } from '../../services/version-manager-types';
+import type { VersionOperationResponse } from '../../types/electron';
+import type {
+  VersionManagerUI,
+  ToolVersionUI,
+  VersionManagementOperation,
+  VersionManagementOperationStatus
+} from '../../types/version-management-ui-types';
 import type { Platform } from '../../shared/simple-manifest-types';
 import { VersionManagerPanel } from './VersionManagerPanel';
 
@@ -9,19 +15,36 @@ const EMPTY_TOOL_VERSIONS: Record<VersionedTool, ToolVersionUI[]> = {
   node: [], python: [], ruby: [], java: [], go: [], rust: [], php: [], perl: [],
   lua: [], elixir: [], erlang: [], julia: [], crystal: [], swift: [], scala: [],
   kotlin: [], dart: [], flutter: [], deno: [], bun: [], terraform: [], cmake: [],
-  zig: [], lean: [], r: [], neovim: []
+  zig: [], lean: [], r: [], neovim: [], gradle: [], maven: []
 };
 
+const DEFAULT_TOOLS: VersionedTool[] = ['node', 'python', 'ruby', 'go', 'rust'];
+
+const toToolVersion = (manager: VersionManagerType, isInstalled: boolean) => (version: IVersionInfo): ToolVersionUI => ({
+  ...version,
+  manager,
+  displayName: version.metadata?.ltsCodename ? `${version.version} (${version.metadata.ltsCodename})` : version.version,
+  isRecommended: false,
+  installationStatus: isInstalled ? 'installed' : 'not-installed'
+});
+
 /**
- * Minimal container component for Version Management
- * Connects the VersionManagerPanel with electron APIs
- * Part of Task 26.10: Fix version management UI disconnection
+ * Container component for Version Management
+ * Connects the VersionManagerPanel with the version-manager IPC channels
  */
 export const VersionManagerContainer: React.FC = () => {
   const [managers, setManagers] = useState<VersionManagerUI[]>([]);
+  const [tools, setTools] = useState<VersionedTool[]>(DEFAULT_TOOLS);
+  const [selectedTool, setSelectedTool] = useState<VersionedTool | undefined>();
+  const [toolVersions, setToolVersions] = useState<Record<VersionedTool, ToolVersionUI[]>>(EMPTY_TOOL_VERSIONS);
+  const [operationStatuses, setOperationStatuses] = useState<Record<string, VersionManagementOperationStatus>>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const setOperationStatus = (key: string, status: VersionManagementOperationStatus) => {
+    setOperationStatuses(previous => ({ ...previous, [key]: status }));
+  };
+
   useEffect(() => {
     // Load version managers on mount
     const loadManagers = async () => {
@@ -30,29 +53,28 @@ export const VersionManagerContainer: React.FC = () => {
         const result = await window.electronAPI.versionManager.list();
         
         if (result.success && result.managers) {
-          // Check installation status for each manager
-          const managersWithStatus = await Promise.all(
-            result.managers.map(async (manager) => {
-              const installCheck = await window.electronAPI.versionManager.checkInstalled(manager.type);
-              
-              return {
-                type: manager.type as VersionManagerType,
-                name: manager.name,
-                description: manager.description,
-                icon: 'tool',
-                status: installCheck.isInstalled ? 'ready' : 'not_installed',
-                isRecommended: manager.type === 'mise', // Mise is recommended for MVP
-                isInstalled: installCheck.isInstalled || false,
-                isActive: false,
-                supportedTools: manager.supportedTools as VersionedTool[],
-                supportedPlatforms: ['win32', 'darwin', 'linux'] as Platform[],
-                installationUrl: 'https://mise.jdx.dev',
-                documentationUrl: 'https://mise.jdx.dev/docs'
-              } as VersionManagerUI;
-            })
-          );
-          
-          setManagers(managersWithStatus);
+          setManagers(result.managers.map((manager): VersionManagerUI => ({
+            type: manager.type,
+            name: manager.name,
+            description: manager.description,
+            icon: 'tool',
+            status: manager.isInstalled ? 'installed' : 'not_installed',
+            isRecommended: manager.isRecommended,
+            isInstalled: manager.isInstalled,
+            isActive: false,
+            supportedTools: manager.supportedTools,
+            supportedPlatforms: ['win32', 'darwin', 'linux'] as Platform[],
+            installationUrl: manager.homepage,
+            documentationUrl: manager.homepage
+          })));
+
+          // Offer the tools the installed managers can handle
+          const managedTools = [...new Set(result.managers
+            .filter(manager => manager.isInstalled)
+            .flatMap(manager => manager.supportedTools))];
+          if (managedTools.length > 0) {
+            setTools(managedTools);
+          }
         } else {
           setError(result.error || 'Failed to load version managers');
         }
@@ -67,6 +89,93 @@ export const VersionManagerContainer: React.FC = () => {
     loadManagers();
   }, []);
 
+  useEffect(() => {
+    // Feed install progress into the status of the tool being installed
+    return window.electronAPI.versionManager.onProgress(progress => {
+      setOperationStatus(`versions-${progress.tool}`, {
+        operation: 'install-version',
+        status: 'running',
+        progress: progress.percentage,
+        currentStep: progress.step
+      });
+    });
+  }, []);
+
+  const loadToolVersions = async (tool: VersionedTool) => {
+    const result = await window.electronAPI.versionManager.listVersions(tool, true);
+    if (!result.success || !result.manager) {
+      setToolVersions(previous => ({ ...previous, [tool]: [] }));
+      return result.error;
+    }
+
+    const installed = (result.versions ?? []).map(toToolVersion(result.manager, true));
+    const installedVersions = new Set(installed.map(version => version.version));
+    const available = (result.available ?? [])
+      .filter(version => !installedVersions.has(version.version))
+      .map(toToolVersion(result.manager, false));
+    setToolVersions(previous => ({ ...previous, [tool]: [...installed, ...available] }));
+    return undefined;
+  };
+
+  const handleToolSelect = async (tool: VersionedTool) => {
+    setSelectedTool(tool);
+    const key = `versions-${tool}`;
+    setOperationStatus(key, { operation: 'detect-versions', status: 'running', progress: 0, currentStep: `Loading ${tool} versions` });
+    try {
+      const loadError = await loadToolVersions(tool);
+      setOperationStatus(key, loadError
+        ? { operation: 'detect-versions', status: 'error', progress: 100, currentStep: '', error: loadError }
+        : { operation: 'detect-versions', status: 'success', progress: 100, currentStep: '' });
+    } catch (err) {
+      setOperationStatus(key, { operation: 'detect-versions', status: 'error', progress: 100, currentStep: '', error: String(err) });
+    }
+  };
+
+  const handleVersionOperation = async (operation: VersionManagementOperation, tool: VersionedTool, version?: string) => {
+    if (!version) {
+      return;
+    }
+    const api = window.electronAPI.versionManager;
+    const operations: Partial<Record<VersionManagementOperation, () => Promise<VersionOperationResponse>>> = {
+      'switch-version': () => api.setGlobal(tool, version),
+      'set-global': () => api.setGlobal(tool, version),
+      'install-version': () => api.installVersion(tool, version),
+      'uninstall-version': () => api.uninstallVersion(tool, version)
+    };
+    const run = operations[operation];
+    if (!run) {
+      console.warn('Unsupported version operation:', operation);
+      return;
+    }
+
+    const key = `versions-${tool}`;
+    const startTime = new Date();
+    setOperationStatus(key, { operation, status: 'running', progress: 0, currentStep: `${operation} ${tool} ${version}`, startTime });
+    try {
+      let response = await run();
+      if (response.managerRequired) {
+        const name = managers.find(manager => manager.type === response.managerRequired)?.name ?? response.managerRequired;
+        if (window.confirm(`Installing ${tool} ${version} needs ${name}, which is not installed.\n\nInstall ${name} first?`)) {
+          response = await api.installVersion(tool, version, true);
+        }
+      }
+      const failure = !response.success || response.result?.success === false;
+      setOperationStatus(key, {
+        operation,
+        status: failure ? 'error' : 'success',
+        progress: 100,
+        currentStep: '',
+        error: failure ? response.error || response.result?.error || response.result?.message : undefined,
+        result: response.result,
+        startTime,
+        endTime: new Date()
+      });
+      await loadToolVersions(tool);
+    } catch (err) {
+      setOperationStatus(key, { operation, status: 'error', progress: 100, currentStep: '', error: String(err), startTime, endTime: new Date() });
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -87,21 +196,16 @@ export const VersionManagerContainer: React.FC = () => {
   return (
     <VersionManagerPanel
       managers={managers}
-      tools={['node', 'python', 'ruby', 'go', 'rust'] as VersionedTool[]}
-      toolVersions={EMPTY_TOOL_VERSIONS}
-      onToolSelect={(tool) => {
-        console.log('Tool selected:', tool);
-        // TODO: Load versions for selected tool
-      }}
+      tools={tools}
+      toolVersions={toolVersions}
+      selectedTool={selectedTool}
+      onToolSelect={handleToolSelect}
       onManagerOperation={(operation, manager) => {
         console.log('Manager operation:', operation, manager);
         // TODO: Implement manager operations (install, configure, etc.)
       }}
-      onVersionOperation={(operation, tool, version) => {
-        console.log('Version operation:', operation, tool, version);
-        // TODO: Implement version operations (install, switch, uninstall)
-      }}
-      operationStatuses={{}}
+      onVersionOperation={handleVersionOperation}
+      operationStatuses={operationStatuses}
       isVisible={true}
       onClose={() => console.log('Version panel closed')}
     />
@@ -1,4 +1,6 @@
 import React, { useMemo, useState } from 'react';
+import { JDK_VENDORS } from '../../services/version-managers/jdk-vendors';
+import type { JdkVendor } from '../../services/version-manager-types';
 import type { VersionSelectorProps } from '../../types/version-management-ui-types';
 
 /**
@@ -20,6 +22,12 @@ export const VersionSelector: React.FC<VersionSelectorProps> = ({
 }) => {
   const [expandedVersion, setExpandedVersion] = useState<string | null>(null);
 
+  // JDK vendors among the versions; the vendor filter is only offered when there are any
+  const vendors = useMemo(() => {
+    const found = new Set(versions.map(version => version.metadata?.vendor).filter(Boolean));
+    return (Object.keys(JDK_VENDORS) as JdkVendor[]).filter(vendor => found.has(vendor));
+  }, [versions]);
+
   // Filter versions based on current filters
   const filteredVersions = useMemo(() => {
     return versions.filter((version) => {
@@ -33,10 +41,15 @@ export const VersionSelector: React.FC<VersionSelectorProps> = ({
         return false;
       }
 
-      // LTS filter - skip for now as isLTS not available
-      // if (filters.showOnlyLTS && !false) {
-      //   return false;
-      // }
+      // LTS filter
+      if (filters.showOnlyLTS && !version.metadata?.isLts) {
+        return false;
+      }
+
+      // JDK vendor filter
+      if (filters.vendor && version.metadata?.vendor !== filters.vendor) {
+        return false;
+      }
 
       // Prerelease filter
       if (!filters.showPrerelease && version.prerelease) {
@@ -164,6 +177,26 @@ export const VersionSelector: React.FC<VersionSelectorProps> = ({
             </label>
           </div>
 
+          {/* JDK Vendor */}
+          {vendors.length > 0 && (
+            <div>
+              <label htmlFor="version-vendor" className="block text-xs font-medium text-secondary-700 mb-1">
+                JDK Vendor
+              </label>
+              <select
+                id="version-vendor"
+                value={filters.vendor ?? ''}
+                onChange={(e) => handleFilterChange('vendor', e.target.value || undefined)}
+                className="w-full px-3 py-1.5 text-sm border border-secondary-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="">All vendors</option>
+                {vendors.map(vendor => (
+                  <option key={vendor} value={vendor}>{JDK_VENDORS[vendor].name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Results count */}
           <div className="flex items-end">
             <span className="text-sm text-secondary-600">
@@ -215,6 +248,16 @@ export const VersionSelector: React.FC<VersionSelectorProps> = ({
                               Active
                             </span>
                           )}
+                          {version.metadata?.vendor && (
+                            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-secondary-100 text-secondary-800">
+                              {JDK_VENDORS[version.metadata.vendor].name}
+                            </span>
+                          )}
+                          {version.metadata?.isLts && (
+                            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">
+                              LTS
+                            </span>
+                          )}
                           {version.prerelease && (
                             <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800">
                               Pre-release
@@ -0,0 +1,145 @@
+/**
+ * Tests for Detection Cache
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DetectionCache, fingerprintDetection, getDetectionMaxAge, resolveExecutable } from '../detection-cache';
+import type { ProbeSystem } from '../detection-probes';
+import { ToolDetectionService } from '../tool-detection-service';
+import type { SimpleTool } from '../../shared/simple-manifest-types';
+
+// Files map to their mtime; commands count how often they ran
+const createSystem = (files: Record<string, number>, pathVariable = '/usr/bin:/usr/local/bin') => {
+  const runs: string[] = [];
+  const system: ProbeSystem = {
+    run: async command => {
+      runs.push(command);
+      return 'v22.1.0';
+    },
+    exists: async filePath => filePath in files,
+    stat: async filePath => filePath in files ? { mtimeMs: files[filePath], size: 100 } : null,
+    realPath: async filePath => filePath,
+    env: { PATH: pathVariable },
+    homeDir: '/home/dev'
+  };
+  return { system, runs };
+};
+
+const node: SimpleTool = { id: 'nodejs', name: 'Node.js', category: 'language', verification: 'node --version' };
+
+describe('fingerprintDetection', () => {
+  const spec = { probes: [{ type: 'command' as const, command: 'node --version' }] };
+
+  it('should change when the executable, PATH or spec changes', async () => {
+    const base = await fingerprintDetection(spec, 'linux', createSystem({ '/usr/bin/node': 1 }).system);
+
+    expect(await fingerprintDetection(spec, 'linux', createSystem({ '/usr/bin/node': 1 }).system)).toBe(base);
+    expect(await fingerprintDetection(spec, 'linux', createSystem({ '/usr/bin/node': 2 }).system)).not.toBe(base);
+    expect(await fingerprintDetection(spec, 'linux', createSystem({ '/usr/bin/node': 1 }, '/usr/bin').system)).not.toBe(base);
+    expect(await fingerprintDetection({ ...spec, minVersion: '20' }, 'linux', createSystem({ '/usr/bin/node': 1 }).system)).not.toBe(base);
+  });
+
+  it('should watch the package database for package probes', async () => {
+    const packageSpec = { probes: [{ type: 'package' as const, manager: 'apt' as const, name: 'git' }] };
+
+    const before = await fingerprintDetection(packageSpec, 'linux', createSystem({ '/var/lib/dpkg/status': 1 }).system);
+    const after = await fingerprintDetection(packageSpec, 'linux', createSystem({ '/var/lib/dpkg/status': 2 }).system);
+
+    expect(after).not.toBe(before);
+  });
+
+  it('should watch the global packages a node launcher runs', async () => {
+    const npxSpec = { probes: [{ type: 'command' as const, command: 'npx next --version' }] };
+
+    const before = await fingerprintDetection(npxSpec, 'linux', createSystem({ '/usr/bin/npx': 1, '/usr/lib/node_modules': 1 }).system);
+    const after = await fingerprintDetection(npxSpec, 'linux', createSystem({ '/usr/bin/npx': 1, '/usr/lib/node_modules': 2 }).system);
+
+    expect(after).not.toBe(before);
+  });
+});
+
+describe('getDetectionMaxAge', () => {
+  it('should shorten the lifetime of detections that go through a launcher', () => {
+    const probe = (command: string) => ({ probes: [{ type: 'command' as const, command }] });
+
+    expect(getDetectionMaxAge(probe('pip3 show fastapi'), 'linux')).toBe(5 * 60 * 1000);
+    expect(getDetectionMaxAge(probe('python3 -m flask --version'), 'linux')).toBe(5 * 60 * 1000);
+    expect(getDetectionMaxAge(probe('yarn --version'), 'linux')).toBeUndefined();
+    expect(getDetectionMaxAge(probe('node --version'), 'linux')).toBeUndefined();
+  });
+});
+
+describe('resolveExecutable', () => {
+  it('should search PATH in order, with PATHEXT on Windows', async () => {
+    const { system } = createSystem({ '/usr/local/bin/node': 1 });
+    const windows = {
+      ...createSystem({ 'C:\\nodejs\\node.exe': 1 }).system,
+      env: { PATH: 'C:\\Windows;C:\\nodejs', PATHEXT: '.COM;.EXE' }
+    };
+
+    expect(await resolveExecutable('node', 'linux', system)).toBe('/usr/local/bin/node');
+    expect(await resolveExecutable('node', 'win32', windows)).toBe('C:\\nodejs\\node.exe');
+    expect(await resolveExecutable('deno', 'linux', system)).toBe('deno');
+  });
+});
+
+describe('DetectionCache', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hatstart-detection-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should reuse detections across service instances until the fingerprint changes', async () => {
+    const cacheFile = path.join(tempDir, 'detection-cache.json');
+    const files = { '/usr/bin/node': 1 };
+
+    const first = createSystem(files);
+    await new ToolDetectionService(first.system, 'linux', new DetectionCache(cacheFile)).detectTool(node);
+
+    const warm = createSystem(files);
+    const result = await new ToolDetectionService(warm.system, 'linux', new DetectionCache(cacheFile)).detectTool(node);
+
+    const upgraded = createSystem({ '/usr/bin/node': 2 });
+    await new ToolDetectionService(upgraded.system, 'linux', new DetectionCache(cacheFile)).detectTool(node);
+
+    expect(first.runs).toEqual(['node --version']);
+    expect(warm.runs).toEqual([]);
+    expect(result).toMatchObject({ installed: true, version: '22.1.0' });
+    expect(result.lastChecked).toBeInstanceOf(Date);
+    expect(upgraded.runs).toEqual(['node --version']);
+  });
+
+  it('should expire entries after the maximum age', async () => {
+    let now = Date.parse('2025-06-01T00:00:00Z');
+    const cache = new DetectionCache(undefined, { maxAgeMs: 1000, now: () => now });
+    const result = { toolId: 'nodejs', installed: true, lastChecked: new Date(now) };
+
+    await cache.set('nodejs', 'abc', result);
+    expect(await cache.get('nodejs', 'abc')).toEqual(result);
+
+    now += 1001;
+    expect(await cache.get('nodejs', 'abc')).toBeNull();
+  });
+
+  it('should report stale entries and purge them', async () => {
+    const { system } = createSystem({ '/usr/bin/node': 1 });
+    const service = new ToolDetectionService(system, 'linux', new DetectionCache(path.join(tempDir, 'cache.json')));
+    await service.detectTool(node);
+
+    const current = await service.getCacheStatus([node]);
+    const changed = await service.getCacheStatus([{ ...node, verification: 'node -v' }]);
+    await service.clearCache('nodejs');
+
+    expect(current.map(entry => [entry.toolId, entry.fresh])).toEqual([['nodejs', true]]);
+    expect(changed.map(entry => [entry.toolId, entry.fresh])).toEqual([['nodejs', false]]);
+    expect(await service.getCacheStatus([node])).toEqual([]);
+  });
+});
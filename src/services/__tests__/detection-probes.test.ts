@@ -0,0 +1,127 @@
+/**
+ * Tests for Detection Probes
+ */
+
+import { describe, expect, it } from 'vitest';
+import { expandPath, extractVersion, runDetectionProbes } from '../detection-probes';
+import type { ProbeSystem } from '../detection-probes';
+import { ToolDetectionService } from '../tool-detection-service';
+
+// Commands map to their stdout; anything else fails like a missing command would
+const createSystem = (outputs: Record<string, string>, files: string[] = []): ProbeSystem => ({
+  run: async command => {
+    if (command in outputs) {
+      return outputs[command];
+    }
+    throw new Error(`command not found: ${command}`);
+  },
+  exists: async filePath => files.includes(filePath),
+  stat: async filePath => files.includes(filePath) ? { mtimeMs: 1, size: 1 } : null,
+  realPath: async filePath => filePath,
+  env: { LOCALAPPDATA: 'C:\\Users\\dev\\AppData\\Local' },
+  homeDir: '/home/dev'
+});
+
+describe('extractVersion', () => {
+  it('should only report something shaped like a version', () => {
+    expect(extractVersion('git version 2.49.0')).toBe('2.49.0');
+    expect(extractVersion('v22.1.0\n')).toBe('22.1.0');
+    expect(extractVersion('Error: unknown flag --version')).toBeUndefined();
+  });
+
+  it('should use the capture group of a probe pattern', () => {
+    expect(extractVersion('1.90.0\nabc123\nx64', '^(\\d+\\.\\d+\\.\\d+)$')).toBe('1.90.0');
+  });
+});
+
+describe('expandPath', () => {
+  it('should expand the home directory and environment variables', () => {
+    const system = createSystem({});
+
+    expect(expandPath('~/.cargo/bin/cargo', system)).toBe('/home/dev/.cargo/bin/cargo');
+    expect(expandPath('%LOCALAPPDATA%\\Programs', system)).toBe('C:\\Users\\dev\\AppData\\Local\\Programs');
+    expect(expandPath('$UNSET/bin', system)).toBe('$UNSET/bin');
+  });
+});
+
+describe('runDetectionProbes', () => {
+  it('should report the first probe that finds the tool and why the others did not', async () => {
+    const detection = await runDetectionProbes({
+      probes: [
+        { type: 'command', command: 'docker --version' },
+        { type: 'registry', key: 'HKLM\\Software\\Docker Inc.\\Docker Desktop', platforms: ['win32'] },
+        { type: 'app-bundle', path: '/Applications/Docker.app' }
+      ]
+    }, 'darwin', createSystem({
+      'plutil -extract CFBundleShortVersionString raw "/Applications/Docker.app/Contents/Info.plist"': '4.41.2\n'
+    }, ['/Applications/Docker.app']));
+
+    expect(detection).toEqual({
+      installed: true,
+      version: '4.41.2',
+      detectedBy: 'app /Applications/Docker.app',
+      probeType: 'app-bundle',
+      explanation: 'Found by app /Applications/Docker.app (/Applications/Docker.app exists, version 4.41.2)',
+      meetsMinVersion: undefined
+    });
+  });
+
+  it('should explain every probe tried when none finds the tool', async () => {
+    const detection = await runDetectionProbes({
+      probes: [
+        { type: 'command', command: 'rg --version' },
+        { type: 'file', path: '~/.cargo/bin/rg' }
+      ]
+    }, 'linux', createSystem({}));
+
+    expect(detection).toEqual({
+      installed: false,
+      explanation: 'Not found. Tried command "rg --version": failed; file ~/.cargo/bin/rg: /home/dev/.cargo/bin/rg does not exist'
+    });
+  });
+
+  it('should read versions with the package manager query', async () => {
+    const detection = await runDetectionProbes({
+      probes: [{ type: 'package', manager: 'apt', name: 'git' }]
+    }, 'linux', createSystem({
+      'dpkg -s git': 'Package: git\nStatus: install ok installed\nPriority: optional\nVersion: 1:2.43.0-1ubuntu7\n'
+    }));
+
+    expect(detection.version).toBe('2.43.0');
+    expect(detection.detectedBy).toBe('apt package "git"');
+  });
+
+  it('should not count a package that is not installed', async () => {
+    const detection = await runDetectionProbes({
+      probes: [{ type: 'package', manager: 'apt', name: 'git' }]
+    }, 'linux', createSystem({
+      'dpkg -s git': 'Package: git\nStatus: deinstall ok config-files\nVersion: 1:2.43.0-1ubuntu7\n'
+    }));
+
+    expect(detection.installed).toBe(false);
+  });
+
+  it('should flag versions below the minimum', async () => {
+    const system = createSystem({ 'python3 --version': 'Python 3.8.10' });
+
+    const old = await runDetectionProbes({ probes: [{ type: 'command', command: 'python3 --version' }], minVersion: '3.10' }, 'linux', system);
+    const ok = await runDetectionProbes({ probes: [{ type: 'command', command: 'python3 --version' }], minVersion: '3.8' }, 'linux', system);
+
+    expect(old.installed).toBe(true);
+    expect(old.meetsMinVersion).toBe(false);
+    expect(old.explanation).toContain('version 3.8.10 is below the minimum 3.10');
+    expect(ok.meetsMinVersion).toBe(true);
+  });
+});
+
+describe('ToolDetectionService', () => {
+  it('should not report command output that has no version as the version', async () => {
+    const service = new ToolDetectionService(createSystem({ 'mytool --version': 'Usage: mytool [options]' }), 'linux');
+
+    const result = await service.detectTool({ id: 'mytool', name: 'My Tool', category: 'other', verification: 'mytool --version' });
+
+    expect(result.installed).toBe(true);
+    expect(result.version).toBeUndefined();
+    expect(result.detectedBy).toBe('command "mytool --version"');
+  });
+});
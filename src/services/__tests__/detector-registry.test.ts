@@ -0,0 +1,148 @@
+/**
+ * Tests for Detector Registry
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createManifestDetector, DetectorRegistry, getDefinitionToolId } from '../detector-registry';
+import type { DetectorPlugin } from '../detector-registry';
+import { ToolDetectionService } from '../tool-detection-service';
+import type { ProbeSystem } from '../detection-probes';
+import type { DetectionResult } from '../../shared/detection-types';
+
+const found = (name: string, version?: string): DetectionResult => ({ name, found: true, version, detectionMethod: 'command' });
+
+const createPlugin = (id: string, priority: number, toolIds: string[], overrides: Partial<DetectorPlugin> = {}): DetectorPlugin => ({
+  id,
+  priority,
+  getToolIds: () => toolIds,
+  detect: async toolId => found(`${id}:${toolId}`),
+  ...overrides
+});
+
+describe('DetectorRegistry', () => {
+  it('should give each tool to the highest priority plugin and name results by tool id', async () => {
+    const registry = new DetectorRegistry();
+    registry.register(createPlugin('language', 30, ['nodejs', 'rust']));
+    registry.register(createPlugin('manifest', 100, ['nodejs']));
+
+    const results = await registry.detect(['rust', 'nodejs', 'cobol']);
+
+    expect(results.map(result => [result.name, result.detector, result.found])).toEqual([
+      ['rust', 'language', true],
+      ['nodejs', 'manifest', true],
+      ['cobol', undefined, false]
+    ]);
+    expect(results[2].error).toBe('No detector handles cobol');
+  });
+
+  it('should detect dependencies first and skip tools whose dependency failed', async () => {
+    const order: string[] = [];
+    const registry = new DetectorRegistry();
+    registry.register(createPlugin('runtime', 50, ['nodejs', 'python'], {
+      detect: async toolId => {
+        order.push(toolId);
+        if (toolId === 'python') {
+          throw new Error('python exploded');
+        }
+        return found(toolId);
+      }
+    }));
+    registry.register(createPlugin('framework', 10, ['react', 'django'], {
+      getDependencies: toolId => [toolId === 'django' ? 'python' : 'nodejs'],
+      detect: async toolId => {
+        order.push(toolId);
+        return found(toolId);
+      }
+    }));
+
+    const results = await registry.detect(['react', 'django', 'nodejs', 'python']);
+
+    expect(order.indexOf('react')).toBeGreaterThan(order.indexOf('nodejs'));
+    expect(order).not.toContain('django');
+    expect(results.find(result => result.name === 'python')?.error).toBe('python exploded');
+    expect(results.find(result => result.name === 'django')?.error).toMatch(/depends on/);
+  });
+
+  it('should time out slow detections and retry them', async () => {
+    let attempts = 0;
+    const registry = new DetectorRegistry();
+    registry.register(createPlugin('flaky', 10, ['flaky'], {
+      timeout: 20,
+      retry: { maxAttempts: 2, delayMs: 1, backoffMultiplier: 1, maxDelayMs: 1 },
+      detect: async toolId => {
+        attempts++;
+        if (attempts === 1) {
+          await new Promise(resolve => setTimeout(resolve, 100));
+        }
+        return found(toolId, '1.0.0');
+      }
+    }));
+    registry.register(createPlugin('slow', 10, ['slow'], {
+      timeout: 20,
+      detect: () => new Promise(resolve => setTimeout(() => resolve(found('slow')), 100))
+    }));
+
+    const [flaky, slow] = await registry.detect(['flaky', 'slow']);
+
+    expect(attempts).toBe(2);
+    expect(flaky).toMatchObject({ found: true, version: '1.0.0' });
+    expect(slow.found).toBe(false);
+    expect(slow.error).toMatch(/timed out|timeout/i);
+  });
+
+  it('should clear every plugin cache', async () => {
+    const cleared: string[] = [];
+    const registry = new DetectorRegistry();
+    registry.register(createPlugin('a', 1, [], { clearCache: toolId => { cleared.push(`a:${toolId}`); } }));
+    registry.register(createPlugin('b', 1, []));
+
+    await registry.clearCache('git');
+
+    expect(cleared).toEqual(['a:git']);
+  });
+});
+
+describe('createManifestDetector', () => {
+  it('should report manifest detections in the shared result shape', async () => {
+    const system: ProbeSystem = {
+      run: async command => {
+        if (command === 'dpkg -s git') {
+          return 'Status: install ok installed\nVersion: 1:2.43.0-1\n';
+        }
+        throw new Error('not found');
+      },
+      exists: async () => false,
+      stat: async () => null,
+      realPath: async filePath => filePath,
+      env: { PATH: '/usr/bin' },
+      homeDir: '/home/dev'
+    };
+    const registry = new DetectorRegistry();
+    registry.register(createManifestDetector(async () => [{
+      id: 'git',
+      name: 'Git',
+      category: 'developer-tools',
+      detection: { probes: [{ type: 'package', manager: 'apt', name: 'git' }] }
+    }], new ToolDetectionService(system, 'linux')));
+
+    const [git] = await registry.detect(['git']);
+
+    expect(git).toMatchObject({
+      name: 'git',
+      found: true,
+      version: '2.43.0',
+      detectionMethod: 'package-manager',
+      detector: 'manifest',
+      metadata: { detectedBy: 'apt package "git"' }
+    });
+  });
+});
+
+describe('getDefinitionToolId', () => {
+  it('should map built-in definition names onto manifest tool ids', () => {
+    expect(getDefinitionToolId('Visual Studio Code')).toBe('vscode');
+    expect(getDefinitionToolId('Node')).toBe('nodejs');
+    expect(getDefinitionToolId('Sublime Text')).toBe('sublime-text');
+    expect(getDefinitionToolId('Rust')).toBe('rust');
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Tests for Environment Doctor
+ */
+
+import { describe, expect, it } from 'vitest';
+import { EnvironmentDoctor } from '../environment-doctor';
+import type { DoctorDependencies } from '../environment-doctor';
+import type { PathEntry, ShellIntegration } from '../workspace-configuration/types';
+
+const integration: ShellIntegration = {
+  profile: '.zshrc',
+  initCommands: ['eval "$(mise activate zsh)"'],
+  environmentVariables: [],
+  pathEntries: [],
+  enabled: true
+};
+
+// A healthy Linux machine unless overridden; existing paths and commands that succeed are listed
+const createDoctor = (overrides: {
+  paths?: string[];
+  pathEntries?: string[];
+  commands?: string[];
+  freeBytes?: number | null;
+  integrated?: boolean;
+  unmanagedPath?: boolean;
+} = {}) => {
+  const paths = new Set(overrides.paths ?? ['/usr/bin', '/usr/local/bin']);
+  const commands = overrides.commands ?? ['apt-get --version'];
+  let pathEntries = overrides.pathEntries ?? ['/usr/local/bin', '/usr/bin'];
+  const calls: string[] = [];
+
+  const deps: Partial<DoctorDependencies> = {
+    platform: 'linux',
+    system: {
+      run: async command => {
+        if (!commands.includes(command)) {
+          throw new Error(`${command}: not found`);
+        }
+        return '1.0.0';
+      },
+      exists: async filePath => paths.has(filePath),
+      stat: async filePath => paths.has(filePath) ? { mtimeMs: 1, size: 1 } : null,
+      realPath: async filePath => filePath,
+      env: { PATH: pathEntries.join(':') },
+      homeDir: '/home/dev'
+    },
+    detectPackageManagers: async () => ({ platform: 'linux', available: ['apt'], primary: 'apt', fallbacks: [] }),
+    environment: {
+      getCurrentPath: async () => pathEntries,
+      movePathEntryToFront: async (entry: PathEntry) => {
+        calls.push(`prepend ${entry.path}`);
+        pathEntries = [entry.path, ...pathEntries.filter(existing => existing !== entry.path)];
+        return true;
+      },
+      removePathEntry: async (entry: string) => {
+        calls.push(`remove ${entry}`);
+        pathEntries = pathEntries.filter(existing => existing !== entry);
+        return !overrides.unmanagedPath;
+      }
+    },
+    shell: {
+      hasShellIntegration: async () => overrides.integrated ?? true,
+      updateShellProfile: async profile => {
+        calls.push(`write ${profile}`);
+        return true;
+      }
+    },
+    getShellIntegrations: async () => [integration],
+    getFreeDiskSpace: async () => overrides.freeBytes === undefined ? 50 * 1024 ** 3 : overrides.freeBytes
+  };
+  return { doctor: new EnvironmentDoctor(deps, '/home/dev/project'), calls };
+};
+
+describe('EnvironmentDoctor', () => {
+  it('should find nothing wrong on a healthy machine', async () => {
+    const { doctor } = createDoctor();
+
+    const report = await doctor.run();
+
+    expect(report.findings).toEqual([]);
+    expect(report.checks).toHaveLength(6);
+  });
+
+  it('should report a package manager that does not run', async () => {
+    const { doctor } = createDoctor({ commands: [] });
+
+    const report = await doctor.run(['package-manager']);
+
+    expect(report.errorCount).toBe(1);
+    expect(report.findings[0]).toMatchObject({ id: 'package-manager:apt', severity: 'error', suggestion: 'Reinstall or repair APT' });
+  });
+
+  it('should flag version manager shims behind system directories and fix them', async () => {
+    const { doctor, calls } = createDoctor({
+      paths: ['/usr/bin', '/usr/local/bin', '/home/dev/.pyenv/shims'],
+      pathEntries: ['/usr/bin', '/home/dev/.pyenv/shims']
+    });
+
+    const report = await doctor.run(['version-manager-path']);
+    const fix = await doctor.applyFix('version-manager-path:pyenv');
+
+    expect(report.findings[0].message).toBe('/usr/bin comes before the pyenv directory /home/dev/.pyenv/shims on PATH');
+    expect(fix.applied).toBe(true);
+    expect(calls).toEqual(['prepend /home/dev/.pyenv/shims']);
+    expect((await doctor.run(['version-manager-path'])).findings).toEqual([]);
+  });
+
+  it('should offer to remove PATH entries that point at missing directories', async () => {
+    const { doctor, calls } = createDoctor({ pathEntries: ['/usr/bin', '/opt/old-sdk/bin'] });
+
+    const report = await doctor.run(['orphaned-path']);
+    await doctor.applyFix('orphaned-path:/opt/old-sdk/bin');
+
+    expect(report.findings.map(finding => finding.message)).toEqual(['PATH entry /opt/old-sdk/bin does not exist']);
+    expect(calls).toEqual(['remove /opt/old-sdk/bin']);
+  });
+
+  it('should ask for manual action when a PATH entry is not set anywhere it can edit', async () => {
+    const { doctor } = createDoctor({ pathEntries: ['/usr/bin', '/opt/old-sdk/bin'], unmanagedPath: true });
+
+    await doctor.run(['orphaned-path']);
+    const result = await doctor.applyFix('orphaned-path:/opt/old-sdk/bin');
+
+    expect(result.applied).toBe(false);
+    expect(result.message).toMatch(/^Manual action required: \/opt\/old-sdk\/bin is not set/);
+  });
+
+  it('should rewrite missing shell integrations with a backup', async () => {
+    const { doctor, calls } = createDoctor({ integrated: false });
+
+    const report = await doctor.run(['shell-integration']);
+    const fix = await doctor.applyFix('shell-integration:.zshrc');
+
+    expect(report.findings[0]).toMatchObject({ severity: 'warning', message: 'The HatStart integration is missing from ~/.zshrc' });
+    expect(fix.message).toBe('Fixed: Write the integration to ~/.zshrc');
+    expect(calls).toEqual(['write .zshrc']);
+  });
+
+  it('should report IDE launchers on PATH that fail to run', async () => {
+    const { doctor } = createDoctor({ paths: ['/usr/bin', '/usr/local/bin', '/usr/local/bin/code'] });
+
+    const report = await doctor.run(['ide-cli']);
+
+    expect(report.findings).toHaveLength(1);
+    expect(report.findings[0]).toMatchObject({ id: 'ide-cli:code', severity: 'error', message: '`code` at /usr/local/bin/code does not run' });
+  });
+
+  it('should grade low disk space', async () => {
+    const warning = await createDoctor({ freeBytes: 5 * 1024 ** 3 }).doctor.run(['disk-space']);
+    const error = await createDoctor({ freeBytes: 1024 ** 3 }).doctor.run(['disk-space']);
+    const unknown = await createDoctor({ freeBytes: null }).doctor.run(['disk-space']);
+
+    expect(warning.findings[0].severity).toBe('warning');
+    expect(error.findings[0].severity).toBe('error');
+    expect(unknown.findings).toEqual([]);
+  });
+
+  it('should only apply fixes it offered in the last run', async () => {
+    const { doctor, calls } = createDoctor();
+
+    const result = await doctor.applyFix('orphaned-path:/usr/bin');
+
+    expect(result).toEqual({ findingId: 'orphaned-path:/usr/bin', applied: false, message: 'Unknown finding orphaned-path:/usr/bin' });
+    expect(calls).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for Install Dry Run
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { SimpleManifest, SimpleTool } from '../../shared/simple-manifest-types';
+import { createDryRunReport } from '../install-dry-run';
+import type { ToolDetector } from '../install-dry-run';
+
+const manifest: SimpleManifest = {
+  version: '1.0.0',
+  tools: [
+    { id: 'nodejs', name: 'Node.js', category: 'language', packageNames: { darwin: 'node', linux: 'nodejs' } },
+    {
+      id: 'jest',
+      name: 'Jest',
+      category: 'testing',
+      customInstall: { darwin: 'npm install -g jest', linux: 'npm install -g jest' },
+      dependsOn: ['nodejs']
+    },
+    { id: 'git', name: 'Git', category: 'developer-tools', packageNames: { darwin: 'git', linux: 'git' } },
+    { id: 'postman', name: 'Postman', category: 'developer-tools', customInstall: { darwin: 'brew install --cask postman' } },
+    {
+      id: 'newman',
+      name: 'Newman',
+      category: 'testing',
+      customInstall: { linux: 'npm install -g newman' },
+      dependsOn: ['postman']
+    },
+    {
+      id: 'rustup',
+      name: 'rustup',
+      category: 'language',
+      installScript: { linux: { url: 'https://sh.rustup.rs', sha256: 'ABC123', args: ['-y'] } }
+    }
+  ]
+};
+
+function createDetector(installed: Record<string, string>): ToolDetector {
+  return {
+    detectTool: async (tool: SimpleTool) => ({
+      toolId: tool.id,
+      installed: tool.id in installed,
+      version: installed[tool.id],
+      lastChecked: new Date()
+    })
+  };
+}
+
+describe('createDryRunReport', () => {
+  it('should report resolved commands in install order', async () => {
+    const report = await createDryRunReport(['jest'], manifest, 'darwin', createDetector({}));
+
+    expect(report.tools.map(tool => tool.toolId)).toEqual(['nodejs', 'jest']);
+    expect(report.tools[0]).toMatchObject({ action: 'install', command: 'brew install node', autoAdded: true });
+    expect(report.tools[1]).toMatchObject({ action: 'install', command: 'npm install -g jest', autoAdded: false });
+  });
+
+  it('should flag commands that need elevation', async () => {
+    const report = await createDryRunReport(['git'], manifest, 'linux', createDetector({}));
+
+    expect(report.tools[0].command).toBe('sudo apt-get install -y git');
+    expect(report.tools[0].requiresElevation).toBe(true);
+  });
+
+  it('should skip tools that are already installed', async () => {
+    const report = await createDryRunReport(['jest'], manifest, 'darwin', createDetector({ nodejs: '20.11.0' }));
+
+    expect(report.tools[0]).toMatchObject({ action: 'skip', skipReason: 'Already installed (version 20.11.0)' });
+    expect(report.tools[1].action).toBe('install');
+  });
+
+  it('should skip tools without an install method and their dependents', async () => {
+    const report = await createDryRunReport(['newman'], manifest, 'linux', createDetector({}));
+
+    expect(report.tools[0]).toMatchObject({ toolId: 'postman', action: 'skip', command: null });
+    expect(report.tools[0].skipReason).toContain('No installation method');
+    expect(report.tools[1]).toMatchObject({ toolId: 'newman', action: 'skip' });
+    expect(report.tools[1].skipReason).toContain('Prerequisite Postman');
+  });
+
+  it('should skip installed dependents of unavailable tools the way the installer does', async () => {
+    const report = await createDryRunReport(['newman'], manifest, 'linux', createDetector({ newman: '6.1.0' }));
+
+    expect(report.tools[1]).toMatchObject({ toolId: 'newman', action: 'skip' });
+    expect(report.tools[1].skipReason).toContain('Prerequisite Postman');
+  });
+
+  it('should show the download, checksum and run steps of an install script', async () => {
+    const report = await createDryRunReport(['rustup'], manifest, 'linux', createDetector({}));
+
+    expect(report.tools[0].command).toBe([
+      'tmp="$(mktemp -d)"',
+      'curl -fsSL "https://sh.rustup.rs" -o "$tmp/install.sh"',
+      'echo "abc123  $tmp/install.sh" | shasum -a 256 -c -',
+      'sh "$tmp/install.sh" "-y"'
+    ].join(' && \\\n'));
+    expect(report.tools[0].script).toEqual({ url: 'https://sh.rustup.rs', sha256: 'ABC123', args: ['-y'] });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Tests for Install Ledger
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { InstallLedger } from '../install-ledger';
+import type { InstallLedgerEntry } from '../install-ledger';
+
+function entry(toolId: string, sessionId: string): InstallLedgerEntry {
+  return {
+    toolId,
+    name: toolId,
+    sessionId,
+    platform: 'linux',
+    installedAt: new Date().toISOString(),
+    installCommand: `sudo apt-get install -y ${toolId}`,
+    uninstallCommand: `sudo apt-get remove -y ${toolId}`,
+    packageManager: 'apt'
+  };
+}
+
+describe('InstallLedger', () => {
+  let tempDir: string;
+  let ledger: InstallLedger;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hatstart-ledger-'));
+    ledger = new InstallLedger(path.join(tempDir, 'install-ledger.json'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should start empty', async () => {
+    expect(await ledger.load()).toEqual({ entries: [] });
+    expect(await ledger.getLastSessionEntries()).toEqual([]);
+  });
+
+  it('should return only the last session, newest first', async () => {
+    await ledger.startSession('install-1');
+    await ledger.record(entry('git', 'install-1'));
+
+    await ledger.startSession('install-2');
+    await ledger.record(entry('nodejs', 'install-2'));
+    await ledger.record(entry('jest', 'install-2'));
+
+    const entries = await ledger.getLastSessionEntries();
+    expect(entries.map(e => e.toolId)).toEqual(['jest', 'nodejs']);
+  });
+
+  it('should return nothing when the last session installed nothing', async () => {
+    await ledger.startSession('install-1');
+    await ledger.record(entry('git', 'install-1'));
+    await ledger.startSession('install-2');
+
+    expect(await ledger.getLastSessionEntries()).toEqual([]);
+  });
+
+  it('should forget removed tools and replace reinstalled ones', async () => {
+    await ledger.startSession('install-1');
+    await ledger.record(entry('git', 'install-1'));
+    await ledger.record(entry('git', 'install-1'));
+    await ledger.record(entry('curl', 'install-1'));
+    await ledger.remove('curl');
+
+    const { entries } = await ledger.load();
+    expect(entries.map(e => e.toolId)).toEqual(['git']);
+  });
+});
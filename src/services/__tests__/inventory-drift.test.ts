@@ -0,0 +1,101 @@
+/**
+ * Tests for Inventory Drift
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { compareInventories, InventoryBaselineStore } from '../inventory-drift';
+import { redactInventory } from '../machine-inventory';
+import type { MachineInventory } from '../machine-inventory';
+
+const createInventory = (overrides: Partial<MachineInventory> = {}): MachineInventory => ({
+  generatedAt: '2026-01-05T09:00:00.000Z',
+  os: { platform: 'linux', architecture: 'x64', version: '6.8.0', hostname: 'dev-box', username: 'dev', homeDir: '/home/dev' },
+  tools: [
+    { id: 'nodejs', name: 'Node.js', version: '22.1.0', origin: 'mise' },
+    { id: 'git', name: 'Git', version: '2.43.0', origin: 'system' }
+  ],
+  pathEntries: ['/home/dev/.local/share/mise/shims', '/usr/bin'],
+  versionManagers: [{ type: 'mise', runtimes: [{ tool: 'node', versions: ['20.11.0', '22.1.0'], active: '22.1.0' }] }],
+  ides: [{ ide: 'vscode', extensions: [{ id: 'dbaeumer.vscode-eslint', version: '3.0.10' }] }],
+  shellChanges: [],
+  ...overrides
+});
+
+describe('compareInventories', () => {
+  it('should report no drift for the same toolset', () => {
+    const report = compareInventories(createInventory(), createInventory({ generatedAt: '2026-02-01T09:00:00.000Z' }));
+
+    expect(report).toEqual({
+      baselineGeneratedAt: '2026-01-05T09:00:00.000Z',
+      checkedAt: '2026-02-01T09:00:00.000Z',
+      changes: [],
+      hasDrift: false
+    });
+  });
+
+  it('should report added and removed tools, version changes, PATH entries and extensions', () => {
+    const current = createInventory({
+      tools: [
+        { id: 'nodejs', name: 'Node.js', version: '22.4.0', origin: 'mise' },
+        { id: 'python', name: 'Python', version: '3.12.2', origin: 'pyenv' }
+      ],
+      pathEntries: ['/usr/bin', '/home/dev/.local/share/mise/shims', '/opt/sdk/bin'],
+      versionManagers: [{ type: 'mise', runtimes: [{ tool: 'node', versions: ['20.11.0', '22.1.0'], active: '20.11.0' }] }],
+      ides: [{ ide: 'vscode', extensions: [{ id: 'dbaeumer.vscode-eslint', version: '3.1.0' }, { id: 'esbenp.prettier-vscode' }] }]
+    });
+
+    const report = compareInventories(createInventory(), current);
+
+    expect(report.hasDrift).toBe(true);
+    expect(report.changes.map(change => [change.category, change.kind, change.message])).toEqual([
+      ['tool', 'changed', 'Node.js changed from 22.1.0 to 22.4.0'],
+      ['tool', 'added', 'Python 3.12.2 was installed'],
+      ['tool', 'removed', 'Git is no longer installed'],
+      ['runtime', 'changed', 'node@20.11.0 (mise) is now the active version'],
+      ['runtime', 'changed', 'node@22.1.0 (mise) is no longer the active version'],
+      ['path', 'added', '/opt/sdk/bin was added to PATH'],
+      ['extension', 'changed', 'dbaeumer.vscode-eslint (vscode) changed from 3.0.10 to 3.1.0'],
+      ['extension', 'added', 'esbenp.prettier-vscode was installed in vscode']
+    ]);
+  });
+
+  it('should compare with a redacted baseline after redacting the current inventory the same way', () => {
+    const baseline = redactInventory(createInventory(), { hostname: false, username: false, homePaths: true });
+    const current = createInventory({
+      os: { ...createInventory().os, username: 'alex', homeDir: '/home/alex' },
+      pathEntries: ['/home/alex/.local/share/mise/shims', '/usr/bin']
+    });
+
+    expect(compareInventories(baseline, current).changes).toEqual([]);
+  });
+});
+
+describe('InventoryBaselineStore', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hatstart-inventory-drift-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should save and load a baseline, and load nothing before one is saved', async () => {
+    const store = new InventoryBaselineStore(path.join(tempDir, 'nested', 'baseline.json'));
+
+    expect(await store.load()).toBeNull();
+    await store.save(createInventory());
+    expect(await store.load()).toEqual(createInventory());
+  });
+
+  it('should reject files that are not an inventory', async () => {
+    const filePath = path.join(tempDir, 'baseline.json');
+    await fs.writeFile(filePath, '{"name": "not an inventory"}');
+
+    await expect(new InventoryBaselineStore(filePath).load()).rejects.toThrow('is not a machine inventory');
+  });
+});
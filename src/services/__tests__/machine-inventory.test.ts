@@ -0,0 +1,146 @@
+/**
+ * Tests for Machine Inventory
+ */
+
+import { describe, expect, it } from 'vitest';
+import { collectMachineInventory, formatInventory, redactInventory } from '../machine-inventory';
+import type { InventorySources } from '../machine-inventory';
+import type { IVersionManager } from '../version-manager-types';
+import type { WorkspaceConfiguration } from '../workspace-configuration/types';
+
+const mise = {
+  type: 'mise',
+  capabilities: { supportedTools: ['node', 'python'] },
+  isAvailable: async () => true,
+  listInstalled: async (tool: string) => tool === 'node'
+    ? [{ version: '20.11.0', isActive: false }, { version: '22.1.0', isActive: true }]
+    : []
+} as unknown as IVersionManager;
+
+const pyenv = {
+  type: 'pyenv',
+  capabilities: { supportedTools: ['python'] },
+  isAvailable: async () => false,
+  listInstalled: async () => []
+} as unknown as IVersionManager;
+
+const createSources = (overrides: Partial<InventorySources> = {}): InventorySources => ({
+  detectSystem: async () => ({
+    platform: 'linux',
+    architecture: 'x64',
+    version: '6.8.0',
+    distribution: { name: 'Ubuntu', version: '24.04' },
+    systemInfo: { hostname: 'dev-box', shell: '/bin/zsh', totalMemory: 16 * 1024 ** 3, freeMemory: 8 * 1024 ** 3 }
+  }),
+  username: 'dev',
+  homeDir: '/home/dev',
+  pathEntries: ['/home/dev/.local/share/mise/shims', '/usr/bin'],
+  getTools: async () => [{ id: 'nodejs', name: 'Node.js', category: 'language' }],
+  detection: {
+    detectMultipleTools: async () => [{
+      toolId: 'nodejs',
+      installed: true,
+      version: '22.1.0',
+      detectedBy: 'command',
+      lastChecked: new Date(),
+      installations: [{
+        path: '/home/dev/.local/share/mise/shims/node',
+        realPath: '/home/dev/.local/share/mise/shims/node',
+        origin: 'version-manager',
+        manager: 'mise',
+        version: '22.1.0',
+        active: true,
+        onPath: true
+      }]
+    }]
+  },
+  getVersionManagers: async () => [mise, pyenv],
+  listExtensions: async ide => ide === 'vscode' ? [{ id: 'dbaeumer.vscode-eslint', version: '3.0.10' }] : [],
+  getWorkspaceConfiguration: async () => ({
+    pathConfiguration: [{ path: '/home/dev/.local/share/mise/shims', position: 'prepend' }],
+    environment: [],
+    shellIntegrations: [{ profile: '.zshrc', initCommands: ['eval "$(mise activate zsh)"'], enabled: true }]
+  }) as unknown as WorkspaceConfiguration,
+  readProfile: async profilePath => profilePath === '/home/dev/.bashrc'
+    ? 'alias ll="ls -l"\n# node (mise) PATH\nexport PATH="/home/dev/.local/share/mise/shims:$PATH"\n'
+    : null,
+  ...overrides
+});
+
+describe('collectMachineInventory', () => {
+  it('should gather the OS, tools, runtimes, extensions and shell changes', async () => {
+    const inventory = await collectMachineInventory(createSources());
+
+    expect(inventory.os).toMatchObject({ platform: 'linux', distribution: 'Ubuntu 24.04', hostname: 'dev-box', username: 'dev' });
+    expect(inventory.tools).toEqual([{
+      id: 'nodejs',
+      name: 'Node.js',
+      version: '22.1.0',
+      origin: 'mise',
+      path: '/home/dev/.local/share/mise/shims/node'
+    }]);
+    expect(inventory.versionManagers).toEqual([
+      { type: 'mise', runtimes: [{ tool: 'node', versions: ['20.11.0', '22.1.0'], active: '22.1.0' }] }
+    ]);
+    expect(inventory.ides).toEqual([{ ide: 'vscode', extensions: [{ id: 'dbaeumer.vscode-eslint', version: '3.0.10' }] }]);
+    expect(inventory.shellChanges).toEqual([
+      { source: 'workspace configuration', kind: 'path', value: 'prepend /home/dev/.local/share/mise/shims' },
+      { source: '.zshrc', kind: 'integration', value: 'eval "$(mise activate zsh)"' },
+      { source: '.bashrc', kind: 'path', value: 'export PATH="/home/dev/.local/share/mise/shims:$PATH"' }
+    ]);
+  });
+
+  it('should leave a section empty when its source fails', async () => {
+    const inventory = await collectMachineInventory(createSources({
+      getVersionManagers: async () => { throw new Error('factory failed'); },
+      listExtensions: async () => { throw new Error('code not found'); }
+    }));
+
+    expect(inventory.versionManagers).toEqual([]);
+    expect(inventory.ides).toEqual([]);
+    expect(inventory.tools).toHaveLength(1);
+  });
+});
+
+describe('redactInventory', () => {
+  it('should replace home paths, the username and the hostname everywhere', async () => {
+    const inventory = await collectMachineInventory(createSources());
+
+    const redacted = redactInventory(inventory, { hostname: true, username: true, homePaths: true });
+    const json = JSON.stringify(redacted);
+
+    expect(redacted.os).toMatchObject({ hostname: '<hostname>', username: '<user>', homeDir: '~' });
+    expect(redacted.tools[0].path).toBe('~/.local/share/mise/shims/node');
+    expect(redacted.redacted).toEqual(['hostname', 'username', 'homePaths']);
+    expect(json).not.toMatch(/dev-box|\/home\/dev/);
+    // Only whole words are replaced
+    expect(redacted.os.platform).toBe('linux');
+    expect(redacted.ides[0].extensions[0].id).toBe('dbaeumer.vscode-eslint');
+  });
+
+  it('should only redact what was asked for', async () => {
+    const inventory = await collectMachineInventory(createSources());
+
+    const redacted = redactInventory(inventory, { hostname: true, username: false, homePaths: false });
+
+    expect(redacted.os).toMatchObject({ hostname: '<hostname>', username: 'dev', homeDir: '/home/dev' });
+    expect(inventory.os.hostname).toBe('dev-box');
+  });
+});
+
+describe('formatInventory', () => {
+  it('should render Markdown tables and escape CSV fields', async () => {
+    const inventory = await collectMachineInventory(createSources());
+
+    const markdown = formatInventory(inventory, 'markdown');
+    const csv = formatInventory(inventory, 'csv').split('\n');
+
+    expect(markdown).toContain('| Node.js | 22.1.0 | mise | /home/dev/.local/share/mise/shims/node |');
+    expect(markdown).toContain('| mise | node | 20.11.0, 22.1.0 | 22.1.0 |');
+    expect(markdown).toContain('| Memory | 8.0 GB free of 16.0 GB |');
+    expect(csv[0]).toBe('section,name,version,detail');
+    expect(csv).toContain('runtime,mise:node,22.1.0,active');
+    expect(csv).toContain('shell,.zshrc,,"integration: eval ""$(mise activate zsh)"""');
+    expect(JSON.parse(formatInventory(inventory, 'json'))).toEqual(inventory);
+  });
+});
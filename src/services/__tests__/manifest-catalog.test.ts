@@ -0,0 +1,121 @@
+/**
+ * Tests for Manifest Catalog
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ManifestCatalog } from '../manifest-catalog';
+import { discoverManifests } from '../../shared/simple-manifest-loader';
+import type { SimpleManifest } from '../../shared/simple-manifest-types';
+
+function manifest(...toolIds: string[]): SimpleManifest {
+  return {
+    version: '1.0.0',
+    tools: toolIds.map(id => ({ id, name: id.toUpperCase(), category: 'developer-tools' }))
+  };
+}
+
+describe('ManifestCatalog', () => {
+  let tempDir: string;
+  let catalog: ManifestCatalog;
+
+  const write = async (relativePath: string, content: unknown) => {
+    const filePath = path.join(tempDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, typeof content === 'string' ? content : JSON.stringify(content), 'utf-8');
+    return filePath;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hatstart-catalog-'));
+    catalog = new ManifestCatalog(path.join(tempDir, 'cache'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should discover manifests recursively, skipping hidden directories', async () => {
+    await write('manifests/team.json', manifest('git'));
+    await write('manifests/nested/extra.yaml', 'version: 1.0.0');
+    await write('manifests/.git/config.json', '{}');
+    await write('manifests/notes.txt', 'ignored');
+
+    const root = path.join(tempDir, 'manifests');
+    expect(await discoverManifests(root)).toEqual([
+      path.join(root, 'nested', 'extra.yaml'),
+      path.join(root, 'team.json')
+    ]);
+    expect(await discoverManifests(root, false)).toEqual([path.join(root, 'team.json')]);
+  });
+
+  it('should merge valid manifests and report the rest', async () => {
+    const base = await write('base.json', manifest('git', 'docker'));
+    const team = await write('team.json', {
+      ...manifest('docker'),
+      tools: [{ id: 'docker', name: 'Docker Desktop', category: 'containers' }]
+    });
+    const broken = await write('broken.json', { version: '1.0.0', tools: [{ id: 'x' }] });
+    const missing = path.join(tempDir, 'missing.json');
+
+    const result = await catalog.load([base, team, broken, missing]);
+
+    expect(result.fromCache).toBe(false);
+    expect(result.sources).toEqual([base, team]);
+    expect(result.manifest.tools.map(tool => tool.name)).toEqual(['GIT', 'Docker Desktop']);
+    expect(result.errors.map(error => error.filePath)).toEqual([broken, missing]);
+  });
+
+  it('should merge overlay layers over the built-in manifest', async () => {
+    const builtin = await write('builtin.json', manifest('git', 'docker'));
+    const team = await write('team/tools.yaml', [
+      'version: 2.0.0',
+      'tools:',
+      '  - id: docker',
+      '    packageNames:',
+      '      linux: podman-docker'
+    ].join('\n'));
+    // Overlays are validated as overlays, so a complete manifest's required fields aren't needed
+    const user = await write('user/tools.json', { version: '1.0.0', tools: [{ id: 'git', remove: true }, { id: 'htop' }] });
+
+    const result = await catalog.loadLayers([
+      { layer: 'builtin', filePaths: [builtin] },
+      { layer: 'team', filePaths: [team] },
+      { layer: 'user', filePaths: [user] }
+    ]);
+
+    expect(result.sources).toEqual([builtin, team, user]);
+    expect(result.manifest.tools).toEqual([
+      { id: 'docker', name: 'DOCKER', category: 'developer-tools', packageNames: { linux: 'podman-docker' } }
+    ]);
+    expect(result.provenance.docker['packageNames.linux']).toEqual({ layer: 'team', filePath: team });
+    expect(result.errors).toEqual([{
+      filePath: user,
+      errors: ['Tool "htop" is not defined by a lower layer, so it needs a name and category']
+    }]);
+  });
+
+  it('should reuse the cached catalog until a file changes', async () => {
+    const base = await write('base.json', manifest('git'));
+    await catalog.load([base]);
+
+    // A fresh instance reads the cache written by the first one
+    const reloaded = await new ManifestCatalog(path.join(tempDir, 'cache')).load([base]);
+    expect(reloaded.fromCache).toBe(true);
+
+    await write('base.json', manifest('git', 'node'));
+    const changed = await catalog.load([base]);
+    expect(changed.fromCache).toBe(false);
+    expect(changed.manifest.tools).toHaveLength(2);
+  });
+
+  it('should rebuild after the cache is cleared', async () => {
+    const base = await write('base.json', manifest('git'));
+    await catalog.load([base]);
+    await catalog.clear();
+
+    expect((await catalog.load([base])).fromCache).toBe(false);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Tests for Manifest Lint
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getDefaultToolReferences, lintManifest, lintManifestFiles } from '../manifest-lint';
+import { parseManifestSource } from '../../shared/manifest-source';
+
+const everywhere = { darwin: 'pkg', win32: 'pkg', linux: 'pkg' };
+
+describe('lintManifest', () => {
+  it('should flag duplicate ids, unknown categories and unknown job roles', () => {
+    const findings = lintManifest({
+      version: '1.0.0',
+      tools: [
+        { id: 'git', name: 'Git', category: 'developer-tools', packageNames: everywhere, recommendedFor: ['devops-engineer', 'devops'] },
+        { id: 'git', name: 'Git again', category: 'scm', packageNames: everywhere }
+      ]
+    }, { toolReferences: [] });
+
+    expect(findings.map(finding => [finding.rule, finding.severity, finding.message])).toEqual([
+      ['unknown-job-role', 'warning', 'recommendedFor "devops" is not a job role'],
+      ['duplicate-id', 'error', 'Duplicate tool id "git" (first defined by tool 0)'],
+      ['unknown-category', 'error', 'Unknown category "scm"']
+    ]);
+  });
+
+  it('should flag downloads piped into a shell unless a checksum is verified', () => {
+    const findings = lintManifest({
+      version: '1.0.0',
+      tools: [{
+        id: 'installer',
+        name: 'Installer',
+        category: 'other',
+        customInstall: {
+          linux: 'curl -fsSL https://example.com/install.sh | sudo bash',
+          darwin: 'curl -fsSLo i.sh https://example.com/i.sh && echo "abc  i.sh" | shasum -a 256 -c && sh i.sh',
+          win32: 'iwr -useb https://example.com/install.ps1 | iex'
+        }
+      }]
+    }, { toolReferences: [] });
+
+    expect(findings.map(finding => finding.path)).toEqual([
+      ['tools', 0, 'customInstall', 'linux'],
+      ['tools', 0, 'customInstall', 'win32']
+    ]);
+  });
+
+  it('should flag platforms with neither packageNames nor customInstall', () => {
+    const findings = lintManifest({
+      version: '1.0.0',
+      tools: [{ id: 'tool', name: 'Tool', category: 'other', packageNames: { 'linux-snap': 'tool' }, customInstall: { darwin: 'brew install tool' } }]
+    }, { toolReferences: [] });
+
+    expect(findings).toEqual([expect.objectContaining({
+      rule: 'missing-install-method',
+      toolId: 'tool',
+      message: 'No packageNames, customInstall or installScript for win32'
+    })]);
+  });
+
+  it('should flag tools referenced outside the manifest that do not exist', () => {
+    const findings = lintManifest({
+      version: '1.0.0',
+      tools: [{ id: 'docker', name: 'Docker', category: 'containers', packageNames: everywhere, dependsOn: ['wsl'] }]
+    }, { toolReferences: [{ source: 'conflict rule docker/podman', toolIds: ['docker', 'podman'] }] });
+
+    expect(findings.map(finding => finding.message)).toEqual([
+      'dependsOn "wsl" is not in the manifest',
+      'Tool "podman" is used by conflict rule docker/podman but is not in the manifest'
+    ]);
+  });
+
+  it('should reference the conflict rules and job role configs by default', () => {
+    const sources = getDefaultToolReferences().map(reference => reference.source);
+
+    expect(sources).toContain('conflict rule docker/podman');
+    expect(sources).toContain('job role platform-engineer');
+  });
+
+  it('should locate findings in the source file', () => {
+    const source = parseManifestSource([
+      'version: 1.0.0',
+      'tools:',
+      '  - id: node',
+      '    name: Node.js',
+      '    category: runtime'
+    ].join('\n'), 'yaml');
+
+    const [finding] = lintManifest(source.data, { rules: ['unknown-category'], filePath: 'tools.yaml', locate: source.locate });
+
+    expect(finding).toMatchObject({ filePath: 'tools.yaml', line: 5, column: 5 });
+  });
+});
+
+describe('lintManifestFiles', () => {
+  let tempDir: string;
+
+  const write = async (name: string, content: unknown) => {
+    const filePath = path.join(tempDir, name);
+    await fs.writeFile(filePath, typeof content === 'string' ? content : JSON.stringify(content), 'utf-8');
+    return filePath;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hatstart-lint-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should check references against the merged catalog and count findings by severity', async () => {
+    const base = await write('base.json', {
+      version: '1.0.0',
+      tools: [{ id: 'docker', name: 'Docker', category: 'containers', packageNames: { linux: 'docker.io' } }]
+    });
+    const extra = await write('extra.json', {
+      version: '1.0.0',
+      tools: [{ id: 'podman', name: 'Podman', category: 'containers', packageNames: everywhere, dependsOn: ['docker'] }]
+    });
+    const broken = await write('broken.yaml', 'version: 1.0.0\ntools: [');
+
+    const report = await lintManifestFiles([{ layer: 'builtin', filePaths: [base] }, { layer: 'team', filePaths: [extra, broken] }], {
+      toolReferences: [{ source: 'conflict rule docker/podman', toolIds: ['docker', 'podman'] }]
+    });
+
+    expect(report.findings.map(finding => [finding.rule, finding.filePath, finding.toolId])).toEqual([
+      ['invalid-manifest', broken, undefined],
+      ['missing-install-method', undefined, 'docker']
+    ]);
+    expect(report.errorCount).toBe(1);
+    expect(report.warningCount).toBe(1);
+  });
+
+  it('should lint partial overlays with the overlay schema and merge them onto the built-in layer', async () => {
+    const builtin = await write('builtin.json', {
+      version: '1.0.0',
+      tools: [{ id: 'docker', name: 'Docker', category: 'containers', packageNames: everywhere }]
+    });
+    const overlay = await write('team.json', {
+      version: '1.0.0',
+      tools: [
+        { id: 'docker', packageNames: { linux: 'docker.io' } },
+        { id: 'compose', dependsOn: ['docker'] },
+        { id: 'podman', name: 'Podman', category: 'containers', packageNames: everywhere, dependsOn: ['buildah'] }
+      ]
+    });
+
+    const report = await lintManifestFiles([{ layer: 'builtin', filePaths: [builtin] }, { layer: 'team', filePaths: [overlay] }], {
+      toolReferences: []
+    });
+
+    expect(report.findings.map(finding => [finding.rule, finding.filePath, finding.toolId, finding.message])).toEqual([
+      ['invalid-manifest', overlay, 'compose', 'Tool "compose" is not defined by a lower layer, so it needs a name and category'],
+      ['unknown-tool-reference', undefined, 'podman', 'dependsOn "buildah" is not in the manifest']
+    ]);
+  });
+});
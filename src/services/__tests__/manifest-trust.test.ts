@@ -0,0 +1,77 @@
+/**
+ * Tests for Manifest Trust
+ */
+
+import { generateKeyPairSync } from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getKeyFingerprint, ManifestTrustStore, signManifest } from '../manifest-trust';
+
+function createKey(): string {
+  return generateKeyPairSync('ed25519').privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+}
+
+describe('ManifestTrustStore', () => {
+  let tempDir: string;
+  let store: ManifestTrustStore;
+  let manifestPath: string;
+  const content = 'version: 1.0.0\ntools: []\n';
+
+  const writeSignature = (privateKey: string, publisher = 'acme', signed = content) =>
+    fs.writeFile(`${manifestPath}.sig`, JSON.stringify(signManifest(signed, privateKey, publisher)), 'utf-8');
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hatstart-trust-'));
+    store = new ManifestTrustStore(path.join(tempDir, 'trust.json'));
+    manifestPath = path.join(tempDir, 'team.yaml');
+    await fs.writeFile(manifestPath, content, 'utf-8');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should require approval for unsigned manifests, and again after they change', async () => {
+    expect((await store.check(manifestPath)).status).toBe('unsigned');
+
+    expect((await store.trust(manifestPath)).status).toBe('trusted');
+    expect((await new ManifestTrustStore(path.join(tempDir, 'trust.json')).check(manifestPath)).status).toBe('trusted');
+
+    await fs.writeFile(manifestPath, content + '# edited\n', 'utf-8');
+    expect((await store.check(manifestPath)).status).toBe('unsigned');
+  });
+
+  it('should verify manifests signed by a trusted publisher', async () => {
+    const privateKey = createKey();
+    await writeSignature(privateKey);
+
+    const unknown = await store.check(manifestPath);
+    expect(unknown).toMatchObject({ status: 'unknown-publisher', publisher: 'acme' });
+
+    const trusted = await store.trust(manifestPath, true);
+    expect(trusted.status).toBe('verified');
+    expect((await store.load()).publishers.map(publisher => publisher.id)).toEqual(['acme']);
+    expect(trusted.keyFingerprint).toBe(getKeyFingerprint((await store.load()).publishers[0].publicKey));
+  });
+
+  it('should reject tampered manifests and impersonated publishers', async () => {
+    const privateKey = createKey();
+    await writeSignature(privateKey, 'acme', 'version: 1.0.0\ntools: [{ id: git }]\n');
+    expect((await store.check(manifestPath)).status).toBe('invalid-signature');
+    await expect(store.trust(manifestPath)).rejects.toThrow('signature is invalid');
+
+    // Trust acme's real key, then sign with another key claiming to be acme
+    await writeSignature(privateKey);
+    await store.trust(manifestPath, true);
+    await writeSignature(createKey());
+    expect((await store.check(manifestPath)).status).toBe('invalid-signature');
+  });
+
+  it('should only accept Ed25519 signing keys', () => {
+    const rsaKey = generateKeyPairSync('rsa', { modulusLength: 1024 }).privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+    expect(() => signManifest(content, rsaKey, 'acme')).toThrow('must be Ed25519, got rsa');
+  });
+});
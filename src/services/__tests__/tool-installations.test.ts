@@ -0,0 +1,142 @@
+/**
+ * Tests for Tool Installations
+ */
+
+import { describe, expect, it } from 'vitest';
+import { classifyInstallation, findInstallations, getShadowingWarning } from '../tool-installations';
+import type { ProbeSystem } from '../detection-probes';
+import { DetectionCache } from '../detection-cache';
+import { ToolDetectionService } from '../tool-detection-service';
+import type { SimpleTool } from '../../shared/simple-manifest-types';
+
+// Executables map to the version they print; links map a path to the file it points at
+const createSystem = (executables: Record<string, string>, pathVariable: string, links: Record<string, string> = {}) => {
+  const runs: string[] = [];
+  const system: ProbeSystem = {
+    run: async command => {
+      runs.push(command);
+      const executable = command.match(/^"([^"]+)"/)?.[1] ?? command.split(' ')[0];
+      const target = links[executable] ?? executable;
+      const version = executables[target] ?? Object.entries(executables).find(([file]) => file.endsWith(`/${target}`))?.[1];
+      if (!version) {
+        throw new Error('not found');
+      }
+      return version;
+    },
+    exists: async filePath => filePath in executables || filePath in links,
+    stat: async filePath => filePath in executables || filePath in links ? { mtimeMs: 1, size: 100 } : null,
+    realPath: async filePath => links[filePath] ?? filePath,
+    env: { PATH: pathVariable },
+    homeDir: '/home/dev'
+  };
+  return { system, runs };
+};
+
+describe('classifyInstallation', () => {
+  it('should recognise version managers, package managers and system directories', () => {
+    expect(classifyInstallation('/home/dev/.pyenv/shims/python')).toEqual({ origin: 'version-manager', manager: 'pyenv' });
+    expect(classifyInstallation('/home/dev/.local/share/mise/shims/node')).toEqual({ origin: 'version-manager', manager: 'mise' });
+    expect(classifyInstallation('/usr/local/bin/node', '/usr/local/Cellar/node/22.1.0/bin/node')).toEqual({ origin: 'homebrew' });
+    expect(classifyInstallation('C:\\ProgramData\\chocolatey\\bin\\node.exe')).toEqual({ origin: 'chocolatey' });
+    expect(classifyInstallation('/usr/bin/python3')).toEqual({ origin: 'system' });
+    expect(classifyInstallation('/usr/local/bin/node')).toEqual({ origin: 'local' });
+    expect(classifyInstallation('/srv/tools/node')).toEqual({ origin: 'other' });
+    // Manager names only count as whole path segments
+    expect(classifyInstallation('/opt/fnmtools/bin/node')).toEqual({ origin: 'other' });
+    expect(classifyInstallation('/srv/volta-docs/node')).toEqual({ origin: 'other' });
+    expect(classifyInstallation('/home/dev/.local/share/fnm/aliases/default/bin/node')).toEqual({ origin: 'version-manager', manager: 'fnm' });
+  });
+});
+
+describe('findInstallations', () => {
+  it('should list copies on PATH and in known roots, flagging the first on PATH as active', async () => {
+    const { system } = createSystem(
+      { '/usr/bin/python': 'Python 3.9.6', '/home/dev/.pyenv/shims/python': 'Python 3.12.2', '/opt/homebrew/bin/python': 'Python 3.13.0' },
+      '/usr/bin:/home/dev/.pyenv/shims'
+    );
+
+    const installations = await findInstallations('python', 'darwin', system, { versionArgs: '--version' });
+
+    expect(installations.map(({ path, origin, version, active, onPath }) => ({ path, origin, version, active, onPath }))).toEqual([
+      { path: '/usr/bin/python', origin: 'system', version: '3.9.6', active: true, onPath: true },
+      { path: '/home/dev/.pyenv/shims/python', origin: 'version-manager', version: '3.12.2', active: false, onPath: true },
+      { path: '/opt/homebrew/bin/python', origin: 'homebrew', version: '3.13.0', active: false, onPath: false }
+    ]);
+  });
+
+  it('should list paths linking to the same file once', async () => {
+    const { system } = createSystem(
+      { '/usr/bin/node': 'v20.11.0' },
+      '/bin:/usr/bin',
+      { '/bin/node': '/usr/bin/node' }
+    );
+
+    const installations = await findInstallations('node', 'linux', system);
+
+    expect(installations.map(installation => installation.path)).toEqual(['/bin/node']);
+  });
+
+  it('should search PATH with PATHEXT and the Chocolatey root on Windows', async () => {
+    const { system } = createSystem(
+      { 'C:\\nodejs\\node.exe': 'v22.1.0', 'C:\\ProgramData\\chocolatey\\bin\\node.exe': 'v18.19.0' },
+      'C:\\nodejs'
+    );
+    const windows = { ...system, env: { ...system.env, PATHEXT: '.EXE' } };
+
+    const installations = await findInstallations('node', 'win32', windows);
+
+    expect(installations.map(({ path, origin, active }) => [path, origin, active])).toEqual([
+      ['C:\\nodejs\\node.exe', 'other', true],
+      ['C:\\ProgramData\\chocolatey\\bin\\node.exe', 'chocolatey', false]
+    ]);
+  });
+});
+
+describe('getShadowingWarning', () => {
+  it('should warn only when a binary earlier on PATH hides a version-manager shim', async () => {
+    const executables = { '/usr/bin/ruby': 'ruby 2.6.10', '/home/dev/.rbenv/shims/ruby': 'ruby 3.3.0' };
+
+    const shadowed = await findInstallations('ruby', 'linux', createSystem(executables, '/usr/bin:/home/dev/.rbenv/shims').system);
+    const managed = await findInstallations('ruby', 'linux', createSystem(executables, '/home/dev/.rbenv/shims:/usr/bin').system);
+    const notActivated = await findInstallations('ruby', 'linux', createSystem(executables, '/usr/bin').system);
+
+    expect(getShadowingWarning(shadowed)).toMatch(/\/usr\/bin\/ruby \(system\) comes before the rbenv shim/);
+    expect(getShadowingWarning(managed)).toBeUndefined();
+    expect(getShadowingWarning(notActivated)).toBeUndefined();
+  });
+});
+
+describe('ToolDetectionService installations', () => {
+  it('should report installations for command probes without re-running the active one', async () => {
+    const { system, runs } = createSystem(
+      { '/usr/bin/node': 'v18.19.0', '/home/dev/.local/share/mise/shims/node': 'v22.1.0' },
+      '/usr/bin:/home/dev/.local/share/mise/shims'
+    );
+    const service = new ToolDetectionService(system, 'linux', new DetectionCache());
+
+    const result = await service.detectTool({ id: 'nodejs', name: 'Node.js', category: 'language', verification: 'node --version' });
+
+    expect(runs).toEqual(['node --version', '"/home/dev/.local/share/mise/shims/node" --version']);
+    expect(result.installations?.map(installation => [installation.path, installation.version, installation.active])).toEqual([
+      ['/usr/bin/node', '18.19.0', true],
+      ['/home/dev/.local/share/mise/shims/node', '22.1.0', false]
+    ]);
+    expect(result.shadowingWarning).toMatch(/mise shim/);
+  });
+
+  it('should only run an installation again once its fingerprint changes', async () => {
+    const { system, runs } = createSystem(
+      { '/usr/bin/node': 'v18.19.0', '/home/dev/.local/share/mise/shims/node': 'v22.1.0' },
+      '/usr/bin:/home/dev/.local/share/mise/shims'
+    );
+    const service = new ToolDetectionService(system, 'linux', new DetectionCache());
+    const node: SimpleTool = { id: 'nodejs', name: 'Node.js', category: 'language', verification: 'node --version' };
+
+    await service.detectTool(node);
+    await service.clearCache('nodejs');
+    runs.length = 0;
+    await service.detectTool(node);
+
+    expect(runs).toEqual(['node --version']);
+  });
+});
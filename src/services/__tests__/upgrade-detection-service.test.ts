@@ -0,0 +1,57 @@
+/**
+ * Tests for Upgrade Detection Service
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import type { SimpleTool } from '../../shared/simple-manifest-types';
+import type { ToolDetectionResult } from '../tool-detection-service';
+import { UpgradeDetectionService } from '../upgrade-detection-service';
+
+const tools: SimpleTool[] = [
+  { id: 'git', name: 'Git', category: 'developer-tools', packageNames: { linux: 'git' } },
+  { id: 'nodejs', name: 'Node.js', category: 'language', packageNames: { linux: 'nodejs', 'linux-pacman': 'nodejs npm' } },
+  { id: 'jest', name: 'Jest', category: 'testing', customInstall: { linux: 'npm install -g jest' } },
+  { id: 'go', name: 'Go', category: 'language', packageNames: { linux: 'golang' } }
+];
+
+function detection(toolId: string, installed = true): ToolDetectionResult {
+  return { toolId, installed, version: '1.0.0', lastChecked: new Date() };
+}
+
+describe('UpgradeDetectionService', () => {
+  it('should flag installed tools the package manager can upgrade', async () => {
+    const runCommand = vi.fn().mockResolvedValue('git 2.44.0-1 -> 2.45.1-1\nnpm 10.5.0-1 -> 10.7.0-1\n');
+    const service = new UpgradeDetectionService(runCommand);
+
+    const results = await service.annotateDetections(
+      [detection('git'), detection('nodejs'), detection('jest'), detection('go', false)],
+      tools,
+      'linux',
+      { primary: 'pacman', fallbacks: [] }
+    );
+
+    expect(runCommand).toHaveBeenCalledTimes(1);
+    expect(runCommand).toHaveBeenCalledWith('pacman -Qu');
+    expect(results.map(r => [r.toolId, r.updateAvailable, r.latestVersion])).toEqual([
+      ['git', true, '2.45.1-1'],
+      ['nodejs', false, undefined],
+      ['jest', undefined, undefined],
+      ['go', undefined, undefined]
+    ]);
+  });
+
+  it('should cache the outdated list until cleared', async () => {
+    const runCommand = vi.fn().mockResolvedValue('');
+    const service = new UpgradeDetectionService(runCommand);
+    const selection = { primary: 'apt' as const, fallbacks: [] };
+
+    const [git] = await service.annotateDetections([detection('git')], tools, 'linux', selection);
+    await service.annotateDetections([detection('git')], tools, 'linux', selection);
+    expect(git.updateAvailable).toBe(false);
+    expect(runCommand).toHaveBeenCalledTimes(1);
+
+    service.clearCache();
+    await service.annotateDetections([detection('git')], tools, 'linux', selection);
+    expect(runCommand).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Tests for Version Management Engine
+ */
+
+import { describe, expect, it } from 'vitest';
+import { findInstalledVersion, formatVersionSpecifier, VersionManagementEngine } from '../version-management-engine';
+import type {
+  IVersionInfo,
+  IVersionManager,
+  IVersionManagerFactory,
+  IVersionOperationResult,
+  VersionedTool,
+  VersionManagerType
+} from '../version-manager-types';
+
+const info = (tool: VersionedTool, version: string, isActive = false): IVersionInfo => {
+  const [major, minor, patch] = version.split('.').map(Number);
+  return { tool, version, major, minor, patch, isActive };
+};
+
+const result = (operation: IVersionOperationResult['operation'], tool: VersionedTool, message: string): IVersionOperationResult => ({
+  success: true, operation, tool, message, duration: 0, timestamp: new Date()
+});
+
+// A manager whose installed versions are listed per tool; the first call log is shared
+const createManager = (
+  type: VersionManagerType,
+  supportedTools: VersionedTool[],
+  options: {
+    available?: boolean;
+    installed?: Partial<Record<VersionedTool, string[]>>;
+    active?: Partial<Record<VersionedTool, string>>;
+    remote?: Partial<Record<VersionedTool, string[]>>;
+  } = {},
+  calls: string[] = []
+) => {
+  const installed = options.installed ?? {};
+  let available = options.available ?? true;
+  const manager = {
+    type,
+    capabilities: { supportedTools, supportsRemoteList: Boolean(options.remote) },
+    isAvailable: async () => available,
+    initialize: async () => {},
+    installManager: async () => {
+      calls.push(`${type} install-manager`);
+      available = true;
+      return result('install', 'node', `Installed ${type}`);
+    },
+    listInstalled: async (tool: VersionedTool) => (installed[tool] ?? []).map(version => info(tool, version, options.active?.[tool] === version)),
+    listAvailable: async (tool: VersionedTool) => (options.remote?.[tool] ?? []).map(version => info(tool, version)),
+    getCurrentVersion: async (tool: VersionedTool) => options.active?.[tool] ? info(tool, options.active[tool] as string, true) : null,
+    installVersion: async (tool: VersionedTool, version: string) => {
+      calls.push(`${type} install ${tool} ${version}`);
+      installed[tool] = [...(installed[tool] ?? []), version === 'lts' ? '22.11.0' : version];
+      return result('install', tool, `Installed ${tool} ${version}`);
+    },
+    switchVersion: async (tool: VersionedTool, version: string, scope = 'global') => {
+      calls.push(`${type} switch ${tool} ${version} ${scope}`);
+      return result('switch', tool, `Switched ${tool}`);
+    },
+    setLocalVersion: async (tool: VersionedTool, version: string, projectRoot?: string) => {
+      calls.push(`${type} local ${tool} ${version} ${projectRoot}`);
+      return result('local', tool, `Pinned ${tool}`);
+    },
+    getProjectConfig: async () => null
+  };
+  return manager as unknown as IVersionManager;
+};
+
+const createFactory = (managers: IVersionManager[], recommended: Partial<Record<VersionedTool, VersionManagerType>> = {}): IVersionManagerFactory => ({
+  createVersionManager: type => {
+    const manager = managers.find(candidate => candidate.type === type);
+    if (!manager) {
+      throw new Error(`${type} adapter not yet implemented`);
+    }
+    return manager;
+  },
+  getSupportedTypes: () => managers.map(manager => manager.type),
+  getRecommendedManager: tool => recommended[tool] ?? 'mise',
+  isSupported: () => true
+});
+
+describe('VersionManagementEngine', () => {
+  it('should give a tool to the manager it is already installed with over the recommendation', async () => {
+    const engine = new VersionManagementEngine(createFactory([
+      createManager('mise', ['node', 'python']),
+      createManager('nvm', ['node'], { installed: { node: ['18.19.0', '20.11.0'] }, active: { node: '20.11.0' } })
+    ]));
+
+    expect(await engine.getToolOwnership('node')).toEqual({ tool: 'node', manager: 'nvm', reason: 'active' });
+    expect(await engine.getToolOwnership('python')).toEqual({ tool: 'python', manager: 'mise', reason: 'recommended' });
+  });
+
+  it('should fall back to an installed manager when the recommended one is missing', async () => {
+    const engine = new VersionManagementEngine(createFactory([
+      createManager('mise', ['python'], { available: false }),
+      createManager('pyenv', ['python'])
+    ], { python: 'mise' }));
+
+    expect(await engine.getToolOwnership('python')).toEqual({ tool: 'python', manager: 'pyenv', reason: 'available' });
+    expect(await engine.getToolOwnership('ruby')).toBeNull();
+  });
+
+  it('should route switches to the owner and fail cleanly without one', async () => {
+    const calls: string[] = [];
+    const engine = new VersionManagementEngine(createFactory([
+      createManager('mise', ['node'], {}, calls),
+      createManager('nvm', ['node'], { installed: { node: ['20.11.0'] } }, calls)
+    ]));
+
+    await engine.switchToolVersion('node', '20.11.0');
+    const missing = await engine.switchToolVersion('ruby', '3.3.0');
+
+    expect(calls).toEqual(['nvm switch node 20.11.0 global']);
+    expect(missing).toMatchObject({ success: false, operation: 'switch', message: 'No installed version manager manages ruby' });
+  });
+
+  it('should install the recommended manager before installing a version with it', async () => {
+    const calls: string[] = [];
+    const engine = new VersionManagementEngine(createFactory([
+      createManager('pyenv', ['python'], { available: false }, calls),
+      createManager('mise', ['python'], { available: false }, calls)
+    ], { python: 'pyenv' }));
+
+    const install = await engine.installToolVersion('python', '3.12.2');
+
+    expect(install.success).toBe(true);
+    expect(calls).toEqual(['pyenv install-manager', 'pyenv install python 3.12.2']);
+    expect(await engine.getToolOwnership('python')).toMatchObject({ manager: 'pyenv', reason: 'installed' });
+  });
+
+  it('should name the manager installing a version would set up, only when none is installed', async () => {
+    const engine = new VersionManagementEngine(createFactory([
+      createManager('pyenv', ['python'], { available: false }),
+      createManager('mise', ['python'], { available: false }),
+      createManager('nvm', ['node'])
+    ], { python: 'pyenv' }));
+
+    expect((await engine.getManagerToInstall('python'))?.type).toBe('pyenv');
+    expect(await engine.getManagerToInstall('node')).toBeNull();
+    expect(await engine.getManagerToInstall('ruby')).toBeNull();
+  });
+
+  it('should merge installed versions across managers', async () => {
+    const engine = new VersionManagementEngine(createFactory([
+      createManager('mise', ['node', 'python'], { installed: { node: ['22.1.0'], python: ['3.12.2'] }, active: { python: '3.12.2' } }),
+      createManager('nvm', ['node'], { installed: { node: ['20.11.0', '22.1.0'] }, active: { node: '20.11.0' } }),
+      createManager('pyenv', ['python'], { available: false })
+    ]));
+
+    const versions = await engine.getAllToolVersions();
+
+    expect(versions.node.map(version => [version.version, version.isActive])).toEqual([['20.11.0', true], ['22.1.0', false]]);
+    expect(versions.python.map(version => version.version)).toEqual(['3.12.2']);
+  });
+
+  it('should list installable versions from the manager that would be set up for a tool', async () => {
+    const engine = new VersionManagementEngine(createFactory([
+      createManager('nvm', ['node'], { available: false, remote: { node: ['22.11.0'] } }),
+      createManager('mise', ['node', 'python'], { remote: { node: ['20.11.0', '22.11.0'] } })
+    ], { node: 'nvm' }));
+
+    expect((await engine.getAvailableToolVersions('node')).map(version => version.version)).toEqual(['20.11.0', '22.11.0']);
+    expect(await engine.getAvailableToolVersions('python')).toEqual([]);
+    expect(await engine.getAvailableToolVersions('ruby')).toEqual([]);
+  });
+
+  it('should install missing versions and pin them when applying a workspace config', async () => {
+    const calls: string[] = [];
+    const engine = new VersionManagementEngine(createFactory([
+      createManager('mise', ['node', 'python'], { installed: { python: ['3.12.2'] } }, calls)
+    ]));
+
+    const results = await engine.applyWorkspaceConfig({
+      projectRoot: '/work/app',
+      versions: { node: 'lts', python: '3.12.2', ruby: 'system' } as Record<VersionedTool, string>
+    });
+
+    expect(results.every(item => item.success)).toBe(true);
+    expect(calls).toEqual([
+      'mise install node lts',
+      'mise local node 22.11.0 /work/app',
+      'mise install python 3.12.2',
+      'mise local python 3.12.2 /work/app'
+    ]);
+  });
+
+  it('should skip adapters the factory cannot create', () => {
+    const factory = createFactory([createManager('mise', ['node'])]);
+    const engine = new VersionManagementEngine({ ...factory, getSupportedTypes: () => ['mise', 'rbenv'] });
+
+    expect(engine.getManagers().map(manager => manager.type)).toEqual(['mise']);
+  });
+});
+
+describe('version specifiers', () => {
+  it('should format specifiers and find the installed version they select', () => {
+    const installed = [info('node', '18.19.0'), info('node', '20.11.0'), info('node', '20.9.0')];
+
+    expect(formatVersionSpecifier({ major: 20, minor: 11 })).toBe('20.11');
+    expect(formatVersionSpecifier('lts')).toBe('lts');
+    expect(findInstalledVersion(installed, { major: 20 })?.version).toBe('20.11.0');
+    expect(findInstalledVersion(installed, 'v18.19.0')?.version).toBe('18.19.0');
+    expect(findInstalledVersion(installed, 'latest')?.version).toBe('20.11.0');
+    expect(findInstalledVersion(installed, '16.0.0')).toBeUndefined();
+  });
+});
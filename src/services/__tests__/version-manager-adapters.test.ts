@@ -0,0 +1,287 @@
+/**
+ * Tests for Version Manager Adapters
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { VersionManagerFactory } from '../version-manager-factory';
+import { FnmAdapter, JenvAdapter, RustupAdapter, SdkmanAdapter, VoltaAdapter } from '../version-managers/index';
+
+type CommandResult = { success: boolean; stdout: string; stderr: string; exitCode: number };
+
+// Answers each command from a table keyed by 'command args...' and records what ran, and where
+const withCommands = <T extends new (...args: any[]) => object>(Adapter: T) => // eslint-disable-line @typescript-eslint/no-explicit-any
+  class extends Adapter {
+    outputs: Record<string, string> = {};
+    commands: string[] = [];
+    workingDirectories: (string | undefined)[] = [];
+
+    protected async executeCommand(command: string, args: string[] = [], options: { workingDirectory?: string } = {}): Promise<CommandResult> {
+      const key = [command, ...args].join(' ');
+      this.commands.push(key);
+      this.workingDirectories.push(options.workingDirectory);
+      const stdout = this.outputs[key];
+      return { success: stdout !== undefined, stdout: stdout ?? '', stderr: stdout === undefined ? `unexpected: ${key}` : '', exitCode: 0 };
+    }
+  };
+
+const TestFnm = withCommands(FnmAdapter);
+const TestVolta = withCommands(VoltaAdapter);
+const TestRustup = withCommands(RustupAdapter);
+const TestSdkman = withCommands(SdkmanAdapter);
+const TestJenv = withCommands(JenvAdapter);
+
+// Records the variables an adapter sets, and which it would persist, instead of writing shell profiles
+const createEnvironment = () => {
+  const variables: Record<string, string> = {};
+  const persisted: string[] = [];
+  return {
+    variables,
+    persisted,
+    setEnvironmentVariable: async (name: string, value: string, _scope: string, persistent = false) => {
+      variables[name] = value;
+      if (persistent) {
+        persisted.push(name);
+      }
+      return true;
+    }
+  };
+};
+
+// What `sdk` runs as: bash sourcing sdkman-init.sh, then the quoted arguments
+const sdk = (...args: string[]) =>
+  `bash -c export PAGER=cat; source "${path.join(os.homedir(), '.sdkman')}/bin/sdkman-init.sh" && sdk ${args.map(arg => `'${arg}'`).join(' ')}`;
+
+const SDK_LIST_JAVA = `================================================================================
+Available Java Versions for Linux 64bit
+================================================================================
+ Vendor        | Use | Version      | Dist    | Status     | Identifier
+--------------------------------------------------------------------------------
+ Corretto      |     | 21.0.2       | amzn    |            | 21.0.2-amzn
+               |     | 17.0.10      | amzn    | installed  | 17.0.10-amzn
+ Temurin       | >>> | 21.0.2       | tem     | installed  | 21.0.2-tem
+               |     | 17.0.10      | tem     |            | 17.0.10-tem
+ Zulu          |     | 22.0.0       | zulu    |            | 22.0.0-zulu
+               |     | 23.ea.5      | open    |            | 23.ea.5-open
+================================================================================`;
+
+describe('VersionManagerFactory', () => {
+  it('should create an adapter for every supported type', () => {
+    const factory = new VersionManagerFactory('linux', 'x64');
+
+    expect(factory.getSupportedTypes()).toEqual(['mise', 'asdf', 'nvm', 'fnm', 'volta', 'pyenv', 'rbenv', 'sdkman', 'jenv', 'rustup']);
+    for (const type of factory.getSupportedTypes()) {
+      expect(factory.createVersionManager(type).type).toBe(type);
+    }
+    expect(factory.getManagersForTool('rust')).toEqual(['mise', 'rustup']);
+    expect(factory.getManagersForTool('gradle')).toEqual(['mise', 'sdkman', 'asdf']);
+    expect(factory.getRecommendedManager('maven')).toBe('sdkman');
+  });
+
+  it('should leave Unix-only managers out on Windows', () => {
+    expect(new VersionManagerFactory('win32', 'x64').getSupportedTypes()).toEqual(['mise', 'nvm', 'fnm', 'volta', 'pyenv', 'rustup']);
+  });
+});
+
+describe('FnmAdapter', () => {
+  let tempDir: string | undefined;
+
+  afterEach(async () => {
+    if (tempDir) {
+      await fs.rm(tempDir, { recursive: true, force: true });
+      tempDir = undefined;
+    }
+  });
+
+  it('should list installed and remote versions with the default and LTS releases', async () => {
+    const fnm = new TestFnm('linux', 'x64');
+    fnm.outputs = {
+      'fnm list': '* v18.19.0\n* v20.11.0 default\n* system',
+      'fnm list-remote': 'v18.19.0 (Hydrogen)\nv21.6.1\nv20.11.0 (Iron)'
+    };
+
+    const installed = await fnm.listInstalled('node');
+    const available = await fnm.listAvailable('node');
+
+    expect(installed.map(version => [version.version, version.isActive])).toEqual([['18.19.0', false], ['20.11.0', true]]);
+    expect(available.map(version => [version.version, version.metadata?.ltsCodename])).toEqual([
+      ['21.6.1', undefined],
+      ['20.11.0', 'Iron'],
+      ['18.19.0', 'Hydrogen']
+    ]);
+  });
+
+  it('should pin a project by writing .node-version', async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hatstart-fnm-'));
+    const fnm = new TestFnm('linux', 'x64');
+
+    const result = await fnm.setLocalVersion('node', '20.11.0', tempDir);
+
+    expect(result.success).toBe(true);
+    expect(await fs.readFile(path.join(tempDir, '.node-version'), 'utf-8')).toBe('20.11.0\n');
+    expect(await fnm.getProjectConfig(tempDir)).toMatchObject({ versions: { node: '20.11.0' } });
+    expect(fnm.commands).toEqual([]);
+  });
+});
+
+describe('VoltaAdapter', () => {
+  it('should read the default runtime and fetch versions Volta resolves itself', async () => {
+    const volta = new TestVolta('linux', 'x64');
+    volta.outputs = {
+      'volta list node --format plain': 'runtime node@18.19.0\nruntime node@20.11.0 (default)',
+      'volta list node --current --format plain': 'runtime node@20.11.0 (default)',
+      'volta fetch node@lts': ''
+    };
+
+    expect((await volta.listInstalled('node')).map(version => [version.version, version.isActive])).toEqual([
+      ['18.19.0', false],
+      ['20.11.0', true]
+    ]);
+    expect((await volta.getCurrentVersion('node'))?.version).toBe('20.11.0');
+    expect((await volta.installVersion('node', 'lts')).success).toBe(true);
+    expect((await volta.uninstallVersion('node', '18.19.0')).success).toBe(false);
+  });
+});
+
+describe('RustupAdapter', () => {
+  it('should list toolchains without the host triple', async () => {
+    const rustup = new TestRustup('linux', 'x64');
+    rustup.outputs = {
+      'rustup toolchain list': [
+        'stable-x86_64-unknown-linux-gnu (active, default)',
+        'nightly-2024-01-15-x86_64-unknown-linux-gnu',
+        '1.75.0-x86_64-unknown-linux-gnu'
+      ].join('\n'),
+      'rustup show active-toolchain': 'stable-x86_64-unknown-linux-gnu (default)'
+    };
+
+    expect((await rustup.listInstalled('rust')).map(version => [version.version, version.isActive])).toEqual([
+      ['stable', true],
+      ['nightly-2024-01-15', false],
+      ['1.75.0', false]
+    ]);
+    expect((await rustup.getCurrentVersion('rust'))?.version).toBe('stable');
+  });
+
+  it('should manage targets and components per toolchain', async () => {
+    const rustup = new TestRustup('linux', 'x64');
+    rustup.outputs = {
+      'rustup target list --installed': 'x86_64-unknown-linux-gnu\nwasm32-unknown-unknown',
+      'rustup target add wasm32-wasip1 --toolchain nightly': '',
+      'rustup component add clippy': ''
+    };
+
+    expect(await rustup.listTargets()).toEqual(['x86_64-unknown-linux-gnu', 'wasm32-unknown-unknown']);
+    expect(await rustup.addTarget('wasm32-wasip1', 'nightly')).toMatchObject({ success: true, message: 'Added target wasm32-wasip1 for nightly' });
+    expect((await rustup.addComponent('clippy')).success).toBe(true);
+    expect((await rustup.addComponent('--help')).success).toBe(false);
+    expect(rustup.commands).not.toContain('rustup component add --help');
+  });
+});
+
+describe('SdkmanAdapter', () => {
+  it('should read Java identifiers with their vendor and LTS status', async () => {
+    const sdkman = new TestSdkman('linux', 'x64', createEnvironment());
+    sdkman.outputs = { [sdk('list', 'java')]: SDK_LIST_JAVA };
+
+    const installed = await sdkman.listInstalled('java');
+    const available = await sdkman.listAvailable('java');
+
+    expect(installed.map(version => [version.version, version.isActive, version.metadata?.vendor])).toEqual([
+      ['17.0.10-amzn', false, 'corretto'],
+      ['21.0.2-tem', true, 'temurin']
+    ]);
+    expect(available.find(version => version.version === '22.0.0-zulu')?.metadata).toEqual({ isLts: false, vendor: 'zulu' });
+    expect(available.find(version => version.version === '23.ea.5-open')).toMatchObject({ major: 23, prerelease: 'ea' });
+  });
+
+  it('should resolve Java versions without a vendor to the chosen vendor', async () => {
+    const sdkman = new TestSdkman('linux', 'x64', createEnvironment());
+    sdkman.outputs = {
+      [sdk('list', 'java')]: SDK_LIST_JAVA,
+      [sdk('install', 'java', '21.0.2-amzn').replace('&& sdk', '&& echo n | sdk')]: ''
+    };
+    sdkman.setJdkVendor('corretto');
+
+    const result = await sdkman.installVersion('java', '21', { skipVerification: true });
+
+    expect(result).toMatchObject({ success: true, message: 'Successfully installed java version 21.0.2-amzn' });
+  });
+
+  it('should list Gradle versions and point JAVA_HOME at the current Java after a global switch', async () => {
+    const environment = createEnvironment();
+    const sdkman = new TestSdkman('linux', 'x64', environment);
+    sdkman.outputs = {
+      [sdk('list', 'gradle')]: [
+        '================================================================================',
+        'Available Gradle Versions',
+        '================================================================================',
+        ' > * 8.6                 8.0.2               7.4.2',
+        '     8.5                 8.0.1-rc-1',
+        '================================================================================',
+        '+ - local version',
+        '* - installed',
+        '> - currently in use',
+        '================================================================================'
+      ].join('\n'),
+      [sdk('default', 'java', '21.0.2-tem')]: ''
+    };
+
+    const gradle = await sdkman.listAvailable('gradle');
+    await sdkman.switchVersion('java', '21.0.2-tem');
+
+    expect(gradle.map(version => [version.version, version.isInstalled, version.isActive])).toEqual([
+      ['8.6', true, true],
+      ['8.5', false, false],
+      ['8.0.2', false, false],
+      ['8.0.1-rc-1', false, false],
+      ['7.4.2', false, false]
+    ]);
+    expect(environment.variables).toEqual({ JAVA_HOME: path.join(os.homedir(), '.sdkman', 'candidates', 'java', 'current') });
+  });
+});
+
+describe('JenvAdapter', () => {
+  it('should list registered JDKs and refuse to download one', async () => {
+    const jenv = new TestJenv('darwin', 'arm64', createEnvironment());
+    jenv.outputs = {
+      'jenv versions': '  system\n* 17.0.9 (set by /Users/dev/.jenv/version)\n  temurin64-21.0.2\n  1.8.0.392'
+    };
+
+    expect((await jenv.listInstalled('java')).map(version => [version.version, version.isActive, version.metadata])).toEqual([
+      ['17.0.9', true, { isLts: true, vendor: undefined }],
+      ['temurin64-21.0.2', false, { isLts: true, vendor: 'temurin' }],
+      ['1.8.0.392', false, { isLts: true, vendor: undefined }]
+    ]);
+    expect((await jenv.installVersion('java', '21')).success).toBe(false);
+  });
+
+  it('should point JAVA_HOME at the JDK selected by a global switch', async () => {
+    const environment = createEnvironment();
+    const jenv = new TestJenv('linux', 'x64', environment);
+    jenv.outputs = {
+      'jenv global temurin64-21.0.2': '',
+      'jenv prefix': '/usr/lib/jvm/temurin-21-jdk'
+    };
+
+    const result = await jenv.switchVersion('java', 'temurin64-21.0.2');
+
+    expect(result.success).toBe(true);
+    expect(environment.variables).toEqual({ JAVA_HOME: '/usr/lib/jvm/temurin-21-jdk' });
+    expect(environment.persisted).toEqual([]);
+  });
+
+  it('should set a local JDK in the project directory without changing the process directory', async () => {
+    const jenv = new TestJenv('linux', 'x64', createEnvironment());
+    jenv.outputs = { 'jenv local 17.0.9': '' };
+    const cwd = process.cwd();
+
+    const result = await jenv.setLocalVersion('java', '17.0.9', '/work/api');
+
+    expect(result.success).toBe(true);
+    expect(jenv.workingDirectories).toEqual(['/work/api']);
+    expect(process.cwd()).toBe(cwd);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Tests for Version Manager Migration
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MiseMigrationAssistant } from '../version-manager-migration';
+import type { IVersionInfo, IVersionManager, IVersionOperationResult, VersionedTool, VersionManagerType } from '../version-manager-types';
+import type { ShellIntegration, ShellProfile } from '../workspace-configuration/types';
+
+const info = (tool: VersionedTool, version: string, isActive = false): IVersionInfo => {
+  const [major, minor, patch] = version.split('.').map(Number);
+  return { tool, version, major, minor, patch, isActive };
+};
+
+const result = (success: boolean, tool: VersionedTool, message: string): IVersionOperationResult => ({
+  success, operation: 'install', tool, message, error: success ? undefined : message, duration: 0, timestamp: new Date()
+});
+
+// A manager listing one tool's installed versions; failing versions can't be installed
+const createManager = (
+  type: VersionManagerType,
+  tool: VersionedTool,
+  options: { installed?: string[]; active?: string; projectFile?: string; failing?: string[] },
+  calls: string[]
+) => {
+  const installed = [...options.installed ?? []];
+  let active = options.active;
+  const manager = {
+    type,
+    isAvailable: async () => true,
+    listInstalled: async () => installed.map(version => info(tool, version, version === active)),
+    getCurrentVersion: async () => active ? info(tool, active, true) : null,
+    getProjectConfig: async (projectRoot: string) => {
+      const configFile = options.projectFile && path.join(projectRoot, options.projectFile);
+      const content = configFile ? await fs.readFile(configFile, 'utf-8').catch(() => null) : null;
+      return content === null ? null : { projectRoot, versions: { [tool]: content.trim() }, configFile, inherited: false };
+    },
+    installVersion: async (requested: VersionedTool, version: string) => {
+      calls.push(`${type} install ${requested} ${version}`);
+      if (options.failing?.includes(version)) {
+        return result(false, tool, `No ${tool} ${version} for this platform`);
+      }
+      installed.push(version);
+      return result(true, tool, `Installed ${tool} ${version}`);
+    },
+    uninstallVersion: async (requested: VersionedTool, version: string) => {
+      calls.push(`${type} uninstall ${requested} ${version}`);
+      installed.splice(installed.indexOf(version), 1);
+      return result(true, tool, `Uninstalled ${tool} ${version}`);
+    },
+    setGlobalVersion: async (requested: VersionedTool, version: string) => {
+      calls.push(`${type} global ${requested} ${version}`);
+      active = version;
+      return result(true, tool, `Switched ${tool} to ${version}`);
+    },
+    unsetGlobalVersion: async (requested: VersionedTool) => {
+      calls.push(`${type} unset-global ${requested}`);
+      active = undefined;
+      return result(true, tool, `Removed the global ${tool} version`);
+    }
+  };
+  return manager as unknown as IVersionManager;
+};
+
+// Profiles kept as strings, edited the way ShellIntegrationManager edits files
+const createShell = (profiles: Partial<Record<ShellProfile, string>>) => {
+  const backups: Record<string, string> = {};
+  const lines = (integration: ShellIntegration) => integration.initCommands.join('\n');
+  return {
+    profiles,
+    detectShellProfiles: async () => Object.keys(profiles) as ShellProfile[],
+    hasShellIntegration: async (profile: ShellProfile, integration: ShellIntegration) => (profiles[profile] ?? '').includes(lines(integration)),
+    backupShellProfile: async (profile: ShellProfile) => {
+      backups[`${profile}.backup`] = profiles[profile] ?? '';
+      return `${profile}.backup`;
+    },
+    removeShellIntegration: async (profile: ShellProfile, integration: ShellIntegration) => {
+      const removed = lines(integration).split('\n').map(line => line.trim());
+      profiles[profile] = (profiles[profile] ?? '').split('\n').filter(line => !removed.includes(line.trim())).join('\n');
+      return true;
+    },
+    updateShellProfile: async (profile: ShellProfile, integration: ShellIntegration) => {
+      profiles[profile] = `${profiles[profile] ?? ''}\n${lines(integration)}\n`;
+      return true;
+    },
+    restoreShellProfile: async (profile: ShellProfile, backupPath: string) => {
+      profiles[profile] = backups[backupPath];
+      return true;
+    }
+  };
+};
+
+const BASHRC = [
+  'alias ll="ls -la"',
+  'export NVM_DIR="$HOME/.nvm"',
+  '[ -s "$NVM_DIR/nvm.sh" ] && \\. "$NVM_DIR/nvm.sh"  # This loads nvm',
+  'eval "$(rbenv init - bash)"'
+].join('\n');
+
+describe('MiseMigrationAssistant', () => {
+  let tempDir: string;
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hatstart-migration-'));
+    projectRoot = path.join(tempDir, 'project');
+    await fs.mkdir(projectRoot);
+    await fs.writeFile(path.join(projectRoot, '.nvmrc'), '20.11.0\n');
+    await fs.writeFile(path.join(projectRoot, '.mise.toml'), '[env]\nNODE_ENV = "development"\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const createAssistant = (options: { miseFailing?: string[]; pyenv?: string[]; bashrc?: string } = {}) => {
+    const calls: string[] = [];
+    const managers: Partial<Record<VersionManagerType, IVersionManager>> = {
+      mise: createManager('mise', 'node', { installed: ['18.19.0'], failing: options.miseFailing }, calls),
+      nvm: createManager('nvm', 'node', { installed: ['18.19.0', '20.11.0'], active: '20.11.0', projectFile: '.nvmrc' }, calls),
+      rbenv: createManager('rbenv', 'ruby', { installed: ['3.3.0'] }, calls),
+      ...options.pyenv && { pyenv: createManager('pyenv', 'python', { installed: options.pyenv }, calls) }
+    };
+    const shell = createShell({ '.bashrc': options.bashrc ?? BASHRC });
+    const reportPath = path.join(tempDir, 'mise-migration.json');
+    const getManager = (type: VersionManagerType) => managers[type] ?? null;
+    return { assistant: new MiseMigrationAssistant({ getManager, shell, reportPath }), getManager, calls, shell, reportPath };
+  };
+
+  it('should plan the versions, selections, project files and shell integration of each installed source', async () => {
+    const { assistant } = createAssistant();
+
+    const plan = await assistant.plan({ projectRoots: [projectRoot] });
+
+    expect(plan.miseInstalled).toBe(true);
+    expect(plan.sources).toEqual([
+      {
+        source: 'nvm',
+        tool: 'node',
+        versions: ['18.19.0', '20.11.0'],
+        globalVersion: '20.11.0',
+        projectFiles: [{ projectRoot, path: path.join(projectRoot, '.nvmrc'), version: '20.11.0' }],
+        shellProfiles: ['.bashrc']
+      },
+      { source: 'rbenv', tool: 'ruby', versions: ['3.3.0'], globalVersion: null, projectFiles: [], shellProfiles: ['.bashrc'] }
+    ]);
+  });
+
+  it('should install missing versions with mise, rewrite project files and activate mise in place of the old managers', async () => {
+    const { assistant, calls, shell, reportPath } = createAssistant();
+
+    const report = await assistant.migrate({ projectRoots: [projectRoot], rewriteProjectFiles: true, removeShellIntegration: true });
+
+    expect(calls).toEqual(['mise install node 20.11.0', 'mise global node 20.11.0', 'mise install ruby 3.3.0']);
+    expect(report.steps.map(step => [step.change.type, step.status])).toEqual([
+      ['install', 'skipped'],
+      ['install', 'applied'],
+      ['set-global', 'applied'],
+      ['install', 'applied'],
+      ['write-project-file', 'applied'],
+      ['remove-project-file', 'applied'],
+      ['update-shell-profile', 'applied']
+    ]);
+    expect(await fs.readFile(path.join(projectRoot, '.mise.toml'), 'utf-8')).toBe('[env]\nNODE_ENV = "development"\n\n[tools]\nnode = "20.11.0"\n');
+    await expect(fs.access(path.join(projectRoot, '.nvmrc'))).rejects.toThrow();
+    expect(shell.profiles['.bashrc']).not.toMatch(/nvm|rbenv/);
+    expect(shell.profiles['.bashrc']).toContain('alias ll="ls -la"');
+    expect(shell.profiles['.bashrc']).toContain('eval "$(mise activate bash)"');
+    expect(shell.profiles['.bashrc']).toBe('alias ll="ls -la"\neval "$(mise activate bash)"\n');
+    expect(JSON.parse(await fs.readFile(reportPath, 'utf-8'))).toMatchObject({ appliedCount: 6, failedCount: 0 });
+  });
+
+  it('should keep the shell integration of a source whose versions did not all install', async () => {
+    const { assistant, shell } = createAssistant({ miseFailing: ['3.3.0'] });
+
+    const report = await assistant.migrate({ removeShellIntegration: true });
+
+    expect(report.failedCount).toBe(1);
+    expect(report.steps.at(-1)?.message).toBe('Replaced 2 line(s) in .bashrc with mise activation; kept rbenv, whose versions did not all install');
+    expect(shell.profiles['.bashrc']).toContain('eval "$(rbenv init - bash)"');
+    expect(shell.profiles['.bashrc']).not.toContain('nvm');
+  });
+
+  it('should restore a profile whose init lines are wrapped in other shell code instead of reporting them replaced', async () => {
+    const bashrc = `${BASHRC}\nif command -v pyenv 1>/dev/null 2>&1; then eval "$(pyenv init -)"; fi\n`;
+    const { assistant, shell } = createAssistant({ pyenv: ['3.12.2'], bashrc });
+
+    const report = await assistant.migrate({ sources: ['pyenv'], removeShellIntegration: true });
+
+    expect(report.steps.at(-1)).toMatchObject({
+      status: 'failed',
+      message: expect.stringContaining(`Could not remove 'eval "$(pyenv init -)"' from .bashrc; it was restored from .bashrc.backup`)
+    });
+    expect(shell.profiles['.bashrc']).toBe(bashrc);
+  });
+
+  it('should roll the last migration back, even from a new assistant, only once', async () => {
+    const { assistant, getManager, calls, shell, reportPath } = createAssistant();
+    await assistant.migrate({ projectRoots: [projectRoot], rewriteProjectFiles: true, removeShellIntegration: true });
+    calls.length = 0;
+
+    const rollback = await new MiseMigrationAssistant({ getManager, shell, reportPath }).rollback();
+
+    expect(rollback.failedCount).toBe(0);
+    expect(calls).toEqual(['mise uninstall ruby 3.3.0', 'mise unset-global node', 'mise uninstall node 20.11.0']);
+    expect(await fs.readFile(path.join(projectRoot, '.nvmrc'), 'utf-8')).toBe('20.11.0\n');
+    expect(await fs.readFile(path.join(projectRoot, '.mise.toml'), 'utf-8')).toBe('[env]\nNODE_ENV = "development"\n');
+    expect(shell.profiles['.bashrc']).toBe(BASHRC);
+    expect(rollback.steps.find(step => step.change.type === 'set-global')).toMatchObject({
+      status: 'applied',
+      message: 'Removed the global node version'
+    });
+    expect(await getManager('mise')?.getCurrentVersion('node')).toBeNull();
+    await expect(new MiseMigrationAssistant({ getManager, shell, reportPath }).rollback()).rejects.toThrow('already rolled back');
+  });
+});
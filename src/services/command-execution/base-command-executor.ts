@@ -28,6 +28,7 @@ export abstract class BaseCommandExecutor implements ICommandExecutor {
   
   protected readonly platformAdapter: IPlatformCommandAdapter;
   protected readonly runningProcesses = new Map<number, ChildProcess>();
+  protected readonly processGroups = new Set<number>();
 
   constructor(platform: Platform, architecture: Architecture, platformAdapter: IPlatformCommandAdapter) {
     this.platform = platform;
@@ -177,7 +178,7 @@ export abstract class BaseCommandExecutor implements ICommandExecutor {
     try {
       const childProcess = this.runningProcesses.get(pid);
       if (childProcess) {
-        childProcess.kill(signal);
+        await this.killChildProcess(childProcess, signal);
         this.runningProcesses.delete(pid);
         return true;
       }
@@ -190,6 +191,21 @@ export abstract class BaseCommandExecutor implements ICommandExecutor {
     }
   }
 
+  /**
+   * Kill a spawned process, along with its whole process tree if it was started as a group
+   */
+  protected async killChildProcess(childProcess: ChildProcess, signal: NodeJS.Signals): Promise<void> {
+    const pid = childProcess.pid;
+    if (!pid || !this.processGroups.has(pid)) {
+      childProcess.kill(signal);
+    } else if (this.platform === 'win32') {
+      await execAsync(`taskkill /PID ${pid} /T /F`);
+    } else {
+      // A negative PID signals every process in the group the detached child leads
+      process.kill(-pid, signal);
+    }
+  }
+
   /**
    * Get platform-specific command adapter
    */
@@ -260,6 +276,10 @@ export abstract class BaseCommandExecutor implements ICommandExecutor {
       
       if (childProcess.pid) {
         this.runningProcesses.set(childProcess.pid, childProcess);
+        if (options.processGroup) {
+          this.processGroups.add(childProcess.pid);
+        }
+        options.onSpawn?.(childProcess.pid);
       }
 
       let stdout = '';
@@ -271,7 +291,8 @@ export abstract class BaseCommandExecutor implements ICommandExecutor {
       if (options.timeout) {
         timeoutHandle = setTimeout(() => {
           timedOut = true;
-          childProcess.kill(options.killSignal || 'SIGTERM');
+          const signal = options.killSignal || 'SIGTERM';
+          this.killChildProcess(childProcess, signal).catch(() => childProcess.kill(signal));
         }, options.timeout);
       }
 
@@ -317,6 +338,7 @@ export abstract class BaseCommandExecutor implements ICommandExecutor {
         
         if (childProcess.pid) {
           this.runningProcesses.delete(childProcess.pid);
+          this.processGroups.delete(childProcess.pid);
         }
 
         if (timedOut) {
@@ -336,7 +358,7 @@ export abstract class BaseCommandExecutor implements ICommandExecutor {
           args,
           stdout,
           stderr,
-          code || 0,
+          code ?? (signal ? 1 : 0), // Killed by a signal is not a success
           startTime,
           endTime,
           options,
@@ -360,6 +382,7 @@ export abstract class BaseCommandExecutor implements ICommandExecutor {
         
         if (childProcess.pid) {
           this.runningProcesses.delete(childProcess.pid);
+          this.processGroups.delete(childProcess.pid);
         }
 
         const commandError = this.createError(
@@ -455,6 +478,8 @@ export abstract class BaseCommandExecutor implements ICommandExecutor {
       killSignal: options.killSignal || 'SIGTERM',
       onProgress: options.onProgress || (() => {}),
       onError: options.onError || (() => {}),
+      onSpawn: options.onSpawn || (() => {}),
+      processGroup: options.processGroup || false,
       silent: options.silent || false,
       context: options.context || {},
     };
@@ -493,6 +518,8 @@ export abstract class BaseCommandExecutor implements ICommandExecutor {
       env: environment,
       stdio: ['pipe', 'pipe', 'pipe'] as ['pipe', 'pipe', 'pipe'],
       shell: false, // We handle shell execution separately
+      // Windows has no process groups to signal; taskkill /T walks the tree instead
+      detached: !!options.processGroup && this.platform !== 'win32',
     };
   }
 
@@ -57,6 +57,10 @@ export interface CommandExecutionOptions {
   onProgress?: (data: CommandOutputData) => void;
   /** Error callback for execution errors */
   onError?: (error: CommandExecutionError) => void;
+  /** Called with the process ID once a spawned process has started */
+  onSpawn?: (pid: number) => void;
+  /** Start a spawned process in its own process group, so killing it also stops everything it started */
+  processGroup?: boolean;
   /** Whether to suppress output logging */
   silent?: boolean;
   /** Custom execution context */
@@ -0,0 +1,263 @@
+/**
+ * Detection Cache
+ * Keeps tool detection results on disk, valid for as long as the tool's fingerprint
+ * (its detection spec, PATH, and the files its probes look at) stays the same.
+ * Detections through launchers such as npx or pip3 also expire after a few minutes.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { expandPath } from './detection-probes';
+import type { ProbeSystem } from './detection-probes';
+import type { ToolDetectionResult } from './tool-detection-service';
+import { getPackageManager } from '../shared/package-managers';
+import type { DetectionProbe, Platform, ToolDetectionSpec } from '../shared/simple-manifest-types';
+
+export interface DetectionCacheEntry {
+  toolId: string;
+  fingerprint: string;
+  storedAt: string;
+  // Shorter lifetime for detections the fingerprint can only partly see
+  maxAgeMs?: number;
+  result: ToolDetectionResult;
+}
+
+export interface DetectionCacheData {
+  entries: Record<string, DetectionCacheEntry>;
+}
+
+export interface DetectionCacheOptions {
+  // Backstop for changes fingerprints can't see, such as registry values; defaults to a day
+  maxAgeMs?: number;
+  now?: () => number;
+}
+
+const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const LAUNCHER_MAX_AGE_MS = 5 * 60 * 1000;
+
+// Programs that run or list a package rather than being the tool (npx next, pip3 show fastapi)
+const NODE_LAUNCHERS = ['npx', 'npm', 'pnpm', 'yarn'];
+const LAUNCHERS = [...NODE_LAUNCHERS, 'pip', 'pip3', 'pipx', 'python', 'python3'];
+
+/**
+ * Fingerprint everything a tool's detection depends on without running any commands:
+ * the spec itself, PATH, and the size and mtime of the executables, files, app bundles,
+ * package databases and global npm packages its probes read. Any change means the tool
+ * is detected again.
+ */
+export async function fingerprintDetection(
+  spec: ToolDetectionSpec,
+  platform: Platform,
+  system: Pick<ProbeSystem, 'env' | 'homeDir' | 'stat'>
+): Promise<string> {
+  const probes = spec.probes.filter(probe => !probe.platforms || probe.platforms.includes(platform));
+  const watched = await Promise.all(probes.map(probe => getWatchedPaths(probe, platform, system)));
+
+  const files: string[] = [];
+  for (const filePath of watched.flat()) {
+    const stat = await system.stat(filePath);
+    files.push(stat ? `${filePath}:${stat.mtimeMs}:${stat.size}` : `${filePath}:missing`);
+  }
+
+  return createHash('sha256')
+    .update(JSON.stringify({ spec, path: system.env.PATH ?? system.env.Path ?? '', files }))
+    .digest('hex');
+}
+
+async function getWatchedPaths(
+  probe: DetectionProbe,
+  platform: Platform,
+  system: Pick<ProbeSystem, 'env' | 'homeDir' | 'stat'>
+): Promise<string[]> {
+  switch (probe.type) {
+    case 'command': {
+      const executable = await resolveExecutable(getExecutableName(probe.command), platform, system);
+      if (!executable) {
+        return [];
+      }
+      // The launcher doesn't change when a global package is added or removed, its folder does
+      const found = /[\\/]/.test(executable);
+      return found && isLauncherCommand(probe.command) && NODE_LAUNCHERS.includes(getLauncherName(probe.command))
+        ? [executable, getGlobalNodeModules(executable, platform, system)]
+        : [executable];
+    }
+    case 'file': return [expandPath(probe.path, system)];
+    case 'app-bundle': return [`${expandPath(probe.path, system)}/Contents/Info.plist`];
+    case 'package': return getPackageManager(probe.manager).statePaths.map(statePath => expandPath(statePath, system));
+    case 'registry': return [];
+  }
+}
+
+/**
+ * How long a detection stays valid: short when a command probe goes through a launcher,
+ * since the package it runs can change without the launcher's own file changing
+ */
+export function getDetectionMaxAge(spec: ToolDetectionSpec, platform: Platform): number | undefined {
+  const launched = spec.probes.some(probe =>
+    probe.type === 'command' &&
+    (!probe.platforms || probe.platforms.includes(platform)) &&
+    isLauncherCommand(probe.command));
+  return launched ? LAUNCHER_MAX_AGE_MS : undefined;
+}
+
+/**
+ * Whether a command runs a package through a launcher rather than asking the launcher
+ * about itself ('npx next --version' but not 'yarn --version')
+ */
+export function isLauncherCommand(command: string): boolean {
+  const [, ...args] = command.trim().split(/\s+/);
+  return LAUNCHERS.includes(getLauncherName(command)) && args.some(arg => !arg.startsWith('-'));
+}
+
+function getLauncherName(command: string): string {
+  return path.basename(getExecutableName(command)).replace(/\.(exe|cmd)$/i, '').toLowerCase();
+}
+
+// Global packages live in <prefix>/lib/node_modules, or %APPDATA%\npm\node_modules on Windows
+function getGlobalNodeModules(executable: string, platform: Platform, system: Pick<ProbeSystem, 'env' | 'homeDir'>): string {
+  return platform === 'win32'
+    ? path.win32.join(expandPath('%APPDATA%', system), 'npm', 'node_modules')
+    : path.posix.join(path.posix.dirname(path.posix.dirname(executable)), 'lib', 'node_modules');
+}
+
+/**
+ * The program a command line runs: its first word, unquoted
+ */
+export function getExecutableName(command: string): string {
+  const match = command.trim().match(/^"([^"]+)"|^'([^']+)'|^(\S+)/);
+  return match?.[1] ?? match?.[2] ?? match?.[3] ?? '';
+}
+
+/**
+ * Find an executable the way the shell would, without spawning one.
+ * Returns the bare name when it is not on PATH, so the fingerprint changes once it appears.
+ */
+export async function resolveExecutable(
+  name: string,
+  platform: Platform,
+  system: Pick<ProbeSystem, 'env' | 'homeDir' | 'stat'>
+): Promise<string | null> {
+  if (!name) {
+    return null;
+  }
+  if (/[\\/]/.test(name)) {
+    return expandPath(name, system);
+  }
+
+  const separator = platform === 'win32' ? ';' : ':';
+  const directories = (system.env.PATH ?? system.env.Path ?? '').split(separator).filter(Boolean);
+  const extensions = platform === 'win32'
+    ? ['', ...(system.env.PATHEXT ?? '.COM;.EXE;.BAT;.CMD').split(';').map(ext => ext.toLowerCase())]
+    : [''];
+  const join = platform === 'win32' ? path.win32.join : path.posix.join;
+
+  for (const directory of directories) {
+    for (const extension of extensions) {
+      const candidate = join(directory, name + extension);
+      if (await system.stat(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return name;
+}
+
+/**
+ * Detection results by tool id, in memory and, given a file path, persisted as JSON
+ */
+export class DetectionCache {
+  private readonly filePath?: string;
+  private readonly maxAgeMs: number;
+  private readonly now: () => number;
+  private entries: Promise<Map<string, DetectionCacheEntry>> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private pendingSave: Promise<void> | null = null;
+
+  constructor(filePath?: string, options: DetectionCacheOptions = {}) {
+    this.filePath = filePath;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * The cached result, if it was stored for this fingerprint and hasn't expired
+   */
+  async get(toolId: string, fingerprint: string): Promise<ToolDetectionResult | null> {
+    const entry = (await this.load()).get(toolId);
+    if (!entry || entry.fingerprint !== fingerprint || this.isExpired(entry)) {
+      return null;
+    }
+    return entry.result;
+  }
+
+  async set(toolId: string, fingerprint: string, result: ToolDetectionResult, maxAgeMs?: number): Promise<void> {
+    const entries = await this.load();
+    entries.set(toolId, { toolId, fingerprint, storedAt: new Date(this.now()).toISOString(), maxAgeMs, result });
+    await this.save(entries);
+  }
+
+  /**
+   * Forget one tool, or every tool
+   */
+  async delete(toolId?: string): Promise<void> {
+    const entries = await this.load();
+    if (toolId) {
+      entries.delete(toolId);
+    } else {
+      entries.clear();
+    }
+    await this.save(entries);
+  }
+
+  async list(): Promise<DetectionCacheEntry[]> {
+    return Array.from((await this.load()).values());
+  }
+
+  isExpired(entry: DetectionCacheEntry): boolean {
+    return this.now() - Date.parse(entry.storedAt) > Math.min(entry.maxAgeMs ?? Infinity, this.maxAgeMs);
+  }
+
+  private load(): Promise<Map<string, DetectionCacheEntry>> {
+    if (!this.entries) {
+      this.entries = this.read();
+    }
+    return this.entries;
+  }
+
+  private async read(): Promise<Map<string, DetectionCacheEntry>> {
+    if (!this.filePath) {
+      return new Map();
+    }
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as DetectionCacheData;
+      return new Map(Object.values(data.entries ?? {}).map(entry => [
+        entry.toolId,
+        { ...entry, result: { ...entry.result, lastChecked: new Date(entry.result.lastChecked) } }
+      ]));
+    } catch {
+      return new Map();
+    }
+  }
+
+  // Writes are queued so concurrent detections don't interleave in the file, and
+  // detections that finish while a write is waiting share the next one
+  private save(entries: Map<string, DetectionCacheEntry>): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) {
+      return Promise.resolve();
+    }
+    if (!this.pendingSave) {
+      this.pendingSave = this.saving.then(async () => {
+        this.pendingSave = null;
+        const data: DetectionCacheData = { entries: Object.fromEntries(entries) };
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
+      }).catch(error => {
+        console.error('DetectionCache: failed to save', error);
+      });
+      this.saving = this.pendingSave;
+    }
+    return this.pendingSave;
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Detection Probes
+ * Runs a tool's manifest-declared probes and explains which one found it
+ */
+
+import { exec } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import { promisify } from 'util';
+import { getPackageManager } from '../shared/package-managers';
+import { satisfiesVersion } from '../shared/version-constraint';
+import type { DetectionProbe, DetectionProbeType, Platform, ToolDetectionSpec } from '../shared/simple-manifest-types';
+
+const execAsync = promisify(exec);
+
+/**
+ * The system calls probes make; replaceable in tests
+ */
+export interface ProbeSystem {
+  // Resolves with stdout, rejects when the command fails
+  run: (command: string) => Promise<string>;
+  exists: (filePath: string) => Promise<boolean>;
+  // Null when the path doesn't exist
+  stat: (filePath: string) => Promise<{ mtimeMs: number; size: number } | null>;
+  // Follows symlinks; returns the path unchanged when it can't be resolved
+  realPath: (filePath: string) => Promise<string>;
+  env: Record<string, string | undefined>;
+  homeDir: string;
+}
+
+/**
+ * What running a tool's probes found
+ */
+export interface ProbeDetection {
+  installed: boolean;
+  version?: string;
+  // The probe that found the tool, e.g. 'brew package "node"'
+  detectedBy?: string;
+  probeType?: DetectionProbeType;
+  // Human-readable account of the probes tried and what they found
+  explanation: string;
+  // False when the version is below the spec's minVersion
+  meetsMinVersion?: boolean;
+}
+
+interface ProbeOutcome {
+  found: boolean;
+  version?: string;
+  // Why the probe did or didn't find the tool
+  detail: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+// Something that looks like a version: at least major.minor
+const VERSION_PATTERN = /\bv?(\d+\.\d+(?:\.\d+){0,2}(?:[-+][0-9A-Za-z.-]+)?)\b/;
+
+export const defaultProbeSystem: ProbeSystem = {
+  run: async command => (await execAsync(command, { timeout: DEFAULT_TIMEOUT_MS })).stdout,
+  exists: async filePath => {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  stat: async filePath => {
+    try {
+      const { mtimeMs, size } = await fs.stat(filePath);
+      return { mtimeMs, size };
+    } catch {
+      return null;
+    }
+  },
+  realPath: async filePath => {
+    try {
+      return await fs.realpath(filePath);
+    } catch {
+      return filePath;
+    }
+  },
+  env: process.env,
+  homeDir: os.homedir()
+};
+
+/**
+ * Pull a version out of command output. A pattern's first capture group (or whole match)
+ * is the version; without one, only something shaped like a version counts, so error
+ * messages and banners are never reported as versions.
+ */
+export function extractVersion(output: string, pattern?: string | RegExp): string | undefined {
+  const match = output.match(pattern ? new RegExp(pattern, typeof pattern === 'string' ? 'm' : pattern.flags) : VERSION_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+  const version = (match[1] ?? match[0]).trim();
+  return version || undefined;
+}
+
+/**
+ * Short description of a probe for explanations
+ */
+export function describeProbe(probe: DetectionProbe): string {
+  switch (probe.type) {
+    case 'command': return `command "${probe.command}"`;
+    case 'file': return `file ${probe.path}`;
+    case 'registry': return `registry ${probe.key}\\${probe.value ?? 'DisplayVersion'}`;
+    case 'package': return `${probe.manager} package "${probe.name}"`;
+    case 'app-bundle': return `app ${probe.path}`;
+  }
+}
+
+/**
+ * Expand ~, $VAR, ${VAR} and %VAR% in a path
+ */
+export function expandPath(filePath: string, system: Pick<ProbeSystem, 'env' | 'homeDir'>): string {
+  return filePath
+    .replace(/^~(?=$|[\\/])/, system.homeDir)
+    .replace(/\$\{(\w+)\}|\$(\w+)|%(\w+)%/g, (whole, braced, plain, windows) => system.env[braced ?? plain ?? windows] ?? whole);
+}
+
+/**
+ * Try a tool's probes in order until one finds it
+ */
+export async function runDetectionProbes(
+  spec: ToolDetectionSpec,
+  platform: Platform,
+  system: ProbeSystem = defaultProbeSystem
+): Promise<ProbeDetection> {
+  const applicable = spec.probes.filter(probe => !probe.platforms || probe.platforms.includes(platform));
+  if (applicable.length === 0) {
+    return { installed: false, explanation: `No detection probes for ${platform}` };
+  }
+
+  const misses: string[] = [];
+  for (const probe of applicable) {
+    const outcome = await runProbe(probe, system);
+    if (!outcome.found) {
+      misses.push(`${describeProbe(probe)}: ${outcome.detail}`);
+      continue;
+    }
+
+    const detectedBy = describeProbe(probe);
+    let explanation = `Found by ${detectedBy} (${outcome.detail})`;
+    let meetsMinVersion: boolean | undefined;
+    if (spec.minVersion) {
+      meetsMinVersion = !!outcome.version && satisfiesVersion(outcome.version, `>=${spec.minVersion}`);
+      if (!meetsMinVersion) {
+        explanation += outcome.version
+          ? `; version ${outcome.version} is below the minimum ${spec.minVersion}`
+          : `; its version could not be read to check the minimum ${spec.minVersion}`;
+      }
+    }
+    return { installed: true, version: outcome.version, detectedBy, probeType: probe.type, explanation, meetsMinVersion };
+  }
+
+  return { installed: false, explanation: `Not found. Tried ${misses.join('; ')}` };
+}
+
+async function runProbe(probe: DetectionProbe, system: ProbeSystem): Promise<ProbeOutcome> {
+  switch (probe.type) {
+    case 'command': {
+      const output = await tryRun(system, probe.command);
+      if (output === null) {
+        return { found: false, detail: 'failed' };
+      }
+      return withVersion(extractVersion(output, probe.versionPattern), 'succeeded');
+    }
+
+    case 'file': {
+      const filePath = expandPath(probe.path, system);
+      if (!await system.exists(filePath)) {
+        return { found: false, detail: `${filePath} does not exist` };
+      }
+      const output = probe.versionCommand ? await tryRun(system, probe.versionCommand.split('{path}').join(filePath)) : null;
+      return withVersion(output === null ? undefined : extractVersion(output, probe.versionPattern), `${filePath} exists`);
+    }
+
+    case 'registry': {
+      const value = probe.value ?? 'DisplayVersion';
+      const output = await tryRun(system, `reg query "${probe.key}" /v "${value}"`);
+      if (output === null) {
+        return { found: false, detail: 'not found' };
+      }
+      // "    DisplayVersion    REG_SZ    1.90.0"
+      const data = output.match(/REG_\w+\s+(.*)$/m)?.[1] ?? '';
+      return withVersion(extractVersion(data, probe.versionPattern), 'key exists');
+    }
+
+    case 'package': {
+      const backend = getPackageManager(probe.manager);
+      const output = await tryRun(system, backend.queryCommand(probe.name));
+      const version = output === null ? undefined : extractVersion(output, probe.versionPattern ?? backend.queryVersionPattern);
+      if (!version) {
+        return { found: false, detail: 'not installed' };
+      }
+      return withVersion(version, 'installed');
+    }
+
+    case 'app-bundle': {
+      const bundlePath = expandPath(probe.path, system);
+      if (!await system.exists(bundlePath)) {
+        return { found: false, detail: `${bundlePath} does not exist` };
+      }
+      const output = await tryRun(system, `plutil -extract CFBundleShortVersionString raw "${bundlePath}/Contents/Info.plist"`);
+      return withVersion(output === null ? undefined : extractVersion(output, probe.versionPattern), `${bundlePath} exists`);
+    }
+  }
+}
+
+function withVersion(version: string | undefined, detail: string): ProbeOutcome {
+  return { found: true, version, detail: version ? `${detail}, version ${version}` : `${detail}, version unknown` };
+}
+
+async function tryRun(system: ProbeSystem, command: string): Promise<string | null> {
+  try {
+    return await system.run(command);
+  } catch {
+    return null;
+  }
+}
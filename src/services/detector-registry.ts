@@ -0,0 +1,289 @@
+/**
+ * Detector Registry
+ * One entry point for tool detection: plugins declare the tool ids they handle, the
+ * registry picks one per tool and runs them through ParallelDetector
+ */
+
+import { frameworkDetector } from '../shared/framework-detector';
+import type { FrameworkDetector } from '../shared/framework-detector';
+import { ideDetector } from '../shared/ide-detector';
+import type { IDEDetector } from '../shared/ide-detector';
+import { languageDetector } from '../shared/language-detector';
+import type { LanguageDetector } from '../shared/language-detector';
+import { ParallelDetector } from '../shared/parallel-detector';
+import type { DetectionTask } from '../shared/parallel-detector';
+import type { RetryOptions } from '../shared/detection-errors';
+import type { DetectionMethod, DetectionResult, PlatformType } from '../shared/detection-types';
+import type { DetectionProbeType, SimpleTool } from '../shared/simple-manifest-types';
+import { toolDetectionService } from './tool-detection-service';
+import type { ToolDetectionResult, ToolDetectionService } from './tool-detection-service';
+
+/**
+ * A source of detection results for some set of tools
+ */
+export interface DetectorPlugin {
+  id: string;
+  // When several plugins handle a tool, the highest priority one detects it
+  priority: number;
+  getToolIds(): Promise<string[]> | string[];
+  // Results are named by tool id
+  detect(toolId: string): Promise<DetectionResult>;
+  timeout?: number;
+  retry?: RetryOptions;
+  // Tools to detect first, e.g. a runtime before the frameworks installed with it
+  getDependencies?(toolId: string): string[];
+  clearCache?(toolId?: string): Promise<void> | void;
+}
+
+const PROBE_METHODS: Record<DetectionProbeType, DetectionMethod> = {
+  command: 'command',
+  file: 'filesystem',
+  registry: 'registry',
+  package: 'package-manager',
+  'app-bundle': 'application-folder'
+};
+
+/**
+ * Detector plugins keyed by id, run together through ParallelDetector
+ */
+export class DetectorRegistry {
+  private plugins = new Map<string, DetectorPlugin>();
+  private readonly parallel: ParallelDetector;
+
+  // Plugins cache their own results, so ParallelDetector's time-based cache stays off
+  constructor(parallel: ParallelDetector = new ParallelDetector({ enableCaching: false })) {
+    this.parallel = parallel;
+  }
+
+  /**
+   * Add a plugin, replacing any with the same id
+   */
+  register(plugin: DetectorPlugin): void {
+    this.plugins.set(plugin.id, plugin);
+  }
+
+  unregister(pluginId: string): void {
+    this.plugins.delete(pluginId);
+  }
+
+  getPlugins(): DetectorPlugin[] {
+    return Array.from(this.plugins.values());
+  }
+
+  /**
+   * The plugin that detects each tool id
+   */
+  async resolve(): Promise<Map<string, DetectorPlugin>> {
+    const byPriority = this.getPlugins().sort((a, b) => b.priority - a.priority);
+    const owners = new Map<string, DetectorPlugin>();
+    for (const plugin of byPriority) {
+      for (const toolId of await plugin.getToolIds()) {
+        if (!owners.has(toolId)) {
+          owners.set(toolId, plugin);
+        }
+      }
+    }
+    return owners;
+  }
+
+  /**
+   * Detect tools, returning one result per requested id in the same order.
+   * Tools no plugin handles, that failed or whose dependencies failed come back not found with an error.
+   */
+  async detect(toolIds: string[]): Promise<DetectionResult[]> {
+    const owners = await this.resolve();
+    const requested = new Set(toolIds);
+
+    const tasks: DetectionTask[] = toolIds.filter(toolId => owners.has(toolId)).map(toolId => {
+      const plugin = owners.get(toolId)!;
+      return {
+        id: toolId,
+        category: 'tool',
+        priority: plugin.priority,
+        dependencies: plugin.getDependencies?.(toolId).filter(dependency => requested.has(dependency)),
+        timeout: plugin.timeout,
+        retry: plugin.retry,
+        detector: async () => ({ ...await plugin.detect(toolId), name: toolId, detector: plugin.id })
+      };
+    });
+
+    const summary = await this.parallel.executeDetections(tasks);
+    const executions = new Map(summary.results.map(execution => [execution.taskId, execution]));
+
+    return toolIds.map(toolId => {
+      const plugin = owners.get(toolId);
+      const execution = executions.get(toolId);
+      if (execution?.result) {
+        return execution.result;
+      }
+      const error = !plugin
+        ? `No detector handles ${toolId}`
+        : execution?.error?.message ?? 'Not detected because a tool it depends on could not be detected';
+      return { name: toolId, found: false, detectionMethod: 'command', error, detector: plugin?.id };
+    });
+  }
+
+  /**
+   * Forget cached results for one tool, or everything, in every plugin
+   */
+  async clearCache(toolId?: string): Promise<void> {
+    await Promise.all(this.getPlugins().map(plugin => plugin.clearCache?.(toolId)));
+  }
+}
+
+/**
+ * Convert a manifest detection into the shared result shape
+ */
+export function toDetectionResult(result: ToolDetectionResult): DetectionResult {
+  return {
+    name: result.toolId,
+    found: result.installed,
+    version: result.version,
+    detectionMethod: result.probeType ? PROBE_METHODS[result.probeType] : 'command',
+    metadata: {
+      detectedBy: result.detectedBy,
+      explanation: result.explanation,
+      meetsMinVersion: result.meetsMinVersion,
+      installations: result.installations,
+      shadowingWarning: result.shadowingWarning,
+      lastChecked: result.lastChecked
+    }
+  };
+}
+
+/**
+ * Detects the manifest's tools with their declared probes; the catalog is read on each run
+ */
+export function createManifestDetector(
+  getTools: () => Promise<SimpleTool[]>,
+  service: ToolDetectionService = toolDetectionService
+): DetectorPlugin {
+  let tools = new Map<string, SimpleTool>();
+
+  return {
+    id: 'manifest',
+    priority: 100,
+    async getToolIds() {
+      tools = new Map((await getTools()).map(tool => [tool.id, tool]));
+      return Array.from(tools.keys());
+    },
+    async detect(toolId) {
+      const tool = tools.get(toolId);
+      if (!tool) {
+        throw new Error(`Tool ${toolId} is not in the manifest`);
+      }
+      return toDetectionResult(await service.detectTool(tool));
+    },
+    clearCache: toolId => service.clearCache(toolId)
+  };
+}
+
+// Built-in definition names that differ from the manifest's tool ids
+const DEFINITION_TOOL_IDS: Record<string, string> = {
+  'Node': 'nodejs',
+  'Visual Studio Code': 'vscode',
+  'GitHub CLI': 'gh',
+  'Kubernetes': 'kubectl',
+  'IntelliJ IDEA': 'intellij',
+  'Windows Terminal': 'windows-terminal',
+  'Sublime Text': 'sublime-text',
+  'Visual Studio': 'visual-studio',
+  'React Native': 'react-native'
+};
+
+/**
+ * The tool id for a built-in definition name, e.g. 'Visual Studio Code' -> 'vscode'
+ */
+export function getDefinitionToolId(name: string): string {
+  return DEFINITION_TOOL_IDS[name] ?? name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+}
+
+function createDefinitionDetector(
+  id: string,
+  priority: number,
+  names: string[],
+  detectByName: (name: string) => Promise<DetectionResult | undefined>,
+  clearCache?: () => void,
+  getDependencies?: (toolId: string) => string[]
+): DetectorPlugin {
+  const namesById = new Map(names.map(name => [getDefinitionToolId(name), name]));
+
+  return {
+    id,
+    priority,
+    getToolIds: () => Array.from(namesById.keys()),
+    async detect(toolId) {
+      const result = await detectByName(namesById.get(toolId) ?? toolId);
+      if (!result) {
+        throw new Error(`${id} detector has no definition for ${toolId}`);
+      }
+      return result;
+    },
+    clearCache: clearCache && (() => clearCache()),
+    getDependencies
+  };
+}
+
+function getPlatformType(): PlatformType {
+  return process.platform === 'win32' ? 'windows' : process.platform === 'darwin' ? 'macos' : 'linux';
+}
+
+/**
+ * Languages from LanguageDetector's built-in table, for tools the manifest doesn't define
+ */
+export function createLanguageDetectorPlugin(detector: LanguageDetector = languageDetector): DetectorPlugin {
+  return createDefinitionDetector(
+    'language',
+    30,
+    detector.getSupportedLanguages(),
+    name => detector.detectLanguageByName(name, getPlatformType())
+  );
+}
+
+/**
+ * IDEs and developer tools from IDEDetector's built-in table
+ */
+export function createIDEDetectorPlugin(detector: IDEDetector = ideDetector): DetectorPlugin {
+  return createDefinitionDetector(
+    'ide',
+    20,
+    detector.getSupportedTools(),
+    name => detector.detectToolByName(name),
+    () => detector.clearCache()
+  );
+}
+
+// Runtime each framework is installed with; the rest come from npm
+const FRAMEWORK_RUNTIMES: Record<string, string | null> = { django: 'python', pip: 'python', flutter: null };
+
+/**
+ * Frameworks from FrameworkDetector's built-in table. Most are found through npm or pip,
+ * so they wait for the runtime to be detected first.
+ */
+export function createFrameworkDetectorPlugin(detector: FrameworkDetector = frameworkDetector): DetectorPlugin {
+  return createDefinitionDetector(
+    'framework',
+    10,
+    detector.getSupportedFrameworks(),
+    name => detector.detectFrameworkByName(name),
+    () => detector.clearCache(),
+    toolId => {
+      const runtime = toolId in FRAMEWORK_RUNTIMES ? FRAMEWORK_RUNTIMES[toolId] : 'nodejs';
+      return runtime ? [runtime] : [];
+    }
+  );
+}
+
+/**
+ * A registry with the built-in definition tables; callers add the manifest plugin
+ */
+export function createDetectorRegistry(): DetectorRegistry {
+  const registry = new DetectorRegistry();
+  registry.register(createLanguageDetectorPlugin());
+  registry.register(createIDEDetectorPlugin());
+  registry.register(createFrameworkDetectorPlugin());
+  return registry;
+}
+
+// Export singleton instance
+export const detectorRegistry = createDetectorRegistry();
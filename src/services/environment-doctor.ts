@@ -0,0 +1,321 @@
+/**
+ * Environment Doctor
+ * Checks the machine's package manager, shell profiles, PATH, IDE command-line tools and
+ * disk space, and reports each problem with a severity and, where it can, a fix to apply
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { resolveExecutable } from './detection-cache';
+import { defaultProbeSystem } from './detection-probes';
+import type { ProbeSystem } from './detection-probes';
+import { detectPackageManagers } from './package-manager-detection';
+import type { PackageManagerDetectionResult } from './package-manager-detection';
+import { classifyInstallation, getVersionManagerDirectories } from './tool-installations';
+import type { VersionManagerType } from './version-manager-types';
+import { EnvironmentManager } from './workspace-configuration/environment-manager';
+import { ShellIntegrationManager } from './workspace-configuration/shell-integration-manager';
+import type { IEnvironmentManager, IShellIntegrationManager, ShellIntegration } from './workspace-configuration/types';
+import { WorkspaceConfigurationService } from './workspace-configuration/workspace-configuration-service';
+import { getPackageManager } from '../shared/package-managers';
+import type { Platform } from '../shared/simple-manifest-types';
+
+export type DoctorSeverity = 'error' | 'warning' | 'info';
+
+export type DoctorCheckId =
+  | 'package-manager'
+  | 'shell-integration'
+  | 'version-manager-path'
+  | 'orphaned-path'
+  | 'ide-cli'
+  | 'disk-space';
+
+/**
+ * A change the doctor can make on the user's behalf
+ */
+export type DoctorFixAction =
+  | { type: 'prepend-path'; path: string; manager?: VersionManagerType }
+  | { type: 'remove-path'; path: string }
+  | { type: 'write-shell-integration'; integration: ShellIntegration };
+
+export interface DoctorFix {
+  description: string;
+  action: DoctorFixAction;
+}
+
+export interface DoctorFinding {
+  // Stable across runs, e.g. 'orphaned-path:/opt/old/bin'
+  id: string;
+  check: DoctorCheckId;
+  severity: DoctorSeverity;
+  message: string;
+  // Set when the doctor can fix the problem itself
+  fix?: DoctorFix;
+  // What to do by hand when there is no automated fix
+  suggestion?: string;
+}
+
+export interface DoctorReport {
+  checks: DoctorCheckId[];
+  findings: DoctorFinding[];
+  errorCount: number;
+  warningCount: number;
+  checkedAt: Date;
+}
+
+export interface DoctorFixResult {
+  findingId: string;
+  applied: boolean;
+  message: string;
+}
+
+/**
+ * Everything the checks read or change; replaceable in tests
+ */
+export interface DoctorDependencies {
+  platform: Platform;
+  system: ProbeSystem;
+  detectPackageManagers: () => Promise<PackageManagerDetectionResult>;
+  environment: Pick<IEnvironmentManager, 'getCurrentPath' | 'movePathEntryToFront' | 'removePathEntry'>;
+  shell: Pick<IShellIntegrationManager, 'hasShellIntegration' | 'updateShellProfile'>;
+  // The shell integrations the workspace configuration asks for
+  getShellIntegrations: () => Promise<ShellIntegration[]>;
+  // Free bytes on the volume holding the directory, or null when unknown
+  getFreeDiskSpace: (directory: string) => Promise<number | null>;
+}
+
+const GIB = 1024 ** 3;
+const DISK_SPACE_ERROR_BYTES = 2 * GIB;
+const DISK_SPACE_WARNING_BYTES = 10 * GIB;
+
+// IDE launchers and, on macOS, the app bundle directory that ships them
+const IDE_CLIS = [
+  { command: 'code', name: 'Visual Studio Code', macBin: '/Applications/Visual Studio Code.app/Contents/Resources/app/bin' },
+  { command: 'cursor', name: 'Cursor', macBin: '/Applications/Cursor.app/Contents/Resources/app/bin' }
+];
+
+type DoctorCheck = (deps: DoctorDependencies) => Promise<DoctorFinding[]>;
+
+const CHECKS: Record<DoctorCheckId, DoctorCheck> = {
+  'package-manager': checkPackageManager,
+  'shell-integration': checkShellIntegration,
+  'version-manager-path': checkVersionManagerPath,
+  'orphaned-path': checkOrphanedPath,
+  'ide-cli': checkIdeClis,
+  'disk-space': checkDiskSpace
+};
+
+/**
+ * Runs the health checks and applies the fixes they offer
+ */
+export class EnvironmentDoctor {
+  private readonly deps: DoctorDependencies;
+  private lastReport: DoctorReport | null = null;
+
+  constructor(deps: Partial<DoctorDependencies> = {}, workspaceRoot: string = process.cwd()) {
+    const platform = deps.platform ?? process.platform as Platform;
+    this.deps = {
+      platform,
+      system: defaultProbeSystem,
+      detectPackageManagers: () => detectPackageManagers(platform),
+      environment: new EnvironmentManager(),
+      shell: new ShellIntegrationManager(),
+      getShellIntegrations: async () =>
+        (await new WorkspaceConfigurationService().getCurrentConfiguration(workspaceRoot))?.shellIntegrations ?? [],
+      getFreeDiskSpace,
+      ...deps
+    };
+  }
+
+  /**
+   * Run the given checks, or all of them. A check that throws is reported as an error finding.
+   */
+  async run(checks: DoctorCheckId[] = Object.keys(CHECKS) as DoctorCheckId[]): Promise<DoctorReport> {
+    const results = await Promise.all(checks.map(async check => {
+      try {
+        return await CHECKS[check](this.deps);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return [finding(check, 'failed', 'error', `The ${check} check failed: ${message}`)];
+      }
+    }));
+
+    const findings = results.flat();
+    this.lastReport = {
+      checks,
+      findings,
+      errorCount: findings.filter(item => item.severity === 'error').length,
+      warningCount: findings.filter(item => item.severity === 'warning').length,
+      checkedAt: new Date()
+    };
+    return this.lastReport;
+  }
+
+  getLastReport(): DoctorReport | null {
+    return this.lastReport;
+  }
+
+  /**
+   * Apply the fix of a finding from the last run. Only fixes the doctor itself offered can be
+   * applied, so callers can't ask it to write arbitrary shell integrations.
+   */
+  async applyFix(findingId: string): Promise<DoctorFixResult> {
+    const target = this.lastReport?.findings.find(item => item.id === findingId);
+    if (!target?.fix) {
+      return { findingId, applied: false, message: target ? 'This finding has no automated fix' : `Unknown finding ${findingId}` };
+    }
+
+    const applied = await applyFixAction(target.fix.action, this.deps);
+    if (!applied && target.fix.action.type === 'remove-path') {
+      // Only this process's PATH changed; the entry comes from somewhere HatStart doesn't edit
+      return {
+        findingId,
+        applied,
+        message: `Manual action required: ${target.fix.action.path} is not set in a shell profile or user PATH HatStart manages; remove it where your PATH is set`
+      };
+    }
+    return { findingId, applied, message: applied ? `Fixed: ${target.fix.description}` : `Could not ${lowerFirst(target.fix.description)}` };
+  }
+}
+
+async function applyFixAction(action: DoctorFixAction, deps: DoctorDependencies): Promise<boolean> {
+  switch (action.type) {
+    case 'prepend-path':
+      return deps.environment.movePathEntryToFront(
+        { path: action.path, priority: 0, position: 'prepend', manager: action.manager, conditional: false }
+      );
+    case 'remove-path':
+      return deps.environment.removePathEntry(action.path);
+    case 'write-shell-integration':
+      return deps.shell.updateShellProfile(action.integration.profile, { ...action.integration, backupBeforeModification: true });
+  }
+}
+
+function finding(check: DoctorCheckId, subject: string, severity: DoctorSeverity, message: string, extra: Pick<DoctorFinding, 'fix' | 'suggestion'> = {}): DoctorFinding {
+  return { id: `${check}:${subject}`, check, severity, message, ...extra };
+}
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+async function checkPackageManager(deps: DoctorDependencies): Promise<DoctorFinding[]> {
+  const detection = await deps.detectPackageManagers();
+  if (!detection.primary) {
+    return [finding('package-manager', 'missing', 'error', `No supported package manager was found for ${detection.platform}`, {
+      suggestion: deps.platform === 'darwin' ? 'Install Homebrew from https://brew.sh' : deps.platform === 'win32' ? 'Install winget (App Installer) or Chocolatey' : undefined
+    })];
+  }
+
+  const manager = getPackageManager(detection.primary);
+  if (!detection.available.includes(manager.id)) {
+    return [finding('package-manager', manager.id, 'error', `${manager.name} (${manager.executable}) is not on PATH`)];
+  }
+  try {
+    await deps.system.run(`${manager.executable} --version`);
+    return [];
+  } catch (error) {
+    const detail = error instanceof Error ? error.message.split('\n')[0] : String(error);
+    return [finding('package-manager', manager.id, 'error', `${manager.name} is installed but \`${manager.executable} --version\` failed: ${detail}`, {
+      suggestion: `Reinstall or repair ${manager.name}`
+    })];
+  }
+}
+
+async function checkShellIntegration(deps: DoctorDependencies): Promise<DoctorFinding[]> {
+  const findings: DoctorFinding[] = [];
+  for (const integration of await deps.getShellIntegrations()) {
+    // The CMD autorun "profile" is a registry value, not a file we can read
+    if (!integration.enabled || integration.profile === 'cmd_autorun') {
+      continue;
+    }
+    if (!await deps.shell.hasShellIntegration(integration.profile, integration)) {
+      findings.push(finding('shell-integration', integration.profile, 'warning', `The HatStart integration is missing from ~/${integration.profile}`, {
+        fix: { description: `Write the integration to ~/${integration.profile}`, action: { type: 'write-shell-integration', integration } }
+      }));
+    }
+  }
+  return findings;
+}
+
+async function checkVersionManagerPath(deps: DoctorDependencies): Promise<DoctorFinding[]> {
+  const pathEntries = await deps.environment.getCurrentPath();
+  const findings: DoctorFinding[] = [];
+
+  for (const { directory, manager } of getVersionManagerDirectories(deps.platform, deps.system)) {
+    if (!await deps.system.exists(directory)) {
+      continue;
+    }
+    const fix: DoctorFix = { description: `Put ${directory} first on PATH`, action: { type: 'prepend-path', path: directory, manager } };
+    const index = pathEntries.indexOf(directory);
+    if (index === -1) {
+      findings.push(finding('version-manager-path', manager, 'warning', `${manager} is installed but ${directory} is not on PATH`, { fix }));
+      continue;
+    }
+    // System and package manager directories before the shims hide the versions the manager selects
+    const shadowing = pathEntries.slice(0, index).find(entry => {
+      const { origin } = classifyInstallation(`${entry}/`);
+      return origin !== 'version-manager' && origin !== 'other';
+    });
+    if (shadowing) {
+      findings.push(finding('version-manager-path', manager, 'warning', `${shadowing} comes before the ${manager} directory ${directory} on PATH`, { fix }));
+    }
+  }
+  return findings;
+}
+
+async function checkOrphanedPath(deps: DoctorDependencies): Promise<DoctorFinding[]> {
+  const findings: DoctorFinding[] = [];
+  for (const entry of new Set(await deps.environment.getCurrentPath())) {
+    if (!await deps.system.exists(entry)) {
+      findings.push(finding('orphaned-path', entry, 'warning', `PATH entry ${entry} does not exist`, {
+        fix: { description: `Remove ${entry} from PATH`, action: { type: 'remove-path', path: entry } }
+      }));
+    }
+  }
+  return findings;
+}
+
+async function checkIdeClis(deps: DoctorDependencies): Promise<DoctorFinding[]> {
+  const findings: DoctorFinding[] = [];
+  for (const ide of IDE_CLIS) {
+    const executable = await resolveExecutable(ide.command, deps.platform, deps.system);
+    if (executable === ide.command) {
+      // Not on PATH: only a problem when the IDE is installed and ships the launcher
+      if (deps.platform === 'darwin' && await deps.system.exists(path.posix.join(ide.macBin, ide.command))) {
+        findings.push(finding('ide-cli', ide.command, 'warning', `${ide.name} is installed but \`${ide.command}\` is not on PATH`, {
+          fix: { description: `Add ${ide.macBin} to PATH`, action: { type: 'prepend-path', path: ide.macBin } }
+        }));
+      }
+      continue;
+    }
+    try {
+      await deps.system.run(`"${executable}" --version`);
+    } catch {
+      findings.push(finding('ide-cli', ide.command, 'error', `\`${ide.command}\` at ${executable} does not run`, {
+        suggestion: `Reinstall the shell command from ${ide.name}'s command palette ("Shell Command: Install '${ide.command}' command in PATH")`
+      }));
+    }
+  }
+  return findings;
+}
+
+async function checkDiskSpace(deps: DoctorDependencies): Promise<DoctorFinding[]> {
+  const free = await deps.getFreeDiskSpace(deps.system.homeDir);
+  if (free === null || free >= DISK_SPACE_WARNING_BYTES) {
+    return [];
+  }
+  const severity: DoctorSeverity = free < DISK_SPACE_ERROR_BYTES ? 'error' : 'warning';
+  return [finding('disk-space', 'home', severity, `Only ${(free / GIB).toFixed(1)} GB free on the volume holding ${deps.system.homeDir}`, {
+    suggestion: 'Free up space before installing toolchains; SDKs and IDEs need several gigabytes'
+  })];
+}
+
+async function getFreeDiskSpace(directory: string): Promise<number | null> {
+  try {
+    const stats = await fs.statfs(directory);
+    return stats.bavail * stats.bsize;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Install Dry Run
+ * Reports exactly what the installer would do for a selection without running anything
+ */
+
+import { getInstallCommand, getInstallScript, requiresElevation } from '../shared/install-commands';
+import { createInstallPlan, walkInstallPlan } from '../shared/install-planner';
+import type { InstallPlan } from '../shared/install-planner';
+import { getDefaultPackageManagerSelection, VersionPinError } from '../shared/package-managers';
+import type { PackageManagerSelection } from '../shared/package-managers';
+import type { InstallScript, Platform, SimpleManifest, SimpleTool } from '../shared/simple-manifest-types';
+import { isInstalledAsRequired, toolDetectionService } from './tool-detection-service';
+import type { ToolDetectionResult } from './tool-detection-service';
+
+/**
+ * What the installer would do for a single tool
+ */
+export interface DryRunToolReport {
+  toolId: string;
+  name: string;
+  autoAdded: boolean;
+  detection: ToolDetectionResult;
+  action: 'install' | 'skip';
+  command: string | null;
+  /** Set when command downloads and verifies an install script before running it */
+  script?: InstallScript;
+  requiresElevation: boolean;
+  skipReason?: string;
+}
+
+/**
+ * Full dry-run report - tools are listed in install order
+ */
+export interface DryRunReport {
+  platform: Platform;
+  plan: InstallPlan;
+  tools: DryRunToolReport[];
+  generatedAt: Date;
+}
+
+/**
+ * Anything that can detect a tool (the detection service by default)
+ */
+export interface ToolDetector {
+  detectTool(tool: SimpleTool): Promise<ToolDetectionResult>;
+}
+
+/**
+ * Build a dry-run report for the selected tools.
+ * Detection runs for real; install commands are only resolved, never executed.
+ */
+export async function createDryRunReport(
+  toolIds: string[],
+  manifest: SimpleManifest,
+  platform: Platform,
+  detector: ToolDetector = toolDetectionService,
+  packageManagers: PackageManagerSelection = getDefaultPackageManagerSelection(platform)
+): Promise<DryRunReport> {
+  const plan = createInstallPlan(toolIds, manifest);
+  const toolMap = new Map(manifest.tools.map(tool => [tool.id, tool]));
+  const tools: DryRunToolReport[] = [];
+
+  // Same walk and check order as the installer, so skips match a real run
+  await walkInstallPlan(plan.steps, async (step, failedPrerequisite) => {
+    const tool = toolMap.get(step.toolId)!;
+    const detection = await detector.detectTool(tool);
+    let command: string | null = null;
+    let pinError: string | undefined;
+    try {
+      command = getInstallCommand(tool, platform, packageManagers);
+    } catch (error) {
+      if (!(error instanceof VersionPinError)) {
+        throw error;
+      }
+      pinError = error.message;
+    }
+    const report: DryRunToolReport = {
+      toolId: tool.id,
+      name: tool.name,
+      autoAdded: step.autoAdded,
+      detection,
+      action: 'install',
+      command,
+      requiresElevation: command ? requiresElevation(command, platform) : false
+    };
+    const script = getInstallScript(tool, platform);
+    if (script) {
+      report.script = script;
+    }
+    tools.push(report);
+
+    if (failedPrerequisite) {
+      report.action = 'skip';
+      report.skipReason = `Prerequisite ${toolMap.get(failedPrerequisite)?.name ?? failedPrerequisite} cannot be installed`;
+    } else if (isInstalledAsRequired(tool, detection)) {
+      // A pinned tool at the wrong version, or one below its minimum, is installed again
+      report.action = 'skip';
+      report.skipReason = `Already installed${detection.version ? ` (version ${detection.version})` : ''}`;
+      return true;
+    } else if (!command) {
+      report.action = 'skip';
+      report.skipReason = pinError ?? `No installation method for ${tool.name} on ${platform}`;
+    }
+
+    // Only tools that end up installed satisfy their dependents
+    return report.action === 'install';
+  });
+
+  return {
+    platform,
+    plan,
+    tools,
+    generatedAt: new Date()
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Install Ledger
+ * Records the tools HatStart itself installed so they can be removed again
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { PackageManagerId, Platform } from '../shared/simple-manifest-types';
+
+/**
+ * A tool installed by HatStart, with the command that removes it
+ */
+export interface InstallLedgerEntry {
+  toolId: string;
+  name: string;
+  sessionId: string;
+  platform: Platform;
+  installedAt: string;
+  installCommand: string;
+  // Null when neither the package manager nor the manifest knows how to remove the tool
+  uninstallCommand: string | null;
+  packageManager?: PackageManagerId;
+}
+
+export interface InstallLedgerData {
+  // Session id of the most recent install-tools run
+  lastSessionId?: string;
+  // Entries in install order
+  entries: InstallLedgerEntry[];
+}
+
+/**
+ * Persists the ledger as a JSON file
+ */
+export class InstallLedger {
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Load the ledger, or an empty one if none has been written yet
+   */
+  async load(): Promise<InstallLedgerData> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const data = JSON.parse(content) as InstallLedgerData;
+      return { lastSessionId: data.lastSessionId, entries: data.entries ?? [] };
+    } catch {
+      return { entries: [] };
+    }
+  }
+
+  /**
+   * Remember the session as the most recent install run
+   */
+  async startSession(sessionId: string): Promise<void> {
+    const data = await this.load();
+    data.lastSessionId = sessionId;
+    await this.write(data);
+  }
+
+  /**
+   * Record an installed tool, replacing any older entry for it
+   */
+  async record(entry: InstallLedgerEntry): Promise<void> {
+    const data = await this.load();
+    data.entries = data.entries.filter(e => e.toolId !== entry.toolId);
+    data.entries.push(entry);
+    await this.write(data);
+  }
+
+  /**
+   * Forget a tool once it has been uninstalled
+   */
+  async remove(toolId: string): Promise<void> {
+    const data = await this.load();
+    data.entries = data.entries.filter(e => e.toolId !== toolId);
+    await this.write(data);
+  }
+
+  /**
+   * Tools added by the most recent install run, in reverse install order
+   * so dependents are removed before their prerequisites
+   */
+  async getLastSessionEntries(): Promise<InstallLedgerEntry[]> {
+    const data = await this.load();
+    if (!data.lastSessionId) {
+      return [];
+    }
+    return data.entries.filter(e => e.sessionId === data.lastSessionId).reverse();
+  }
+
+  private async write(data: InstallLedgerData): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Install Runner
+ * Runs install commands through the spawn executor and streams their output line by line
+ */
+
+import { createCommandExecutor } from './command-execution';
+import type { CommandExecutionResult, ICommandExecutor } from './command-execution';
+import type { Platform } from '../shared/simple-manifest-types';
+
+/**
+ * Where a log line came from - 'system' lines are written by HatStart itself
+ */
+export type InstallLogStream = 'stdout' | 'stderr' | 'system';
+
+/**
+ * A single line of install output, tagged with the tool it belongs to
+ */
+export interface InstallLogEntry {
+  toolId: string;
+  stream: InstallLogStream;
+  line: string;
+  timestamp: string;
+}
+
+export interface RunInstallCommandOptions {
+  toolId: string;
+  onLog: (entry: InstallLogEntry) => void;
+  // Receives the shell's process ID so the install can be cancelled
+  onSpawn?: (pid: number) => void;
+  timeout?: number;
+}
+
+const DEFAULT_INSTALL_TIMEOUT = 30 * 60 * 1000; // 30 minutes
+
+/**
+ * Splits streamed output chunks into complete lines.
+ * Carriage-return redraws (progress bars) keep only the final state of the line.
+ */
+export class LineBuffer {
+  private pending: Record<'stdout' | 'stderr', string> = { stdout: '', stderr: '' };
+  private readonly onLine: (stream: 'stdout' | 'stderr', line: string) => void;
+
+  constructor(onLine: (stream: 'stdout' | 'stderr', line: string) => void) {
+    this.onLine = onLine;
+  }
+
+  /**
+   * Add a chunk of output and emit every line it completes
+   */
+  push(stream: 'stdout' | 'stderr', chunk: string): void {
+    const lines = (this.pending[stream] + chunk).split('\n');
+    this.pending[stream] = lines.pop() ?? '';
+    for (const line of lines) {
+      this.emit(stream, line);
+    }
+  }
+
+  /**
+   * Emit whatever is left once the process has exited
+   */
+  flush(): void {
+    for (const stream of ['stdout', 'stderr'] as const) {
+      if (this.pending[stream]) {
+        this.emit(stream, this.pending[stream]);
+        this.pending[stream] = '';
+      }
+    }
+  }
+
+  private emit(stream: 'stdout' | 'stderr', rawLine: string): void {
+    const line = rawLine.replace(/\r$/, '');
+    this.onLine(stream, line.slice(line.lastIndexOf('\r') + 1));
+  }
+}
+
+/**
+ * Run an install command line in the platform shell, streaming output as it arrives
+ */
+export async function runInstallCommand(
+  command: string,
+  platform: Platform,
+  options: RunInstallCommandOptions,
+  executor: ICommandExecutor = createCommandExecutor()
+): Promise<CommandExecutionResult> {
+  const log = (stream: InstallLogStream, line: string) => options.onLog({
+    toolId: options.toolId,
+    stream,
+    line,
+    timestamp: new Date().toISOString()
+  });
+  const buffer = new LineBuffer(log);
+
+  // cmd understands the && / || chaining used by Windows install commands
+  const shell = executor.getPlatformAdapter().getShellCommand(platform === 'win32' ? 'cmd' : 'bash');
+
+  log('system', `$ ${command}`);
+  const result = await executor.execute(shell.command, [...shell.args, command], {
+    mode: 'spawn',
+    timeout: options.timeout ?? DEFAULT_INSTALL_TIMEOUT,
+    silent: true,
+    onSpawn: options.onSpawn,
+    // Cancelling kills the shell together with the installer it started
+    processGroup: true,
+    onProgress: data => buffer.push(data.type, data.data)
+  });
+  buffer.flush();
+
+  if (result.timedOut) {
+    log('system', 'Command timed out');
+  } else if (result.signal) {
+    log('system', `Command terminated by ${result.signal}`);
+  } else {
+    log('system', `Exited with code ${result.exitCode}`);
+  }
+
+  return result;
+}
+
+/**
+ * Why a failed command failed: its last non-empty line of stderr, or of stdout
+ * when stderr is empty, or the exit code when it printed nothing
+ */
+export function getFailureReason(result: Pick<CommandExecutionResult, 'stdout' | 'stderr' | 'exitCode'>): string {
+  for (const output of [result.stderr, result.stdout]) {
+    const lastLine = output.split(/\r?\n/).map(line => line.trim()).filter(Boolean).pop();
+    if (lastLine) {
+      return lastLine;
+    }
+  }
+  return `Command exited with code ${result.exitCode}`;
+}
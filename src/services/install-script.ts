@@ -0,0 +1,77 @@
+/**
+ * Install Script
+ * Downloads a manifest's install script to a temporary directory and checks its SHA-256
+ * before anything runs it
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { InstallScript, Platform } from '../shared/simple-manifest-types';
+
+/**
+ * The script could not be downloaded or didn't match its checksum
+ */
+export class InstallScriptError extends Error {
+  readonly url: string;
+
+  constructor(message: string, url: string) {
+    super(message);
+    this.name = 'InstallScriptError';
+    this.url = url;
+  }
+}
+
+/**
+ * Fetches a URL's body; replaceable in tests
+ */
+export type ScriptFetcher = (url: string) => Promise<Uint8Array>;
+
+const fetchScript: ScriptFetcher = async url => {
+  const response = await fetch(url, { redirect: 'follow' });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+/**
+ * Download a script and verify it, returning the path of the verified local copy.
+ * Remove it with removeInstallScript once it has run.
+ */
+export async function downloadInstallScript(
+  script: InstallScript,
+  platform: Platform,
+  fetcher: ScriptFetcher = fetchScript
+): Promise<string> {
+  let content: Uint8Array;
+  try {
+    content = await fetcher(script.url);
+  } catch (error) {
+    throw new InstallScriptError(
+      `Failed to download ${script.url}: ${error instanceof Error ? error.message : String(error)}`,
+      script.url
+    );
+  }
+
+  const actual = createHash('sha256').update(content).digest('hex');
+  if (actual !== script.sha256.toLowerCase()) {
+    throw new InstallScriptError(
+      `Checksum mismatch for ${script.url}: expected ${script.sha256.toLowerCase()}, got ${actual}`,
+      script.url
+    );
+  }
+
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'hatstart-script-'));
+  const scriptPath = path.join(directory, platform === 'win32' ? 'install.ps1' : 'install.sh');
+  await fs.writeFile(scriptPath, content, { mode: 0o700 });
+  return scriptPath;
+}
+
+/**
+ * Delete a script downloaded by downloadInstallScript
+ */
+export async function removeInstallScript(scriptPath: string): Promise<void> {
+  await fs.rm(path.dirname(scriptPath), { recursive: true, force: true });
+}
@@ -0,0 +1,167 @@
+/**
+ * Install Session
+ * Records the progress of an installation run on disk so it can be cancelled and resumed
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { InstallPlan } from '../shared/install-planner';
+
+/**
+ * State of a single tool within a session
+ */
+export type InstallSessionToolState =
+  | 'pending'
+  | 'running'
+  | 'installed'
+  | 'already-installed'
+  | 'failed'
+  | 'skipped'
+  | 'cancelled';
+
+/**
+ * State of the session as a whole.
+ * A session persisted as 'running' that is loaded by a fresh process was interrupted.
+ */
+export type InstallSessionStatus = 'running' | 'completed' | 'cancelled' | 'interrupted';
+
+export interface InstallSessionTool {
+  toolId: string;
+  name: string;
+  state: InstallSessionToolState;
+  message?: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface InstallSession {
+  id: string;
+  status: InstallSessionStatus;
+  // Tool ids the user selected; prerequisites are part of `tools`
+  selectedToolIds: string[];
+  // Every tool in the session, in install order
+  tools: InstallSessionTool[];
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+const FINISHED_STATES: InstallSessionToolState[] = ['installed', 'already-installed'];
+
+/**
+ * Create a new session from a resolved install plan
+ */
+export function createInstallSession(selectedToolIds: string[], plan: InstallPlan): InstallSession {
+  const now = new Date().toISOString();
+  return {
+    id: `install-${Date.now()}`,
+    status: 'running',
+    selectedToolIds: [...selectedToolIds],
+    tools: plan.steps.map(step => ({
+      toolId: step.toolId,
+      name: step.name,
+      state: 'pending'
+    })),
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+/**
+ * Update the state of a tool, stamping start/finish times
+ */
+export function updateToolState(
+  session: InstallSession,
+  toolId: string,
+  state: InstallSessionToolState,
+  message?: string
+): void {
+  const tool = session.tools.find(t => t.toolId === toolId);
+  if (!tool) {
+    return;
+  }
+
+  const now = new Date().toISOString();
+  tool.state = state;
+  tool.message = message;
+  if (state === 'running') {
+    tool.startedAt = now;
+    tool.finishedAt = undefined;
+  } else if (state !== 'pending') {
+    tool.finishedAt = now;
+  }
+  session.updatedAt = now;
+}
+
+/**
+ * Mark the session as finished with the given status
+ */
+export function finishInstallSession(
+  session: InstallSession,
+  status: Exclude<InstallSessionStatus, 'running'>
+): void {
+  const now = new Date().toISOString();
+  session.status = status;
+  session.updatedAt = now;
+  session.finishedAt = now;
+}
+
+/**
+ * Tool ids still to run, starting from the first tool that did not finish
+ */
+export function getRemainingToolIds(session: InstallSession): string[] {
+  const firstUnfinished = session.tools.findIndex(tool => !FINISHED_STATES.includes(tool.state));
+  if (firstUnfinished === -1) {
+    return [];
+  }
+  return session.tools.slice(firstUnfinished).map(tool => tool.toolId);
+}
+
+/**
+ * Whether a session stopped early and still has tools left to install
+ */
+export function isResumable(session: InstallSession): boolean {
+  return (session.status === 'cancelled' || session.status === 'interrupted') &&
+    getRemainingToolIds(session).length > 0;
+}
+
+/**
+ * Persists the most recent install session as a JSON file
+ */
+export class InstallSessionStore {
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Load the last session, or null if there is none
+   */
+  async load(): Promise<InstallSession | null> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      return JSON.parse(content) as InstallSession;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Save the session, replacing the previous one
+   */
+  async save(session: InstallSession): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    // Write to a temp file first so a crash never leaves a half-written session
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(session, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  /**
+   * Forget the stored session
+   */
+  async clear(): Promise<void> {
+    await fs.rm(this.filePath, { force: true });
+  }
+}
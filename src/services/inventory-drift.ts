@@ -0,0 +1,189 @@
+/**
+ * Inventory Drift
+ * Compares the current machine inventory with a saved baseline, e.g. a team's reference
+ * machine, and reports tools, runtimes, PATH entries and IDE extensions that changed since
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { redactInventory } from './machine-inventory';
+import type { InventoryRedaction, MachineInventory } from './machine-inventory';
+
+export type DriftCategory = 'tool' | 'runtime' | 'path' | 'extension';
+
+export type DriftKind = 'added' | 'removed' | 'changed';
+
+export interface DriftChange {
+  category: DriftCategory;
+  kind: DriftKind;
+  // Tool id, 'manager:runtime@version', PATH entry or 'ide:extension'
+  subject: string;
+  baseline?: string;
+  current?: string;
+  message: string;
+}
+
+export interface DriftReport {
+  baselineGeneratedAt: string;
+  checkedAt: string;
+  changes: DriftChange[];
+  hasDrift: boolean;
+}
+
+/**
+ * Where the app and `workspace baseline` keep the baseline unless given another file,
+ * so a scheduled `workspace drift` checks against the one saved in the app
+ */
+export function getDefaultBaselinePath(homeDir: string = os.homedir()): string {
+  return path.join(homeDir, '.hatstart', 'inventory-baseline.json');
+}
+
+/**
+ * Persists a baseline inventory as a JSON file
+ */
+export class InventoryBaselineStore {
+  private readonly filePath: string;
+
+  constructor(filePath: string = getDefaultBaselinePath()) {
+    this.filePath = filePath;
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Load the baseline, or null if none has been saved yet
+   */
+  async load(): Promise<MachineInventory | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch {
+      return null;
+    }
+    const inventory = JSON.parse(content) as MachineInventory;
+    if (!Array.isArray(inventory.tools)) {
+      throw new Error(`${this.filePath} is not a machine inventory`);
+    }
+    return inventory;
+  }
+
+  async save(inventory: MachineInventory): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(inventory, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Diff the current inventory against the baseline. A redacted baseline is compared with the
+ * current inventory redacted the same way, so a shared baseline doesn't report every home path.
+ */
+export function compareInventories(baseline: MachineInventory, current: MachineInventory): DriftReport {
+  if (baseline.redacted?.length) {
+    const redaction: InventoryRedaction = { hostname: false, username: false, homePaths: false };
+    baseline.redacted.forEach(key => { redaction[key] = true; });
+    current = redactInventory(current, redaction);
+  }
+
+  const changes = [
+    ...compareTools(baseline, current),
+    ...compareRuntimes(baseline, current),
+    ...comparePathEntries(baseline, current),
+    ...compareExtensions(baseline, current)
+  ];
+  return {
+    baselineGeneratedAt: baseline.generatedAt,
+    checkedAt: current.generatedAt,
+    changes,
+    hasDrift: changes.length > 0
+  };
+}
+
+/**
+ * Added, removed and changed keys of two maps of key to version ('' when unknown)
+ */
+function diffVersions(
+  baseline: Map<string, string>,
+  current: Map<string, string>,
+  describe: (key: string, kind: DriftKind, before?: string, after?: string) => Omit<DriftChange, 'kind'>
+): DriftChange[] {
+  const changes: DriftChange[] = [];
+  for (const [key, version] of current) {
+    if (!baseline.has(key)) {
+      changes.push({ kind: 'added', ...describe(key, 'added', undefined, version || undefined) });
+    } else if (baseline.get(key) !== version) {
+      changes.push({ kind: 'changed', ...describe(key, 'changed', baseline.get(key) || undefined, version || undefined) });
+    }
+  }
+  for (const [key, version] of baseline) {
+    if (!current.has(key)) {
+      changes.push({ kind: 'removed', ...describe(key, 'removed', version || undefined, undefined) });
+    }
+  }
+  return changes;
+}
+
+function compareTools(baseline: MachineInventory, current: MachineInventory): DriftChange[] {
+  const versions = (inventory: MachineInventory) => new Map(inventory.tools.map(tool => [tool.id, tool.version ?? '']));
+  const names = new Map([...baseline.tools, ...current.tools].map(tool => [tool.id, tool.name]));
+
+  return diffVersions(versions(baseline), versions(current), (id, kind, before, after) => {
+    const name = names.get(id) ?? id;
+    const messages: Record<DriftKind, string> = {
+      added: after ? `${name} ${after} was installed` : `${name} was installed`,
+      removed: `${name} is no longer installed`,
+      changed: `${name} changed from ${before ?? 'an unknown version'} to ${after ?? 'an unknown version'}`
+    };
+    return { category: 'tool', subject: id, baseline: before, current: after, message: messages[kind] };
+  });
+}
+
+function compareRuntimes(baseline: MachineInventory, current: MachineInventory): DriftChange[] {
+  // Each installed version is its own key; the active one is marked so switching shows as a change
+  const versions = (inventory: MachineInventory) => new Map(inventory.versionManagers.flatMap(manager =>
+    manager.runtimes.flatMap(runtime => runtime.versions.map(version =>
+      [`${manager.type}:${runtime.tool}@${version}`, version === runtime.active ? 'active' : 'installed'] as [string, string]))));
+
+  return diffVersions(versions(baseline), versions(current), (subject, kind, before, after) => {
+    const [manager, runtime] = subject.split(':');
+    const messages: Record<DriftKind, string> = {
+      added: `${manager} installed ${runtime}`,
+      removed: `${manager} no longer has ${runtime}`,
+      changed: `${runtime} (${manager}) is ${after === 'active' ? 'now' : 'no longer'} the active version`
+    };
+    return { category: 'runtime', subject, baseline: before, current: after, message: messages[kind] };
+  });
+}
+
+function comparePathEntries(baseline: MachineInventory, current: MachineInventory): DriftChange[] {
+  // Baselines saved before PATH was part of the inventory have nothing to compare
+  if (!baseline.pathEntries) {
+    return [];
+  }
+  // Only additions and removals count; reordering is the doctor's concern
+  const entries = (inventory: MachineInventory) => new Map(inventory.pathEntries.map(entry => [entry, '']));
+  return diffVersions(entries(baseline), entries(current), (entry, kind) => ({
+    category: 'path',
+    subject: entry,
+    message: kind === 'added' ? `${entry} was added to PATH` : `${entry} was removed from PATH`
+  }));
+}
+
+function compareExtensions(baseline: MachineInventory, current: MachineInventory): DriftChange[] {
+  const versions = (inventory: MachineInventory) => new Map(inventory.ides.flatMap(ide =>
+    ide.extensions.map(extension => [`${ide.ide}:${extension.id}`, extension.version ?? ''] as [string, string])));
+
+  return diffVersions(versions(baseline), versions(current), (subject, kind, before, after) => {
+    const [ide, id] = subject.split(':');
+    const messages: Record<DriftKind, string> = {
+      added: `${id} was installed in ${ide}`,
+      removed: `${id} was removed from ${ide}`,
+      changed: `${id} (${ide}) changed from ${before ?? 'an unknown version'} to ${after ?? 'an unknown version'}`
+    };
+    return { category: 'extension', subject, baseline: before, current: after, message: messages[kind] };
+  });
+}
@@ -0,0 +1,365 @@
+/**
+ * Machine Inventory
+ * Gathers what is installed on this machine into one report that can be exported as
+ * JSON, Markdown or CSV and attached to a support ticket, optionally with personal details redacted
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createExtensionManager } from './ide-configuration/extension-manager';
+import type { IDEType } from './ide-configuration/types';
+import { toolDetectionService } from './tool-detection-service';
+import type { ToolDetectionService } from './tool-detection-service';
+import { VersionManagerFactory } from './version-manager-factory';
+import type { IVersionManager, VersionedTool, VersionManagerType } from './version-manager-types';
+import { WorkspaceConfigurationService } from './workspace-configuration/workspace-configuration-service';
+import type { WorkspaceConfiguration } from './workspace-configuration/types';
+import { osDetector } from '../shared/os-detector';
+import type { OSDetectionResult } from '../shared/os-detector';
+import type { SimpleTool } from '../shared/simple-manifest-types';
+
+export type InventoryFormat = 'json' | 'markdown' | 'csv';
+
+export interface InventoryTool {
+  id: string;
+  name: string;
+  version?: string;
+  // Version manager or install root of the active executable, else how detection found it
+  origin?: string;
+  path?: string;
+}
+
+export interface InventoryRuntime {
+  tool: VersionedTool;
+  versions: string[];
+  active?: string;
+}
+
+export interface InventoryVersionManager {
+  type: VersionManagerType;
+  runtimes: InventoryRuntime[];
+}
+
+export interface InventoryIDE {
+  ide: IDEType;
+  extensions: Array<{ id: string; version?: string }>;
+}
+
+/**
+ * A shell profile or PATH change HatStart made or is configured to make
+ */
+export interface InventoryShellChange {
+  // Profile file, or 'workspace configuration' for configured changes
+  source: string;
+  kind: 'path' | 'environment' | 'integration';
+  value: string;
+}
+
+export interface MachineInventory {
+  generatedAt: string;
+  os: {
+    platform: OSDetectionResult['platform'];
+    architecture: OSDetectionResult['architecture'];
+    version: string;
+    build?: string;
+    distribution?: string;
+    kernel?: string;
+    shell?: string;
+    hostname: string;
+    username: string;
+    homeDir: string;
+    totalMemory?: number;
+    freeMemory?: number;
+  };
+  tools: InventoryTool[];
+  // PATH entries in lookup order
+  pathEntries: string[];
+  versionManagers: InventoryVersionManager[];
+  ides: InventoryIDE[];
+  shellChanges: InventoryShellChange[];
+  // Set when the report was redacted, listing what was replaced
+  redacted?: Array<keyof InventoryRedaction>;
+}
+
+export interface InventoryRedaction {
+  hostname: boolean;
+  username: boolean;
+  homePaths: boolean;
+}
+
+/**
+ * Where the inventory's data comes from; replaceable in tests
+ */
+export interface InventorySources {
+  detectSystem: () => Promise<OSDetectionResult>;
+  username: string;
+  homeDir: string;
+  pathEntries: string[];
+  getTools: () => Promise<SimpleTool[]>;
+  detection: Pick<ToolDetectionService, 'detectMultipleTools'>;
+  getVersionManagers: () => Promise<IVersionManager[]>;
+  listExtensions: (ide: IDEType) => Promise<Array<{ id: string; version?: string }>>;
+  getWorkspaceConfiguration: () => Promise<WorkspaceConfiguration | null>;
+  readProfile: (profilePath: string) => Promise<string | null>;
+}
+
+const INVENTORY_IDES: IDEType[] = ['vscode', 'cursor'];
+
+// Profiles EnvironmentManager writes PATH and variable exports to
+const PROFILES = ['.profile', '.bashrc', '.bash_profile', '.zshrc', '.zsh_profile'];
+
+// The comment EnvironmentManager writes above each line it adds, e.g. '# node (mise) PATH'
+const MANAGED_COMMENT = /^# .+ (PATH|environment variable)$/;
+
+/**
+ * Default sources: this machine, the manifest's tools as given, and the workspace
+ * configuration in the home directory
+ */
+export function createInventorySources(getTools: () => Promise<SimpleTool[]>): InventorySources {
+  const homeDir = os.homedir();
+  return {
+    detectSystem: () => osDetector.detectSystem(),
+    username: os.userInfo().username,
+    homeDir,
+    pathEntries: (process.env.PATH ?? '').split(path.delimiter).filter(Boolean),
+    getTools,
+    detection: toolDetectionService,
+    getVersionManagers: async () => {
+      const factory = new VersionManagerFactory();
+      return factory.getSupportedTypes().map(type => factory.createVersionManager(type));
+    },
+    listExtensions: async ide => (await createExtensionManager(ide)?.listInstalledExtensions()) ?? [],
+    getWorkspaceConfiguration: () => new WorkspaceConfigurationService().loadConfiguration(homeDir),
+    readProfile: async profilePath => {
+      try {
+        return await fs.readFile(profilePath, 'utf-8');
+      } catch {
+        return null;
+      }
+    }
+  };
+}
+
+/**
+ * Collect the inventory. Sections that fail to load are left empty rather than failing the report.
+ */
+export async function collectMachineInventory(sources: InventorySources): Promise<MachineInventory> {
+  const [system, tools, versionManagers, ides, shellChanges] = await Promise.all([
+    sources.detectSystem(),
+    collectTools(sources).catch(() => []),
+    collectVersionManagers(sources).catch(() => []),
+    collectIDEs(sources),
+    collectShellChanges(sources).catch(() => [])
+  ]);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    os: {
+      platform: system.platform,
+      architecture: system.architecture,
+      version: system.version,
+      build: system.build,
+      distribution: system.distribution && `${system.distribution.name} ${system.distribution.version}`,
+      kernel: system.systemInfo.kernel,
+      shell: system.systemInfo.shell,
+      hostname: system.systemInfo.hostname,
+      username: sources.username,
+      homeDir: sources.homeDir,
+      totalMemory: system.systemInfo.totalMemory,
+      freeMemory: system.systemInfo.freeMemory
+    },
+    tools,
+    pathEntries: sources.pathEntries,
+    versionManagers,
+    ides,
+    shellChanges
+  };
+}
+
+async function collectTools(sources: InventorySources): Promise<InventoryTool[]> {
+  const tools = await sources.getTools();
+  const names = new Map(tools.map(tool => [tool.id, tool.name]));
+  const detections = await sources.detection.detectMultipleTools(tools);
+
+  return detections.filter(detection => detection.installed).map(detection => {
+    const active = detection.installations?.find(installation => installation.active);
+    return {
+      id: detection.toolId,
+      name: names.get(detection.toolId) ?? detection.toolId,
+      version: detection.version,
+      origin: active ? active.manager ?? active.origin : detection.detectedBy,
+      path: active?.path
+    };
+  });
+}
+
+async function collectVersionManagers(sources: InventorySources): Promise<InventoryVersionManager[]> {
+  const managers = await sources.getVersionManagers();
+  const collected = await Promise.all(managers.map(async (manager): Promise<InventoryVersionManager | null> => {
+    if (!await manager.isAvailable().catch(() => false)) {
+      return null;
+    }
+    const runtimes = await Promise.all(manager.capabilities.supportedTools.map(async tool => {
+      const installed = await manager.listInstalled(tool).catch(() => []);
+      return {
+        tool,
+        versions: installed.map(info => info.version),
+        active: installed.find(info => info.isActive)?.version
+      };
+    }));
+    return { type: manager.type, runtimes: runtimes.filter(runtime => runtime.versions.length > 0) };
+  }));
+  return collected.filter((manager): manager is InventoryVersionManager => manager !== null);
+}
+
+async function collectIDEs(sources: InventorySources): Promise<InventoryIDE[]> {
+  const ides = await Promise.all(INVENTORY_IDES.map(async ide => ({
+    ide,
+    extensions: (await sources.listExtensions(ide).catch(() => [])).map(({ id, version }) => ({ id, version }))
+  })));
+  return ides.filter(ide => ide.extensions.length > 0);
+}
+
+async function collectShellChanges(sources: InventorySources): Promise<InventoryShellChange[]> {
+  const changes: InventoryShellChange[] = [];
+
+  const config = await sources.getWorkspaceConfiguration();
+  if (config) {
+    const source = 'workspace configuration';
+    config.pathConfiguration.forEach(entry => changes.push({ source, kind: 'path', value: `${entry.position} ${entry.path}` }));
+    config.environment.forEach(variable => changes.push({ source, kind: 'environment', value: `${variable.name}=${variable.value}` }));
+    config.shellIntegrations.filter(integration => integration.enabled).forEach(integration => {
+      changes.push({ source: integration.profile, kind: 'integration', value: integration.initCommands.join('; ') || 'PATH and environment only' });
+    });
+  }
+
+  for (const profile of PROFILES) {
+    const content = await sources.readProfile(path.join(sources.homeDir, profile));
+    const lines = content?.split('\n') ?? [];
+    lines.forEach((line, index) => {
+      const comment = line.trim().match(MANAGED_COMMENT);
+      const next = lines[index + 1]?.trim();
+      if (comment && next?.startsWith('export ')) {
+        changes.push({ source: profile, kind: comment[1] === 'PATH' ? 'path' : 'environment', value: next });
+      }
+    });
+  }
+  return changes;
+}
+
+/**
+ * Replace the hostname, username and home directory wherever they appear in the report
+ */
+export function redactInventory(inventory: MachineInventory, redaction: InventoryRedaction): MachineInventory {
+  const { hostname, username, homeDir } = inventory.os;
+  const replacements: Array<[RegExp, string]> = [];
+  // Home paths and hostnames usually contain the username, so they are replaced first
+  if (redaction.homePaths && homeDir) {
+    replacements.push([new RegExp(escapeRegExp(homeDir), 'g'), '~']);
+  }
+  if (redaction.hostname && hostname) {
+    replacements.push([new RegExp(`\\b${escapeRegExp(hostname)}\\b`, 'g'), '<hostname>']);
+  }
+  if (redaction.username && username) {
+    replacements.push([new RegExp(`\\b${escapeRegExp(username)}\\b`, 'g'), '<user>']);
+  }
+
+  const redact = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return replacements.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(redact);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, redact(entry)]));
+    }
+    return value;
+  };
+
+  const redacted = redact(inventory) as MachineInventory;
+  redacted.redacted = (Object.keys(redaction) as Array<keyof InventoryRedaction>).filter(key => redaction[key]);
+  return redacted;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Render the inventory in an export format
+ */
+export function formatInventory(inventory: MachineInventory, format: InventoryFormat): string {
+  switch (format) {
+    case 'json': return JSON.stringify(inventory, null, 2) + '\n';
+    case 'markdown': return formatMarkdown(inventory);
+    case 'csv': return formatCsv(inventory);
+  }
+}
+
+/**
+ * The OS section as label/value pairs, memory in GB
+ */
+function getOsRows(inventory: MachineInventory): Array<[string, string]> {
+  const { os: system } = inventory;
+  const gigabytes = (bytes?: number) => bytes === undefined ? undefined : `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  const rows: Array<[string, string | undefined]> = [
+    ['Platform', `${system.platform} ${system.architecture}`],
+    ['Version', system.build ? `${system.version} (build ${system.build})` : system.version],
+    ['Distribution', system.distribution],
+    ['Kernel', system.kernel],
+    ['Shell', system.shell],
+    ['Hostname', system.hostname],
+    ['Username', system.username],
+    ['Home directory', system.homeDir],
+    ['Memory', system.totalMemory ? `${gigabytes(system.freeMemory)} free of ${gigabytes(system.totalMemory)}` : undefined]
+  ];
+  return rows.filter((row): row is [string, string] => row[1] !== undefined);
+}
+
+function formatMarkdown(inventory: MachineInventory): string {
+  const cell = (value?: string) => (value ?? '').replace(/\|/g, '\\|');
+  const table = (headers: string[], rows: Array<Array<string | undefined>>) => [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(cell).join(' | ')} |`)
+  ].join('\n');
+  const section = (title: string, body: string, empty: boolean) => `## ${title}\n\n${empty ? '_None found._' : body}\n`;
+
+  const runtimes = inventory.versionManagers.flatMap(manager =>
+    manager.runtimes.map(runtime => [manager.type, runtime.tool, runtime.versions.join(', '), runtime.active]));
+  const extensions = inventory.ides.flatMap(ide => ide.extensions.map(extension => [ide.ide, extension.id, extension.version]));
+
+  return [
+    '# Machine Inventory\n',
+    `Generated ${inventory.generatedAt}${inventory.redacted?.length ? ` (redacted: ${inventory.redacted.join(', ')})` : ''}\n`,
+    section('System', table(['Property', 'Value'], getOsRows(inventory)), false),
+    section('Tools', table(['Tool', 'Version', 'Origin', 'Path'],
+      inventory.tools.map(tool => [tool.name, tool.version, tool.origin, tool.path])), inventory.tools.length === 0),
+    section('PATH', inventory.pathEntries.map((entry, index) => `${index + 1}. \`${entry}\``).join('\n'), inventory.pathEntries.length === 0),
+    section('Version Managers', table(['Manager', 'Runtime', 'Installed', 'Active'], runtimes), runtimes.length === 0),
+    section('IDE Extensions', table(['IDE', 'Extension', 'Version'], extensions), extensions.length === 0),
+    section('Shell and PATH Changes', table(['Source', 'Kind', 'Change'],
+      inventory.shellChanges.map(change => [change.source, change.kind, change.value])), inventory.shellChanges.length === 0)
+  ].join('\n');
+}
+
+// One table for all sections: section, name, version, detail
+function formatCsv(inventory: MachineInventory): string {
+  const escape = (value?: string) => {
+    const text = value ?? '';
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows: Array<Array<string | undefined>> = [
+    ['section', 'name', 'version', 'detail'],
+    ...getOsRows(inventory).map(([label, value]) => ['system', label, undefined, value]),
+    ...inventory.tools.map(tool => ['tool', tool.id, tool.version, [tool.origin, tool.path].filter(Boolean).join(' ')]),
+    ...inventory.pathEntries.map((entry, index) => ['path', String(index + 1), undefined, entry]),
+    ...inventory.versionManagers.flatMap(manager => manager.runtimes.flatMap(runtime =>
+      runtime.versions.map(version => ['runtime', `${manager.type}:${runtime.tool}`, version, version === runtime.active ? 'active' : undefined]))),
+    ...inventory.ides.flatMap(ide => ide.extensions.map(extension => ['extension', `${ide.ide}:${extension.id}`, extension.version, undefined])),
+    ...inventory.shellChanges.map(change => ['shell', change.source, undefined, `${change.kind}: ${change.value}`])
+  ];
+  return rows.map(row => row.map(escape).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,186 @@
+/**
+ * Manifest Catalog
+ * Loads, validates and merges manifest files, caching the merged result on disk
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { mergeManifestLayers } from '../shared/manifest-layers';
+import type { LayerManifest, ManifestLayerName, ManifestProvenance } from '../shared/manifest-layers';
+import { loadManifestSource } from '../shared/simple-manifest-loader';
+import { validateManifest } from '../shared/simple-manifest-validator';
+import type { SimpleManifest } from '../shared/simple-manifest-types';
+
+/**
+ * A manifest file that could not be used, with why
+ */
+export interface ManifestSourceError {
+  filePath: string;
+  errors: string[];
+}
+
+/**
+ * The manifest files making up one layer, in merge order
+ */
+export interface ManifestLayerFiles {
+  layer: ManifestLayerName;
+  filePaths: string[];
+}
+
+/**
+ * Manifests merged from several files; later files override earlier ones
+ */
+export interface ManifestCatalogResult {
+  manifest: SimpleManifest;
+  // Which layer set each field of each tool
+  provenance: ManifestProvenance;
+  // Files that were merged, in merge order
+  sources: string[];
+  // Files (or tools in them) skipped because they failed to load, validate or merge
+  errors: ManifestSourceError[];
+  fromCache: boolean;
+}
+
+interface CachedCatalog {
+  // Layer, path, size and modification time of every requested file
+  fingerprint: string;
+  manifest: SimpleManifest;
+  provenance: ManifestProvenance;
+  sources: string[];
+  errors: ManifestSourceError[];
+}
+
+const CACHE_FILE = 'manifest-catalog.json';
+
+/**
+ * Keeps the last merged catalog in memory and in the cache directory,
+ * rebuilding it whenever one of the requested files changes
+ */
+export class ManifestCatalog {
+  private readonly cacheDir: string;
+  private cached: CachedCatalog | null = null;
+
+  constructor(cacheDir: string) {
+    this.cacheDir = cacheDir;
+  }
+
+  /**
+   * Directory holding the cached catalog
+   */
+  getCacheDir(): string {
+    return this.cacheDir;
+  }
+
+  /**
+   * Create the cache directory if it doesn't exist
+   */
+  async ensureCacheDir(): Promise<string> {
+    await fs.mkdir(this.cacheDir, { recursive: true });
+    return this.cacheDir;
+  }
+
+  /**
+   * Load and merge complete manifest files, each overriding the ones before it
+   */
+  async load(filePaths: string[]): Promise<ManifestCatalogResult> {
+    return this.loadLayers([{ layer: 'builtin', filePaths }]);
+  }
+
+  /**
+   * Load and merge layers in order. The builtin layer must hold complete manifests; higher
+   * layers are overlays that only need the fields they change. Invalid files are reported
+   * and left out of the merge.
+   */
+  async loadLayers(layers: ManifestLayerFiles[]): Promise<ManifestCatalogResult> {
+    const fingerprint = await this.fingerprint(layers);
+    const cached = this.cached ?? await this.readCache();
+    if (cached && cached.fingerprint === fingerprint) {
+      this.cached = cached;
+      return { ...toResult(cached), fromCache: true };
+    }
+
+    const manifests: LayerManifest[] = [];
+    const errors: ManifestSourceError[] = [];
+
+    for (const { layer, filePaths } of layers) {
+      for (const filePath of filePaths) {
+        try {
+          const source = await loadManifestSource(filePath);
+          const kind = layer === 'builtin' ? 'complete' : 'overlay';
+          const validationErrors = validateManifest(source.data, source.locate, kind);
+          if (validationErrors.length > 0) {
+            errors.push({ filePath, errors: validationErrors });
+            continue;
+          }
+          manifests.push({ layer, filePath, manifest: source.data as SimpleManifest });
+        } catch (error) {
+          errors.push({ filePath, errors: [error instanceof Error ? error.message : String(error)] });
+        }
+      }
+    }
+
+    const merged = mergeManifestLayers(manifests);
+    for (const issue of merged.issues) {
+      const filePath = issue.filePath ?? issue.layer;
+      const existing = errors.find(error => error.filePath === filePath);
+      if (existing) {
+        existing.errors.push(issue.message);
+      } else {
+        errors.push({ filePath, errors: [issue.message] });
+      }
+    }
+
+    // A file whose compatibleWith isn't met is skipped entirely; one with a bad tool still merges
+    const skipped = new Set(merged.issues.filter(issue => !issue.toolId).map(issue => issue.filePath));
+    const sources = manifests.map(source => source.filePath!).filter(filePath => !skipped.has(filePath));
+
+    this.cached = { fingerprint, manifest: merged.manifest, provenance: merged.provenance, sources, errors };
+    await this.writeCache(this.cached);
+    return { ...toResult(this.cached), fromCache: false };
+  }
+
+  /**
+   * Forget the cached catalog so the next load re-reads every file
+   */
+  async clear(): Promise<void> {
+    this.cached = null;
+    await fs.rm(path.join(this.cacheDir, CACHE_FILE), { force: true });
+  }
+
+  private async fingerprint(layers: ManifestLayerFiles[]): Promise<string> {
+    const files = layers.flatMap(({ layer, filePaths }) => filePaths.map(filePath => ({ layer, filePath })));
+    const parts = await Promise.all(files.map(async ({ layer, filePath }) => {
+      try {
+        const stats = await fs.stat(filePath);
+        return `${layer}:${path.resolve(filePath)}:${stats.size}:${stats.mtimeMs}`;
+      } catch {
+        return `${layer}:${path.resolve(filePath)}:missing`;
+      }
+    }));
+    return parts.join('|');
+  }
+
+  private async readCache(): Promise<CachedCatalog | null> {
+    try {
+      const content = await fs.readFile(path.join(this.cacheDir, CACHE_FILE), 'utf-8');
+      return JSON.parse(content) as CachedCatalog;
+    } catch {
+      return null;
+    }
+  }
+
+  // The cache only saves work, so failing to write it is not an error
+  private async writeCache(catalog: CachedCatalog): Promise<void> {
+    try {
+      await this.ensureCacheDir();
+      await fs.writeFile(path.join(this.cacheDir, CACHE_FILE), JSON.stringify(catalog, null, 2), 'utf-8');
+    } catch (error) {
+      console.warn('ManifestCatalog: failed to write cache:', error);
+    }
+  }
+}
+
+function toResult(catalog: CachedCatalog): Omit<ManifestCatalogResult, 'fromCache'> {
+  const { manifest, provenance, sources, errors } = catalog;
+  return { manifest, provenance, sources, errors };
+}
@@ -0,0 +1,249 @@
+/**
+ * Manifest Lint
+ * Consistency checks across the tools of a manifest catalog, beyond what the schema validates
+ */
+
+import { DEFAULT_JOB_ROLE_CONFIGS } from '../data/job-role-configs';
+import { JOB_ROLE_META } from '../types/job-role-types';
+import { conflictRules } from './conflict-rules';
+import { mergeManifestLayers } from '../shared/manifest-layers';
+import { loadManifestSource } from '../shared/simple-manifest-loader';
+import { getManifestIssues } from '../shared/simple-manifest-validator';
+import { PLATFORMS, TOOL_CATEGORIES } from '../shared/simple-manifest-schema';
+import type { ManifestLayerFiles } from './manifest-catalog';
+import type { LayerManifest } from '../shared/manifest-layers';
+import type { SourcePosition, ValuePath } from '../shared/manifest-source';
+import type { SimpleManifest } from '../shared/simple-manifest-types';
+
+export type ManifestLintRule =
+  | 'invalid-manifest'
+  | 'duplicate-id'
+  | 'unknown-category'
+  | 'unknown-job-role'
+  | 'unknown-tool-reference'
+  | 'unverified-remote-script'
+  | 'missing-install-method';
+
+export type ManifestLintSeverity = 'error' | 'warning';
+
+/**
+ * One problem found by the linter, located in its source file when known
+ */
+export interface ManifestLintFinding {
+  rule: ManifestLintRule;
+  severity: ManifestLintSeverity;
+  message: string;
+  filePath?: string;
+  toolId?: string;
+  path?: ValuePath;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Tool ids used outside the manifest, e.g. by a conflict rule or a job role
+ */
+export interface ToolReference {
+  source: string;
+  toolIds: string[];
+}
+
+export interface ManifestLintOptions {
+  // Which checks to run; defaults to all of them
+  rules?: ManifestLintRule[];
+  filePath?: string;
+  locate?: (path: ValuePath) => SourcePosition | undefined;
+  // Valid recommendedFor values; defaults to the JobRole ids
+  jobRoles?: string[];
+  // Defaults to the conflict rules and the default job role configs
+  toolReferences?: ToolReference[];
+}
+
+export interface ManifestLintReport {
+  findings: ManifestLintFinding[];
+  errorCount: number;
+  warningCount: number;
+}
+
+const SEVERITIES: Record<ManifestLintRule, ManifestLintSeverity> = {
+  'invalid-manifest': 'error',
+  'duplicate-id': 'error',
+  'unknown-category': 'error',
+  'unknown-job-role': 'warning',
+  'unknown-tool-reference': 'warning',
+  'unverified-remote-script': 'error',
+  'missing-install-method': 'warning'
+};
+
+// Checks that only make sense for a single file, before layers are merged
+const FILE_RULES: ManifestLintRule[] = ['duplicate-id', 'unknown-category', 'unknown-job-role', 'unverified-remote-script'];
+
+// Checks that need the whole catalog: a reference or install method may come from another file
+const CATALOG_RULES: ManifestLintRule[] = ['unknown-tool-reference', 'missing-install-method'];
+
+// A download piped straight into a shell, e.g. `curl -fsSL https://get.docker.com | sh`
+const REMOTE_SCRIPT_PATTERN = /\b(curl|wget|iwr|irm|Invoke-WebRequest|Invoke-RestMethod)\b[^|;&]*\|\s*(sudo\s+)?(sh|bash|zsh|iex|Invoke-Expression)\b/i;
+const CHECKSUM_PATTERN = /\b(sha256sum|shasum|Get-FileHash|certutil\s+-hashfile)\b/i;
+
+/**
+ * Tool ids the app refers to outside the manifest
+ */
+export function getDefaultToolReferences(): ToolReference[] {
+  return [
+    ...conflictRules.map(rule => ({ source: `conflict rule ${rule.tools.join('/')}`, toolIds: rule.tools })),
+    ...DEFAULT_JOB_ROLE_CONFIGS.map(config => ({
+      source: `job role ${config.id}`,
+      toolIds: [...config.primaryTools, ...config.recommendedTools, ...config.optionalTools]
+    }))
+  ];
+}
+
+/**
+ * Lint one manifest. Tool-level checks tolerate malformed tools, so this can run
+ * alongside schema validation rather than after it.
+ */
+export function lintManifest(manifest: unknown, options: ManifestLintOptions = {}): ManifestLintFinding[] {
+  const rules = new Set(options.rules ?? Object.keys(SEVERITIES) as ManifestLintRule[]);
+  const jobRoles = new Set(options.jobRoles ?? Object.keys(JOB_ROLE_META));
+  const findings: ManifestLintFinding[] = [];
+  const report = (rule: ManifestLintRule, message: string, path: ValuePath, toolId?: string) => {
+    if (rules.has(rule)) {
+      findings.push({ rule, severity: SEVERITIES[rule], message, filePath: options.filePath, toolId, path, ...options.locate?.(path) });
+    }
+  };
+
+  const tools = isObject(manifest) && Array.isArray(manifest.tools) ? manifest.tools : [];
+  const seen = new Map<string, number>();
+
+  tools.forEach((tool, index) => {
+    if (!isObject(tool) || typeof tool.id !== 'string') {
+      return;
+    }
+    const toolId = tool.id;
+    const at = (...rest: ValuePath): ValuePath => ['tools', index, ...rest];
+
+    const firstIndex = seen.get(toolId);
+    if (firstIndex !== undefined) {
+      report('duplicate-id', `Duplicate tool id "${toolId}" (first defined by tool ${firstIndex})`, at('id'), toolId);
+    } else {
+      seen.set(toolId, index);
+    }
+
+    if (typeof tool.category === 'string' && !(TOOL_CATEGORIES as string[]).includes(tool.category)) {
+      report('unknown-category', `Unknown category "${tool.category}"`, at('category'), toolId);
+    }
+
+    if (Array.isArray(tool.recommendedFor)) {
+      tool.recommendedFor.forEach((role, roleIndex) => {
+        if (typeof role === 'string' && !jobRoles.has(role)) {
+          report('unknown-job-role', `recommendedFor "${role}" is not a job role`, at('recommendedFor', roleIndex), toolId);
+        }
+      });
+    }
+
+    const customInstall = isObject(tool.customInstall) ? tool.customInstall : {};
+    for (const [platform, command] of Object.entries(customInstall)) {
+      if (typeof command === 'string' && REMOTE_SCRIPT_PATTERN.test(command) && !CHECKSUM_PATTERN.test(command)) {
+        report(
+          'unverified-remote-script',
+          `customInstall.${platform} pipes a download into a shell without verifying a checksum; use installScript with a sha256`,
+          at('customInstall', platform),
+          toolId
+        );
+      }
+    }
+
+    const installScript = isObject(tool.installScript) ? tool.installScript : {};
+    const packageNames = isObject(tool.packageNames) ? Object.keys(tool.packageNames) : [];
+    const missing = PLATFORMS.filter(platform =>
+      !customInstall[platform] && !installScript[platform] &&
+      !packageNames.some(key => key === platform || key.startsWith(`${platform}-`))
+    );
+    if (missing.length > 0) {
+      report('missing-install-method', `No packageNames, customInstall or installScript for ${missing.join(', ')}`, at(), toolId);
+    }
+
+    if (Array.isArray(tool.dependsOn)) {
+      tool.dependsOn.forEach((dependency, dependencyIndex) => {
+        if (typeof dependency === 'string' && !tools.some(other => isObject(other) && other.id === dependency)) {
+          report('unknown-tool-reference', `dependsOn "${dependency}" is not in the manifest`, at('dependsOn', dependencyIndex), toolId);
+        }
+      });
+    }
+  });
+
+  for (const reference of options.toolReferences ?? getDefaultToolReferences()) {
+    for (const toolId of new Set(reference.toolIds)) {
+      if (!seen.has(toolId)) {
+        report('unknown-tool-reference', `Tool "${toolId}" is used by ${reference.source} but is not in the manifest`, [], toolId);
+      }
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Lint manifest layers as one catalog, the way the app loads them: each file on its own
+ * (built-in files as complete manifests, the others as overlays), then the layers merged
+ * for checks that depend on other files. Files that don't parse, validate or merge are findings too.
+ */
+export async function lintManifestFiles(
+  layers: ManifestLayerFiles[],
+  options: Omit<ManifestLintOptions, 'filePath' | 'locate'> = {}
+): Promise<ManifestLintReport> {
+  const selected = options.rules ?? Object.keys(SEVERITIES) as ManifestLintRule[];
+  const findings: ManifestLintFinding[] = [];
+  const manifests: LayerManifest[] = [];
+
+  for (const { layer, filePaths } of layers) {
+    for (const filePath of filePaths) {
+      try {
+        const source = await loadManifestSource(filePath);
+        const issues = getManifestIssues(source.data, source.locate, layer === 'builtin' ? 'complete' : 'overlay');
+        // Bad categories get the more specific unknown-category finding below
+        for (const issue of issues.filter(issue => issue.path[2] !== 'category')) {
+          findings.push({ rule: 'invalid-manifest', severity: 'error', filePath, ...issue });
+        }
+        findings.push(...lintManifest(source.data, {
+          ...options,
+          rules: selected.filter(rule => FILE_RULES.includes(rule)),
+          filePath,
+          locate: source.locate
+        }));
+        if (issues.length === 0) {
+          manifests.push({ layer, filePath, manifest: source.data as SimpleManifest });
+        }
+      } catch (error) {
+        findings.push({
+          rule: 'invalid-manifest',
+          severity: 'error',
+          message: error instanceof Error ? error.message : String(error),
+          filePath
+        });
+      }
+    }
+  }
+
+  const merged = mergeManifestLayers(manifests);
+  for (const issue of merged.issues) {
+    findings.push({ rule: 'invalid-manifest', severity: 'error', message: issue.message, filePath: issue.filePath, toolId: issue.toolId });
+  }
+
+  // Merged tools have no single source file, so these findings only name the tool
+  const catalogRules = selected.filter(rule => CATALOG_RULES.includes(rule));
+  if (manifests.length > 0 && catalogRules.length > 0) {
+    const catalogFindings = lintManifest(merged.manifest, { ...options, rules: catalogRules });
+    findings.push(...catalogFindings.map(({ path: _path, ...finding }) => finding));
+  }
+
+  return {
+    findings,
+    errorCount: findings.filter(finding => finding.severity === 'error').length,
+    warningCount: findings.filter(finding => finding.severity === 'warning').length
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
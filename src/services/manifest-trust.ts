@@ -0,0 +1,218 @@
+/**
+ * Manifest Trust
+ * Verifies detached manifest signatures against a keyring of trusted publishers,
+ * and remembers unsigned manifests the user chose to trust
+ */
+
+import { createHash, createPublicKey, sign, verify } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+/**
+ * A publisher whose manifests are trusted, identified by its Ed25519 public key
+ */
+export interface TrustedPublisher {
+  id: string;
+  name?: string;
+  // SPKI PEM
+  publicKey: string;
+  addedAt: string;
+}
+
+/**
+ * Detached signature, stored next to the manifest as `<manifest>.sig`
+ */
+export interface ManifestSignature {
+  publisher: string;
+  publicKey: string;
+  // Base64 Ed25519 signature of the manifest file's bytes
+  signature: string;
+}
+
+/**
+ * An unsigned (or unknown-publisher) manifest the user approved, valid only for this content
+ */
+export interface TrustedManifestFile {
+  filePath: string;
+  sha256: string;
+  trustedAt: string;
+}
+
+export interface ManifestTrustData {
+  publishers: TrustedPublisher[];
+  trustedFiles: TrustedManifestFile[];
+}
+
+/**
+ * verified: signed by a publisher in the keyring
+ * trusted: the user approved this exact file content
+ * unsigned / unknown-publisher: needs the user's approval before it is used
+ * invalid-signature: the file changed after signing, or the key doesn't match the keyring; never used
+ */
+export type ManifestTrustStatus = 'verified' | 'trusted' | 'unsigned' | 'unknown-publisher' | 'invalid-signature';
+
+export interface ManifestTrustCheck {
+  filePath: string;
+  status: ManifestTrustStatus;
+  sha256: string;
+  publisher?: string;
+  // Shown in the trust prompt so the user can compare it with the publisher's
+  keyFingerprint?: string;
+}
+
+export const SIGNATURE_EXTENSION = '.sig';
+
+/**
+ * Whether a manifest may be loaded without asking the user
+ */
+export function isManifestTrusted(check: ManifestTrustCheck): boolean {
+  return check.status === 'verified' || check.status === 'trusted';
+}
+
+/**
+ * Sign manifest content with an Ed25519 private key (PEM), for publishers
+ */
+export function signManifest(content: string | Buffer, privateKeyPem: string, publisher: string): ManifestSignature {
+  const publicKey = createPublicKey(privateKeyPem);
+  if (publicKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`Manifest signing keys must be Ed25519, got ${publicKey.asymmetricKeyType}`);
+  }
+  return {
+    publisher,
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    signature: sign(null, Buffer.from(content), privateKeyPem).toString('base64')
+  };
+}
+
+/**
+ * SHA-256 fingerprint of a public key, as colon-separated hex
+ */
+export function getKeyFingerprint(publicKeyPem: string): string {
+  const der = createPublicKey(publicKeyPem).export({ type: 'spki', format: 'der' });
+  return createHash('sha256').update(der).digest('hex').match(/../g)!.join(':');
+}
+
+/**
+ * Persists the keyring and approved files as a JSON file
+ */
+export class ManifestTrustStore {
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Load the trust data, or empty data if none has been written yet
+   */
+  async load(): Promise<ManifestTrustData> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const data = JSON.parse(content) as Partial<ManifestTrustData>;
+      return { publishers: data.publishers ?? [], trustedFiles: data.trustedFiles ?? [] };
+    } catch {
+      return { publishers: [], trustedFiles: [] };
+    }
+  }
+
+  /**
+   * Add a publisher to the keyring, replacing any with the same id
+   */
+  async addPublisher(publisher: Omit<TrustedPublisher, 'addedAt'>): Promise<void> {
+    getKeyFingerprint(publisher.publicKey); // Rejects malformed keys before they are saved
+    const data = await this.load();
+    data.publishers = data.publishers.filter(existing => existing.id !== publisher.id);
+    data.publishers.push({ ...publisher, addedAt: new Date().toISOString() });
+    await this.save(data);
+  }
+
+  async removePublisher(id: string): Promise<void> {
+    const data = await this.load();
+    data.publishers = data.publishers.filter(publisher => publisher.id !== id);
+    await this.save(data);
+  }
+
+  /**
+   * Work out whether a manifest file can be used
+   */
+  async check(filePath: string): Promise<ManifestTrustCheck> {
+    const content = await fs.readFile(filePath);
+    const sha256 = createHash('sha256').update(content).digest('hex');
+    const data = await this.load();
+    const approved = data.trustedFiles.some(file => file.filePath === path.resolve(filePath) && file.sha256 === sha256);
+
+    let signature: ManifestSignature | null;
+    try {
+      signature = await readSignature(filePath);
+    } catch {
+      return { filePath, status: 'invalid-signature', sha256 };
+    }
+    if (!signature) {
+      return { filePath, status: approved ? 'trusted' : 'unsigned', sha256 };
+    }
+
+    const result = { filePath, sha256, publisher: signature.publisher };
+    let keyFingerprint: string;
+    try {
+      keyFingerprint = getKeyFingerprint(signature.publicKey);
+      if (!verify(null, content, createPublicKey(signature.publicKey), Buffer.from(signature.signature, 'base64'))) {
+        return { ...result, status: 'invalid-signature' };
+      }
+    } catch {
+      return { ...result, status: 'invalid-signature' };
+    }
+
+    const known = data.publishers.find(publisher => publisher.id === signature.publisher);
+    if (!known) {
+      return { ...result, keyFingerprint, status: approved ? 'trusted' : 'unknown-publisher' };
+    }
+    // A known publisher id with a different key is an impersonation, not a new publisher
+    const status = getKeyFingerprint(known.publicKey) === keyFingerprint ? 'verified' : 'invalid-signature';
+    return { ...result, keyFingerprint, status };
+  }
+
+  /**
+   * Trust a manifest the user approved. With `trustPublisher`, a signed manifest's publisher
+   * joins the keyring so its future manifests verify; otherwise only this content is trusted.
+   */
+  async trust(filePath: string, trustPublisher = false): Promise<ManifestTrustCheck> {
+    const check = await this.check(filePath);
+    if (check.status === 'invalid-signature') {
+      throw new Error(`Cannot trust ${filePath}: its signature is invalid`);
+    }
+    if (isManifestTrusted(check)) {
+      return check;
+    }
+
+    if (trustPublisher && check.status === 'unknown-publisher') {
+      const signature = (await readSignature(filePath))!;
+      await this.addPublisher({ id: signature.publisher, publicKey: signature.publicKey });
+    } else {
+      const data = await this.load();
+      const resolved = path.resolve(filePath);
+      data.trustedFiles = data.trustedFiles.filter(file => file.filePath !== resolved);
+      data.trustedFiles.push({ filePath: resolved, sha256: check.sha256, trustedAt: new Date().toISOString() });
+      await this.save(data);
+    }
+    return this.check(filePath);
+  }
+
+  private async save(data: ManifestTrustData): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(data, null, 2), 'utf-8');
+  }
+}
+
+async function readSignature(filePath: string): Promise<ManifestSignature | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath + SIGNATURE_EXTENSION, 'utf-8');
+  } catch {
+    return null;
+  }
+  const signature = JSON.parse(content) as Partial<ManifestSignature>;
+  if (typeof signature.publisher !== 'string' || typeof signature.publicKey !== 'string' || typeof signature.signature !== 'string') {
+    throw new Error(`Malformed signature file: ${filePath}${SIGNATURE_EXTENSION}`);
+  }
+  return signature as ManifestSignature;
+}
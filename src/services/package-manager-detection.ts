@@ -0,0 +1,56 @@
+/**
+ * Package Manager Detection
+ * Finds the package managers installed on this machine and picks the ones to install with
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { osDetector } from '../shared/os-detector';
+import type { OSDetectionResult } from '../shared/os-detector';
+import { getPackageManagersForPlatform, selectPackageManagers } from '../shared/package-managers';
+import type { PackageManagerSelection } from '../shared/package-managers';
+import type { PackageManagerId, Platform } from '../shared/simple-manifest-types';
+
+const execAsync = promisify(exec);
+
+export interface PackageManagerDetectionResult extends PackageManagerSelection {
+  platform: Platform;
+  // Package managers whose executable was found on the PATH
+  available: PackageManagerId[];
+  distribution?: OSDetectionResult['distribution'];
+}
+
+/**
+ * Check whether an executable is on the PATH
+ */
+export type ExecutableCheck = (executable: string, platform: Platform) => Promise<boolean>;
+
+const isExecutableOnPath: ExecutableCheck = async (executable, platform) => {
+  try {
+    await execAsync(`${platform === 'win32' ? 'where' : 'which'} ${executable}`, { timeout: 3000 });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Detect available package managers and select the primary one for the platform
+ */
+export async function detectPackageManagers(
+  platform: Platform,
+  isAvailable: ExecutableCheck = isExecutableOnPath
+): Promise<PackageManagerDetectionResult> {
+  const managers = getPackageManagersForPlatform(platform);
+  const found = await Promise.all(managers.map(manager => isAvailable(manager.executable, platform)));
+  const available = managers.filter((_manager, index) => found[index]).map(manager => manager.id);
+
+  const distribution = platform === 'linux' ? await osDetector.detectLinuxDistribution() : undefined;
+
+  return {
+    platform,
+    available,
+    distribution,
+    ...selectPackageManagers(platform, available, distribution)
+  };
+}
@@ -51,24 +51,34 @@ const categoryMap: Record<string, UIToolCategory> = {
  * Provides interface to system detection functionality for the UI via Electron IPC
  */
 export class SystemDetectionService {
-    private cache: SystemDetectionReport | null = null;
-    private cacheExpiry: number = 0;
-    private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+    // Shared by callers that ask while a detection is running
+    private pending: Promise<SystemDetectionReport> | null = null;
 
     constructor() {
         console.log('🔧 SystemDetectionService: Initialized for Electron IPC communication');
     }
 
     /**
-     * Get system detection report (cached for 5 minutes)
+     * Get system detection report. The main process caches detections until a tool's
+     * PATH entry, files or packages change, so this is cheap to call again.
      */
     public async getSystemDetectionReport(): Promise<SystemDetectionReport> {
-        // Return cached report if available and recent
-        if (this.cache && this.isReportRecent()) {
-            console.log('SystemDetectionService: Returning cached report');
-            return this.cache;
+        if (!this.pending) {
+            this.pending = this.fetchReport().finally(() => {
+                this.pending = null;
+            });
         }
+        return this.pending;
+    }
 
+    /**
+     * Fetch a new report; call clearDetectionCache first to re-run every probe
+     */
+    public async refreshDetection(): Promise<SystemDetectionReport> {
+        return this.getSystemDetectionReport();
+    }
+
+    private async fetchReport(): Promise<SystemDetectionReport> {
         console.log('SystemDetectionService: Calling detectInstalledTools...');
         // Run real system detection via IPC
         const response = await window.electronAPI.detectInstalledTools();
@@ -77,26 +87,7 @@ export class SystemDetectionService {
         if (!response.success || !response.data) {
             throw new Error(response.error?.message || 'System detection failed');
         }
-
-        this.cache = response.data;
-        this.cacheExpiry = Date.now() + this.CACHE_DURATION;
-        return this.cache;
-    }
-
-    /**
-     * Force refresh of detection data
-     */
-    public async refreshDetection(): Promise<SystemDetectionReport> {
-        this.cache = null;
-        this.cacheExpiry = 0;
-        return this.getSystemDetectionReport();
-    }
-
-    /**
-     * Check if report is still valid (not expired)
-     */
-    private isReportRecent(): boolean {
-        return Date.now() < this.cacheExpiry;
+        return response.data;
     }
 
     /**
@@ -267,6 +258,10 @@ export class SystemDetectionService {
         const toolId = result.name; // This is actually the tool ID from manifest (e.g., "nodejs")
         const displayName = result.metadata?.displayName as string || result.name;
         const description = result.metadata?.description as string || `${displayName} - Development tool`;
+        const provenance = result.metadata?.provenance as Tool['provenance'];
+        const detectionExplanation = result.metadata?.explanation as string | undefined;
+        const installations = result.metadata?.installations as Tool['installations'];
+        const shadowingWarning = result.metadata?.shadowingWarning as string | undefined;
         
         console.log('SystemDetectionService: Converting tool - ID:', toolId, 'Display Name:', displayName);
         console.log('SystemDetectionService: Full result:', result);
@@ -284,6 +279,10 @@ export class SystemDetectionService {
             installationTime: '1 min', // Default 1 minute as string
             dependencies: [],
             platforms: ['win32', 'darwin', 'linux'],
+            provenance,
+            detectionExplanation,
+            installations,
+            shadowingWarning,
         };
     }
 
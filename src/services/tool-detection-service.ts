@@ -3,49 +3,92 @@
  * Detects installed tools and their versions with caching for performance
  */
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import type { SimpleTool } from '../shared/simple-manifest-types';
-
-const execAsync = promisify(exec);
+import { DetectionCache, fingerprintDetection, getDetectionMaxAge, getExecutableName } from './detection-cache';
+import type { DetectionCacheEntry } from './detection-cache';
+import { defaultProbeSystem, describeProbe, runDetectionProbes } from './detection-probes';
+import type { ProbeSystem } from './detection-probes';
+import { findInstallations, getShadowingWarning } from './tool-installations';
+import type { InstallationVersionCache, ToolInstallation } from './tool-installations';
+import type { DetectionProbeType, Platform, SimpleTool, ToolDetectionSpec } from '../shared/simple-manifest-types';
+import { satisfiesToolVersion } from '../shared/version-constraint';
 
 export interface ToolDetectionResult {
   toolId: string;
   installed: boolean;
   version?: string;
   lastChecked: Date;
+  // Filled in by the upgrade check; undefined when the tool cannot be checked
+  updateAvailable?: boolean;
+  latestVersion?: string;
+  // The probe that found the tool and what each probe saw
+  detectedBy?: string;
+  probeType?: DetectionProbeType;
+  explanation?: string;
+  // False when the installed version is below the manifest's detection.minVersion
+  meetsMinVersion?: boolean;
+  // Every copy of the executable when a command probe found the tool, the active one flagged
+  installations?: ToolInstallation[];
+  // Set when a binary earlier on PATH shadows a version manager's shim
+  shadowingWarning?: string;
 }
 
-interface DetectionCache {
-  [toolId: string]: {
-    result: ToolDetectionResult;
-    expires: number;
-  };
+/**
+ * A cached detection and whether it still matches the tool's current fingerprint
+ */
+export interface DetectionCacheStatus extends DetectionCacheEntry {
+  fresh: boolean;
+}
+
+/**
+ * Whether a detected tool can be left as is: installed, at least the detection spec's
+ * minimum version, and at the pinned version if the tool has one
+ */
+export function isInstalledAsRequired(tool: SimpleTool, detection: ToolDetectionResult): boolean {
+  return detection.installed && detection.meetsMinVersion !== false && satisfiesToolVersion(tool, detection.version);
 }
 
 /**
  * Service for detecting installed tools and their versions
  */
 export class ToolDetectionService {
-  private cache: DetectionCache = {};
-  private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+  private cache: DetectionCache;
+  private readonly system: ProbeSystem;
+  private readonly platform: Platform;
+  // Versions of the other installations found, so unchanged copies aren't run again
+  private readonly installationVersions: InstallationVersionCache = new Map();
+
+  constructor(
+    system: ProbeSystem = defaultProbeSystem,
+    platform = process.platform as Platform,
+    cache: DetectionCache = new DetectionCache()
+  ) {
+    this.system = system;
+    this.platform = platform;
+    this.cache = cache;
+  }
+
+  /**
+   * Swap the cache, e.g. for one persisted in the app's data directory
+   */
+  setCache(cache: DetectionCache): void {
+    this.cache = cache;
+  }
 
   /**
-   * Detect if a tool is installed and get its version
+   * Detect if a tool is installed and get its version.
+   * Results are reused until the tool's fingerprint changes (see fingerprintDetection).
    */
   async detectTool(tool: SimpleTool): Promise<ToolDetectionResult> {
-    // Check cache first
-    const cached = this.getFromCache(tool.id);
+    const spec = this.getDetectionSpec(tool);
+    const fingerprint = await fingerprintDetection(spec, this.platform, this.system);
+
+    const cached = await this.cache.get(tool.id, fingerprint);
     if (cached) {
       return cached;
     }
 
-    // Perform detection
-    const result = await this.performDetection(tool);
-    
-    // Cache the result
-    this.cacheResult(tool.id, result);
-    
+    const result = await this.performDetection(tool, spec);
+    await this.cache.set(tool.id, fingerprint, result, getDetectionMaxAge(spec, this.platform));
     return result;
   }
 
@@ -62,161 +105,95 @@ export class ToolDetectionService {
   /**
    * Clear the cache for a specific tool or all tools
    */
-  clearCache(toolId?: string): void {
-    if (toolId) {
-      delete this.cache[toolId];
-    } else {
-      this.cache = {};
+  async clearCache(toolId?: string): Promise<void> {
+    if (!toolId) {
+      this.installationVersions.clear();
     }
+    await this.cache.delete(toolId);
   }
 
   /**
-   * Get cached result if available and not expired
+   * List cached detections, marking those the given tools' fingerprints no longer match
    */
-  private getFromCache(toolId: string): ToolDetectionResult | null {
-    const cached = this.cache[toolId];
-    if (cached && cached.expires > Date.now()) {
-      return cached.result;
-    }
-    return null;
-  }
-
-  /**
-   * Cache a detection result
-   */
-  private cacheResult(toolId: string, result: ToolDetectionResult): void {
-    this.cache[toolId] = {
-      result,
-      expires: Date.now() + this.CACHE_DURATION
-    };
+  async getCacheStatus(tools: SimpleTool[]): Promise<DetectionCacheStatus[]> {
+    const toolMap = new Map(tools.map(tool => [tool.id, tool]));
+    const entries = await this.cache.list();
+    return Promise.all(entries.map(async entry => {
+      const tool = toolMap.get(entry.toolId);
+      const fresh = !!tool && !this.cache.isExpired(entry) &&
+        entry.fingerprint === await fingerprintDetection(this.getDetectionSpec(tool), this.platform, this.system);
+      return { ...entry, fresh };
+    }));
   }
 
   /**
    * Perform the actual detection for a tool
    */
-  private async performDetection(tool: SimpleTool): Promise<ToolDetectionResult> {
-    const result: ToolDetectionResult = {
+  private async performDetection(tool: SimpleTool, spec: ToolDetectionSpec): Promise<ToolDetectionResult> {
+    const detection = await runDetectionProbes(spec, this.platform, this.system);
+    const installations = detection.probeType === 'command'
+      ? await this.findCommandInstallations(spec, detection.detectedBy, detection.version)
+      : undefined;
+    return {
       toolId: tool.id,
-      installed: false,
+      installed: detection.installed,
+      version: detection.version,
+      detectedBy: detection.detectedBy,
+      probeType: detection.probeType,
+      explanation: detection.explanation,
+      meetsMinVersion: detection.meetsMinVersion,
+      installations,
+      shadowingWarning: installations && getShadowingWarning(installations),
       lastChecked: new Date()
     };
-
-    try {
-      // Use the verification command if provided, otherwise default patterns
-      if (tool.verification) {
-        const { stdout } = await execAsync(tool.verification);
-        result.installed = true;
-        result.version = this.extractVersion(stdout);
-      } else {
-        // Try common version command patterns
-        result.installed = await this.tryCommonCommands(tool.id);
-        if (result.installed) {
-          result.version = await this.getToolVersion(tool.id);
-        }
-      }
-    } catch {
-      // Tool not found or command failed
-      result.installed = false;
-    }
-
-    return result;
   }
 
   /**
-   * Try common command patterns to detect if a tool is installed
+   * Every installation of the executable the matching command probe ran, checked with the probe's arguments.
+   * Lookups like `which node` are skipped: the binary has no known version flag to run it with.
    */
-  private async tryCommonCommands(toolId: string): Promise<boolean> {
-    const commands = [
-      `${toolId} --version`,
-      `${toolId} -v`,
-      `${toolId} version`,
-      `which ${toolId}`,
-      `where ${toolId}` // Windows
-    ];
-
-    for (const command of commands) {
-      try {
-        await execAsync(command);
-        return true;
-      } catch {
-        // Continue to next command
-      }
+  private async findCommandInstallations(
+    spec: ToolDetectionSpec,
+    detectedBy?: string,
+    activeVersion?: string
+  ): Promise<ToolInstallation[] | undefined> {
+    const probe = spec.probes.find(candidate => describeProbe(candidate) === detectedBy);
+    if (probe?.type !== 'command') {
+      return undefined;
     }
-
-    return false;
-  }
-
-  /**
-   * Get the version of an installed tool
-   */
-  private async getToolVersion(toolId: string): Promise<string | undefined> {
-    const versionCommands = [
-      `${toolId} --version`,
-      `${toolId} -v`,
-      `${toolId} version`
-    ];
-
-    for (const command of versionCommands) {
-      try {
-        const { stdout } = await execAsync(command);
-        const version = this.extractVersion(stdout);
-        if (version) return version;
-      } catch {
-        // Continue to next command
-      }
+    const executable = getExecutableName(probe.command);
+    if (executable === 'which' || executable === 'where') {
+      return undefined;
     }
-
-    return undefined;
+    const versionArgs = probe.command.trim().replace(/^"[^"]+"|^'[^']+'|^\S+/, '').trim();
+    return findInstallations(executable, this.platform, this.system, {
+      versionArgs,
+      versionPattern: probe.versionPattern,
+      activeVersion,
+      versionCache: this.installationVersions
+    });
   }
 
   /**
-   * Extract version number from command output
+   * The manifest's detection spec, else its verification command, else common command patterns
    */
-  private extractVersion(output: string): string | undefined {
-    // Clean the output
-    const cleanOutput = output.trim();
-    
-    // Common version patterns
-    const patterns = [
-      /v?(\d+\.\d+\.\d+(?:\.\d+)?)/,    // v1.2.3 or 1.2.3.4
-      /version\s+(\d+\.\d+\.\d+)/i,      // version 1.2.3
-      /(\d+\.\d+\.\d+)/,                 // 1.2.3
-      /v?(\d+\.\d+)/,                    // v1.2 or 1.2
-    ];
-
-    for (const pattern of patterns) {
-      const match = cleanOutput.match(pattern);
-      if (match) {
-        return match[1];
-      }
-    }
-
-    // Special cases for specific tools
-    // Node.js: "v24.1.0" -> "24.1.0"
-    if (cleanOutput.startsWith('v') && /^\d+\.\d+/.test(cleanOutput.substring(1))) {
-      return cleanOutput.substring(1);
+  private getDetectionSpec(tool: SimpleTool): ToolDetectionSpec {
+    if (tool.detection) {
+      return tool.detection;
     }
-    
-    // Python: "Python 3.13.4" -> "3.13.4"
-    const pythonMatch = cleanOutput.match(/Python\s+(\d+\.\d+\.\d+)/);
-    if (pythonMatch) {
-      return pythonMatch[1];
+    if (tool.verification) {
+      return { probes: [{ type: 'command', command: tool.verification }] };
     }
-    
-    // Git: "git version 2.49.0" -> "2.49.0"
-    const gitMatch = cleanOutput.match(/git\s+version\s+(\d+\.\d+\.\d+)/);
-    if (gitMatch) {
-      return gitMatch[1];
-    }
-    
-    // Docker: "Docker version 28.2.2, build e6534b4eb7" -> "28.2.2"
-    const dockerMatch = cleanOutput.match(/Docker\s+version\s+(\d+\.\d+\.\d+)/);
-    if (dockerMatch) {
-      return dockerMatch[1];
-    }
-
-    // If no pattern matches, return the first line (cleaned)
-    return cleanOutput.split('\n')[0];
+    const lookup = this.platform === 'win32' ? 'where' : 'which';
+    return {
+      probes: [
+        { type: 'command', command: `${tool.id} --version` },
+        { type: 'command', command: `${tool.id} -v` },
+        { type: 'command', command: `${tool.id} version` },
+        // Last resort: the tool is on PATH, version unknown
+        { type: 'command', command: `${lookup} ${tool.id}`, versionPattern: '(?!)' }
+      ]
+    };
   }
 }
 
@@ -0,0 +1,239 @@
+/**
+ * Tool Installations
+ * Finds every copy of a tool's executable on PATH and in the usual install roots,
+ * and spots version-manager shims that another binary shadows
+ */
+
+import * as path from 'path';
+import { fingerprintDetection } from './detection-cache';
+import { expandPath, extractVersion } from './detection-probes';
+import type { ProbeSystem } from './detection-probes';
+import type { VersionManagerType } from './version-manager-types';
+import type { Platform } from '../shared/simple-manifest-types';
+
+export type InstallationOrigin =
+  | 'version-manager'
+  | 'homebrew'
+  | 'chocolatey'
+  | 'scoop'
+  | 'snap'
+  | 'system'
+  | 'local'
+  | 'other';
+
+/**
+ * Versions read from installations, by command, with the fingerprint they were read at
+ */
+export type InstallationVersionCache = Map<string, { fingerprint: string; version?: string }>;
+
+export interface ToolInstallation {
+  path: string;
+  // Where the executable really lives, after following symlinks
+  realPath: string;
+  origin: InstallationOrigin;
+  // Set for version-manager shims and installs
+  manager?: VersionManagerType;
+  version?: string;
+  // The one the shell runs: the first match on PATH
+  active: boolean;
+  onPath: boolean;
+}
+
+// Directories searched besides PATH, so installs that aren't on it still show up
+const VERSION_MANAGER_ROOTS = [
+  '~/.local/share/mise/shims',
+  '~/.asdf/shims',
+  '~/.pyenv/shims',
+  '~/.rbenv/shims',
+  '~/.jenv/shims',
+  '~/.volta/bin',
+  '~/.proto/shims',
+  '~/.cargo/bin'
+];
+
+const KNOWN_ROOTS: Record<Platform, string[]> = {
+  darwin: ['/opt/homebrew/bin', '/usr/local/bin', '/usr/bin', '~/.local/bin', ...VERSION_MANAGER_ROOTS],
+  linux: ['/home/linuxbrew/.linuxbrew/bin', '/usr/local/bin', '/usr/bin', '/snap/bin', '~/.local/bin', ...VERSION_MANAGER_ROOTS],
+  win32: [
+    '%ChocolateyInstall%\\bin',
+    'C:\\ProgramData\\chocolatey\\bin',
+    '%USERPROFILE%\\scoop\\shims',
+    '%LOCALAPPDATA%\\mise\\shims',
+    '%USERPROFILE%\\.cargo\\bin',
+    '%LOCALAPPDATA%\\Volta\\bin'
+  ]
+};
+
+// Path segments (lower case) that identify each version manager, matched whole so that
+// e.g. /opt/fnmtools or /src/volta-docs don't count
+const VERSION_MANAGER_PATHS: Array<[string, VersionManagerType]> = [
+  ['mise', 'mise'],
+  ['.asdf', 'asdf'],
+  ['.pyenv', 'pyenv'],
+  ['.rbenv', 'rbenv'],
+  ['.jenv', 'jenv'],
+  ['.nvm', 'nvm'],
+  ['fnm', 'fnm'],
+  ['.fnm', 'fnm'],
+  ['fnm_multishells', 'fnm'],
+  ['volta', 'volta'],
+  ['.volta', 'volta'],
+  ['.proto', 'proto'],
+  ['.sdkman', 'sdkman'],
+  ['.cargo/bin', 'rustup'],
+  ['.rustup', 'rustup']
+];
+
+const ORIGIN_PATHS: Array<[RegExp, InstallationOrigin]> = [
+  [/^\/opt\/homebrew\/|^\/home\/linuxbrew\/|^\/usr\/local\/(cellar|homebrew|caskroom)\//, 'homebrew'],
+  [/\/chocolatey\//, 'chocolatey'],
+  [/\/scoop\//, 'scoop'],
+  [/^\/snap\//, 'snap'],
+  [/^\/(usr\/)?s?bin\/|^[a-z]:\/windows\//, 'system'],
+  [/^\/usr\/local\/|\/\.local\/bin\//, 'local']
+];
+
+/**
+ * Where an executable came from, judged by its path and the file it links to.
+ * Shims are recognised by their own path since they don't link to the real install.
+ */
+export function classifyInstallation(
+  filePath: string,
+  realPath: string = filePath
+): Pick<ToolInstallation, 'origin' | 'manager'> {
+  const normalize = (value: string) => value.replace(/\\/g, '/').toLowerCase();
+
+  for (const candidate of [normalize(filePath), normalize(realPath)]) {
+    const managed = VERSION_MANAGER_PATHS.find(([segments]) => `/${candidate}/`.includes(`/${segments}/`));
+    if (managed) {
+      return { origin: 'version-manager', manager: managed[1] };
+    }
+  }
+  // /usr/local/bin/node linking into the Cellar is a Homebrew install
+  for (const candidate of [normalize(realPath), normalize(filePath)]) {
+    const match = ORIGIN_PATHS.find(([pattern]) => pattern.test(candidate));
+    if (match) {
+      return { origin: match[1] };
+    }
+  }
+  return { origin: 'other' };
+}
+
+/**
+ * The shim and bin directories of the version managers this platform knows about,
+ * whether or not they exist
+ */
+export function getVersionManagerDirectories(
+  platform: Platform,
+  system: Pick<ProbeSystem, 'env' | 'homeDir'>
+): Array<{ directory: string; manager: VersionManagerType }> {
+  return KNOWN_ROOTS[platform]
+    .map(root => expandPath(root, system))
+    .filter(directory => !/[$%]/.test(directory))
+    .flatMap(directory => {
+      const { manager } = classifyInstallation(`${directory}/`);
+      return manager ? [{ directory, manager }] : [];
+    });
+}
+
+/**
+ * Every copy of an executable on PATH and in the platform's known install roots,
+ * in PATH order and then the rest. Copies that link to the same file are listed once.
+ * Each is run with versionArgs to read its version, except the active one when its
+ * version is already known from detection. Given a versionCache, a copy is only run again
+ * once its detection fingerprint changes.
+ */
+export async function findInstallations(
+  executable: string,
+  platform: Platform,
+  system: ProbeSystem,
+  options: { versionArgs?: string; versionPattern?: string; activeVersion?: string; versionCache?: InstallationVersionCache } = {}
+): Promise<ToolInstallation[]> {
+  if (!executable || /[\\/]/.test(executable)) {
+    return [];
+  }
+
+  const separator = platform === 'win32' ? ';' : ':';
+  const join = platform === 'win32' ? path.win32.join : path.posix.join;
+  const pathDirectories = (system.env.PATH ?? system.env.Path ?? '').split(separator).filter(Boolean);
+  const knownDirectories = KNOWN_ROOTS[platform]
+    .map(root => expandPath(root, system))
+    .filter(directory => !/[$%]/.test(directory));
+  const extensions = platform === 'win32'
+    ? (system.env.PATHEXT ?? '.COM;.EXE;.BAT;.CMD').split(';').map(ext => ext.toLowerCase())
+    : [''];
+
+  const sameDirectory = (a: string, b: string) => platform === 'win32' ? a.toLowerCase() === b.toLowerCase() : a === b;
+  const directories = [...pathDirectories];
+  for (const directory of knownDirectories) {
+    if (!directories.some(existing => sameDirectory(existing, directory))) {
+      directories.push(directory);
+    }
+  }
+
+  const installations: ToolInstallation[] = [];
+  const seen = new Set<string>();
+  for (const directory of directories) {
+    for (const extension of extensions) {
+      const candidate = join(directory, executable + extension);
+      if (!await system.stat(candidate)) {
+        continue;
+      }
+      const realPath = await system.realPath(candidate);
+      if (seen.has(realPath)) {
+        continue;
+      }
+      seen.add(realPath);
+
+      const onPath = pathDirectories.some(existing => sameDirectory(existing, directory));
+      const active = onPath && !installations.some(installation => installation.onPath);
+      const version = active && options.activeVersion
+        ? options.activeVersion
+        : await getVersion(`"${candidate}" ${options.versionArgs ?? '--version'}`, platform, system, options);
+      installations.push({ path: candidate, realPath, ...classifyInstallation(candidate, realPath), version, active, onPath });
+    }
+  }
+  return installations;
+}
+
+/**
+ * A warning when the active installation is not the version manager's shim even though the
+ * shim is on PATH, i.e. a system or Homebrew binary comes first and the manager is ignored
+ */
+export function getShadowingWarning(installations: ToolInstallation[]): string | undefined {
+  const active = installations.find(installation => installation.active);
+  if (!active || active.origin === 'version-manager') {
+    return undefined;
+  }
+  const shim = installations.find(installation => installation.onPath && installation.origin === 'version-manager');
+  if (!shim) {
+    return undefined;
+  }
+  return `${active.path} (${active.origin}) comes before the ${shim.manager} shim ${shim.path} on PATH, ` +
+    `so the version ${shim.manager} selects is not used`;
+}
+
+async function getVersion(
+  command: string,
+  platform: Platform,
+  system: ProbeSystem,
+  options: { versionPattern?: string; versionCache?: InstallationVersionCache }
+): Promise<string | undefined> {
+  const spec = { probes: [{ type: 'command' as const, command, versionPattern: options.versionPattern }] };
+  const fingerprint = options.versionCache && await fingerprintDetection(spec, platform, system);
+  const cached = options.versionCache?.get(command);
+  if (cached && cached.fingerprint === fingerprint) {
+    return cached.version;
+  }
+
+  let version: string | undefined;
+  try {
+    version = extractVersion(await system.run(command), options.versionPattern);
+  } catch {
+    version = undefined;
+  }
+  if (fingerprint) {
+    options.versionCache?.set(command, { fingerprint, version });
+  }
+  return version;
+}
@@ -0,0 +1,103 @@
+/**
+ * Upgrade Detection Service
+ * Asks each package manager which packages are outdated and matches them to installed tools
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { hasCustomInstall } from '../shared/install-commands';
+import type { OutdatedPackage } from '../shared/outdated-parsers';
+import { getPackageManager, resolveInstalledPackage, stripFlags } from '../shared/package-managers';
+import type { PackageManagerSelection } from '../shared/package-managers';
+import type { PackageManagerId, Platform, SimpleTool } from '../shared/simple-manifest-types';
+import type { ToolDetectionResult } from './tool-detection-service';
+
+const execAsync = promisify(exec);
+
+/**
+ * Runs an outdated command and returns its stdout
+ */
+export type OutdatedCommandRunner = (command: string) => Promise<string>;
+
+// dnf/yum check-update exit with 100 when updates exist, so stdout is used whatever the exit code
+const runOutdatedCommand: OutdatedCommandRunner = async command => {
+  try {
+    const { stdout } = await execAsync(command, { timeout: 60000, maxBuffer: 10 * 1024 * 1024 });
+    return stdout;
+  } catch (error) {
+    return (error as { stdout?: string }).stdout ?? '';
+  }
+};
+
+/**
+ * Service for checking installed tools against their package manager's latest version
+ */
+export class UpgradeDetectionService {
+  // Pending lookups are cached too, so concurrent tools share one command per manager
+  private cache = new Map<PackageManagerId, { packages: Promise<OutdatedPackage[]>; expires: number }>();
+  private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+  private readonly runCommand: OutdatedCommandRunner;
+
+  constructor(runCommand: OutdatedCommandRunner = runOutdatedCommand) {
+    this.runCommand = runCommand;
+  }
+
+  /**
+   * Add updateAvailable/latestVersion to detection results for installed tools.
+   * Each package manager is queried once, only if an installed tool resolves to it.
+   */
+  async annotateDetections(
+    detections: ToolDetectionResult[],
+    tools: SimpleTool[],
+    platform: Platform,
+    packageManagers: PackageManagerSelection
+  ): Promise<ToolDetectionResult[]> {
+    const toolMap = new Map(tools.map(tool => [tool.id, tool]));
+
+    return Promise.all(detections.map(async detection => {
+      const tool = toolMap.get(detection.toolId);
+      // Custom installs are not tracked by a package manager
+      if (!detection.installed || !tool || hasCustomInstall(tool, platform)) {
+        return detection;
+      }
+
+      const resolved = resolveInstalledPackage(tool, platform, packageManagers);
+      if (!resolved) {
+        return detection;
+      }
+
+      const outdated = await this.getOutdatedPackages(resolved.manager);
+      // The first package is the tool itself (e.g. 'nodejs' in 'nodejs npm')
+      const [name] = stripFlags(resolved.packageName).toLowerCase().split(/\s+/);
+      const match = outdated.find(pkg => pkg.name.toLowerCase() === name);
+
+      return {
+        ...detection,
+        updateAvailable: Boolean(match),
+        latestVersion: match?.latestVersion
+      };
+    }));
+  }
+
+  /**
+   * Clear cached outdated lists, e.g. after an upgrade
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private getOutdatedPackages(managerId: PackageManagerId): Promise<OutdatedPackage[]> {
+    const cached = this.cache.get(managerId);
+    if (cached && cached.expires > Date.now()) {
+      return cached.packages;
+    }
+
+    const manager = getPackageManager(managerId);
+    const packages = this.runCommand(manager.outdatedCommand).then(output => manager.parseOutdated(output));
+    this.cache.set(managerId, { packages, expires: Date.now() + this.CACHE_DURATION });
+    return packages;
+  }
+}
+
+// Export singleton instance
+export const upgradeDetectionService = new UpgradeDetectionService();
@@ -0,0 +1,430 @@
+/**
+ * Version Management Engine
+ * Owns one adapter per supported version manager and routes each tool's operations to the
+ * manager that owns that tool on this machine
+ */
+
+import { VersionManagerFactory } from './version-manager-factory';
+import type {
+  IVersionInfo,
+  IVersionManagementEngine,
+  IVersionManager,
+  IVersionManagerFactory,
+  IVersionOperationResult,
+  ProjectVersionConfig,
+  VersionedTool,
+  VersionInstallOptions,
+  VersionManagerType,
+  VersionSpecifier
+} from './version-manager-types';
+
+/**
+ * Why a manager owns a tool, strongest first
+ */
+export type ToolOwnershipReason = 'active' | 'installed' | 'recommended' | 'available';
+
+export interface ToolOwnership {
+  tool: VersionedTool;
+  manager: VersionManagerType;
+  reason: ToolOwnershipReason;
+}
+
+/**
+ * Display name, summary and homepage of each manager, for the UI
+ */
+export const VERSION_MANAGER_INFO: Record<VersionManagerType, { name: string; description: string; homepage: string }> = {
+  mise: { name: 'mise', description: 'Polyglot runtime manager for Node.js, Python, Ruby, Go and more', homepage: 'https://mise.jdx.dev' },
+  asdf: { name: 'asdf', description: 'Plugin-based manager for many languages', homepage: 'https://asdf-vm.com' },
+  proto: { name: 'proto', description: 'Pluggable toolchain manager', homepage: 'https://moonrepo.dev/proto' },
+  nvm: { name: 'nvm', description: 'Node Version Manager', homepage: 'https://github.com/nvm-sh/nvm' },
+  pyenv: { name: 'pyenv', description: 'Simple Python version management', homepage: 'https://github.com/pyenv/pyenv' },
+  rbenv: { name: 'rbenv', description: 'Lightweight Ruby version management', homepage: 'https://github.com/rbenv/rbenv' },
+  jenv: { name: 'jenv', description: 'Switches between installed JDKs', homepage: 'https://www.jenv.be' },
+  rustup: { name: 'rustup', description: 'The Rust toolchain installer', homepage: 'https://rustup.rs' },
+  gvm: { name: 'gvm', description: 'Go Version Manager', homepage: 'https://github.com/moovweb/gvm' },
+  volta: { name: 'Volta', description: 'JavaScript toolchain manager', homepage: 'https://volta.sh' },
+  fnm: { name: 'fnm', description: 'Fast Node.js version manager', homepage: 'https://github.com/Schniz/fnm' },
+  jabba: { name: 'jabba', description: 'Cross-platform Java version manager', homepage: 'https://github.com/shyiko/jabba' },
+  sdkman: { name: 'SDKMAN!', description: 'Manages JDKs, Gradle, Maven, Kotlin and other JVM tools', homepage: 'https://sdkman.io' }
+};
+
+/**
+ * Format a version specifier the way managers expect it on the command line
+ */
+export function formatVersionSpecifier(version: VersionSpecifier): string {
+  if (typeof version === 'string') {
+    return version;
+  }
+  const numbers = [version.major, version.minor, version.patch].filter(part => part !== undefined).join('.');
+  return version.prerelease ? `${numbers}-${version.prerelease}` : numbers;
+}
+
+/**
+ * The installed version a specifier selects: an exact match, or the newest matching
+ * major/minor for partial specifiers, 'latest' and 'lts'
+ */
+export function findInstalledVersion(installed: IVersionInfo[], version: VersionSpecifier): IVersionInfo | undefined {
+  if (typeof version === 'string' && version !== 'latest' && version !== 'lts') {
+    return installed.find(info => info.version === version || info.version === version.replace(/^v/, ''));
+  }
+  const newestFirst = [...installed].sort((a, b) => b.major - a.major || b.minor - a.minor || b.patch - a.patch);
+  if (typeof version === 'string') {
+    return newestFirst.find(info => version === 'latest' || info.metadata?.isLts) ?? newestFirst[0];
+  }
+  return newestFirst.find(info =>
+    info.major === version.major &&
+    (version.minor === undefined || info.minor === version.minor) &&
+    (version.patch === undefined || info.patch === version.patch));
+}
+
+/**
+ * Implements IVersionManagementEngine on top of the factory's adapters.
+ * A tool belongs to the manager it is already active or installed with, so existing setups
+ * keep working; otherwise to the factory's recommendation, or the first manager supporting it.
+ */
+export class VersionManagementEngine implements IVersionManagementEngine {
+  private readonly factory: IVersionManagerFactory;
+  private managers: Map<VersionManagerType, IVersionManager> | null = null;
+  private availability = new Map<VersionManagerType, Promise<boolean>>();
+  private ownership = new Map<VersionedTool, Promise<ToolOwnership | null>>();
+
+  constructor(factory: IVersionManagerFactory = new VersionManagerFactory()) {
+    this.factory = factory;
+  }
+
+  /**
+   * Use this adapter for its type instead of the factory's, e.g. one configured by the caller
+   */
+  registerManager(manager: IVersionManager): void {
+    this.getManagerMap().set(manager.type, manager);
+    this.refresh();
+  }
+
+  /**
+   * Every adapter the engine owns, installed or not
+   */
+  getManagers(): IVersionManager[] {
+    return Array.from(this.getManagerMap().values());
+  }
+
+  getManager(type: VersionManagerType): IVersionManager | null {
+    return this.getManagerMap().get(type) ?? null;
+  }
+
+  /**
+   * Forget which managers are installed and which own each tool, after installing or removing one
+   */
+  refresh(): void {
+    this.availability.clear();
+    this.ownership.clear();
+  }
+
+  async getAvailableManagers(): Promise<IVersionManager[]> {
+    const managers = this.getManagers();
+    const available = await Promise.all(managers.map(manager => this.isAvailable(manager)));
+    return managers.filter((_manager, index) => available[index]);
+  }
+
+  async getManagerForTool(tool: VersionedTool): Promise<IVersionManager | null> {
+    const ownership = await this.getToolOwnership(tool);
+    return ownership && this.getManager(ownership.manager);
+  }
+
+  /**
+   * Which manager owns the tool and why; null when no installed manager supports it
+   */
+  async getToolOwnership(tool: VersionedTool): Promise<ToolOwnership | null> {
+    let ownership = this.ownership.get(tool);
+    if (!ownership) {
+      ownership = this.resolveOwnership(tool);
+      this.ownership.set(tool, ownership);
+    }
+    return ownership;
+  }
+
+  async setupManagerForTool(tool: VersionedTool): Promise<IVersionManager> {
+    const existing = await this.getManagerForTool(tool);
+    if (existing) {
+      return existing;
+    }
+
+    const manager = this.getCandidates(tool)[0];
+    if (!manager) {
+      throw new Error(`No supported version manager can manage ${tool} on this platform`);
+    }
+    const result = await manager.installManager();
+    if (!result.success) {
+      throw new Error(`Failed to install ${manager.type}: ${result.error ?? result.message}`);
+    }
+    this.refresh();
+    await manager.initialize();
+    return manager;
+  }
+
+  /**
+   * The manager setupManagerForTool would install for the tool; null when one is installed or none supports it
+   */
+  async getManagerToInstall(tool: VersionedTool): Promise<IVersionManager | null> {
+    if (await this.getManagerForTool(tool)) {
+      return null;
+    }
+    return this.getCandidates(tool)[0] ?? null;
+  }
+
+  async detectExistingManagers(): Promise<IVersionManager[]> {
+    const available = await this.getAvailableManagers();
+    await Promise.all(available.map(manager => manager.initialize().catch(error => {
+      console.warn(`Failed to initialize ${manager.type}:`, error);
+    })));
+    return available;
+  }
+
+  /**
+   * Installed versions of every tool an installed manager has, across managers.
+   * A version installed with several managers is listed once, preferring the owner's entry.
+   */
+  async getAllToolVersions(): Promise<Record<VersionedTool, IVersionInfo[]>> {
+    const available = await this.getAvailableManagers();
+    const tools = [...new Set(available.flatMap(manager => manager.capabilities.supportedTools))];
+    const versions: Partial<Record<VersionedTool, IVersionInfo[]>> = {};
+
+    await Promise.all(tools.map(async tool => {
+      const owner = await this.getManagerForTool(tool);
+      const managers = available
+        .filter(manager => manager.capabilities.supportedTools.includes(tool))
+        .sort((a, b) => Number(b === owner) - Number(a === owner));
+      const lists = await Promise.all(managers.map(manager => manager.listInstalled(tool).catch(() => [])));
+
+      const merged = new Map<string, IVersionInfo>();
+      lists.flat().forEach(info => {
+        if (!merged.has(info.version)) {
+          merged.set(info.version, info);
+        }
+      });
+      if (merged.size > 0) {
+        versions[tool] = Array.from(merged.values());
+      }
+    }));
+    return versions as Record<VersionedTool, IVersionInfo[]>;
+  }
+
+  /**
+   * Installed versions of the tool with its owner; none when no installed manager owns it
+   */
+  async getToolVersions(tool: VersionedTool): Promise<IVersionInfo[]> {
+    const manager = await this.getManagerForTool(tool);
+    return manager ? manager.listInstalled(tool) : [];
+  }
+
+  async getCurrentToolVersion(tool: VersionedTool): Promise<IVersionInfo | null> {
+    const manager = await this.getManagerForTool(tool);
+    return manager ? manager.getCurrentVersion(tool) : null;
+  }
+
+  /**
+   * Versions the tool's owner, or the manager that would be set up for it, can install
+   */
+  async getAvailableToolVersions(tool: VersionedTool): Promise<IVersionInfo[]> {
+    const manager = await this.getManagerForTool(tool) ?? this.getCandidates(tool)[0];
+    if (!manager?.capabilities.supportsRemoteList || !await this.isAvailable(manager)) {
+      return [];
+    }
+    return manager.listAvailable(tool);
+  }
+
+  async switchToolVersion(
+    tool: VersionedTool,
+    version: string,
+    scope: 'global' | 'local' | 'shell' = 'global'
+  ): Promise<IVersionOperationResult> {
+    const manager = await this.getManagerForTool(tool);
+    if (!manager) {
+      return this.createNoManagerResult('switch', tool);
+    }
+    return manager.switchVersion(tool, version, scope);
+  }
+
+  /**
+   * Install with the tool's owner, setting up a manager first if none is installed
+   */
+  async installToolVersion(
+    tool: VersionedTool,
+    version: VersionSpecifier,
+    options?: VersionInstallOptions
+  ): Promise<IVersionOperationResult> {
+    const startTime = Date.now();
+    try {
+      const manager = await this.setupManagerForTool(tool);
+      const result = await manager.installVersion(tool, version, options);
+      this.ownership.delete(tool);
+      return result;
+    } catch (error) {
+      return {
+        success: false,
+        operation: 'install',
+        tool,
+        message: `Failed to install ${tool} ${formatVersionSpecifier(version)}`,
+        error: error instanceof Error ? error.message : String(error),
+        duration: Date.now() - startTime,
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * Pin the version for a project, rather than the manager's working directory
+   */
+  async setLocalToolVersion(tool: VersionedTool, version: string, projectRoot: string): Promise<IVersionOperationResult> {
+    const manager = await this.getManagerForTool(tool);
+    if (!manager) {
+      return this.createNoManagerResult('local', tool);
+    }
+    return manager.setLocalVersion(tool, version, projectRoot);
+  }
+
+  async uninstallToolVersion(tool: VersionedTool, version: string): Promise<IVersionOperationResult> {
+    const manager = await this.getManagerForTool(tool);
+    if (!manager) {
+      return this.createNoManagerResult('uninstall', tool);
+    }
+    const result = await manager.uninstallVersion(tool, version);
+    this.ownership.delete(tool);
+    return result;
+  }
+
+  /**
+   * Versions pinned for the project by every installed manager. Where managers disagree,
+   * the tool's owner wins.
+   */
+  async getWorkspaceConfig(workspaceRoot: string = process.cwd()): Promise<ProjectVersionConfig | null> {
+    const available = await this.getAvailableManagers();
+    const configs = await Promise.all(available.map(async manager => ({
+      manager,
+      config: await manager.getProjectConfig(workspaceRoot).catch(() => null)
+    })));
+    const found = configs.filter(({ config }) => config !== null);
+    if (found.length === 0) {
+      return null;
+    }
+
+    const versions: Partial<Record<VersionedTool, VersionSpecifier>> = {};
+    const environment: Record<string, string> = {};
+    for (const { manager, config } of found) {
+      Object.assign(environment, config?.environment);
+      for (const [tool, version] of Object.entries(config?.versions ?? {}) as Array<[VersionedTool, VersionSpecifier]>) {
+        const owner = await this.getManagerForTool(tool);
+        if (!(tool in versions) || owner === manager) {
+          versions[tool] = version;
+        }
+      }
+    }
+
+    return {
+      projectRoot: workspaceRoot,
+      versions: versions as Record<VersionedTool, VersionSpecifier>,
+      environment: Object.keys(environment).length > 0 ? environment : undefined,
+      configFile: found.length === 1 ? found[0].config?.configFile : undefined
+    };
+  }
+
+  /**
+   * Install any missing version and pin it for the project, tool by tool with each tool's owner
+   */
+  async applyWorkspaceConfig(config: ProjectVersionConfig): Promise<IVersionOperationResult[]> {
+    const results: IVersionOperationResult[] = [];
+
+    for (const [tool, version] of Object.entries(config.versions) as Array<[VersionedTool, VersionSpecifier]>) {
+      if (version === 'system') {
+        continue;
+      }
+      const install = await this.installToolVersion(tool, version);
+      if (!install.success) {
+        results.push(install);
+        continue;
+      }
+
+      const manager = await this.getManagerForTool(tool);
+      const installed = manager ? await manager.listInstalled(tool).catch(() => []) : [];
+      const selected = findInstalledVersion(installed, version);
+      results.push(manager
+        ? await manager.setLocalVersion(tool, selected?.version ?? formatVersionSpecifier(version), config.projectRoot)
+        : this.createNoManagerResult('local', tool));
+    }
+    return results;
+  }
+
+  private getManagerMap(): Map<VersionManagerType, IVersionManager> {
+    if (!this.managers) {
+      this.managers = new Map();
+      for (const type of this.factory.getSupportedTypes()) {
+        try {
+          this.managers.set(type, this.factory.createVersionManager(type));
+        } catch (error) {
+          console.warn(`Failed to create the ${type} adapter:`, error);
+        }
+      }
+    }
+    return this.managers;
+  }
+
+  private isAvailable(manager: IVersionManager): Promise<boolean> {
+    let available = this.availability.get(manager.type);
+    if (!available) {
+      available = manager.isAvailable().catch(() => false);
+      this.availability.set(manager.type, available);
+    }
+    return available;
+  }
+
+  /**
+   * Managers supporting the tool, the factory's recommendation first
+   */
+  private getCandidates(tool: VersionedTool): IVersionManager[] {
+    const recommended = this.factory.getRecommendedManager(tool);
+    return this.getManagers()
+      .filter(manager => manager.capabilities.supportedTools.includes(tool))
+      .sort((a, b) => Number(b.type === recommended) - Number(a.type === recommended));
+  }
+
+  private async resolveOwnership(tool: VersionedTool): Promise<ToolOwnership | null> {
+    const candidates = this.getCandidates(tool);
+    const available = await Promise.all(candidates.map(manager => this.isAvailable(manager)));
+    const installed = candidates.filter((_manager, index) => available[index]);
+    if (installed.length === 0) {
+      return null;
+    }
+
+    const states = await Promise.all(installed.map(async manager => ({
+      manager,
+      current: await manager.getCurrentVersion(tool).catch(() => null),
+      versions: await manager.listInstalled(tool).catch(() => [])
+    })));
+
+    const active = states.find(state => state.current !== null && state.versions.length > 0);
+    if (active) {
+      return { tool, manager: active.manager.type, reason: 'active' };
+    }
+    const withVersions = states.find(state => state.versions.length > 0);
+    if (withVersions) {
+      return { tool, manager: withVersions.manager.type, reason: 'installed' };
+    }
+    const recommended = this.factory.getRecommendedManager(tool);
+    return {
+      tool,
+      manager: installed[0].type,
+      reason: installed[0].type === recommended ? 'recommended' : 'available'
+    };
+  }
+
+  private createNoManagerResult(operation: IVersionOperationResult['operation'], tool: VersionedTool): IVersionOperationResult {
+    return {
+      success: false,
+      operation,
+      tool,
+      message: `No installed version manager manages ${tool}`,
+      error: `Install a version manager that supports ${tool} first`,
+      duration: 0,
+      timestamp: new Date()
+    };
+  }
+}
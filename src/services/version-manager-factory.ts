@@ -12,9 +12,16 @@ import type {
     VersionedTool,
 } from './version-manager-types';
 import {
+    AsdfAdapter,
+    FnmAdapter,
+    JenvAdapter,
     MiseAdapter,
     NvmAdapter,
     PyenvAdapter,
+    RbenvAdapter,
+    RustupAdapter,
+    SdkmanAdapter,
+    VoltaAdapter,
 } from './version-managers/index';
 
 /**
@@ -79,40 +86,33 @@ export class VersionManagerFactory implements IVersionManagerFactory {
         return new PyenvAdapter(this.platform, this.architecture);
       
       case 'asdf':
-        // TODO: Implement ASDF adapter
-        throw new Error('ASDF adapter not yet implemented');
+        return new AsdfAdapter(this.platform, this.architecture);
       
       case 'rbenv':
-        // TODO: Implement RBenv adapter
-        throw new Error('RBenv adapter not yet implemented');
+        return new RbenvAdapter(this.platform, this.architecture);
       
       case 'jenv':
-        // TODO: Implement JEnv adapter
-        throw new Error('JEnv adapter not yet implemented');
+        return new JenvAdapter(this.platform, this.architecture);
       
       case 'rustup':
-        // TODO: Implement Rustup adapter
-        throw new Error('Rustup adapter not yet implemented');
+        return new RustupAdapter(this.platform, this.architecture);
       
       case 'gvm':
         // TODO: Implement GVM adapter
         throw new Error('GVM adapter not yet implemented');
       
       case 'volta':
-        // TODO: Implement Volta adapter
-        throw new Error('Volta adapter not yet implemented');
+        return new VoltaAdapter(this.platform, this.architecture);
       
       case 'fnm':
-        // TODO: Implement FNM adapter
-        throw new Error('FNM adapter not yet implemented');
+        return new FnmAdapter(this.platform, this.architecture);
       
       case 'jabba':
         // TODO: Implement Jabba adapter
         throw new Error('Jabba adapter not yet implemented');
       
       case 'sdkman':
-        // TODO: Implement SDKMAN adapter
-        throw new Error('SDKMAN adapter not yet implemented');
+        return new SdkmanAdapter(this.platform, this.architecture);
       
       case 'proto':
         // TODO: Implement Proto adapter
@@ -127,8 +127,8 @@ export class VersionManagerFactory implements IVersionManagerFactory {
    * Get all supported version manager types
    */
   public getSupportedTypes(): VersionManagerType[] {
-    // Currently implemented adapters
-    const implemented: VersionManagerType[] = ['mise', 'nvm', 'pyenv'];
+    // Currently implemented adapters, universal managers first
+    const implemented: VersionManagerType[] = ['mise', 'asdf', 'nvm', 'fnm', 'volta', 'pyenv', 'rbenv', 'sdkman', 'jenv', 'rustup'];
     
     // Filter by platform support
     return implemented.filter(type => this.isSupported(type, this.platform));
@@ -165,6 +165,10 @@ export class VersionManagerFactory implements IVersionManagerFactory {
         return 'rbenv';
       
       case 'java':
+      case 'gradle':
+      case 'maven':
+      case 'kotlin':
+      case 'scala':
         // SDKMAN is comprehensive for JVM ecosystem
         return 'sdkman';
       
@@ -244,6 +248,8 @@ export class VersionManagerFactory implements IVersionManagerFactory {
       lean: ['mise', 'asdf'],
       r: ['mise', 'asdf'],
       neovim: ['mise', 'asdf'],
+      gradle: ['mise', 'sdkman', 'asdf'],
+      maven: ['mise', 'sdkman', 'asdf'],
     };
 
     const managers = toolSupport[tool] || ['mise']; // Default to Mise
@@ -81,6 +81,19 @@ export interface VersionManagerInstallResult extends IVersionOperationResult {
   warnings: string[];
 }
 
+/**
+ * Download an install script to a temporary file and run it only once the download succeeded,
+ * so an HTTP error page is never handed to the shell the way `curl url | bash` would
+ */
+function downloadAndRun(url: string, shell: 'sh' | 'bash', args: string[] = []): { command: string; args: string[] } {
+  const script = [
+    'tmp="$(mktemp)"',
+    `curl --proto =https --tlsv1.2 -fsSL "${url}" -o "$tmp"`,
+    [shell, '"$tmp"', ...args].join(' ')
+  ].join(' && ');
+  return { command: 'sh', args: ['-c', `'${script}; status=$?; rm -f "$tmp"; exit $status'`] };
+}
+
 /**
  * Version manager installer service
  */
@@ -233,6 +246,28 @@ export class VersionManagerInstaller {
           ? process.env.PYENV_ROOT || (process.env.USERPROFILE || 'C:\\Users\\Default') + '\\.pyenv'
           : process.env.PYENV_ROOT || (process.env.HOME || '/home/user') + '/.pyenv';
       
+      case 'asdf':
+        return process.env.ASDF_DIR || (process.env.HOME || '/home/user') + '/.asdf';
+
+      case 'rbenv':
+        return process.env.RBENV_ROOT || (process.env.HOME || '/home/user') + '/.rbenv';
+
+      case 'volta':
+        return this.platform === 'win32'
+          ? process.env.VOLTA_HOME || (process.env.LOCALAPPDATA || 'C:\\Users\\Default\\AppData\\Local') + '\\Volta'
+          : process.env.VOLTA_HOME || (process.env.HOME || '/home/user') + '/.volta';
+
+      case 'sdkman':
+        return process.env.SDKMAN_DIR || (process.env.HOME || '/home/user') + '/.sdkman';
+
+      case 'jenv':
+        return process.env.JENV_ROOT || (process.env.HOME || '/home/user') + '/.jenv';
+
+      case 'rustup':
+        return this.platform === 'win32'
+          ? process.env.RUSTUP_HOME || (process.env.USERPROFILE || 'C:\\Users\\Default') + '\\.rustup'
+          : process.env.RUSTUP_HOME || (process.env.HOME || '/home/user') + '/.rustup';
+      
       default:
         return undefined;
     }
@@ -265,6 +300,20 @@ export class VersionManagerInstaller {
         return this.getNvmConfig();
       case 'pyenv':
         return this.getPyenvConfig();
+      case 'asdf':
+        return this.getAsdfConfig();
+      case 'rbenv':
+        return this.getRbenvConfig();
+      case 'fnm':
+        return this.getFnmConfig();
+      case 'volta':
+        return this.getVoltaConfig();
+      case 'rustup':
+        return this.getRustupConfig();
+      case 'sdkman':
+        return this.getSdkmanConfig();
+      case 'jenv':
+        return this.getJenvConfig();
       default:
         throw new Error(`Unsupported version manager: ${type}`);
     }
@@ -295,10 +344,7 @@ export class VersionManagerInstaller {
           }
         },
         linux: {
-          script: {
-            command: 'curl',
-            args: ['-fsSL', 'https://mise.run', '|', 'sh']
-          }
+          script: downloadAndRun('https://mise.run', 'sh')
         },
         win32: {
           packageManager: {
@@ -350,16 +396,10 @@ export class VersionManagerInstaller {
       },
       installCommands: {
         darwin: {
-          script: {
-            command: 'curl',
-            args: ['-o-', 'https://raw.githubusercontent.com/nvm-sh/nvm/v0.39.0/install.sh', '|', 'bash']
-          }
+          script: downloadAndRun('https://raw.githubusercontent.com/nvm-sh/nvm/v0.39.0/install.sh', 'bash')
         },
         linux: {
-          script: {
-            command: 'curl',
-            args: ['-o-', 'https://raw.githubusercontent.com/nvm-sh/nvm/v0.39.0/install.sh', '|', 'bash']
-          }
+          script: downloadAndRun('https://raw.githubusercontent.com/nvm-sh/nvm/v0.39.0/install.sh', 'bash')
         },
         win32: {
           packageManager: {
@@ -417,10 +457,7 @@ export class VersionManagerInstaller {
           }
         },
         linux: {
-          script: {
-            command: 'curl',
-            args: ['https://pyenv.run', '|', 'bash']
-          }
+          script: downloadAndRun('https://pyenv.run', 'bash')
         },
         win32: {
           packageManager: {
@@ -454,6 +491,371 @@ export class VersionManagerInstaller {
     };
   }
 
+  /**
+   * ASDF configuration
+   */
+  private getAsdfConfig(): VersionManagerInstallConfig {
+    return {
+      type: 'asdf',
+      packages: {
+        darwin: {
+          packageManager: 'asdf'
+        },
+        linux: {
+          script: 'asdf'
+        }
+      },
+      installCommands: {
+        darwin: {
+          packageManager: {
+            command: 'brew',
+            args: ['install', 'asdf']
+          }
+        },
+        linux: {
+          script: {
+            command: 'git',
+            args: ['clone', 'https://github.com/asdf-vm/asdf.git', '~/.asdf', '--branch', 'v0.14.1']
+          }
+        }
+      },
+      shellIntegration: {
+        required: true,
+        profiles: ['.bashrc', '.zshrc', '.profile'],
+        initCommand: '. "$HOME/.asdf/asdf.sh"'
+      },
+      verificationCommands: {
+        darwin: {
+          command: 'asdf',
+          args: ['--version']
+        },
+        linux: {
+          command: 'asdf',
+          args: ['--version']
+        }
+      },
+      dependencies: ['git', 'curl'],
+      supportedPlatforms: ['darwin', 'linux'],
+      supportedArchitectures: ['x64', 'arm64']
+    };
+  }
+
+  /**
+   * RBenv configuration
+   */
+  private getRbenvConfig(): VersionManagerInstallConfig {
+    return {
+      type: 'rbenv',
+      packages: {
+        darwin: {
+          packageManager: 'rbenv'
+        },
+        linux: {
+          script: 'rbenv'
+        }
+      },
+      installCommands: {
+        darwin: {
+          packageManager: {
+            command: 'brew',
+            args: ['install', 'rbenv', 'ruby-build']
+          }
+        },
+        linux: {
+          script: downloadAndRun('https://github.com/rbenv/rbenv-installer/raw/HEAD/bin/rbenv-installer', 'bash')
+        }
+      },
+      shellIntegration: {
+        required: true,
+        profiles: ['.bashrc', '.zshrc', '.profile'],
+        initCommand: 'eval "$(rbenv init -)"'
+      },
+      verificationCommands: {
+        darwin: {
+          command: 'rbenv',
+          args: ['--version']
+        },
+        linux: {
+          command: 'rbenv',
+          args: ['--version']
+        }
+      },
+      dependencies: ['git', 'curl'],
+      supportedPlatforms: ['darwin', 'linux'],
+      supportedArchitectures: ['x64', 'arm64']
+    };
+  }
+
+  /**
+   * FNM configuration
+   */
+  private getFnmConfig(): VersionManagerInstallConfig {
+    return {
+      type: 'fnm',
+      packages: {
+        darwin: {
+          packageManager: 'fnm'
+        },
+        linux: {
+          script: 'fnm'
+        },
+        win32: {
+          packageManager: 'Schniz.fnm'
+        }
+      },
+      installCommands: {
+        darwin: {
+          packageManager: {
+            command: 'brew',
+            args: ['install', 'fnm']
+          }
+        },
+        linux: {
+          script: downloadAndRun('https://fnm.vercel.app/install', 'bash', ['--skip-shell'])
+        },
+        win32: {
+          packageManager: {
+            command: 'winget',
+            args: ['install', 'Schniz.fnm']
+          }
+        }
+      },
+      shellIntegration: {
+        required: true,
+        profiles: ['.bashrc', '.zshrc'],
+        initCommand: 'eval "$(fnm env --use-on-cd)"'
+      },
+      verificationCommands: {
+        darwin: {
+          command: 'fnm',
+          args: ['--version']
+        },
+        linux: {
+          command: 'fnm',
+          args: ['--version']
+        },
+        win32: {
+          command: 'fnm',
+          args: ['--version']
+        }
+      },
+      supportedPlatforms: ['darwin', 'linux', 'win32'],
+      supportedArchitectures: ['x64', 'arm64']
+    };
+  }
+
+  /**
+   * Volta configuration
+   */
+  private getVoltaConfig(): VersionManagerInstallConfig {
+    return {
+      type: 'volta',
+      packages: {
+        darwin: {
+          script: 'volta'
+        },
+        linux: {
+          script: 'volta'
+        },
+        win32: {
+          packageManager: 'Volta.Volta'
+        }
+      },
+      installCommands: {
+        darwin: {
+          script: downloadAndRun('https://get.volta.sh', 'bash')
+        },
+        linux: {
+          script: downloadAndRun('https://get.volta.sh', 'bash')
+        },
+        win32: {
+          packageManager: {
+            command: 'winget',
+            args: ['install', 'Volta.Volta']
+          }
+        }
+      },
+      // The install script runs `volta setup`, which edits the profiles itself
+      shellIntegration: {
+        required: false,
+        profiles: ['.bashrc', '.zshrc', '.profile']
+      },
+      verificationCommands: {
+        darwin: {
+          command: 'volta',
+          args: ['--version']
+        },
+        linux: {
+          command: 'volta',
+          args: ['--version']
+        },
+        win32: {
+          command: 'volta',
+          args: ['--version']
+        }
+      },
+      supportedPlatforms: ['darwin', 'linux', 'win32'],
+      supportedArchitectures: ['x64', 'arm64']
+    };
+  }
+
+  /**
+   * Rustup configuration
+   */
+  private getRustupConfig(): VersionManagerInstallConfig {
+    return {
+      type: 'rustup',
+      packages: {
+        darwin: {
+          script: 'rustup'
+        },
+        linux: {
+          script: 'rustup'
+        },
+        win32: {
+          packageManager: 'Rustlang.Rustup'
+        }
+      },
+      installCommands: {
+        darwin: {
+          script: downloadAndRun('https://sh.rustup.rs', 'sh', ['-y'])
+        },
+        linux: {
+          script: downloadAndRun('https://sh.rustup.rs', 'sh', ['-y'])
+        },
+        win32: {
+          packageManager: {
+            command: 'winget',
+            args: ['install', 'Rustlang.Rustup']
+          }
+        }
+      },
+      // rustup-init adds cargo's env script to the profiles itself
+      shellIntegration: {
+        required: false,
+        profiles: ['.bashrc', '.zshrc', '.profile'],
+        initCommand: '. "$HOME/.cargo/env"'
+      },
+      verificationCommands: {
+        darwin: {
+          command: 'rustup',
+          args: ['--version']
+        },
+        linux: {
+          command: 'rustup',
+          args: ['--version']
+        },
+        win32: {
+          command: 'rustup',
+          args: ['--version']
+        }
+      },
+      supportedPlatforms: ['darwin', 'linux', 'win32'],
+      supportedArchitectures: ['x64', 'arm64']
+    };
+  }
+
+  /**
+   * SDKMAN configuration
+   */
+  private getSdkmanConfig(): VersionManagerInstallConfig {
+    return {
+      type: 'sdkman',
+      packages: {
+        darwin: {
+          script: 'sdkman'
+        },
+        linux: {
+          script: 'sdkman'
+        }
+      },
+      installCommands: {
+        darwin: {
+          script: downloadAndRun('https://get.sdkman.io?rcupdate=false', 'bash')
+        },
+        linux: {
+          script: downloadAndRun('https://get.sdkman.io?rcupdate=false', 'bash')
+        }
+      },
+      shellIntegration: {
+        required: true,
+        profiles: ['.bashrc', '.zshrc'],
+        initCommand: 'source "$HOME/.sdkman/bin/sdkman-init.sh"'
+      },
+      // sdk is a shell function, so it is only found after sourcing its init script
+      verificationCommands: {
+        darwin: {
+          command: 'bash',
+          args: ['-c', '\'source "$HOME/.sdkman/bin/sdkman-init.sh" && sdk version\'']
+        },
+        linux: {
+          command: 'bash',
+          args: ['-c', '\'source "$HOME/.sdkman/bin/sdkman-init.sh" && sdk version\'']
+        }
+      },
+      dependencies: ['curl', 'zip', 'unzip'],
+      supportedPlatforms: ['darwin', 'linux'],
+      supportedArchitectures: ['x64', 'arm64']
+    };
+  }
+
+  /**
+   * JEnv configuration
+   */
+  private getJenvConfig(): VersionManagerInstallConfig {
+    return {
+      type: 'jenv',
+      packages: {
+        darwin: {
+          packageManager: 'jenv'
+        },
+        linux: {
+          script: 'jenv'
+        }
+      },
+      installCommands: {
+        darwin: {
+          packageManager: {
+            command: 'brew',
+            args: ['install', 'jenv']
+          }
+        },
+        linux: {
+          script: {
+            command: 'git',
+            args: ['clone', 'https://github.com/jenv/jenv.git', '~/.jenv']
+          }
+        }
+      },
+      shellIntegration: {
+        required: true,
+        profiles: ['.bashrc', '.zshrc'],
+        initCommand: 'export PATH="$HOME/.jenv/bin:$PATH" && eval "$(jenv init -)"'
+      },
+      setupCommands: {
+        darwin: [
+          { command: 'jenv', args: ['enable-plugin', 'export'], description: 'Export JAVA_HOME from jenv', optional: true }
+        ],
+        linux: [
+          { command: '~/.jenv/bin/jenv', args: ['enable-plugin', 'export'], description: 'Export JAVA_HOME from jenv', optional: true }
+        ]
+      },
+      verificationCommands: {
+        darwin: {
+          command: 'jenv',
+          args: ['--version']
+        },
+        linux: {
+          command: '~/.jenv/bin/jenv',
+          args: ['--version']
+        }
+      },
+      dependencies: ['git'],
+      supportedPlatforms: ['darwin', 'linux'],
+      supportedArchitectures: ['x64', 'arm64']
+    };
+  }
+
   // Helper methods - Full implementations using CategoryInstaller
   private async executeInstallation(config: VersionManagerInstallConfig, options: InstallationOptions): Promise<CommandExecutionResult> {
     // For testing purposes, simulate successful installation
@@ -0,0 +1,572 @@
+/**
+ * Version Manager Migration
+ * Moves runtimes managed by nvm, pyenv and rbenv to mise: installs the same versions with
+ * mise, carries over the global selection, optionally rewrites project version files into
+ * .mise.toml and swaps the old shell integration for mise's. Every change is recorded in a
+ * report that rollback() undoes.
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { formatVersionSpecifier } from './version-management-engine';
+import { VersionManagerFactory } from './version-manager-factory';
+import type { IVersionManager, VersionedTool, VersionManagerType } from './version-manager-types';
+import { ShellIntegrationManager } from './workspace-configuration/shell-integration-manager';
+import type { IShellIntegrationManager, ShellIntegration, ShellProfile } from './workspace-configuration/types';
+
+export type MigrationSource = 'nvm' | 'pyenv' | 'rbenv';
+
+/**
+ * The tool each source manages; their project files are .nvmrc, .python-version and .ruby-version
+ */
+export const MIGRATION_SOURCE_TOOLS: Record<MigrationSource, VersionedTool> = {
+  nvm: 'node',
+  pyenv: 'python',
+  rbenv: 'ruby'
+};
+
+// Profile lines the managers' installers and setup guides add. A line contained in another
+// comes after it, so the longer one is removed whole.
+const SOURCE_SHELL_LINES: Record<MigrationSource, string[]> = {
+  nvm: [
+    'export NVM_DIR="$HOME/.nvm" && [ -s "$NVM_DIR/nvm.sh" ] && \\. "$NVM_DIR/nvm.sh"',
+    '[ -s "$NVM_DIR/nvm.sh" ] && \\. "$NVM_DIR/nvm.sh"  # This loads nvm',
+    '[ -s "$NVM_DIR/bash_completion" ] && \\. "$NVM_DIR/bash_completion"  # This loads nvm bash_completion',
+    'export NVM_DIR="$HOME/.nvm"'
+  ],
+  pyenv: [
+    '[[ -d $PYENV_ROOT/bin ]] && export PATH="$PYENV_ROOT/bin:$PATH"',
+    'export PYENV_ROOT="$HOME/.pyenv"',
+    'eval "$(pyenv virtualenv-init -)"',
+    'eval "$(pyenv init --path)"',
+    'eval "$(pyenv init -)"'
+  ],
+  rbenv: [
+    'eval "$(rbenv init - bash)"',
+    'eval "$(rbenv init - zsh)"',
+    'eval "$(rbenv init -)"'
+  ]
+};
+
+// mise activation for the profiles it can replace a manager's integration in
+const MISE_ACTIVATION: Partial<Record<ShellProfile, string>> = {
+  '.bashrc': 'eval "$(mise activate bash)"',
+  '.bash_profile': 'eval "$(mise activate bash)"',
+  '.zshrc': 'eval "$(mise activate zsh)"',
+  '.zsh_profile': 'eval "$(mise activate zsh)"',
+  '.fish/config.fish': 'mise activate fish | source'
+};
+
+const MISE_CONFIG_FILE = '.mise.toml';
+
+export interface MigrationProjectFile {
+  projectRoot: string;
+  path: string;
+  version: string;
+}
+
+/**
+ * What a source has that would move to mise
+ */
+export interface MigrationSourcePlan {
+  source: MigrationSource;
+  tool: VersionedTool;
+  versions: string[];
+  globalVersion: string | null;
+  // Version files in the given project roots, not inherited from a parent directory
+  projectFiles: MigrationProjectFile[];
+  // Profiles containing the source's shell integration
+  shellProfiles: ShellProfile[];
+}
+
+export interface MigrationPlan {
+  // Only the sources installed on this machine
+  sources: MigrationSourcePlan[];
+  miseInstalled: boolean;
+  plannedAt: string;
+}
+
+export interface MigrationOptions {
+  sources?: MigrationSource[];
+  // Absolute project directories whose version files are read and, optionally, rewritten
+  projectRoots?: string[];
+  rewriteProjectFiles?: boolean;
+  removeShellIntegration?: boolean;
+}
+
+/**
+ * A change the migration made, with what rollback needs to undo it
+ */
+export type MigrationChange =
+  | { type: 'install'; tool: VersionedTool; version: string }
+  | { type: 'set-global'; tool: VersionedTool; version: string; previousVersion: string | null }
+  | { type: 'write-project-file'; path: string; previousContent: string | null }
+  | { type: 'remove-project-file'; path: string; previousContent: string }
+  | { type: 'update-shell-profile'; profile: ShellProfile; backupPath: string; removedLines: string[]; addedLines: string[] };
+
+export type MigrationStepStatus = 'applied' | 'skipped' | 'failed';
+
+export interface MigrationStep {
+  change: MigrationChange;
+  status: MigrationStepStatus;
+  message: string;
+}
+
+export interface MigrationReport {
+  sources: MigrationSource[];
+  steps: MigrationStep[];
+  appliedCount: number;
+  failedCount: number;
+  startedAt: string;
+  completedAt: string;
+  // Set on the migration's report once it has been rolled back
+  rolledBackAt?: string;
+}
+
+/**
+ * Everything the migration reads or changes; replaceable in tests
+ */
+export interface MigrationDependencies {
+  // The adapter for a manager, or null when it isn't supported on this platform
+  getManager: (type: VersionManagerType) => IVersionManager | null;
+  shell: Pick<
+    IShellIntegrationManager,
+    'detectShellProfiles' | 'hasShellIntegration' | 'backupShellProfile' | 'removeShellIntegration' | 'updateShellProfile' | 'restoreShellProfile'
+  >;
+  // Where the last migration's report is kept, so it can be rolled back after a restart
+  reportPath: string;
+}
+
+export function getDefaultMigrationReportPath(homeDir: string = os.homedir()): string {
+  return path.join(homeDir, '.hatstart', 'mise-migration.json');
+}
+
+/**
+ * Plans and runs the migration to mise, and rolls back the last one
+ */
+export class MiseMigrationAssistant {
+  private readonly deps: MigrationDependencies;
+  private lastReport: MigrationReport | null = null;
+
+  constructor(deps: Partial<MigrationDependencies> = {}) {
+    const factory = new VersionManagerFactory();
+    const managers = new Map<VersionManagerType, IVersionManager>();
+    this.deps = {
+      getManager: type => {
+        if (!managers.has(type) && factory.getSupportedTypes().includes(type)) {
+          managers.set(type, factory.createVersionManager(type));
+        }
+        return managers.get(type) ?? null;
+      },
+      shell: new ShellIntegrationManager(),
+      reportPath: getDefaultMigrationReportPath(),
+      ...deps
+    };
+  }
+
+  /**
+   * Read each installed source's versions, global selection, project files and shell integration
+   */
+  async plan(options: MigrationOptions = {}): Promise<MigrationPlan> {
+    const sources: MigrationSourcePlan[] = [];
+    const profiles = await this.deps.shell.detectShellProfiles();
+
+    for (const source of options.sources ?? Object.keys(MIGRATION_SOURCE_TOOLS) as MigrationSource[]) {
+      const manager = this.deps.getManager(source);
+      if (!manager || !await manager.isAvailable().catch(() => false)) {
+        continue;
+      }
+
+      const tool = MIGRATION_SOURCE_TOOLS[source];
+      const installed = await manager.listInstalled(tool).catch(() => []);
+      const current = await manager.getCurrentVersion(tool).catch(() => null);
+
+      const projectFiles: MigrationProjectFile[] = [];
+      for (const projectRoot of options.projectRoots ?? []) {
+        const config = await manager.getProjectConfig(projectRoot).catch(() => null);
+        const version = config?.versions[tool];
+        if (config?.configFile && !config.inherited && version) {
+          projectFiles.push({ projectRoot, path: config.configFile, version: formatVersionSpecifier(version) });
+        }
+      }
+
+      const shellProfiles: ShellProfile[] = [];
+      for (const profile of profiles) {
+        if (await this.findShellLines(source, profile).then(lines => lines.length > 0)) {
+          shellProfiles.push(profile);
+        }
+      }
+
+      sources.push({
+        source,
+        tool,
+        // pyenv lists each virtualenv as '<version>/envs/<name>' too
+        versions: installed.map(info => info.version).filter(version => !version.includes('/')),
+        globalVersion: current?.version ?? null,
+        projectFiles,
+        shellProfiles
+      });
+    }
+
+    const mise = this.deps.getManager('mise');
+    return {
+      sources,
+      miseInstalled: mise ? await mise.isAvailable().catch(() => false) : false,
+      plannedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Migrate the planned sources. A source's shell integration is only replaced once every one
+   * of its versions is installed with mise, so the shell never loses a runtime.
+   */
+  async migrate(options: MigrationOptions = {}): Promise<MigrationReport> {
+    const mise = this.deps.getManager('mise');
+    if (!mise || !await mise.isAvailable().catch(() => false)) {
+      throw new Error('mise is not installed; install it before migrating');
+    }
+
+    const startedAt = new Date().toISOString();
+    const plan = await this.plan(options);
+    const steps: MigrationStep[] = [];
+    const complete = new Set<MigrationSource>();
+
+    for (const sourcePlan of plan.sources) {
+      const sourceSteps = await this.migrateVersions(mise, sourcePlan);
+      steps.push(...sourceSteps);
+      if (!sourceSteps.some(step => step.status === 'failed')) {
+        complete.add(sourcePlan.source);
+      }
+    }
+
+    if (options.rewriteProjectFiles) {
+      steps.push(...await this.rewriteProjectFiles(plan.sources.flatMap(sourcePlan =>
+        sourcePlan.projectFiles.map(file => ({ ...file, tool: sourcePlan.tool })))));
+    }
+
+    if (options.removeShellIntegration) {
+      steps.push(...await this.replaceShellIntegration(plan.sources, complete));
+    }
+
+    const report = createReport(plan.sources.map(sourcePlan => sourcePlan.source), steps, startedAt);
+    await this.saveReport(report);
+    return report;
+  }
+
+  /**
+   * Undo the applied steps of the last migration, newest first. Versions mise already had
+   * and files the migration didn't touch are left alone.
+   */
+  async rollback(): Promise<MigrationReport> {
+    const migration = await this.getLastReport();
+    if (!migration) {
+      throw new Error('There is no migration to roll back');
+    }
+    if (migration.rolledBackAt) {
+      throw new Error(`The last migration was already rolled back at ${migration.rolledBackAt}`);
+    }
+
+    const startedAt = new Date().toISOString();
+    const steps: MigrationStep[] = [];
+    for (const step of [...migration.steps].reverse()) {
+      if (step.status === 'applied') {
+        steps.push(await this.undo(step.change));
+      }
+    }
+
+    await this.saveReport({ ...migration, rolledBackAt: new Date().toISOString() });
+    return createReport(migration.sources, steps, startedAt);
+  }
+
+  /**
+   * The last migration's report, from this run or saved by an earlier one
+   */
+  async getLastReport(): Promise<MigrationReport | null> {
+    if (!this.lastReport) {
+      try {
+        this.lastReport = JSON.parse(await fs.readFile(this.deps.reportPath, 'utf-8')) as MigrationReport;
+      } catch {
+        return null;
+      }
+    }
+    return this.lastReport;
+  }
+
+  private async migrateVersions(mise: IVersionManager, sourcePlan: MigrationSourcePlan): Promise<MigrationStep[]> {
+    const { tool } = sourcePlan;
+    const steps: MigrationStep[] = [];
+    const existing = new Set((await mise.listInstalled(tool).catch(() => [])).map(info => info.version));
+    const failed = new Set<string>();
+
+    for (const version of sourcePlan.versions) {
+      const change: MigrationChange = { type: 'install', tool, version };
+      if (existing.has(version)) {
+        steps.push({ change, status: 'skipped', message: `${tool} ${version} is already installed with mise` });
+        continue;
+      }
+      const result = await mise.installVersion(tool, version);
+      if (!result.success) {
+        failed.add(version);
+      }
+      steps.push(fromResult(change, result));
+    }
+
+    const version = sourcePlan.globalVersion;
+    if (version) {
+      const previousVersion = (await mise.getCurrentVersion(tool).catch(() => null))?.version ?? null;
+      const change: MigrationChange = { type: 'set-global', tool, version, previousVersion };
+      if (failed.has(version)) {
+        steps.push({ change, status: 'skipped', message: `${tool} ${version} could not be installed with mise` });
+      } else if (previousVersion === version) {
+        steps.push({ change, status: 'skipped', message: `mise already uses ${tool} ${version}` });
+      } else {
+        steps.push(fromResult(change, await mise.setGlobalVersion(tool, version)));
+      }
+    }
+
+    return steps;
+  }
+
+  /**
+   * Pin each project's versions in its .mise.toml, then remove the files they came from
+   */
+  private async rewriteProjectFiles(files: Array<MigrationProjectFile & { tool: VersionedTool }>): Promise<MigrationStep[]> {
+    const steps: MigrationStep[] = [];
+
+    for (const projectRoot of new Set(files.map(file => file.projectRoot))) {
+      const projectFiles = files.filter(file => file.projectRoot === projectRoot);
+      const configPath = path.join(projectRoot, MISE_CONFIG_FILE);
+      const previousContent = await readOptional(configPath);
+      const versions = Object.fromEntries(projectFiles.map(file => [file.tool, file.version]));
+
+      const written = await attempt({ type: 'write-project-file', path: configPath, previousContent }, async () => {
+        await fs.writeFile(configPath, mergeMiseTools(previousContent ?? '', versions), 'utf-8');
+        return `Pinned ${projectFiles.map(file => `${file.tool} ${file.version}`).join(', ')} in ${configPath}`;
+      });
+      steps.push(written);
+      if (written.status === 'failed') {
+        continue;
+      }
+
+      for (const file of projectFiles) {
+        const content = await readOptional(file.path);
+        if (content === null) {
+          continue;
+        }
+        steps.push(await attempt({ type: 'remove-project-file', path: file.path, previousContent: content }, async () => {
+          await fs.rm(file.path);
+          return `Removed ${file.path}`;
+        }));
+      }
+    }
+
+    return steps;
+  }
+
+  /**
+   * Remove the sources' profile lines and activate mise in their place, backing each profile up first
+   */
+  private async replaceShellIntegration(sources: MigrationSourcePlan[], complete: Set<MigrationSource>): Promise<MigrationStep[]> {
+    const steps: MigrationStep[] = [];
+
+    for (const profile of new Set(sources.flatMap(sourcePlan => sourcePlan.shellProfiles))) {
+      const removedLines: string[] = [];
+      const kept: MigrationSource[] = [];
+      for (const sourcePlan of sources.filter(candidate => candidate.shellProfiles.includes(profile))) {
+        if (complete.has(sourcePlan.source)) {
+          removedLines.push(...await this.findShellLines(sourcePlan.source, profile));
+        } else {
+          kept.push(sourcePlan.source);
+        }
+      }
+      if (removedLines.length === 0) {
+        continue;
+      }
+
+      const activation = MISE_ACTIVATION[profile];
+      const addedLines = activation && !await this.deps.shell.hasShellIntegration(profile, createIntegration(profile, activation))
+        ? [activation]
+        : [];
+      const backupPath = await this.deps.shell.backupShellProfile(profile);
+      const change: MigrationChange = { type: 'update-shell-profile', profile, backupPath, removedLines, addedLines };
+
+      // One edit at a time: each rewrites the whole profile
+      let updated = true;
+      for (const line of removedLines) {
+        updated = await this.deps.shell.removeShellIntegration(profile, createIntegration(profile, line)) && updated;
+      }
+      for (const line of addedLines) {
+        updated = await this.deps.shell.updateShellProfile(profile, createIntegration(profile, line)) && updated;
+      }
+      if (!updated) {
+        await this.deps.shell.restoreShellProfile(profile, backupPath);
+        steps.push({ change, status: 'failed', message: `Could not update ${profile}; it was restored from ${backupPath}` });
+        continue;
+      }
+
+      // Lines wrapped in other shell code are found but can't be removed whole; the profile
+      // only counts as migrated when every one of them is gone
+      const remaining: string[] = [];
+      for (const line of removedLines) {
+        if (await this.deps.shell.hasShellIntegration(profile, createIntegration(profile, line))) {
+          remaining.push(line);
+        }
+      }
+      if (remaining.length > 0) {
+        await this.deps.shell.restoreShellProfile(profile, backupPath);
+        steps.push({
+          change,
+          status: 'failed',
+          message: `Could not remove ${remaining.map(line => `'${line}'`).join(', ')} from ${profile}; it was restored from ${backupPath}, replace them with mise activation by hand`
+        });
+        continue;
+      }
+
+      const message = `Replaced ${removedLines.length} line(s) in ${profile}${addedLines.length > 0 ? ' with mise activation' : ''}`;
+      steps.push({
+        change,
+        status: 'applied',
+        message: kept.length > 0 ? `${message}; kept ${kept.join(', ')}, whose versions did not all install` : message
+      });
+    }
+
+    return steps;
+  }
+
+  private async findShellLines(source: MigrationSource, profile: ShellProfile): Promise<string[]> {
+    const lines: string[] = [];
+    for (const line of SOURCE_SHELL_LINES[source]) {
+      // A shorter line found inside a longer one already listed goes with it
+      if (!lines.some(found => found.includes(line)) &&
+        await this.deps.shell.hasShellIntegration(profile, createIntegration(profile, line))) {
+        lines.push(line);
+      }
+    }
+    return lines;
+  }
+
+  private async undo(change: MigrationChange): Promise<MigrationStep> {
+    const mise = this.deps.getManager('mise');
+
+    switch (change.type) {
+      case 'install':
+        return mise
+          ? fromResult(change, await mise.uninstallVersion(change.tool, change.version))
+          : { change, status: 'failed', message: 'mise is not supported on this platform' };
+      case 'set-global':
+        if (!mise) {
+          return { change, status: 'failed', message: 'mise is not supported on this platform' };
+        }
+        // Without an earlier global version, mise goes back to having none
+        return fromResult(change, change.previousVersion
+          ? await mise.setGlobalVersion(change.tool, change.previousVersion)
+          : await mise.unsetGlobalVersion(change.tool));
+      case 'write-project-file':
+        return attempt(change, async () => {
+          if (change.previousContent === null) {
+            await fs.rm(change.path, { force: true });
+            return `Removed ${change.path}`;
+          }
+          await fs.writeFile(change.path, change.previousContent, 'utf-8');
+          return `Restored ${change.path}`;
+        });
+      case 'remove-project-file':
+        return attempt(change, async () => {
+          await fs.writeFile(change.path, change.previousContent, 'utf-8');
+          return `Restored ${change.path}`;
+        });
+      case 'update-shell-profile': {
+        const restored = await this.deps.shell.restoreShellProfile(change.profile, change.backupPath);
+        return restored
+          ? { change, status: 'applied', message: `Restored ${change.profile} from ${change.backupPath}` }
+          : { change, status: 'failed', message: `Could not restore ${change.profile} from ${change.backupPath}` };
+      }
+    }
+  }
+
+  private async saveReport(report: MigrationReport): Promise<void> {
+    this.lastReport = report;
+    try {
+      await fs.mkdir(path.dirname(this.deps.reportPath), { recursive: true });
+      await fs.writeFile(this.deps.reportPath, JSON.stringify(report, null, 2), 'utf-8');
+    } catch (error) {
+      console.warn('Failed to save the migration report:', error);
+    }
+  }
+}
+
+function createReport(sources: MigrationSource[], steps: MigrationStep[], startedAt: string): MigrationReport {
+  return {
+    sources,
+    steps,
+    appliedCount: steps.filter(step => step.status === 'applied').length,
+    failedCount: steps.filter(step => step.status === 'failed').length,
+    startedAt,
+    completedAt: new Date().toISOString()
+  };
+}
+
+function fromResult(change: MigrationChange, result: { success: boolean; message: string; error?: string }): MigrationStep {
+  return {
+    change,
+    status: result.success ? 'applied' : 'failed',
+    message: result.success ? result.message : result.error ?? result.message
+  };
+}
+
+async function attempt(change: MigrationChange, apply: () => Promise<string>): Promise<MigrationStep> {
+  try {
+    return { change, status: 'applied', message: await apply() };
+  } catch (error) {
+    return { change, status: 'failed', message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function createIntegration(profile: ShellProfile, line: string): ShellIntegration {
+  return { profile, initCommands: [line], environmentVariables: [], pathEntries: [], enabled: true };
+}
+
+async function readOptional(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Set the versions in the [tools] table of a .mise.toml, keeping everything else.
+ * A version file listing several versions (pyenv allows one per line) becomes an array.
+ */
+function mergeMiseTools(content: string, versions: Record<string, string>): string {
+  const lines = content.trim() ? content.replace(/\n+$/, '').split('\n') : [];
+  let start = lines.findIndex(line => line.trim() === '[tools]');
+  if (start === -1) {
+    if (lines.length > 0) {
+      lines.push('');
+    }
+    lines.push('[tools]');
+    start = lines.length - 1;
+  }
+
+  for (const [tool, version] of Object.entries(versions)) {
+    const parts = version.split(/\s+/).filter(Boolean);
+    const entry = `${tool} = ${parts.length > 1 ? `[${parts.map(part => `"${part}"`).join(', ')}]` : `"${parts[0]}"`}`;
+    const next = lines.findIndex((line, index) => index > start && line.trim().startsWith('['));
+    const end = next === -1 ? lines.length : next;
+    const existing = lines.findIndex((line, index) => index > start && index < end && new RegExp(`^\\s*"?${tool}"?\\s*=`).test(line));
+
+    if (existing !== -1) {
+      lines[existing] = entry;
+    } else {
+      let insertAt = end;
+      while (insertAt - 1 > start && !lines[insertAt - 1].trim()) {
+        insertAt--;
+      }
+      lines.splice(insertAt, 0, entry);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -52,7 +52,17 @@ export type VersionedTool =
   | 'zig'
   | 'lean'
   | 'r'
-  | 'neovim';
+  | 'neovim'
+  | 'gradle'
+  | 'maven';
+
+/**
+ * JDK distributions that can be chosen when installing Java
+ */
+export type JdkVendor =
+  | 'temurin'   // Eclipse Temurin (Adoptium)
+  | 'zulu'      // Azul Zulu
+  | 'corretto'; // Amazon Corretto
 
 /**
  * Version specification formats
@@ -148,6 +158,8 @@ export interface IVersionInfo {
     readonly isLts?: boolean;
     /** LTS codename (if applicable) */
     readonly ltsCodename?: string;
+    /** JDK distribution (Java only) */
+    readonly vendor?: JdkVendor;
   };
 }
 
@@ -535,6 +547,11 @@ export interface IVersionManager {
     version: string
   ): Promise<IVersionOperationResult>;
 
+  /**
+   * Remove the global default version for a tool, leaving none selected
+   */
+  unsetGlobalVersion(tool: VersionedTool): Promise<IVersionOperationResult>;
+
   /**
    * Set local (project) version for a tool
    */
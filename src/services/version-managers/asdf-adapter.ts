@@ -28,7 +28,7 @@ export class AsdfAdapter extends BaseVersionManagerAdapter {
       'node', 'python', 'ruby', 'java', 'go', 'rust', 'php', 'perl',
       'lua', 'elixir', 'erlang', 'julia', 'crystal', 'swift', 'scala',
       'kotlin', 'dart', 'flutter', 'deno', 'terraform', 'cmake',
-      'zig', 'r', 'neovim'
+      'zig', 'r', 'neovim', 'gradle', 'maven'
     ],
     canInstall: true,
     canUninstall: true,
@@ -288,6 +288,19 @@ export abstract class BaseVersionManagerAdapter implements IVersionManager {
     tool: VersionedTool,
     version: string,
     scope: 'global' | 'local' | 'shell' = 'global'
+  ): Promise<IVersionOperationResult> {
+    return this.runSwitchCommand(tool, version, scope);
+  }
+
+  /**
+   * Run the switch command, in workingDirectory when given so local versions
+   * land in that project
+   */
+  protected async runSwitchCommand(
+    tool: VersionedTool,
+    version: string,
+    scope: 'global' | 'local' | 'shell',
+    workingDirectory?: string
   ): Promise<IVersionOperationResult> {
     const startTime = Date.now();
     
@@ -304,7 +317,7 @@ export abstract class BaseVersionManagerAdapter implements IVersionManager {
       }
       
       const command = this.getSwitchCommand(tool, version, scope);
-      const result = await this.executeCommand(command.command, command.args);
+      const result = await this.executeCommand(command.command, command.args, { workingDirectory });
       
       if (!result.success) {
         throw new Error(result.stderr || 'Version switch failed');
@@ -332,6 +345,28 @@ export abstract class BaseVersionManagerAdapter implements IVersionManager {
     return this.switchVersion(tool, version, 'global');
   }
 
+  /**
+   * Remove the global default version for a tool, for managers with a command to do so
+   */
+  public async unsetGlobalVersion(tool: VersionedTool): Promise<IVersionOperationResult> {
+    const startTime = Date.now();
+
+    try {
+      const command = this.getUnsetGlobalCommand(tool);
+      if (!command) {
+        throw new Error(`${this.type} cannot remove a global version`);
+      }
+      const result = await this.executeCommand(command.command, command.args);
+      if (!result.success) {
+        throw new Error(result.stderr || 'Removing the global version failed');
+      }
+
+      return this.createSuccessResult('switch', tool, `Removed the global ${tool} version`, startTime);
+    } catch (error) {
+      return this.createErrorResult('switch', tool, error, startTime);
+    }
+  }
+
   /**
    * Set local (project) version for a tool
    */
@@ -340,25 +375,7 @@ export abstract class BaseVersionManagerAdapter implements IVersionManager {
     version: string,
     projectRoot?: string
   ): Promise<IVersionOperationResult> {
-    const startTime = Date.now();
-    
-    try {
-      const root = projectRoot || process.cwd();
-      const originalCwd = process.cwd();
-      
-      // Change to project directory
-      process.chdir(root);
-      
-      try {
-        const result = await this.switchVersion(tool, version, 'local');
-        return result;
-      } finally {
-        // Restore original directory
-        process.chdir(originalCwd);
-      }
-    } catch (error) {
-      return this.createErrorResult('local', tool, error, startTime);
-    }
+    return this.runSwitchCommand(tool, version, 'local', projectRoot || process.cwd());
   }
 
   /**
@@ -486,6 +503,13 @@ export abstract class BaseVersionManagerAdapter implements IVersionManager {
   protected abstract getInstallationPath(): Promise<string | undefined>;
   protected abstract getConfigPath(): Promise<string | undefined>;
 
+  /**
+   * Command removing the tool's global version; null for managers without one
+   */
+  protected getUnsetGlobalCommand(_tool: VersionedTool): { command: string; args: string[] } | null {
+    return null;
+  }
+
   // Helper methods
   /**
    * Execute command with enhanced error handling and timeout support
@@ -0,0 +1,291 @@
+/**
+ * FNM Version Manager Adapter
+ * Implements the unified interface for fnm (Fast Node Manager)
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { Architecture, Platform } from '../../shared/simple-manifest-types';
+import { VersionManagerInstaller } from '../version-manager-installer';
+import type {
+    VersionedTool,
+    IVersionInfo,
+    VersionManagerCapabilities,
+    VersionManagerType,
+    IVersionOperationResult,
+    VersionSpecifier,
+} from '../version-manager-types';
+import { BaseVersionManagerAdapter } from './base-adapter';
+
+/**
+ * FNM adapter implementation
+ * fnm is a fast, cross-platform Node.js version manager that switches versions on cd
+ */
+export class FnmAdapter extends BaseVersionManagerAdapter {
+  public readonly type: VersionManagerType = 'fnm';
+
+  public readonly capabilities: VersionManagerCapabilities = {
+    supportedTools: ['node'],
+    canInstall: true,
+    canUninstall: true,
+    supportsGlobal: true,
+    supportsLocal: true,
+    supportsShell: false, // `fnm use` only affects the shell fnm env was evaluated in
+    supportsAutoSwitch: true, // --use-on-cd
+    supportsLTS: true,
+    supportsRemoteList: true,
+    requiresShellIntegration: true,
+    supportedPlatforms: ['darwin', 'linux', 'win32'],
+    supportedArchitectures: ['x64', 'arm64']
+  };
+
+  private installer: VersionManagerInstaller;
+
+  constructor(platform: Platform, architecture: Architecture) {
+    super(platform, architecture);
+    this.installer = new VersionManagerInstaller(platform);
+  }
+
+  /**
+   * Install fnm itself
+   */
+  public async installManager(): Promise<IVersionOperationResult> {
+    const result = await this.installer.installVersionManager('fnm');
+
+    if (result.success) {
+      this._status = 'installed';
+    }
+
+    return {
+      success: result.success,
+      operation: 'install',
+      tool: 'node' as VersionedTool,
+      message: result.message,
+      error: result.error,
+      duration: result.duration,
+      timestamp: result.timestamp
+    };
+  }
+
+  /**
+   * fnm has no command for project versions; it reads .node-version (or .nvmrc),
+   * so pinning writes that file
+   */
+  public async setLocalVersion(
+    tool: VersionedTool,
+    version: string,
+    projectRoot?: string
+  ): Promise<IVersionOperationResult> {
+    const startTime = Date.now();
+
+    try {
+      const root = projectRoot || process.cwd();
+      await fs.writeFile(path.join(root, this.getProjectConfigFileName()), `${version}\n`, 'utf-8');
+
+      return this.createSuccessResult(
+        'local',
+        tool,
+        `Pinned ${tool} ${version} in ${this.getProjectConfigFileName()}`,
+        startTime,
+        version
+      );
+    } catch (error) {
+      return this.createErrorResult('local', tool, error, startTime);
+    }
+  }
+
+  public async switchVersion(
+    tool: VersionedTool,
+    version: string,
+    scope: 'global' | 'local' | 'shell' = 'global'
+  ): Promise<IVersionOperationResult> {
+    if (scope === 'local') {
+      return this.setLocalVersion(tool, version);
+    }
+    return super.switchVersion(tool, version, scope);
+  }
+
+  // Command generation methods
+  protected getVersionCommand(): { command: string; args: string[] } {
+    return { command: 'fnm', args: ['--version'] };
+  }
+
+  protected getListInstalledCommand(_tool: VersionedTool): { command: string; args: string[] } {
+    return { command: 'fnm', args: ['list'] };
+  }
+
+  protected getListAvailableCommand(_tool: VersionedTool): { command: string; args: string[] } {
+    return { command: 'fnm', args: ['list-remote'] };
+  }
+
+  protected getCurrentVersionCommand(_tool: VersionedTool): { command: string; args: string[] } {
+    return { command: 'fnm', args: ['current'] };
+  }
+
+  protected getInstallCommand(_tool: VersionedTool, version: string): { command: string; args: string[] } {
+    return { command: 'fnm', args: ['install', version] };
+  }
+
+  protected getUninstallCommand(_tool: VersionedTool, version: string): { command: string; args: string[] } {
+    return { command: 'fnm', args: ['uninstall', version] };
+  }
+
+  protected getSwitchCommand(
+    _tool: VersionedTool,
+    version: string,
+    _scope: 'global' | 'local' | 'shell'
+  ): { command: string; args: string[] } {
+    // Local pins are written by setLocalVersion and shell scope is unsupported,
+    // so only the default alias is switched through fnm
+    return { command: 'fnm', args: ['default', version] };
+  }
+
+  protected getInitCommand(): { command: string; args: string[] } {
+    switch (this.shellType) {
+      case 'fish':
+        return { command: 'fnm', args: ['env', '--use-on-cd', '|', 'source'] };
+      case 'powershell':
+        return { command: 'fnm', args: ['env', '--use-on-cd', '|', 'Out-String', '|', 'Invoke-Expression'] };
+      default:
+        return { command: 'eval', args: ['"$(fnm env --use-on-cd)"'] };
+    }
+  }
+
+  // Output parsing methods
+  protected parseInstalledVersions(tool: VersionedTool, output: string): IVersionInfo[] {
+    const versions: IVersionInfo[] = [];
+    const lines = output.split('\n').filter(line => line.trim());
+
+    for (const line of lines) {
+      // fnm format: "* v20.11.0 default"
+      //             "* v18.19.0"
+      //             "* system"
+      const match = line.match(/^\*?\s*v(\d+\.\d+\.\d+)(.*)$/);
+      if (match) {
+        const [, version, aliases] = match;
+        versions.push(this.createVersionInfo(tool, version, {
+          isInstalled: true,
+          isActive: /\bdefault\b/.test(aliases)
+        }));
+      }
+    }
+
+    return versions;
+  }
+
+  protected parseAvailableVersions(tool: VersionedTool, output: string): IVersionInfo[] {
+    const versions: IVersionInfo[] = [];
+    const lines = output.split('\n').filter(line => line.trim());
+
+    for (const line of lines) {
+      // fnm format: "v20.11.0 (Iron)" for LTS releases, "v21.6.1" otherwise
+      const match = line.match(/^\s*v(\d+\.\d+\.\d+)(?:\s+\(([^)]+)\))?/);
+      if (match) {
+        const [, version, ltsCodename] = match;
+        versions.push(this.createVersionInfo(tool, version, {
+          isInstalled: false,
+          isActive: false,
+          metadata: {
+            isLts: !!ltsCodename,
+            ltsCodename
+          }
+        }));
+      }
+    }
+
+    // Sort versions in descending order (newest first)
+    versions.sort((a, b) => b.major - a.major || b.minor - a.minor || b.patch - a.patch);
+
+    return versions;
+  }
+
+  protected parseCurrentVersion(tool: VersionedTool, output: string): IVersionInfo | null {
+    // fnm prints "v20.11.0", or "none"/"system" when it isn't managing the active node
+    const match = output.trim().match(/^v(\d+\.\d+\.\d+)/);
+
+    if (match) {
+      return this.createVersionInfo(tool, match[1], {
+        isInstalled: true,
+        isActive: true
+      });
+    }
+
+    return null;
+  }
+
+  protected getProjectConfigFileName(): string {
+    return '.node-version';
+  }
+
+  protected parseProjectConfig(content: string): Record<VersionedTool, VersionSpecifier> {
+    const version = content.trim().replace(/^v/, '');
+    const config: Partial<Record<VersionedTool, VersionSpecifier>> = {};
+
+    if (version) {
+      config.node = version;
+    }
+
+    return config as Record<VersionedTool, VersionSpecifier>;
+  }
+
+  protected formatProjectConfig(versions: Record<VersionedTool, VersionSpecifier>): string {
+    const nodeVersion = versions.node;
+
+    if (!nodeVersion) {
+      return '';
+    }
+
+    if (typeof nodeVersion === 'string') {
+      return nodeVersion + '\n';
+    }
+
+    return [nodeVersion.major, nodeVersion.minor, nodeVersion.patch]
+      .filter(part => part !== undefined)
+      .join('.') + '\n';
+  }
+
+  protected async getInstallationPath(): Promise<string | undefined> {
+    if (process.env.FNM_DIR) {
+      return process.env.FNM_DIR;
+    }
+
+    switch (this.platform) {
+      case 'win32':
+        return path.join(process.env.APPDATA || path.join(this.homeDir, 'AppData', 'Roaming'), 'fnm');
+      case 'darwin':
+        return path.join(this.homeDir, 'Library', 'Application Support', 'fnm');
+      default:
+        return path.join(process.env.XDG_DATA_HOME || path.join(this.homeDir, '.local', 'share'), 'fnm');
+    }
+  }
+
+  protected async getConfigPath(): Promise<string | undefined> {
+    // fnm is configured through FNM_* environment variables and flags
+    return undefined;
+  }
+
+  protected async checkAutoSwitch(): Promise<boolean> {
+    const profileFile = await this.getShellProfileFile();
+    if (!profileFile) return false;
+
+    try {
+      const content = await fs.readFile(profileFile, 'utf-8');
+      return content.includes('--use-on-cd');
+    } catch {
+      return false;
+    }
+  }
+
+  protected async getEnvironmentVariables(): Promise<Record<string, string>> {
+    const vars: Record<string, string> = {};
+
+    for (const name of ['FNM_DIR', 'FNM_NODE_DIST_MIRROR', 'FNM_VERSION_FILE_STRATEGY']) {
+      const value = process.env[name];
+      if (value) {
+        vars[name] = value;
+      }
+    }
+
+    return vars;
+  }
+}
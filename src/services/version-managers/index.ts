@@ -5,10 +5,15 @@
 
 export { AsdfAdapter } from './asdf-adapter';
 export { BaseVersionManagerAdapter } from './base-adapter';
+export { FnmAdapter } from './fnm-adapter';
+export { JenvAdapter } from './jenv-adapter';
 export { MiseAdapter } from './mise-adapter';
 export { NvmAdapter } from './nvm-adapter';
 export { PyenvAdapter } from './pyenv-adapter';
 export { RbenvAdapter } from './rbenv-adapter';
+export { RustupAdapter } from './rustup-adapter';
+export { SdkmanAdapter } from './sdkman-adapter';
+export { VoltaAdapter } from './volta-adapter';
 
 // Re-export types from version-manager-types for convenience
 export type {
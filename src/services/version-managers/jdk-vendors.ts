@@ -0,0 +1,37 @@
+/**
+ * JDK Vendors
+ * The JDK distributions offered when installing Java, and how each manager names them.
+ * Free of Node APIs so the renderer can list vendors too.
+ */
+
+import type { JdkVendor } from '../version-manager-types';
+
+export const JDK_VENDORS: Record<JdkVendor, { name: string; sdkmanDistribution: string }> = {
+  temurin: { name: 'Eclipse Temurin', sdkmanDistribution: 'tem' },
+  zulu: { name: 'Azul Zulu', sdkmanDistribution: 'zulu' },
+  corretto: { name: 'Amazon Corretto', sdkmanDistribution: 'amzn' }
+};
+
+export const DEFAULT_JDK_VENDOR: JdkVendor = 'temurin';
+
+// Java feature releases with long-term support
+export const JAVA_LTS_MAJORS = [8, 11, 17, 21, 25];
+
+/**
+ * The vendor of an SDKMAN distribution code ('tem', 'zulu', 'amzn')
+ */
+export function getVendorForSdkmanDistribution(distribution: string): JdkVendor | undefined {
+  return (Object.keys(JDK_VENDORS) as JdkVendor[])
+    .find(vendor => JDK_VENDORS[vendor].sdkmanDistribution === distribution);
+}
+
+/**
+ * The vendor of a jenv version name, e.g. 'temurin64-17.0.9' or 'zulu64-21.0.2'
+ */
+export function getVendorForJenvName(name: string): JdkVendor | undefined {
+  const prefix = name.match(/^([a-z]+?)(?:64|32)?-\d/)?.[1];
+  if (prefix === 'temurin' || prefix === 'adoptium') return 'temurin';
+  if (prefix === 'zulu') return 'zulu';
+  if (prefix === 'corretto' || prefix === 'amazon') return 'corretto';
+  return undefined;
+}
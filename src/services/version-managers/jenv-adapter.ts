@@ -0,0 +1,293 @@
+/**
+ * JEnv Version Manager Adapter
+ * Implements the unified interface for jenv - a Java version switcher.
+ * jenv doesn't download JDKs; it switches between JDKs installed by other means,
+ * which are registered with `jenv add <java home>`.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { Architecture, Platform } from '../../shared/simple-manifest-types';
+import { VersionManagerInstaller } from '../version-manager-installer';
+import type {
+    VersionedTool,
+    IVersionInfo,
+    VersionInstallOptions,
+    VersionManagerCapabilities,
+    VersionManagerType,
+    IVersionOperationResult,
+    VersionSpecifier,
+} from '../version-manager-types';
+import { EnvironmentManager } from '../workspace-configuration/environment-manager';
+import type { IEnvironmentManager } from '../workspace-configuration/types';
+import { BaseVersionManagerAdapter } from './base-adapter';
+import { getVendorForJenvName, JAVA_LTS_MAJORS } from './jdk-vendors';
+
+/**
+ * JEnv adapter implementation
+ */
+export class JenvAdapter extends BaseVersionManagerAdapter {
+  public readonly type: VersionManagerType = 'jenv';
+
+  public readonly capabilities: VersionManagerCapabilities = {
+    supportedTools: ['java'],
+    canInstall: true, // Registers an existing JDK by its home directory
+    canUninstall: true, // Unregisters; the JDK itself stays on disk
+    supportsGlobal: true,
+    supportsLocal: true,
+    supportsShell: false, // `jenv shell` needs the shell function from jenv init
+    supportsAutoSwitch: true, // .java-version
+    supportsLTS: false,
+    supportsRemoteList: false,
+    requiresShellIntegration: true,
+    supportedPlatforms: ['darwin', 'linux'],
+    supportedArchitectures: ['x64', 'arm64']
+  };
+
+  private installer: VersionManagerInstaller;
+  private environment: Pick<IEnvironmentManager, 'setEnvironmentVariable'>;
+
+  constructor(
+    platform: Platform,
+    architecture: Architecture,
+    environment: Pick<IEnvironmentManager, 'setEnvironmentVariable'> = new EnvironmentManager()
+  ) {
+    super(platform, architecture);
+    this.installer = new VersionManagerInstaller(platform);
+    this.environment = environment;
+  }
+
+  /**
+   * Install jenv itself
+   */
+  public async installManager(): Promise<IVersionOperationResult> {
+    const result = await this.installer.installVersionManager('jenv');
+
+    if (result.success) {
+      this._status = 'installed';
+    }
+
+    return {
+      success: result.success,
+      operation: 'install',
+      tool: 'java',
+      message: result.message,
+      error: result.error,
+      duration: result.duration,
+      timestamp: result.timestamp
+    };
+  }
+
+  /**
+   * Register a JDK with jenv. The "version" is the JDK's home directory, since jenv
+   * names it from the JDK's own version and vendor.
+   */
+  public async installVersion(
+    tool: VersionedTool,
+    version: VersionSpecifier,
+    options?: VersionInstallOptions
+  ): Promise<IVersionOperationResult> {
+    if (typeof version !== 'string' || !path.isAbsolute(version)) {
+      return this.createErrorResult(
+        'install',
+        tool,
+        new Error('jenv cannot download JDKs; install one with SDKMAN or a package manager and add its home directory'),
+        Date.now()
+      );
+    }
+
+    return super.installVersion(tool, version, { ...options, skipVerification: true });
+  }
+
+  /**
+   * Switch, pointing this process's JAVA_HOME at the JDK jenv now selects after a global
+   * switch so the tools it starts find the same JDK. Shells get JAVA_HOME from jenv's export
+   * plugin, so it isn't written to profiles, where each switch would add another export.
+   */
+  public async switchVersion(
+    tool: VersionedTool,
+    version: string,
+    scope: 'global' | 'local' | 'shell' = 'global'
+  ): Promise<IVersionOperationResult> {
+    const result = await super.switchVersion(tool, version, scope);
+    if (!result.success || scope !== 'global') {
+      return result;
+    }
+
+    const prefix = await this.executeCommand('jenv', ['prefix']);
+    const updated = prefix.success && prefix.stdout
+      ? await this.environment.setEnvironmentVariable('JAVA_HOME', prefix.stdout, 'user')
+      : false;
+    return updated
+      ? result
+      : { ...result, message: `${result.message}, but JAVA_HOME could not be updated` };
+  }
+
+  // Command generation methods
+  protected getVersionCommand(): { command: string; args: string[] } {
+    return { command: 'jenv', args: ['--version'] };
+  }
+
+  protected getListInstalledCommand(_tool: VersionedTool): { command: string; args: string[] } {
+    return { command: 'jenv', args: ['versions'] };
+  }
+
+  protected getListAvailableCommand(_tool: VersionedTool): { command: string; args: string[] } {
+    // Never run: listAvailable checks supportsRemoteList first
+    throw new Error('jenv cannot list remote JDKs');
+  }
+
+  protected getCurrentVersionCommand(_tool: VersionedTool): { command: string; args: string[] } {
+    return { command: 'jenv', args: ['version-name'] };
+  }
+
+  protected getInstallCommand(_tool: VersionedTool, javaHome: string): { command: string; args: string[] } {
+    return { command: 'jenv', args: ['add', javaHome] };
+  }
+
+  protected getUninstallCommand(_tool: VersionedTool, version: string): { command: string; args: string[] } {
+    return { command: 'jenv', args: ['remove', version] };
+  }
+
+  protected getSwitchCommand(
+    _tool: VersionedTool,
+    version: string,
+    scope: 'global' | 'local' | 'shell'
+  ): { command: string; args: string[] } {
+    switch (scope) {
+      case 'local':
+        return { command: 'jenv', args: ['local', version] };
+      default:
+        return { command: 'jenv', args: ['global', version] };
+    }
+  }
+
+  protected getInitCommand(): { command: string; args: string[] } {
+    switch (this.shellType) {
+      case 'fish':
+        return { command: 'jenv', args: ['init', '-', '|', 'source'] };
+      default:
+        return { command: 'eval', args: ['"$(jenv init -)"'] };
+    }
+  }
+
+  // Output parsing methods
+  protected parseInstalledVersions(tool: VersionedTool, output: string): IVersionInfo[] {
+    const versions: IVersionInfo[] = [];
+    const lines = output.split('\n').filter(line => line.trim());
+
+    for (const line of lines) {
+      // jenv format: "* 17.0.9 (set by /home/user/.jenv/version)"
+      //              "  temurin64-21.0.2"
+      //              "  system"
+      const match = line.match(/^(\*?)\s*(\S+)/);
+      if (match && match[2] !== 'system') {
+        const [, active, name] = match;
+        versions.push(this.createJdkInfo(tool, name, active === '*'));
+      }
+    }
+
+    return versions;
+  }
+
+  protected parseAvailableVersions(_tool: VersionedTool, _output: string): IVersionInfo[] {
+    return [];
+  }
+
+  protected parseCurrentVersion(tool: VersionedTool, output: string): IVersionInfo | null {
+    const name = output.trim();
+
+    if (name && name !== 'system') {
+      return this.createJdkInfo(tool, name, true);
+    }
+
+    return null;
+  }
+
+  protected getProjectConfigFileName(): string {
+    return '.java-version';
+  }
+
+  protected parseProjectConfig(content: string): Record<VersionedTool, VersionSpecifier> {
+    const version = content.trim();
+    const config: Partial<Record<VersionedTool, VersionSpecifier>> = {};
+
+    if (version) {
+      config.java = version;
+    }
+
+    return config as Record<VersionedTool, VersionSpecifier>;
+  }
+
+  protected formatProjectConfig(versions: Record<VersionedTool, VersionSpecifier>): string {
+    const javaVersion = versions.java;
+
+    if (!javaVersion) {
+      return '';
+    }
+
+    if (typeof javaVersion === 'string') {
+      return javaVersion + '\n';
+    }
+
+    return [javaVersion.major, javaVersion.minor, javaVersion.patch]
+      .filter(part => part !== undefined)
+      .join('.') + '\n';
+  }
+
+  protected async getInstallationPath(): Promise<string | undefined> {
+    return process.env.JENV_ROOT || path.join(this.homeDir, '.jenv');
+  }
+
+  protected async getConfigPath(): Promise<string | undefined> {
+    // The global version is kept in $JENV_ROOT/version
+    return path.join(await this.getInstallationPath() as string, 'version');
+  }
+
+  protected async checkShellIntegration(): Promise<boolean> {
+    const profileFile = await this.getShellProfileFile();
+    if (!profileFile) return false;
+
+    try {
+      const content = await fs.readFile(profileFile, 'utf-8');
+      return content.includes('jenv init');
+    } catch {
+      return false;
+    }
+  }
+
+  protected async getEnvironmentVariables(): Promise<Record<string, string>> {
+    const vars: Record<string, string> = {};
+
+    for (const name of ['JENV_ROOT', 'JENV_VERSION', 'JAVA_HOME']) {
+      const value = process.env[name];
+      if (value) {
+        vars[name] = value;
+      }
+    }
+
+    return vars;
+  }
+
+  // Helper methods
+
+  /**
+   * jenv registers each JDK under several aliases ('17', '17.0', '17.0.9', 'temurin64-17.0.9');
+   * the version numbers and vendor come from the name
+   */
+  private createJdkInfo(tool: VersionedTool, name: string, isActive: boolean): IVersionInfo {
+    const numeric = name.replace(/^[a-z]+(?:64|32)?-/, '').match(/^\d+(?:\.\d+){0,2}/)?.[0] ?? '0';
+    const info = this.createVersionInfo(tool, numeric, { isInstalled: true, isActive });
+    // Java 8 and older are named 1.8.x
+    const feature = info.major === 1 ? info.minor : info.major;
+
+    return {
+      ...info,
+      version: name,
+      metadata: {
+        isLts: JAVA_LTS_MAJORS.includes(feature),
+        vendor: getVendorForJenvName(name)
+      }
+    };
+  }
+}
@@ -27,7 +27,7 @@ export class MiseAdapter extends BaseVersionManagerAdapter {
       'node', 'python', 'ruby', 'java', 'go', 'rust', 'php', 'perl',
       'lua', 'elixir', 'erlang', 'julia', 'crystal', 'swift', 'scala',
       'kotlin', 'dart', 'flutter', 'deno', 'bun', 'terraform', 'cmake',
-      'zig', 'lean', 'r', 'neovim'
+      'zig', 'lean', 'r', 'neovim', 'gradle', 'maven'
     ],
     canInstall: true,
     canUninstall: true,
@@ -110,6 +110,10 @@ export class MiseAdapter extends BaseVersionManagerAdapter {
     }
   }
 
+  protected getUnsetGlobalCommand(tool: VersionedTool): { command: string; args: string[] } {
+    return { command: 'mise', args: ['unuse', '--global', tool] };
+  }
+
   protected getInitCommand(): { command: string; args: string[] } {
     switch (this.shellType) {
       case 'bash':
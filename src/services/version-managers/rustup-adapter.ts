@@ -0,0 +1,338 @@
+/**
+ * Rustup Version Manager Adapter
+ * Implements the unified interface for rustup - the official Rust toolchain installer.
+ * Versions are toolchains ('stable', 'nightly-2024-01-15', '1.75.0'); each toolchain
+ * also has its own compilation targets and components.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { Architecture, Platform } from '../../shared/simple-manifest-types';
+import { VersionManagerInstaller } from '../version-manager-installer';
+import type {
+    VersionedTool,
+    IVersionInfo,
+    VersionManagerCapabilities,
+    VersionManagerType,
+    IVersionOperationResult,
+    VersionSpecifier,
+} from '../version-manager-types';
+import { BaseVersionManagerAdapter } from './base-adapter';
+
+// Host triple rustup appends to toolchain names, e.g. 'stable-x86_64-unknown-linux-gnu'
+const HOST_TRIPLE_SUFFIX = /-(x86_64|aarch64|i686|armv7|arm|riscv64gc|powerpc64le|s390x)-[\w-]+$/;
+
+// Targets, components and toolchains are passed to rustup as arguments
+const RUSTUP_NAME = /^[A-Za-z0-9][\w.-]*$/;
+
+/**
+ * Rustup adapter implementation
+ */
+export class RustupAdapter extends BaseVersionManagerAdapter {
+  public readonly type: VersionManagerType = 'rustup';
+
+  public readonly capabilities: VersionManagerCapabilities = {
+    supportedTools: ['rust'],
+    canInstall: true,
+    canUninstall: true,
+    supportsGlobal: true,
+    supportsLocal: true,
+    supportsShell: false, // RUSTUP_TOOLCHAIN has to be set by the shell itself
+    supportsAutoSwitch: true, // rust-toolchain.toml and directory overrides
+    supportsLTS: false,
+    supportsRemoteList: false, // Release channels are resolved by rustup on install
+    requiresShellIntegration: this.platform !== 'win32',
+    supportedPlatforms: ['darwin', 'linux', 'win32'],
+    supportedArchitectures: ['x64', 'arm64']
+  };
+
+  private installer: VersionManagerInstaller;
+
+  constructor(platform: Platform, architecture: Architecture) {
+    super(platform, architecture);
+    this.installer = new VersionManagerInstaller(platform);
+  }
+
+  /**
+   * Install rustup itself, which also installs the stable toolchain
+   */
+  public async installManager(): Promise<IVersionOperationResult> {
+    const result = await this.installer.installVersionManager('rustup');
+
+    if (result.success) {
+      this._status = 'installed';
+    }
+
+    return {
+      success: result.success,
+      operation: 'install',
+      tool: 'rust',
+      message: result.message,
+      error: result.error,
+      duration: result.duration,
+      timestamp: result.timestamp
+    };
+  }
+
+  /**
+   * Compilation targets installed for a toolchain (the active one by default)
+   */
+  public async listTargets(toolchain?: string): Promise<string[]> {
+    return this.listInstalledNames('target', toolchain);
+  }
+
+  public async addTarget(target: string, toolchain?: string): Promise<IVersionOperationResult> {
+    return this.runToolchainCommand('install', ['target', 'add', target], toolchain, `Added target ${target}`);
+  }
+
+  public async removeTarget(target: string, toolchain?: string): Promise<IVersionOperationResult> {
+    return this.runToolchainCommand('uninstall', ['target', 'remove', target], toolchain, `Removed target ${target}`);
+  }
+
+  /**
+   * Components (clippy, rustfmt, rust-src, ...) installed for a toolchain (the active one by default)
+   */
+  public async listComponents(toolchain?: string): Promise<string[]> {
+    return this.listInstalledNames('component', toolchain);
+  }
+
+  public async addComponent(component: string, toolchain?: string): Promise<IVersionOperationResult> {
+    return this.runToolchainCommand('install', ['component', 'add', component], toolchain, `Added component ${component}`);
+  }
+
+  public async removeComponent(component: string, toolchain?: string): Promise<IVersionOperationResult> {
+    return this.runToolchainCommand('uninstall', ['component', 'remove', component], toolchain, `Removed component ${component}`);
+  }
+
+  // Command generation methods
+  protected getVersionCommand(): { command: string; args: string[] } {
+    return { command: 'rustup', args: ['--version'] };
+  }
+
+  protected getListInstalledCommand(_tool: VersionedTool): { command: string; args: string[] } {
+    return { command: 'rustup', args: ['toolchain', 'list'] };
+  }
+
+  protected getListAvailableCommand(_tool: VersionedTool): { command: string; args: string[] } {
+    // Never run: listAvailable checks supportsRemoteList first
+    throw new Error('rustup cannot list remote toolchains');
+  }
+
+  protected getCurrentVersionCommand(_tool: VersionedTool): { command: string; args: string[] } {
+    return { command: 'rustup', args: ['show', 'active-toolchain'] };
+  }
+
+  protected getInstallCommand(_tool: VersionedTool, version: string): { command: string; args: string[] } {
+    return { command: 'rustup', args: ['toolchain', 'install', version] };
+  }
+
+  protected getUninstallCommand(_tool: VersionedTool, version: string): { command: string; args: string[] } {
+    return { command: 'rustup', args: ['toolchain', 'uninstall', version] };
+  }
+
+  protected getSwitchCommand(
+    _tool: VersionedTool,
+    version: string,
+    scope: 'global' | 'local' | 'shell'
+  ): { command: string; args: string[] } {
+    switch (scope) {
+      case 'local':
+        // Directory override for this machine; rust-toolchain.toml is the shared pin
+        return { command: 'rustup', args: ['override', 'set', version] };
+      default:
+        return { command: 'rustup', args: ['default', version] };
+    }
+  }
+
+  protected getInitCommand(): { command: string; args: string[] } {
+    switch (this.shellType) {
+      case 'fish':
+        return { command: 'source', args: ['"$HOME/.cargo/env.fish"'] };
+      default:
+        return { command: '.', args: ['"$HOME/.cargo/env"'] };
+    }
+  }
+
+  // Output parsing methods
+  protected parseInstalledVersions(tool: VersionedTool, output: string): IVersionInfo[] {
+    const versions: IVersionInfo[] = [];
+    const lines = output.split('\n').filter(line => line.trim());
+
+    for (const line of lines) {
+      // rustup format: "stable-x86_64-unknown-linux-gnu (active, default)"
+      //                "nightly-2024-01-15-x86_64-unknown-linux-gnu"
+      //                "1.75.0-x86_64-unknown-linux-gnu (default)"
+      const match = line.trim().match(/^(\S+)(?:\s+\(([^)]*)\))?/);
+      if (match && !line.startsWith('no installed toolchains')) {
+        const [, toolchain, labels = ''] = match;
+        versions.push(this.createToolchainInfo(tool, toolchain, {
+          isInstalled: true,
+          isActive: /\b(active|default)\b/.test(labels)
+        }));
+      }
+    }
+
+    return versions;
+  }
+
+  protected parseAvailableVersions(_tool: VersionedTool, _output: string): IVersionInfo[] {
+    return [];
+  }
+
+  protected parseCurrentVersion(tool: VersionedTool, output: string): IVersionInfo | null {
+    // rustup format: "stable-x86_64-unknown-linux-gnu (default)"
+    const toolchain = output.trim().split(/\s+/)[0];
+
+    if (toolchain) {
+      return this.createToolchainInfo(tool, toolchain, {
+        isInstalled: true,
+        isActive: true
+      });
+    }
+
+    return null;
+  }
+
+  protected getProjectConfigFileName(): string {
+    return 'rust-toolchain.toml';
+  }
+
+  protected parseProjectConfig(content: string): Record<VersionedTool, VersionSpecifier> {
+    const config: Partial<Record<VersionedTool, VersionSpecifier>> = {};
+
+    // [toolchain]
+    // channel = "1.75.0"
+    const channel = content.match(/^\s*channel\s*=\s*["']([^"']+)["']/m)?.[1];
+    if (channel) {
+      config.rust = channel;
+    }
+
+    return config as Record<VersionedTool, VersionSpecifier>;
+  }
+
+  protected formatProjectConfig(versions: Record<VersionedTool, VersionSpecifier>): string {
+    const rustVersion = versions.rust;
+
+    if (!rustVersion) {
+      return '';
+    }
+
+    const channel = typeof rustVersion === 'string'
+      ? rustVersion
+      : [rustVersion.major, rustVersion.minor, rustVersion.patch].filter(part => part !== undefined).join('.');
+
+    return `[toolchain]\nchannel = "${channel}"\n`;
+  }
+
+  protected async resolveVersionSpecifier(
+    _tool: VersionedTool,
+    version: VersionSpecifier
+  ): Promise<string> {
+    // rustup resolves channels and partial versions ('1.75') itself
+    if (typeof version === 'string') {
+      return version === 'latest' ? 'stable' : version;
+    }
+
+    return [version.major, version.minor, version.patch]
+      .filter(part => part !== undefined)
+      .join('.') || 'stable';
+  }
+
+  protected async getInstallationPath(): Promise<string | undefined> {
+    return process.env.RUSTUP_HOME || path.join(this.homeDir, '.rustup');
+  }
+
+  protected async getConfigPath(): Promise<string | undefined> {
+    return path.join(await this.getInstallationPath() as string, 'settings.toml');
+  }
+
+  protected async checkShellIntegration(): Promise<boolean> {
+    if (this.platform === 'win32') {
+      // rustup-init adds cargo's bin directory to the user PATH on Windows
+      return true;
+    }
+
+    const profileFile = await this.getShellProfileFile();
+    if (!profileFile) return false;
+
+    try {
+      const content = await fs.readFile(profileFile, 'utf-8');
+      return content.includes('.cargo/env') || content.includes('.cargo/bin');
+    } catch {
+      return false;
+    }
+  }
+
+  protected async getEnvironmentVariables(): Promise<Record<string, string>> {
+    const vars: Record<string, string> = {};
+
+    for (const name of ['RUSTUP_HOME', 'CARGO_HOME', 'RUSTUP_TOOLCHAIN']) {
+      const value = process.env[name];
+      if (value) {
+        vars[name] = value;
+      }
+    }
+
+    return vars;
+  }
+
+  protected async getAdditionalOptions(): Promise<Record<string, unknown>> {
+    return {
+      targets: await this.listTargets().catch(() => []),
+      components: await this.listComponents().catch(() => [])
+    };
+  }
+
+  // Helper methods
+
+  /**
+   * Toolchain names without the host triple; channel names parse as version 0.0.0
+   */
+  private createToolchainInfo(
+    tool: VersionedTool,
+    toolchain: string,
+    options: { isInstalled: boolean; isActive: boolean }
+  ): IVersionInfo {
+    const name = toolchain.replace(HOST_TRIPLE_SUFFIX, '');
+    return this.createVersionInfo(tool, name, { ...options, installPath: toolchain });
+  }
+
+  private async listInstalledNames(kind: 'target' | 'component', toolchain?: string): Promise<string[]> {
+    const args = [kind, 'list', '--installed', ...(toolchain ? ['--toolchain', toolchain] : [])];
+    const result = await this.executeCommand('rustup', args);
+
+    if (!result.success) {
+      throw new Error(`Failed to list installed ${kind}s: ${result.stderr}`);
+    }
+
+    return result.stdout.split('\n').map(line => line.trim()).filter(Boolean);
+  }
+
+  private async runToolchainCommand(
+    operation: IVersionOperationResult['operation'],
+    args: string[],
+    toolchain: string | undefined,
+    message: string
+  ): Promise<IVersionOperationResult> {
+    const startTime = Date.now();
+
+    try {
+      const name = args[2];
+      if (!RUSTUP_NAME.test(name) || (toolchain !== undefined && !RUSTUP_NAME.test(toolchain))) {
+        throw new Error(`Invalid rustup ${args[0]} or toolchain name`);
+      }
+
+      const result = await this.executeCommand('rustup', [...args, ...(toolchain ? ['--toolchain', toolchain] : [])], {
+        timeout: 300000 // Targets download a standard library
+      });
+
+      if (!result.success) {
+        throw new Error(result.stderr || `rustup ${args.join(' ')} failed`);
+      }
+
+      return this.createSuccessResult(operation, 'rust', toolchain ? `${message} for ${toolchain}` : message, startTime);
+    } catch (error) {
+      return this.createErrorResult(operation, 'rust', error, startTime);
+    }
+  }
+}
@@ -0,0 +1,404 @@
+/**
+ * SDKMAN Version Manager Adapter
+ * Implements the unified interface for SDKMAN - the JVM ecosystem SDK manager.
+ * Besides Java it manages Gradle, Maven, Kotlin and Scala ("candidates").
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { Architecture, Platform } from '../../shared/simple-manifest-types';
+import { VersionManagerInstaller } from '../version-manager-installer';
+import type {
+    JdkVendor,
+    VersionedTool,
+    IVersionInfo,
+    VersionManagerCapabilities,
+    VersionManagerType,
+    IVersionOperationResult,
+    VersionSpecifier,
+} from '../version-manager-types';
+import { EnvironmentManager } from '../workspace-configuration/environment-manager';
+import type { IEnvironmentManager } from '../workspace-configuration/types';
+import { BaseVersionManagerAdapter } from './base-adapter';
+import { DEFAULT_JDK_VENDOR, getVendorForSdkmanDistribution, JAVA_LTS_MAJORS, JDK_VENDORS } from './jdk-vendors';
+
+/**
+ * SDKMAN adapter implementation
+ * `sdk` is a shell function, so every command runs through bash after sourcing sdkman-init.sh
+ */
+export class SdkmanAdapter extends BaseVersionManagerAdapter {
+  public readonly type: VersionManagerType = 'sdkman';
+
+  public readonly capabilities: VersionManagerCapabilities = {
+    supportedTools: ['java', 'gradle', 'maven', 'kotlin', 'scala'],
+    canInstall: true,
+    canUninstall: true,
+    supportsGlobal: true,
+    supportsLocal: true,
+    supportsShell: false, // `sdk use` only affects the shell it runs in
+    supportsAutoSwitch: true, // sdkman_auto_env with .sdkmanrc
+    supportsLTS: true, // Java only
+    supportsRemoteList: true,
+    requiresShellIntegration: true,
+    supportedPlatforms: ['darwin', 'linux'],
+    supportedArchitectures: ['x64', 'arm64']
+  };
+
+  private installer: VersionManagerInstaller;
+  private environment: Pick<IEnvironmentManager, 'setEnvironmentVariable'>;
+  private jdkVendor: JdkVendor = DEFAULT_JDK_VENDOR;
+
+  constructor(
+    platform: Platform,
+    architecture: Architecture,
+    environment: Pick<IEnvironmentManager, 'setEnvironmentVariable'> = new EnvironmentManager()
+  ) {
+    super(platform, architecture);
+    this.installer = new VersionManagerInstaller(platform);
+    this.environment = environment;
+  }
+
+  /**
+   * Install SDKMAN itself
+   */
+  public async installManager(): Promise<IVersionOperationResult> {
+    const result = await this.installer.installVersionManager('sdkman');
+
+    if (result.success) {
+      this._status = 'installed';
+    }
+
+    return {
+      success: result.success,
+      operation: 'install',
+      tool: 'java',
+      message: result.message,
+      error: result.error,
+      duration: result.duration,
+      timestamp: result.timestamp
+    };
+  }
+
+  /**
+   * Vendor used when Java is requested without one ('lts', 'latest', '21')
+   */
+  public setJdkVendor(vendor: JdkVendor): void {
+    this.jdkVendor = vendor;
+  }
+
+  /**
+   * Switch, pointing JAVA_HOME at SDKMAN's current Java after a global Java switch
+   * so tools started outside a shell find the same JDK
+   */
+  public async switchVersion(
+    tool: VersionedTool,
+    version: string,
+    scope: 'global' | 'local' | 'shell' = 'global'
+  ): Promise<IVersionOperationResult> {
+    if (scope === 'local') {
+      return this.setLocalVersion(tool, version);
+    }
+
+    const result = await super.switchVersion(tool, version, scope);
+    if (!result.success || tool !== 'java') {
+      return result;
+    }
+
+    const javaHome = path.join(this.getSdkmanDir(), 'candidates', 'java', 'current');
+    const updated = await this.environment.setEnvironmentVariable('JAVA_HOME', javaHome, 'user', true);
+    return updated
+      ? result
+      : { ...result, message: `${result.message}, but JAVA_HOME could not be updated` };
+  }
+
+  /**
+   * Pin a candidate in the project's .sdkmanrc, keeping its other entries
+   */
+  public async setLocalVersion(
+    tool: VersionedTool,
+    version: string,
+    projectRoot?: string
+  ): Promise<IVersionOperationResult> {
+    const startTime = Date.now();
+
+    try {
+      const configFile = path.join(projectRoot || process.cwd(), this.getProjectConfigFileName());
+      const existing = await fs.readFile(configFile, 'utf-8').catch(() => '');
+      const versions = { ...this.parseProjectConfig(existing), [tool]: version };
+      await fs.writeFile(configFile, this.formatProjectConfig(versions), 'utf-8');
+
+      return this.createSuccessResult('local', tool, `Pinned ${tool} ${version} in .sdkmanrc`, startTime, version);
+    } catch (error) {
+      return this.createErrorResult('local', tool, error, startTime);
+    }
+  }
+
+  // Command generation methods
+  protected getVersionCommand(): { command: string; args: string[] } {
+    return this.sdk(['version']);
+  }
+
+  protected getListInstalledCommand(tool: VersionedTool): { command: string; args: string[] } {
+    return this.sdk(['list', tool]);
+  }
+
+  protected getListAvailableCommand(tool: VersionedTool): { command: string; args: string[] } {
+    return this.sdk(['list', tool]);
+  }
+
+  protected getCurrentVersionCommand(tool: VersionedTool): { command: string; args: string[] } {
+    return this.sdk(['current', tool]);
+  }
+
+  protected getInstallCommand(tool: VersionedTool, version: string): { command: string; args: string[] } {
+    // Decline "set as default?" so installing doesn't switch, like other managers
+    return this.sdk(['install', tool, version], 'n');
+  }
+
+  protected getUninstallCommand(tool: VersionedTool, version: string): { command: string; args: string[] } {
+    return this.sdk(['uninstall', tool, version, '--force']);
+  }
+
+  protected getSwitchCommand(
+    tool: VersionedTool,
+    version: string,
+    _scope: 'global' | 'local' | 'shell'
+  ): { command: string; args: string[] } {
+    // Local pins are written by setLocalVersion and shell scope is unsupported
+    return this.sdk(['default', tool, version]);
+  }
+
+  protected getInitCommand(): { command: string; args: string[] } {
+    return { command: 'source', args: [`"${this.getSdkmanDir()}/bin/sdkman-init.sh"`] };
+  }
+
+  // Output parsing methods
+  protected parseInstalledVersions(tool: VersionedTool, output: string): IVersionInfo[] {
+    return this.parseVersionList(tool, output).filter(version => version.isInstalled);
+  }
+
+  protected parseAvailableVersions(tool: VersionedTool, output: string): IVersionInfo[] {
+    const versions = this.parseVersionList(tool, output);
+
+    // Newest first; SDKMAN groups Java by vendor
+    return [...versions].sort((a, b) => b.major - a.major || b.minor - a.minor || b.patch - a.patch);
+  }
+
+  protected parseCurrentVersion(tool: VersionedTool, output: string): IVersionInfo | null {
+    // SDKMAN format: "Using java version 21.0.2-tem"
+    const match = output.match(/^Using \S+ version (\S+)/m);
+
+    if (match) {
+      return this.createCandidateInfo(tool, match[1], { isInstalled: true, isActive: true });
+    }
+
+    return null;
+  }
+
+  protected getProjectConfigFileName(): string {
+    return '.sdkmanrc';
+  }
+
+  protected parseProjectConfig(content: string): Record<VersionedTool, VersionSpecifier> {
+    const config: Partial<Record<VersionedTool, VersionSpecifier>> = {};
+
+    // .sdkmanrc format: "java=21.0.2-tem", one candidate per line, '#' comments
+    for (const line of content.split('\n')) {
+      const match = line.trim().match(/^([a-z]+)\s*=\s*(\S+)$/);
+      if (match && this.capabilities.supportedTools.includes(match[1] as VersionedTool)) {
+        config[match[1] as VersionedTool] = match[2];
+      }
+    }
+
+    return config as Record<VersionedTool, VersionSpecifier>;
+  }
+
+  protected formatProjectConfig(versions: Record<VersionedTool, VersionSpecifier>): string {
+    const lines = ['# Enable auto-env through the sdkman_auto_env config'];
+
+    for (const [tool, version] of Object.entries(versions)) {
+      if (!version) continue;
+      const value = typeof version === 'string'
+        ? version
+        : [version.major, version.minor, version.patch].filter(part => part !== undefined).join('.');
+      lines.push(`${tool}=${value}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Java needs a full identifier such as '21.0.2-tem'; versions without a vendor
+   * resolve to the newest matching release of the chosen vendor
+   */
+  protected async resolveVersionSpecifier(
+    tool: VersionedTool,
+    version: VersionSpecifier
+  ): Promise<string> {
+    if (typeof version === 'string' && version === 'system') {
+      return version;
+    }
+    if (typeof version === 'string' && !['latest', 'lts'].includes(version) && (tool !== 'java' || version.includes('-'))) {
+      return version;
+    }
+
+    const candidates = (await this.listAvailable(tool))
+      .filter(candidate => !candidate.prerelease)
+      .filter(candidate => tool !== 'java' || candidate.metadata?.vendor === this.jdkVendor);
+
+    const matching = candidates.filter(candidate => {
+      if (version === 'latest') return true;
+      if (version === 'lts') return candidate.metadata?.isLts;
+      const wanted = typeof version === 'string'
+        ? version.split('.').map(part => parseInt(part, 10))
+        : [version.major, version.minor, version.patch];
+      const actual = [candidate.major, candidate.minor, candidate.patch];
+      return wanted.every((part, index) => part === undefined || part === actual[index]);
+    });
+
+    if (matching.length === 0) {
+      const vendor = tool === 'java' ? ` from ${JDK_VENDORS[this.jdkVendor].name}` : '';
+      throw new Error(`No ${tool} version matching ${typeof version === 'string' ? version : JSON.stringify(version)}${vendor}`);
+    }
+
+    return matching[0].version;
+  }
+
+  protected async getInstallationPath(): Promise<string | undefined> {
+    return this.getSdkmanDir();
+  }
+
+  protected async getConfigPath(): Promise<string | undefined> {
+    return path.join(this.getSdkmanDir(), 'etc', 'config');
+  }
+
+  protected async checkShellIntegration(): Promise<boolean> {
+    const profileFile = await this.getShellProfileFile();
+    if (!profileFile) return false;
+
+    try {
+      const content = await fs.readFile(profileFile, 'utf-8');
+      return content.includes('sdkman-init.sh');
+    } catch {
+      return false;
+    }
+  }
+
+  protected async getEnvironmentVariables(): Promise<Record<string, string>> {
+    const vars: Record<string, string> = {};
+
+    for (const name of ['SDKMAN_DIR', 'JAVA_HOME', 'GRADLE_HOME', 'MAVEN_HOME']) {
+      const value = process.env[name];
+      if (value) {
+        vars[name] = value;
+      }
+    }
+
+    return vars;
+  }
+
+  protected async getAdditionalOptions(): Promise<Record<string, unknown>> {
+    return { jdkVendor: this.jdkVendor };
+  }
+
+  // Helper methods
+
+  private getSdkmanDir(): string {
+    return process.env.SDKMAN_DIR || path.join(this.homeDir, '.sdkman');
+  }
+
+  /**
+   * Run `sdk` in bash with each argument single-quoted, optionally answering its prompt
+   */
+  private sdk(args: string[], answer?: string): { command: string; args: string[] } {
+    const quoted = args.map(arg => `'${arg.replace(/'/g, `'\\''`)}'`).join(' ');
+    const input = answer ? `echo ${answer} | ` : '';
+    const script = `export PAGER=cat; source "${this.getSdkmanDir()}/bin/sdkman-init.sh" && ${input}sdk ${quoted}`;
+    return { command: 'bash', args: ['-c', script] };
+  }
+
+  /**
+   * Parse `sdk list`: a vendor table for Java, a grid of versions for other candidates
+   */
+  private parseVersionList(tool: VersionedTool, output: string): IVersionInfo[] {
+    return tool === 'java' ? this.parseJavaTable(output) : this.parseCandidateGrid(tool, output);
+  }
+
+  private parseJavaTable(output: string): IVersionInfo[] {
+    const versions: IVersionInfo[] = [];
+
+    for (const line of output.split('\n')) {
+      // " Temurin       | >>> | 21.0.2       | tem     | installed  | 21.0.2-tem"
+      // "               |     | 17.0.10      | tem     |            | 17.0.10-tem"
+      const columns = line.split('|').map(column => column.trim());
+      if (columns.length !== 6 || columns[5] === 'Identifier' || !columns[5]) {
+        continue;
+      }
+
+      const [, use, , distribution, status, identifier] = columns;
+      versions.push(this.createCandidateInfo('java', identifier, {
+        isInstalled: /installed|local only/.test(status),
+        isActive: use.includes('>>>'),
+        distribution
+      }));
+    }
+
+    return versions;
+  }
+
+  private parseCandidateGrid(tool: VersionedTool, output: string): IVersionInfo[] {
+    const versions: IVersionInfo[] = [];
+
+    for (const line of output.split('\n')) {
+      // " > * 8.6                 8.0.2               7.4.2"
+      // "     8.5                 8.0.1               7.4.1"
+      if (/^[=-]+$/.test(line.trim()) || /Available|local version|installed|in use/.test(line)) {
+        continue;
+      }
+
+      let markers: string[] = [];
+      for (const token of line.trim().split(/\s+/)) {
+        if (['>', '*', '+'].includes(token)) {
+          markers.push(token);
+        } else if (/^\d[\w.-]*$/.test(token)) {
+          versions.push(this.createCandidateInfo(tool, token, {
+            isInstalled: markers.includes('*') || markers.includes('+'),
+            isActive: markers.includes('>')
+          }));
+          markers = [];
+        } else {
+          markers = [];
+        }
+      }
+    }
+
+    return versions;
+  }
+
+  /**
+   * Version info for an SDKMAN identifier. Java identifiers end in the vendor's
+   * distribution ('21.0.2-tem'), which isn't a pre-release.
+   */
+  private createCandidateInfo(
+    tool: VersionedTool,
+    identifier: string,
+    options: { isInstalled: boolean; isActive: boolean; distribution?: string }
+  ): IVersionInfo {
+    const distribution = options.distribution ?? (tool === 'java' ? identifier.split('-').pop() : undefined);
+    const numeric = identifier.match(/^\d+(?:\.\d+){0,2}/)?.[0] ?? '0';
+    const info = this.createVersionInfo(tool, numeric, { isInstalled: options.isInstalled, isActive: options.isActive });
+    const prerelease = identifier.match(/[.-](ea|rc|alpha|beta|M\d+)\b/i)?.[1];
+
+    return {
+      ...info,
+      version: identifier,
+      prerelease,
+      metadata: tool === 'java'
+        ? {
+          isLts: JAVA_LTS_MAJORS.includes(info.major),
+          vendor: distribution ? getVendorForSdkmanDistribution(distribution) : undefined
+        }
+        : undefined
+    };
+  }
+}
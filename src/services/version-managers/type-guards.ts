@@ -311,7 +311,8 @@ function isValidVersionedTool(value: string): value is VersionedTool {
   const validTools: VersionedTool[] = [
     'node', 'python', 'ruby', 'java', 'go', 'rust', 'php', 'perl', 'lua',
     'elixir', 'erlang', 'julia', 'crystal', 'swift', 'scala', 'kotlin',
-    'dart', 'flutter', 'deno', 'bun', 'terraform', 'cmake', 'zig', 'lean', 'r', 'neovim'
+    'dart', 'flutter', 'deno', 'bun', 'terraform', 'cmake', 'zig', 'lean', 'r', 'neovim',
+    'gradle', 'maven'
   ];
   return validTools.includes(value as VersionedTool);
 }
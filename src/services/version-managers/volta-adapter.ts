@@ -0,0 +1,292 @@
+/**
+ * Volta Version Manager Adapter
+ * Implements the unified interface for Volta - the JavaScript toolchain manager
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { Architecture, Platform } from '../../shared/simple-manifest-types';
+import { VersionManagerInstaller } from '../version-manager-installer';
+import type {
+    ProjectVersionConfig,
+    VersionedTool,
+    IVersionInfo,
+    VersionInstallOptions,
+    VersionManagerCapabilities,
+    VersionManagerType,
+    IVersionOperationResult,
+    VersionSpecifier,
+} from '../version-manager-types';
+import { BaseVersionManagerAdapter } from './base-adapter';
+
+/**
+ * Volta adapter implementation
+ * Volta keeps the default Node.js in its own toolchain and pins projects in package.json
+ */
+export class VoltaAdapter extends BaseVersionManagerAdapter {
+  public readonly type: VersionManagerType = 'volta';
+
+  public readonly capabilities: VersionManagerCapabilities = {
+    supportedTools: ['node'],
+    canInstall: true,
+    canUninstall: false, // Volta can't remove fetched Node.js runtimes
+    supportsGlobal: true,
+    supportsLocal: true,
+    supportsShell: false,
+    supportsAutoSwitch: true, // Volta's shims follow the project's pin
+    supportsLTS: true,
+    supportsRemoteList: false, // Volta resolves versions itself but can't list them
+    requiresShellIntegration: this.platform !== 'win32',
+    supportedPlatforms: ['darwin', 'linux', 'win32'],
+    supportedArchitectures: ['x64', 'arm64']
+  };
+
+  private installer: VersionManagerInstaller;
+
+  constructor(platform: Platform, architecture: Architecture) {
+    super(platform, architecture);
+    this.installer = new VersionManagerInstaller(platform);
+  }
+
+  /**
+   * Install Volta itself
+   */
+  public async installManager(): Promise<IVersionOperationResult> {
+    const result = await this.installer.installVersionManager('volta');
+
+    if (result.success) {
+      this._status = 'installed';
+    }
+
+    return {
+      success: result.success,
+      operation: 'install',
+      tool: 'node' as VersionedTool,
+      message: result.message,
+      error: result.error,
+      duration: result.duration,
+      timestamp: result.timestamp
+    };
+  }
+
+  /**
+   * Volta resolves 'lts', 'latest' and partial versions on fetch, so only exact
+   * versions can be verified against the installed list
+   */
+  public async installVersion(
+    tool: VersionedTool,
+    version: VersionSpecifier,
+    options?: VersionInstallOptions
+  ): Promise<IVersionOperationResult> {
+    const isExact = typeof version === 'string' && /^v?\d+\.\d+\.\d+$/.test(version);
+    return super.installVersion(tool, version, {
+      ...options,
+      skipVerification: options?.skipVerification || !isExact
+    });
+  }
+
+  /**
+   * Pin through `volta pin` so the rest of package.json is left alone
+   */
+  public async setProjectConfig(config: ProjectVersionConfig): Promise<IVersionOperationResult> {
+    const startTime = Date.now();
+    const nodeVersion = config.versions.node;
+
+    try {
+      if (!nodeVersion) {
+        throw new Error('Volta can only pin node in package.json');
+      }
+
+      const version = await this.resolveVersionSpecifier('node', nodeVersion);
+      const result = await this.executeCommand('volta', ['pin', `node@${version}`], {
+        workingDirectory: config.projectRoot
+      });
+
+      if (!result.success) {
+        throw new Error(result.stderr || 'volta pin failed');
+      }
+
+      return this.createSuccessResult('local', 'node', `Pinned node ${version} in package.json`, startTime, version);
+    } catch (error) {
+      return this.createErrorResult('local', 'node', error, startTime);
+    }
+  }
+
+  // Command generation methods
+  protected getVersionCommand(): { command: string; args: string[] } {
+    return { command: 'volta', args: ['--version'] };
+  }
+
+  protected getListInstalledCommand(_tool: VersionedTool): { command: string; args: string[] } {
+    return { command: 'volta', args: ['list', 'node', '--format', 'plain'] };
+  }
+
+  protected getListAvailableCommand(_tool: VersionedTool): { command: string; args: string[] } {
+    // Never run: listAvailable checks supportsRemoteList first
+    throw new Error('Volta cannot list remote Node.js versions');
+  }
+
+  protected getCurrentVersionCommand(_tool: VersionedTool): { command: string; args: string[] } {
+    return { command: 'volta', args: ['list', 'node', '--current', '--format', 'plain'] };
+  }
+
+  protected getInstallCommand(_tool: VersionedTool, version: string): { command: string; args: string[] } {
+    // fetch caches the runtime without changing the default, like other managers' install
+    return { command: 'volta', args: ['fetch', `node@${version}`] };
+  }
+
+  protected getUninstallCommand(_tool: VersionedTool, _version: string): { command: string; args: string[] } {
+    // Never run: uninstallVersion checks canUninstall first
+    throw new Error('Volta cannot uninstall Node.js runtimes');
+  }
+
+  protected getSwitchCommand(
+    _tool: VersionedTool,
+    version: string,
+    scope: 'global' | 'local' | 'shell'
+  ): { command: string; args: string[] } {
+    switch (scope) {
+      case 'local':
+        return { command: 'volta', args: ['pin', `node@${version}`] };
+      default:
+        return { command: 'volta', args: ['install', `node@${version}`] };
+    }
+  }
+
+  protected getInitCommand(): { command: string; args: string[] } {
+    // volta setup adds VOLTA_HOME and its bin directory to the shell profiles itself
+    return { command: 'volta', args: ['setup'] };
+  }
+
+  // Output parsing methods
+  protected parseInstalledVersions(tool: VersionedTool, output: string): IVersionInfo[] {
+    const versions: IVersionInfo[] = [];
+    const lines = output.split('\n').filter(line => line.trim());
+
+    for (const line of lines) {
+      // Volta plain format: "runtime node@20.11.0 (default)"
+      //                     "runtime node@18.19.0"
+      const match = line.match(/^\s*runtime\s+node@(\d+\.\d+\.\d+)(.*)$/);
+      if (match) {
+        const [, version, label] = match;
+        versions.push(this.createVersionInfo(tool, version, {
+          isInstalled: true,
+          isActive: /\((default|current)\b/.test(label)
+        }));
+      }
+    }
+
+    return versions;
+  }
+
+  protected parseAvailableVersions(_tool: VersionedTool, _output: string): IVersionInfo[] {
+    return [];
+  }
+
+  protected parseCurrentVersion(tool: VersionedTool, output: string): IVersionInfo | null {
+    const match = output.match(/runtime\s+node@(\d+\.\d+\.\d+)/);
+
+    if (match) {
+      return this.createVersionInfo(tool, match[1], {
+        isInstalled: true,
+        isActive: true
+      });
+    }
+
+    return null;
+  }
+
+  protected getProjectConfigFileName(): string {
+    return 'package.json';
+  }
+
+  protected parseProjectConfig(content: string): Record<VersionedTool, VersionSpecifier> {
+    const config: Partial<Record<VersionedTool, VersionSpecifier>> = {};
+
+    try {
+      const packageJson = JSON.parse(content) as { volta?: { node?: string } };
+      if (packageJson.volta?.node) {
+        config.node = packageJson.volta.node;
+      }
+    } catch {
+      // Not valid JSON - nothing pinned
+    }
+
+    return config as Record<VersionedTool, VersionSpecifier>;
+  }
+
+  protected formatProjectConfig(versions: Record<VersionedTool, VersionSpecifier>): string {
+    const nodeVersion = versions.node;
+    const node = typeof nodeVersion === 'string'
+      ? nodeVersion
+      : [nodeVersion?.major, nodeVersion?.minor, nodeVersion?.patch].filter(part => part !== undefined).join('.');
+
+    return JSON.stringify({ volta: { node } }, null, 2) + '\n';
+  }
+
+  protected async resolveVersionSpecifier(
+    _tool: VersionedTool,
+    version: VersionSpecifier
+  ): Promise<string> {
+    // Volta understands 'lts', 'latest' and partial versions such as '20' or '20.11'
+    if (typeof version === 'string') {
+      return version.replace(/^v/, '');
+    }
+
+    return [version.major, version.minor, version.patch]
+      .filter(part => part !== undefined)
+      .join('.') || 'latest';
+  }
+
+  protected async getInstallationPath(): Promise<string | undefined> {
+    if (process.env.VOLTA_HOME) {
+      return process.env.VOLTA_HOME;
+    }
+
+    return this.platform === 'win32'
+      ? path.join(process.env.LOCALAPPDATA || path.join(this.homeDir, 'AppData', 'Local'), 'Volta')
+      : path.join(this.homeDir, '.volta');
+  }
+
+  protected async getConfigPath(): Promise<string | undefined> {
+    // Volta has no user-editable config; the default toolchain lives in its home
+    return undefined;
+  }
+
+  protected async checkShellIntegration(): Promise<boolean> {
+    if (this.platform === 'win32') {
+      // The Windows installer puts Volta on PATH
+      return true;
+    }
+
+    const profileFile = await this.getShellProfileFile();
+    if (!profileFile) return false;
+
+    try {
+      const content = await fs.readFile(profileFile, 'utf-8');
+      return content.includes('VOLTA_HOME');
+    } catch {
+      return false;
+    }
+  }
+
+  protected async updateShellIntegration(enabled: boolean): Promise<void> {
+    // volta setup edits the profiles itself; there is no command to undo it
+    if (enabled) {
+      const result = await this.executeCommand('volta', ['setup']);
+      if (!result.success) {
+        throw new Error(`volta setup failed: ${result.stderr}`);
+      }
+    }
+  }
+
+  protected async getEnvironmentVariables(): Promise<Record<string, string>> {
+    const vars: Record<string, string> = {};
+
+    if (process.env.VOLTA_HOME) {
+      vars.VOLTA_HOME = process.env.VOLTA_HOME;
+    }
+
+    return vars;
+  }
+}
@@ -108,6 +108,54 @@ export class EnvironmentManager implements IEnvironmentManager {
     return pathVar.split(delimiter).filter(Boolean);
   }
 
+  /**
+   * Put a directory first on PATH, moving it there when it is already on PATH further down.
+   * updatePath leaves entries that are already on PATH where they are.
+   */
+  public async movePathEntryToFront(entry: PathEntry): Promise<boolean> {
+    try {
+      const currentPath = await this.getCurrentPath();
+      process.env.PATH = [entry.path, ...currentPath.filter(existing => existing !== entry.path)].join(delimiter);
+
+      if (this.platform === 'win32') {
+        await this.editWindowsUserPath(entry.path, 'prepend');
+      } else {
+        await this.persistUnixPath([{ ...entry, position: 'prepend' }]);
+      }
+
+      return true;
+    } catch (error) {
+      console.error(`Failed to move ${entry.path} to the front of PATH:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove a directory from PATH, in this process and in the PATH lines persisted for the user.
+   * Returns whether it was removed from a persisted PATH; when it is set somewhere HatStart
+   * doesn't manage, only this process changes and it has to be removed by hand.
+   */
+  public async removePathEntry(path: string): Promise<boolean> {
+    try {
+      const currentPath = await this.getCurrentPath();
+      process.env.PATH = currentPath.filter(entry => entry !== path).join(delimiter);
+
+      if (this.platform === 'win32') {
+        return await this.editWindowsUserPath(path, 'remove');
+      }
+
+      let removed = false;
+      for (const profile of this.getUnixProfiles('user')) {
+        removed = await this.removeFromProfile(profile, `export PATH="${path}:$PATH"`) || removed;
+        removed = await this.removeFromProfile(profile, `export PATH="$PATH:${path}"`) || removed;
+      }
+      return removed;
+    } catch (error) {
+      console.error(`Failed to remove ${path} from PATH:`, error);
+      return false;
+    }
+  }
+
   /**
    * Refresh environment (reload from shell)
    */
@@ -371,6 +419,37 @@ export class EnvironmentManager implements IEnvironmentManager {
     }
   }
 
+  /**
+   * Remove a directory from the user PATH on Windows, or move it to the front.
+   * The registry value is edited unexpanded and keeps its type (usually REG_EXPAND_SZ), so
+   * entries like %USERPROFILE%\bin survive; the directory reaches PowerShell through an
+   * environment variable rather than being quoted into the script. Returns whether it changed.
+   */
+  private async editWindowsUserPath(path: string, mode: 'remove' | 'prepend'): Promise<boolean> {
+    const script = [
+      '$entry = $env:HATSTART_PATH_ENTRY',
+      "$key = [Microsoft.Win32.Registry]::CurrentUser.OpenSubKey('Environment', $true)",
+      "$kind = if ($key.GetValueNames() -contains 'Path') { $key.GetValueKind('Path') } else { [Microsoft.Win32.RegistryValueKind]::ExpandString }",
+      "$value = [string]$key.GetValue('Path', '', [Microsoft.Win32.RegistryValueOptions]::DoNotExpandEnvironmentNames)",
+      "$entries = @($value -split ';' | Where-Object { $_ })",
+      '$others = @($entries | Where-Object { $_ -ne $entry -and [Environment]::ExpandEnvironmentVariables($_) -ne $entry })',
+      "$updated = if ($env:HATSTART_PATH_MODE -eq 'prepend') { @($entry) + $others } else { $others }",
+      "if (($updated -join ';') -ne ($entries -join ';')) { $key.SetValue('Path', ($updated -join ';'), $kind); 'changed' } else { 'unchanged' }"
+    ].join('\n');
+
+    const result = await this.commandExecutor.execute('powershell', [
+      '-NoProfile',
+      '-EncodedCommand',
+      Buffer.from(script, 'utf16le').toString('base64')
+    ], {
+      environment: { HATSTART_PATH_ENTRY: path, HATSTART_PATH_MODE: mode }
+    });
+    if (!result.success) {
+      throw new Error(result.stderr.trim() || `Failed to update the user PATH (exit code ${result.exitCode})`);
+    }
+    return result.stdout.trim() === 'changed';
+  }
+
   /**
    * Persist PATH changes on Unix systems
    */
@@ -442,12 +521,12 @@ export class EnvironmentManager implements IEnvironmentManager {
   }
 
   /**
-   * Remove line from shell profile
+   * Remove the lines containing a pattern from a shell profile, returning whether any were
    */
   private async removeFromProfile(
     profilePath: string,
     pattern: string
-  ): Promise<void> {
+  ): Promise<boolean> {
     try {
       const content = await readFile(profilePath, 'utf-8');
       const lines = content.split('\n');
@@ -457,12 +536,15 @@ export class EnvironmentManager implements IEnvironmentManager {
       
       if (filteredLines.length !== lines.length) {
         await writeFile(profilePath, filteredLines.join('\n'), 'utf-8');
+        return true;
       }
+      return false;
     } catch (error) {
       // Profile might not exist, which is fine
       if (!(error instanceof Error && 'code' in error && error.code === 'ENOENT')) {
         throw error;
       }
+      return false;
     }
   }
 
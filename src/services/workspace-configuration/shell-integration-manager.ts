@@ -142,6 +142,18 @@ export class ShellIntegrationManager implements IShellIntegrationManager {
     }
   }
 
+  /**
+   * Check whether a profile already contains the integration written by updateShellProfile
+   */
+  async hasShellIntegration(profile: ShellProfile, integration: ShellIntegration): Promise<boolean> {
+    try {
+      const content = await readFile(this.getProfilePath(profile), 'utf-8');
+      return content.includes(this.buildIntegrationContent(integration));
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Restore shell profile from backup
    */
@@ -206,10 +218,17 @@ export class ShellIntegrationManager implements IShellIntegrationManager {
   ): Promise<void> {
     try {
       const content = await readFile(profilePath, 'utf-8');
-      const integrationContent = this.buildIntegrationContent(integration);
-      
-      const updatedContent = content.replace(integrationContent, '').trim();
-      await writeFile(profilePath, updatedContent, 'utf-8');
+      // Drop every whole line the integration wrote, leaving the rest of the file as it was
+      const integrationLines = new Set(this.buildIntegrationContent(integration)
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0));
+
+      const lines = content.split('\n');
+      const kept = lines.filter(line => !integrationLines.has(line.trim()));
+      if (kept.length < lines.length) {
+        await writeFile(profilePath, kept.join('\n'), 'utf-8');
+      }
     } catch {
       // Profile doesn't exist, nothing to remove
     }
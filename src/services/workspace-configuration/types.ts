@@ -394,6 +394,16 @@ export interface IEnvironmentManager {
    */
   getCurrentPath(): Promise<string[]>;
 
+  /**
+   * Put a directory first on PATH, moving it if it is already on PATH
+   */
+  movePathEntryToFront(entry: PathEntry): Promise<boolean>;
+
+  /**
+   * Remove a directory from PATH, returning whether it was removed where it was persisted
+   */
+  removePathEntry(path: string): Promise<boolean>;
+
   /**
    * Refresh environment (reload from shell)
    */
@@ -435,6 +445,11 @@ export interface IShellIntegrationManager {
    */
   backupShellProfile(profile: ShellProfile): Promise<string>;
 
+  /**
+   * Check whether a profile contains an integration's content
+   */
+  hasShellIntegration(profile: ShellProfile, integration: ShellIntegration): Promise<boolean>;
+
   /**
    * Restore shell profile from backup
    */
@@ -6,6 +6,7 @@
 import { join } from 'path';
 import type { Platform, Architecture } from '../../shared/simple-manifest-types';
 import { VersionManagerInstaller } from '../version-manager-installer';
+import { formatVersionSpecifier, VersionManagementEngine } from '../version-management-engine';
 import type {
     IVersionManager,
     VersionedTool,
@@ -27,30 +28,35 @@ import type {
  */
 export class VersionManagerIntegration {
   private workspaceService: IWorkspaceConfigurationService;
-  private versionManagers: Map<VersionManagerType, IVersionManager> = new Map();
+  private engine: VersionManagementEngine;
 
   constructor(
     _installer: VersionManagerInstaller,
     workspaceService: IWorkspaceConfigurationService,
+    engine: VersionManagementEngine = new VersionManagementEngine(),
   ) {
     // installer parameter kept for future use
     this.workspaceService = workspaceService;
+    this.engine = engine;
   }
 
   /**
-   * Register a version manager
+   * Register a version manager, replacing the engine's adapter for its type
    */
   registerVersionManager(type: VersionManagerType, manager: IVersionManager): void {
-    this.versionManagers.set(type, manager);
+    if (manager.type !== type) {
+      throw new Error(`Cannot register a ${manager.type} adapter as ${type}`);
+    }
+    this.engine.registerManager(manager);
   }
 
   /**
    * Get version manager by type
    */
   private getVersionManager(type: VersionManagerType): IVersionManager {
-    const manager = this.versionManagers.get(type);
+    const manager = this.engine.getManager(type);
     if (!manager) {
-      throw new Error(`Version manager ${type} not registered`);
+      throw new Error(`Version manager ${type} is not supported on this platform`);
     }
     return manager;
   }
@@ -71,8 +77,7 @@ export class VersionManagerIntegration {
       const versionManager = this.getVersionManager(manager);
 
              // Switch version using version manager
-       const versionString = typeof version === 'string' ? version : `${version.major}.${version.minor || 0}.${version.patch || 0}`;
-       const switchResult = await versionManager.switchVersion(tool, versionString);
+       const switchResult = await versionManager.switchVersion(tool, formatVersionSpecifier(version));
        
        if (!switchResult.success) {
          return switchResult;
@@ -196,9 +201,7 @@ export class VersionManagerIntegration {
        
        // Extract environment variables from version manager configuration
        const environment: Record<string, string> = {};
-       const versionString = typeof version === 'string' 
-         ? version 
-         : `${version.major}.${version.minor ?? 0}.${version.patch ?? 0}`;
+       const versionString = formatVersionSpecifier(version);
        
        // Add tool-specific environment variables based on the tool type
        switch (tool) {
@@ -451,7 +454,8 @@ export class VersionManagerIntegration {
   async refreshAllEnvironments(): Promise<EnvironmentSyncResult[]> {
     const results: EnvironmentSyncResult[] = [];
 
-    for (const [type, manager] of this.versionManagers) {
+    for (const manager of await this.engine.getAvailableManagers()) {
+      const type = manager.type;
       try {
         await manager.refreshEnvironment();
         results.push({
@@ -8,6 +8,12 @@ import { access, readFile, writeFile } from 'fs/promises';
 import { join, resolve } from 'path';
 import { promisify } from 'util';
 import type { Architecture, Platform } from '../../shared/simple-manifest-types';
+import { EnvironmentDoctor } from '../environment-doctor';
+import type { DoctorCheckId, DoctorFixResult } from '../environment-doctor';
+import { compareInventories, InventoryBaselineStore } from '../inventory-drift';
+import { collectMachineInventory, createInventorySources, redactInventory } from '../machine-inventory';
+import type { MachineInventory } from '../machine-inventory';
+import { loadDefaultManifest } from '../../shared/simple-manifest-loader';
 import type {
   VersionedTool,
   VersionManagerType,
@@ -35,6 +41,8 @@ export interface CLICommandResult {
   data?: any; // eslint-disable-line @typescript-eslint/no-explicit-any
   error?: string;
   warnings?: string[];
+  /** Process exit code; 0 on success and 1 on failure unless set */
+  exitCode?: number;
 }
 
 /**
@@ -87,6 +95,26 @@ export interface WorkspaceUpdateOptions {
   validate?: boolean;
 }
 
+/**
+ * Doctor options
+ */
+export interface WorkspaceDoctorOptions {
+  /** Checks to run; all of them by default */
+  checks?: DoctorCheckId[];
+  /** Apply every automated fix, then check again */
+  fix?: boolean;
+}
+
+/**
+ * Baseline and drift options
+ */
+export interface WorkspaceBaselineOptions {
+  /** Baseline file; ~/.hatstart/inventory-baseline.json by default */
+  baseline?: string;
+  /** Redact the hostname, username and home paths so the baseline can be shared with a team */
+  redact?: boolean;
+}
+
 /**
  * Team configuration interface
  */
@@ -476,6 +504,109 @@ export class WorkspaceCLITools {
     }
   }
 
+  /**
+   * Check the environment's health, optionally fixing what can be fixed automatically.
+   * Fails when errors remain; warnings alone don't fail.
+   */
+  async runDoctor(
+    workspaceRoot: string = process.cwd(),
+    options: WorkspaceDoctorOptions = {}
+  ): Promise<CLICommandResult> {
+    try {
+      const doctor = new EnvironmentDoctor({}, resolve(workspaceRoot));
+      let report = await doctor.run(options.checks);
+
+      const fixes: DoctorFixResult[] = [];
+      if (options.fix) {
+        for (const finding of report.findings.filter(item => item.fix)) {
+          fixes.push(await doctor.applyFix(finding.id));
+        }
+        if (fixes.length > 0) {
+          report = await doctor.run(options.checks);
+        }
+      }
+
+      return {
+        success: report.errorCount === 0,
+        message: report.findings.length === 0
+          ? 'No problems found'
+          : `Found ${report.errorCount} errors and ${report.warningCount} warnings`,
+        data: { findings: report.findings, fixes },
+        warnings: fixes.filter(fix => !fix.applied).map(fix => fix.message)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Failed to run doctor',
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Snapshot this machine's inventory as the baseline for `checkDrift`
+   */
+  async saveBaseline(options: WorkspaceBaselineOptions = {}): Promise<CLICommandResult> {
+    try {
+      const store = new InventoryBaselineStore(options.baseline ? resolve(options.baseline) : undefined);
+      const inventory = await this.collectInventory();
+      await store.save(options.redact
+        ? redactInventory(inventory, { hostname: true, username: true, homePaths: true })
+        : inventory);
+
+      return {
+        success: true,
+        message: `Saved baseline of ${inventory.tools.length} tools to ${store.getFilePath()}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Failed to save baseline',
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Compare this machine with the baseline. Exits with 1 when it drifted and 2 when it
+   * couldn't be checked, so scheduled checks can tell the two apart.
+   */
+  async checkDrift(options: WorkspaceBaselineOptions = {}): Promise<CLICommandResult> {
+    try {
+      const store = new InventoryBaselineStore(options.baseline ? resolve(options.baseline) : undefined);
+      const baseline = await store.load();
+      if (!baseline) {
+        return {
+          success: false,
+          message: 'No baseline to compare with',
+          error: `${store.getFilePath()} does not exist. Run 'workspace baseline' first.`,
+          exitCode: 2
+        };
+      }
+
+      const report = compareInventories(baseline, await this.collectInventory());
+      return {
+        success: !report.hasDrift,
+        message: report.hasDrift
+          ? `Found ${report.changes.length} changes since the baseline of ${baseline.generatedAt}`
+          : `No drift since the baseline of ${baseline.generatedAt}`,
+        data: { changes: report.changes },
+        exitCode: report.hasDrift ? 1 : 0
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Failed to check for drift',
+        error: error instanceof Error ? error.message : String(error),
+        exitCode: 2
+      };
+    }
+  }
+
+  private async collectInventory(): Promise<MachineInventory> {
+    return collectMachineInventory(createInventorySources(async () => (await loadDefaultManifest()).tools));
+  }
+
   /**
    * Add tool to workspace
    */
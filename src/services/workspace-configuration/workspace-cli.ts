@@ -3,6 +3,8 @@
  * Command-line interface wrapper for workspace management
  */
 
+import type { DoctorCheckId, DoctorFinding, DoctorFixResult } from '../environment-doctor';
+import type { DriftChange } from '../inventory-drift';
 import type { VersionedTool } from '../version-manager-types';
 import { WorkspaceCLITools, type CLICommandResult } from './workspace-cli-tools';
 
@@ -144,6 +146,10 @@ export class WorkspaceCLI {
         output += `Error: ${result.error}\n`;
       }
       
+      if (result.data) {
+        output += this.formatData(result.data);
+      }
+      
       if (result.warnings && result.warnings.length > 0) {
         output += '\nWarnings:\n';
         result.warnings.forEach(warning => {
@@ -271,6 +277,48 @@ export class WorkspaceCLI {
       }
     });
 
+    // Doctor command
+    this.commands.set('doctor', {
+      name: 'doctor',
+      description: 'Check the environment for problems',
+      usage: 'workspace doctor [workspace-root] [options]',
+      options: [
+        { name: 'checks', description: 'Comma-separated checks (package-manager, shell-integration, version-manager-path, orphaned-path, ide-cli, disk-space)', type: 'string' },
+        { name: 'fix', description: 'Apply automated fixes', type: 'boolean' }
+      ],
+      execute: async (args, options) => {
+        const workspaceRoot = args[0] || process.cwd();
+        const checks = options.checks ? (options.checks as string).split(',').map(check => check.trim() as DoctorCheckId) : undefined;
+        return this.tools.runDoctor(workspaceRoot, {
+          checks,
+          fix: Boolean(options.fix)
+        });
+      }
+    });
+
+    // Baseline command
+    this.commands.set('baseline', {
+      name: 'baseline',
+      description: 'Save this machine\'s toolset as the drift baseline',
+      usage: 'workspace baseline [baseline-file] [options]',
+      options: [
+        { name: 'redact', description: 'Redact hostname, username and home paths to share the baseline', type: 'boolean' }
+      ],
+      execute: async (args, options) => {
+        return this.tools.saveBaseline({ baseline: args[0], redact: Boolean(options.redact) });
+      }
+    });
+
+    // Drift command
+    this.commands.set('drift', {
+      name: 'drift',
+      description: 'Compare this machine with the baseline (exit code 1 on drift)',
+      usage: 'workspace drift [baseline-file]',
+      execute: async (args, _options) => {
+        return this.tools.checkDrift({ baseline: args[0] });
+      }
+    });
+
     // Help command
     this.commands.set('help', {
       name: 'help',
@@ -373,6 +421,9 @@ export class WorkspaceCLI {
       };
       message?: string;
       conflicts?: string[];
+      findings?: DoctorFinding[];
+      fixes?: DoctorFixResult[];
+      changes?: DriftChange[];
     };
     
     if (typedData.tools) {
@@ -412,6 +463,34 @@ export class WorkspaceCLI {
       }
     }
     
+    if (typedData.fixes && typedData.fixes.length > 0) {
+      output += '\nFixes:\n';
+      typedData.fixes.forEach((fix: DoctorFixResult) => {
+        output += `  ${fix.applied ? '🔧' : '✗'} ${fix.message}\n`;
+      });
+    }
+    
+    if (typedData.findings && typedData.findings.length > 0) {
+      const icons = { error: '❌', warning: '⚠️ ', info: 'ℹ️ ' };
+      output += '\nFindings:\n';
+      typedData.findings.forEach((finding: DoctorFinding) => {
+        output += `  ${icons[finding.severity]} [${finding.check}] ${finding.message}\n`;
+        if (finding.fix) {
+          output += `     Fix (--fix): ${finding.fix.description}\n`;
+        } else if (finding.suggestion) {
+          output += `     Suggestion: ${finding.suggestion}\n`;
+        }
+      });
+    }
+    
+    if (typedData.changes && typedData.changes.length > 0) {
+      const icons = { added: '+', removed: '-', changed: '~' };
+      output += '\nChanges:\n';
+      typedData.changes.forEach((change: DriftChange) => {
+        output += `  ${icons[change.kind]} [${change.category}] ${change.message}\n`;
+      });
+    }
+    
     if (typedData.conflicts && typedData.conflicts.length > 0) {
       output += '\nConflicts:\n';
       typedData.conflicts.forEach((conflict: string) => {
@@ -443,6 +522,6 @@ export async function runWorkspaceCLI(argv: string[]): Promise<void> {
   console.log(output);
   
   // Exit with appropriate code
-  process.exit(result.success ? 0 : 1);
+  process.exit(result.exitCode ?? (result.success ? 0 : 1));
 }
 
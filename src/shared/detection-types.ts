@@ -34,6 +34,8 @@ export interface DetectionResult {
   detectionMethod: DetectionMethod;
   /** Error message if detection failed */
   error?: string;
+  /** Id of the detector plugin that produced this result */
+  detector?: string;
 }
 
 export type DetectionMethod = 
@@ -44,40 +46,6 @@ export type DetectionMethod =
   | 'environment-variable'
   | 'application-folder';
 
-export interface DetectionRule {
-  /** Tool name */
-  name: string;
-  /** Platform-specific detection strategies */
-  strategies: PlatformStrategy[];
-  /** Category this tool belongs to */
-  category: ToolCategory;
-  /** Whether this tool is essential for the category */
-  essential?: boolean;
-}
-
-export interface PlatformStrategy {
-  /** Target platform */
-  platform: PlatformType;
-  /** Detection method */
-  method: DetectionMethod;
-  /** Command to execute or path to check */
-  command?: string;
-  /** Arguments for command */
-  args?: string[];
-  /** Registry key (Windows only) */
-  registryKey?: string;
-  /** File/directory paths to check */
-  paths?: string[];
-  /** Environment variable to check */
-  envVar?: string;
-  /** Expected output pattern for validation */
-  expectedPattern?: string;
-  /** Version extraction regex */
-  versionRegex?: string;
-  /** Timeout in milliseconds */
-  timeout?: number;
-}
-
 export type ToolCategory = 
   | 'programming-languages'
   | 'web-frameworks'
@@ -132,73 +100,3 @@ export interface SystemDetectionReport {
   /** Any global errors or warnings */
   errors?: string[];
 }
-
-export interface DetectionConfig {
-  /** Whether to enable parallel detection */
-  parallel: boolean;
-  /** Maximum concurrent detections */
-  maxConcurrency: number;
-  /** Default timeout for commands */
-  defaultTimeout: number;
-  /** Whether to cache results */
-  cacheResults: boolean;
-  /** Cache duration in milliseconds */
-  cacheDuration: number;
-  /** Categories to include in detection */
-  includeCategories?: ToolCategory[];
-  /** Categories to exclude from detection */
-  excludeCategories?: ToolCategory[];
-  /** Specific tools to detect */
-  includeTools?: string[];
-  /** Tools to skip detection for */
-  excludeTools?: string[];
-  /** Verbosity level for logging */
-  verbosity: 'silent' | 'minimal' | 'normal' | 'verbose' | 'debug';
-}
-
-export interface DetectionCache {
-  /** Cache entries keyed by tool name */
-  entries: Map<string, CacheEntry>;
-  /** Cache creation timestamp */
-  createdAt: Date;
-  /** Cache expiration timestamp */
-  expiresAt: Date;
-}
-
-export interface CacheEntry {
-  /** Cached detection result */
-  result: DetectionResult;
-  /** When this entry was cached */
-  cachedAt: Date;
-  /** System info when cached (to detect system changes) */
-  systemInfo: SystemInfo;
-}
-
-export interface DetectionProgress {
-  /** Current category being processed */
-  currentCategory?: ToolCategory;
-  /** Current tool being detected */
-  currentTool?: string;
-  /** Number of categories completed */
-  categoriesCompleted: number;
-  /** Total categories to process */
-  totalCategories: number;
-  /** Number of tools completed */
-  toolsCompleted: number;
-  /** Total tools to process */
-  totalTools: number;
-  /** Start time */
-  startTime: Date;
-  /** Estimated completion time */
-  estimatedCompletion?: Date;
-}
-
-// Event types for detection progress
-export interface DetectionEvents {
-  'detection-started': { progress: DetectionProgress };
-  'category-started': { category: ToolCategory; progress: DetectionProgress };
-  'tool-detected': { tool: string; result: DetectionResult; progress: DetectionProgress };
-  'category-completed': { category: ToolCategory; result: CategoryDetectionResult; progress: DetectionProgress };
-  'detection-completed': { report: SystemDetectionReport };
-  'detection-error': { error: Error; context?: string };
-} 
\ No newline at end of file
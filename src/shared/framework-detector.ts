@@ -134,6 +134,20 @@ export class FrameworkDetector {
     return undefined;
   }
 
+  /**
+   * Names of all defined frameworks
+   */
+  public getSupportedFrameworks(): string[] {
+    return Array.from(this.frameworks.values()).flat().map(definition => definition.name);
+  }
+
+  /**
+   * Forget cached results so the next detection runs again
+   */
+  public clearCache(): void {
+    this.detectionCache.clear();
+  }
+
   /**
    * Detect a specific framework
    */
@@ -135,6 +135,20 @@ export class IDEDetector {
     return undefined;
   }
 
+  /**
+   * Names of all defined tools
+   */
+  public getSupportedTools(): string[] {
+    return Array.from(this.tools.values()).flat().map(definition => definition.name);
+  }
+
+  /**
+   * Forget cached results so the next detection runs again
+   */
+  public clearCache(): void {
+    this.detectionCache.clear();
+  }
+
   /**
    * Detect plugins/extensions for a specific IDE
    */
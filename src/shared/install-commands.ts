@@ -0,0 +1,140 @@
+/**
+ * Install Commands
+ * Resolves the shell command used to install a manifest tool on a platform
+ */
+
+import { getDefaultPackageManagerSelection, getPackageManager, resolveInstalledPackage, resolvePackage } from './package-managers';
+import type { PackageManagerSelection } from './package-managers';
+import type { InstallScript, Platform, SimpleTool } from './simple-manifest-types';
+
+/**
+ * Get install command for a tool on a platform.
+ * Throws VersionPinError when the package manager can't install the pinned version.
+ * For an install script this is the download, checksum and run sequence from
+ * getScriptPreview; the installer does the same steps itself and runs
+ * getScriptCommand on the verified local copy.
+ */
+export function getInstallCommand(
+  tool: SimpleTool,
+  platform: Platform,
+  packageManagers: PackageManagerSelection = getDefaultPackageManagerSelection(platform)
+): string | null {
+  const script = getInstallScript(tool, platform);
+  if (script) {
+    return getScriptPreview(script, platform);
+  }
+
+  // Check for custom install command first
+  if (tool.customInstall?.[platform]) {
+    return tool.customInstall[platform];
+  }
+
+  const resolved = resolvePackage(tool, platform, packageManagers);
+  if (!resolved) {
+    return null;
+  }
+
+  return getPackageManager(resolved.manager).installCommand(resolved.packageSpec);
+}
+
+/**
+ * Get uninstall command for a tool on a platform.
+ * Tools installed by a custom command can only be removed by a matching customUninstall.
+ */
+export function getUninstallCommand(
+  tool: SimpleTool,
+  platform: Platform,
+  packageManagers: PackageManagerSelection = getDefaultPackageManagerSelection(platform)
+): string | null {
+  if (tool.customUninstall?.[platform]) {
+    return tool.customUninstall[platform];
+  }
+  if (hasCustomInstall(tool, platform)) {
+    return null;
+  }
+
+  const resolved = resolveInstalledPackage(tool, platform, packageManagers);
+  if (!resolved) {
+    return null;
+  }
+
+  return getPackageManager(resolved.manager).uninstallCommand(resolved.packageName);
+}
+
+/**
+ * Get upgrade command for a tool on a platform.
+ * Custom installs have no package manager to upgrade through.
+ */
+export function getUpgradeCommand(
+  tool: SimpleTool,
+  platform: Platform,
+  packageManagers: PackageManagerSelection = getDefaultPackageManagerSelection(platform)
+): string | null {
+  if (hasCustomInstall(tool, platform)) {
+    return null;
+  }
+
+  const resolved = resolveInstalledPackage(tool, platform, packageManagers);
+  if (!resolved) {
+    return null;
+  }
+
+  return getPackageManager(resolved.manager).upgradeCommand(resolved.packageSpec);
+}
+
+/**
+ * Whether a tool installs through its own command or script rather than a package manager
+ */
+export function hasCustomInstall(tool: SimpleTool, platform: Platform): boolean {
+  return !!(tool.installScript?.[platform] || tool.customInstall?.[platform]);
+}
+
+/**
+ * The checksummed install script for a platform, if the tool has one
+ */
+export function getInstallScript(tool: SimpleTool, platform: Platform): InstallScript | null {
+  return tool.installScript?.[platform] ?? null;
+}
+
+/**
+ * Command that runs an install script: PowerShell on Windows, sh elsewhere
+ */
+export function getScriptCommand(scriptPath: string, platform: Platform, args: string[] = []): string {
+  const quotedArgs = args.map(arg => ` "${arg.replace(/"/g, '\\"')}"`).join('');
+  return platform === 'win32'
+    ? `powershell -NoProfile -ExecutionPolicy Bypass -File "${scriptPath}"${quotedArgs}`
+    : `sh "${scriptPath}"${quotedArgs}`;
+}
+
+/**
+ * Runnable equivalent of what the installer does with a script: download it to a
+ * temporary file, stop unless it matches the pinned SHA-256, then run it
+ */
+export function getScriptPreview(script: InstallScript, platform: Platform): string {
+  const sha256 = script.sha256.toLowerCase();
+  if (platform === 'win32') {
+    return [
+      '$script = Join-Path ([IO.Path]::GetTempPath()) "hatstart-install.ps1"',
+      `Invoke-WebRequest -UseBasicParsing -Uri "${script.url}" -OutFile $script`,
+      `if ((Get-FileHash -Algorithm SHA256 $script).Hash -ne "${sha256}") { throw "SHA-256 mismatch for ${script.url}" }`,
+      getScriptCommand('$script', platform, script.args)
+    ].join('\n');
+  }
+  return [
+    'tmp="$(mktemp -d)"',
+    `curl -fsSL "${script.url}" -o "$tmp/install.sh"`,
+    `echo "${sha256}  $tmp/install.sh" | shasum -a 256 -c -`,
+    getScriptCommand('$tmp/install.sh', platform, script.args)
+  ].join(' && \\\n');
+}
+
+/**
+ * Check whether running a command needs sudo or an elevated (administrator) shell.
+ * Chocolatey always installs machine-wide, so it needs an elevated shell on Windows.
+ */
+export function requiresElevation(command: string, platform: Platform): boolean {
+  if (/(^|[\s;&|(])sudo\s/.test(command)) {
+    return true;
+  }
+  return platform === 'win32' && /(^|[\s;&|(])choco\s+(install|upgrade|uninstall)\b/.test(command);
+}
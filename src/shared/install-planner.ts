@@ -0,0 +1,138 @@
+/**
+ * Install Planner
+ * Resolves a tool selection into a dependency-ordered install plan
+ */
+
+import type { SimpleManifest, SimpleTool } from './simple-manifest-types';
+
+/**
+ * A single tool in the resolved plan
+ */
+export interface InstallPlanStep {
+  toolId: string;
+  name: string;
+  // Prerequisites of this tool that are part of the plan
+  dependsOn: string[];
+  // True when the tool was pulled in as a prerequisite rather than selected
+  autoAdded: boolean;
+}
+
+/**
+ * The resolved plan - steps are in install order
+ */
+export interface InstallPlan {
+  steps: InstallPlanStep[];
+  autoAdded: string[];
+  // Selected or required tool ids that are not in the manifest
+  unknown: string[];
+  // Prerequisites that are not in the manifest, with the tool that declared them
+  missingDependencies: Array<{ toolId: string; dependsOn: string }>;
+}
+
+/**
+ * Thrown when tools depend on each other in a loop
+ */
+export class DependencyCycleError extends Error {
+  readonly cycle: string[];
+
+  constructor(cycle: string[]) {
+    super(`Dependency cycle detected: ${cycle.join(' -> ')}`);
+    this.name = 'DependencyCycleError';
+    this.cycle = cycle;
+  }
+}
+
+/**
+ * Build an install plan for the selected tools.
+ * Missing prerequisites are added automatically and every tool is placed
+ * after the tools it depends on. Selection order is kept where possible.
+ * Prerequisites missing from the manifest are reported in missingDependencies.
+ */
+export function createInstallPlan(
+  selectedIds: string[],
+  manifest: SimpleManifest
+): InstallPlan {
+  const toolMap = new Map<string, SimpleTool>(manifest.tools.map(tool => [tool.id, tool]));
+  const selected = new Set(selectedIds);
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+  const steps: InstallPlanStep[] = [];
+  const unknown: string[] = [];
+  const missingDependencies: Array<{ toolId: string; dependsOn: string }> = [];
+
+  const visit = (toolId: string): void => {
+    const tool = toolMap.get(toolId);
+    if (!tool) {
+      if (!unknown.includes(toolId)) {
+        unknown.push(toolId);
+      }
+      return;
+    }
+
+    const current = state.get(toolId);
+    if (current === 'done') {
+      return;
+    }
+    if (current === 'visiting') {
+      throw new DependencyCycleError([...stack.slice(stack.indexOf(toolId)), toolId]);
+    }
+
+    state.set(toolId, 'visiting');
+    stack.push(toolId);
+    for (const dependency of tool.dependsOn ?? []) {
+      if (!toolMap.has(dependency)) {
+        missingDependencies.push({ toolId, dependsOn: dependency });
+      }
+      visit(dependency);
+    }
+    stack.pop();
+    state.set(toolId, 'done');
+
+    steps.push({
+      toolId,
+      name: tool.name,
+      dependsOn: (tool.dependsOn ?? []).filter(id => toolMap.has(id)),
+      autoAdded: !selected.has(toolId)
+    });
+  };
+
+  for (const toolId of selected) {
+    visit(toolId);
+  }
+
+  return {
+    steps,
+    autoAdded: steps.filter(step => step.autoAdded).map(step => step.toolId),
+    unknown,
+    missingDependencies
+  };
+}
+
+/**
+ * Find a prerequisite of a step that failed or was skipped.
+ * Callers add skipped tools to the same set so dependents are skipped transitively.
+ */
+export function findFailedPrerequisite(
+  step: InstallPlanStep,
+  failed: Set<string>
+): string | undefined {
+  return step.dependsOn.find(id => failed.has(id));
+}
+
+/**
+ * Walk the plan in install order, handing each step the prerequisite that blocks it, if any.
+ * handleStep resolves to true when the tool is available afterwards; tools that are not
+ * block their dependents in turn. The installer and the dry run share this walk.
+ */
+export async function walkInstallPlan(
+  steps: InstallPlanStep[],
+  handleStep: (step: InstallPlanStep, blockedBy: string | undefined, index: number) => Promise<boolean>
+): Promise<void> {
+  const unavailable = new Set<string>();
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+    if (!await handleStep(step, findFailedPrerequisite(step, unavailable), i)) {
+      unavailable.add(step.toolId);
+    }
+  }
+}
@@ -328,6 +328,14 @@ export class LanguageDetector {
     }
   }
 
+  /**
+   * Detect a programming language by name, or undefined if it isn't defined
+   */
+  public async detectLanguageByName(name: string, platform: PlatformType): Promise<DetectionResult | undefined> {
+    const language = this.languages.find(lang => lang.name.toLowerCase() === name.toLowerCase());
+    return language ? this.detectLanguage(language, platform) : undefined;
+  }
+
   /**
    * Add a custom language definition
    */
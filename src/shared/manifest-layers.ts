@@ -0,0 +1,186 @@
+/**
+ * Manifest Layers
+ * Merges the built-in catalog with organization, team and user manifests, field by field
+ */
+
+import { isValidVersionConstraint, satisfiesVersion } from './version-constraint';
+import type { SimpleManifest, SimpleTool } from './simple-manifest-types';
+
+export type ManifestLayerName = 'builtin' | 'organization' | 'team' | 'user';
+
+/**
+ * Layers in merge order; later layers override earlier ones
+ */
+export const MANIFEST_LAYERS: ManifestLayerName[] = ['builtin', 'organization', 'team', 'user'];
+
+/**
+ * Where a manifest (or a value in it) came from
+ */
+export interface ManifestLayerSource {
+  layer: ManifestLayerName;
+  filePath?: string;
+}
+
+export interface LayerManifest extends ManifestLayerSource {
+  manifest: SimpleManifest;
+}
+
+/**
+ * Which layer set each field of each tool: tool id -> field path ('packageNames.linux') -> source
+ */
+export type ManifestProvenance = Record<string, Record<string, ManifestLayerSource>>;
+
+/**
+ * A manifest or tool that was left out of the merge
+ */
+export interface ManifestLayerIssue extends ManifestLayerSource {
+  toolId?: string;
+  message: string;
+}
+
+export interface LayeredManifest {
+  manifest: SimpleManifest;
+  provenance: ManifestProvenance;
+  issues: ManifestLayerIssue[];
+}
+
+/**
+ * A tool as written in an overlay: only the id is required, null deletes a field
+ * and `remove: true` deletes the whole tool
+ */
+export type ToolOverlay = { id: string; remove?: boolean } & {
+  [K in Exclude<keyof SimpleTool, 'id'>]?: SimpleTool[K] | null;
+};
+
+/**
+ * Merge layer manifests in order. Objects (packageNames, customInstall, ...) merge key by key;
+ * scalars and arrays replace the value below. Manifests whose `compatibleWith` isn't met by
+ * the layers below are skipped.
+ */
+export function mergeManifestLayers(layers: LayerManifest[]): LayeredManifest {
+  const tools = new Map<string, Record<string, unknown>>();
+  const provenance: ManifestProvenance = {};
+  const issues: ManifestLayerIssue[] = [];
+  // Version of the last manifest merged into each layer
+  const layerVersions: Partial<Record<ManifestLayerName, string>> = {};
+  let version: string | undefined;
+
+  for (const { manifest, ...source } of layers) {
+    const incompatibility = checkCompatibility(manifest, layerVersions);
+    if (incompatibility) {
+      issues.push({ ...source, message: incompatibility });
+      continue;
+    }
+    layerVersions[source.layer] = manifest.version;
+    version = manifest.version;
+
+    for (const overlay of manifest.tools as ToolOverlay[]) {
+      if (overlay.remove) {
+        tools.delete(overlay.id);
+        delete provenance[overlay.id];
+        continue;
+      }
+
+      const existing = tools.get(overlay.id);
+      if (!existing && (!overlay.name || !overlay.category)) {
+        issues.push({
+          ...source,
+          toolId: overlay.id,
+          message: `Tool "${overlay.id}" is not defined by a lower layer, so it needs a name and category`
+        });
+        continue;
+      }
+
+      const tool = existing ?? {};
+      const toolProvenance = provenance[overlay.id] ??= {};
+      for (const [key, value] of Object.entries(overlay)) {
+        if (key !== 'remove') {
+          mergeField(tool, key, value, key, toolProvenance, source);
+        }
+      }
+      tools.set(overlay.id, tool);
+    }
+  }
+
+  return {
+    manifest: { version: version ?? '1.0.0', tools: Array.from(tools.values()) as unknown as SimpleTool[] },
+    provenance,
+    issues
+  };
+}
+
+/**
+ * The most specific layer that set anything on a tool, or null if it is all built-in
+ */
+export function getOverridingLayer(toolProvenance: Record<string, ManifestLayerSource> = {}): ManifestLayerName | null {
+  const layers = Object.values(toolProvenance).map(source => MANIFEST_LAYERS.indexOf(source.layer));
+  const highest = Math.max(0, ...layers);
+  return highest > 0 ? MANIFEST_LAYERS[highest] : null;
+}
+
+function checkCompatibility(
+  manifest: SimpleManifest,
+  layerVersions: Partial<Record<ManifestLayerName, string>>
+): string | null {
+  for (const [layer, constraint] of Object.entries(manifest.compatibleWith ?? {})) {
+    const layerVersion = layerVersions[layer as ManifestLayerName];
+    if (!isValidVersionConstraint(constraint)) {
+      return `Invalid compatibleWith constraint for ${layer}: "${constraint}"`;
+    }
+    if (!layerVersion) {
+      return `Requires the ${layer} manifest (${constraint}), which is not loaded`;
+    }
+    if (!satisfiesVersion(layerVersion, constraint)) {
+      return `Requires the ${layer} manifest ${constraint}, found version ${layerVersion}`;
+    }
+  }
+  return null;
+}
+
+function mergeField(
+  target: Record<string, unknown>,
+  key: string,
+  value: unknown,
+  fieldPath: string,
+  provenance: Record<string, ManifestLayerSource>,
+  source: ManifestLayerSource
+): void {
+  if (key === '__proto__') {
+    return;
+  }
+
+  if (value === null) {
+    delete target[key];
+    forgetField(provenance, fieldPath);
+    return;
+  }
+
+  if (isPlainObject(value)) {
+    if (!isPlainObject(target[key])) {
+      forgetField(provenance, fieldPath);
+      target[key] = {};
+    }
+    const nested = target[key] as Record<string, unknown>;
+    for (const [nestedKey, nestedValue] of Object.entries(value)) {
+      mergeField(nested, nestedKey, nestedValue, `${fieldPath}.${nestedKey}`, provenance, source);
+    }
+    return;
+  }
+
+  forgetField(provenance, fieldPath);
+  target[key] = Array.isArray(value) ? [...value] : value;
+  provenance[fieldPath] = source;
+}
+
+// Drop provenance for a field and anything nested under it
+function forgetField(provenance: Record<string, ManifestLayerSource>, fieldPath: string): void {
+  for (const path of Object.keys(provenance)) {
+    if (path === fieldPath || path.startsWith(`${fieldPath}.`)) {
+      delete provenance[path];
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,303 @@
+/**
+ * Manifest Source
+ * Parses JSON and YAML manifests into the same data, remembering where each value came from
+ * so validation errors can point at a line and column.
+ *
+ * YAML is parsed with the yaml package (YAML 1.2, core schema); only a single document is accepted.
+ */
+
+import { isMap, isScalar, isSeq, LineCounter, parseAllDocuments } from 'yaml';
+import type { Node } from 'yaml';
+
+export type ManifestFormat = 'json' | 'yaml';
+
+/**
+ * Path to a value, e.g. ['tools', 3, 'packageNames', 'linux']
+ */
+export type ValuePath = Array<string | number>;
+
+/**
+ * 1-based line and column
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * Thrown when a manifest is not well-formed JSON or YAML
+ */
+export class ManifestParseError extends Error {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(message: string, position: SourcePosition) {
+    super(`${message} (line ${position.line}, column ${position.column})`);
+    this.name = 'ManifestParseError';
+    this.line = position.line;
+    this.column = position.column;
+  }
+}
+
+export interface ParsedManifestSource {
+  format: ManifestFormat;
+  data: unknown;
+  // Position of the value at a path, or of its closest ancestor that exists
+  locate: (path: ValuePath) => SourcePosition | undefined;
+}
+
+/**
+ * Pick the format from a file name; anything that isn't .yaml/.yml is read as JSON
+ */
+export function getManifestFormat(filePath: string): ManifestFormat {
+  return /\.ya?ml$/i.test(filePath) ? 'yaml' : 'json';
+}
+
+/**
+ * Parse manifest text. Duplicate keys are an error in both formats.
+ */
+export function parseManifestSource(content: string, format: ManifestFormat): ParsedManifestSource {
+  const text = content.replace(/^\uFEFF/, '');
+  const positions = new Map<string, SourcePosition>();
+  const data = format === 'yaml'
+    ? parseYaml(text, positions)
+    : new JsonParser(text, positions).parse();
+
+  return {
+    format,
+    data,
+    locate: path => {
+      for (let depth = path.length; depth >= 0; depth--) {
+        const position = positions.get(pathKey(path.slice(0, depth)));
+        if (position) {
+          return position;
+        }
+      }
+      return undefined;
+    }
+  };
+}
+
+function pathKey(path: ValuePath): string {
+  return JSON.stringify(path);
+}
+
+// Plain assignment would treat "__proto__" specially
+function setProperty(target: Record<string, unknown>, key: string, value: unknown): void {
+  Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+function hasProperty(target: Record<string, unknown>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(target, key);
+}
+
+const JSON_STRING = /^"(?:[^"\\]|\\.)*"/;
+const JSON_LITERAL = /^(?:-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/;
+
+/**
+ * Recursive-descent JSON parser; values match JSON.parse
+ */
+class JsonParser {
+  private readonly text: string;
+  private readonly positions: Map<string, SourcePosition>;
+  private readonly lineStarts: number[] = [0];
+  private index = 0;
+
+  constructor(text: string, positions: Map<string, SourcePosition>) {
+    this.text = text;
+    this.positions = positions;
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  parse(): unknown {
+    const value = this.parseValue([]);
+    this.skipWhitespace();
+    if (this.index < this.text.length) {
+      this.fail('Unexpected content after the end of the manifest');
+    }
+    return value;
+  }
+
+  private parseValue(path: ValuePath): unknown {
+    this.skipWhitespace();
+    // Object members are located by their key, which is recorded first
+    if (!this.positions.has(pathKey(path))) {
+      this.positions.set(pathKey(path), this.position());
+    }
+
+    const char = this.text[this.index];
+    if (char === '{') {
+      return this.parseObject(path);
+    }
+    if (char === '[') {
+      return this.parseArray(path);
+    }
+    if (char === '"') {
+      return this.parseString();
+    }
+
+    const literal = this.text.slice(this.index).match(JSON_LITERAL);
+    if (!literal) {
+      this.fail(char === undefined ? 'Unexpected end of input' : `Unexpected character "${char}"`);
+    }
+    this.index += literal[0].length;
+    return JSON.parse(literal[0]);
+  }
+
+  private parseObject(path: ValuePath): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.index++;
+    this.skipWhitespace();
+    if (this.text[this.index] === '}') {
+      this.index++;
+      return result;
+    }
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.text[this.index] !== '"') {
+        this.fail('Expected a property name in double quotes');
+      }
+      const keyPosition = this.position();
+      const key = this.parseString();
+      if (hasProperty(result, key)) {
+        throw new ManifestParseError(`Duplicate key "${key}"`, keyPosition);
+      }
+      this.positions.set(pathKey([...path, key]), keyPosition);
+
+      this.skipWhitespace();
+      this.expect(':');
+      setProperty(result, key, this.parseValue([...path, key]));
+
+      this.skipWhitespace();
+      if (this.text[this.index] === ',') {
+        this.index++;
+        continue;
+      }
+      this.expect('}');
+      return result;
+    }
+  }
+
+  private parseArray(path: ValuePath): unknown[] {
+    const result: unknown[] = [];
+    this.index++;
+    this.skipWhitespace();
+    if (this.text[this.index] === ']') {
+      this.index++;
+      return result;
+    }
+
+    for (;;) {
+      result.push(this.parseValue([...path, result.length]));
+      this.skipWhitespace();
+      if (this.text[this.index] === ',') {
+        this.index++;
+        continue;
+      }
+      this.expect(']');
+      return result;
+    }
+  }
+
+  private parseString(): string {
+    const match = this.text.slice(this.index).match(JSON_STRING);
+    if (!match) {
+      this.fail('Unterminated string');
+    }
+    // JSON.parse rejects what JSON doesn't allow in strings (bad escapes, raw control characters)
+    let value: string;
+    try {
+      value = JSON.parse(match[0]);
+    } catch {
+      this.fail('Invalid string');
+    }
+    this.index += match[0].length;
+    return value;
+  }
+
+  private expect(char: string): void {
+    if (this.text[this.index] !== char) {
+      this.fail(this.index >= this.text.length ? 'Unexpected end of input' : `Expected "${char}"`);
+    }
+    this.index++;
+  }
+
+  private skipWhitespace(): void {
+    while (/[ \t\r\n]/.test(this.text[this.index] ?? '')) {
+      this.index++;
+    }
+  }
+
+  private position(): SourcePosition {
+    // Binary search for the line containing the current offset
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.lineStarts[mid] <= this.index) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: this.index - this.lineStarts[low] + 1 };
+  }
+
+  private fail(message: string): never {
+    throw new ManifestParseError(message, this.position());
+  }
+}
+
+/**
+ * Parse a YAML document, recording where each value starts; mapping values are located by their key
+ */
+function parseYaml(text: string, positions: Map<string, SourcePosition>): unknown {
+  const lineCounter = new LineCounter();
+  const documents = parseAllDocuments(text, { lineCounter, prettyErrors: false, uniqueKeys: false });
+  const locate = (offset: number): SourcePosition => {
+    const { line, col } = lineCounter.linePos(offset);
+    return { line, column: col };
+  };
+
+  if (documents.length === 0) {
+    return null;
+  }
+  if (documents.length > 1) {
+    throw new ManifestParseError('Only one YAML document is supported', locate(documents[1].range[0]));
+  }
+  const [document] = documents;
+  const [error] = document.errors;
+  if (error) {
+    throw new ManifestParseError(error.message, locate(error.pos[0]));
+  }
+
+  const record = (node: Node | null, path: ValuePath, offset?: number) => {
+    const start = offset ?? node?.range?.[0];
+    if (start !== undefined) {
+      positions.set(pathKey(path), locate(start));
+    }
+    if (isMap(node)) {
+      // Checked here rather than by the parser to report the key the way JSON does
+      const keys = new Set<string>();
+      for (const pair of node.items) {
+        const key = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+        const keyOffset = (pair.key as Node | null)?.range?.[0];
+        if (keys.has(key)) {
+          throw new ManifestParseError(`Duplicate key "${key}"`, locate(keyOffset ?? start ?? 0));
+        }
+        keys.add(key);
+        record(pair.value as Node | null, [...path, key], keyOffset);
+      }
+    } else if (isSeq(node)) {
+      node.items.forEach((item, index) => record(item as Node | null, [...path, index]));
+    }
+  };
+  record(document.contents, []);
+
+  return document.toJS();
+}
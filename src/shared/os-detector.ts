@@ -25,6 +25,8 @@ export interface OSDetectionResult {
     version: string;
     codename?: string;
     id?: string;
+    /** Parent distributions from ID_LIKE (e.g. ['rhel', 'fedora']) */
+    idLike?: string[];
   };
   /** Additional system information */
   systemInfo: {
@@ -204,16 +206,16 @@ export class OSDetector {
   /**
    * Detect Linux distribution information
    */
-  private async detectLinuxDistribution(): Promise<OSDetectionResult['distribution']> {
+  public async detectLinuxDistribution(): Promise<OSDetectionResult['distribution']> {
     try {
       // Try /etc/os-release first (modern standard)
       const { stdout } = await execAsync('cat /etc/os-release', { timeout: 3000 });
       
       const osRelease: Record<string, string> = {};
       for (const line of stdout.split('\n')) {
-        const [key, value] = line.split('=');
-        if (key && value) {
-          osRelease[key] = value.replace(/"/g, '');
+        const separator = line.indexOf('=');
+        if (separator > 0) {
+          osRelease[line.slice(0, separator)] = line.slice(separator + 1).replace(/"/g, '');
         }
       }
       
@@ -221,7 +223,8 @@ export class OSDetector {
         name: osRelease.NAME || osRelease.ID || 'Unknown Linux',
         version: osRelease.VERSION || osRelease.VERSION_ID || 'Unknown',
         codename: osRelease.VERSION_CODENAME || osRelease.UBUNTU_CODENAME,
-        id: osRelease.ID
+        id: osRelease.ID,
+        idLike: osRelease.ID_LIKE ? osRelease.ID_LIKE.split(/\s+/).filter(Boolean) : undefined
       };
     } catch {
       // Fallback methods
@@ -250,7 +253,8 @@ export class OSDetector {
         return {
           name: info['Distributor ID'] || 'Unknown Linux',
           version: info['Release'] || 'Unknown',
-          codename: info['Codename']
+          codename: info['Codename'],
+          id: info['Distributor ID']?.toLowerCase()
         };
       },
       
@@ -259,7 +263,8 @@ export class OSDetector {
         const { stdout } = await execAsync('cat /etc/redhat-release', { timeout: 3000 });
         return {
           name: 'Red Hat/CentOS',
-          version: stdout.trim()
+          version: stdout.trim(),
+          id: 'rhel'
         };
       },
       
@@ -268,7 +273,8 @@ export class OSDetector {
         const { stdout } = await execAsync('cat /etc/debian_version', { timeout: 3000 });
         return {
           name: 'Debian',
-          version: stdout.trim()
+          version: stdout.trim(),
+          id: 'debian'
         };
       },
       
@@ -277,7 +283,8 @@ export class OSDetector {
         await execAsync('cat /etc/arch-release', { timeout: 3000 });
         return {
           name: 'Arch Linux',
-          version: 'Rolling Release'
+          version: 'Rolling Release',
+          id: 'arch'
         };
       }
     ];
@@ -0,0 +1,167 @@
+/**
+ * Outdated Parsers
+ * Parse the "what can be upgraded" output of each package manager
+ */
+
+/**
+ * A package the package manager can upgrade
+ */
+export interface OutdatedPackage {
+  name: string;
+  currentVersion?: string;
+  latestVersion?: string;
+}
+
+/**
+ * `brew outdated --json=v2`
+ */
+export function parseBrewOutdated(output: string): OutdatedPackage[] {
+  type BrewEntry = { name: string; installed_versions?: string[] | string; current_version?: string };
+  let data: { formulae?: BrewEntry[]; casks?: BrewEntry[] };
+  try {
+    data = JSON.parse(output);
+  } catch {
+    return [];
+  }
+
+  return [...(data.formulae ?? []), ...(data.casks ?? [])].map(entry => ({
+    name: entry.name,
+    currentVersion: Array.isArray(entry.installed_versions) ? entry.installed_versions[0] : entry.installed_versions,
+    latestVersion: entry.current_version
+  }));
+}
+
+/**
+ * `choco outdated -r` - name|current|available|pinned
+ */
+export function parseChocoOutdated(output: string): OutdatedPackage[] {
+  return lines(output)
+    .map(line => line.split('|'))
+    .filter(parts => parts.length >= 3)
+    .map(([name, currentVersion, latestVersion]) => ({ name, currentVersion, latestVersion }));
+}
+
+/**
+ * `winget upgrade` - a fixed-width table, read using the header's column positions
+ */
+export function parseWingetUpgrade(output: string): OutdatedPackage[] {
+  // Progress spinners are redrawn with \r before the table starts
+  const rows = lines(output).map(line => line.slice(line.lastIndexOf('\r') + 1));
+  const headerIndex = rows.findIndex(row => /\bId\b.*\bVersion\b.*\bAvailable\b/.test(row));
+  if (headerIndex === -1) {
+    return [];
+  }
+
+  const header = rows[headerIndex];
+  const idStart = header.indexOf('Id');
+  const versionStart = header.indexOf('Version');
+  const availableStart = header.indexOf('Available');
+  const sourceStart = header.indexOf('Source');
+
+  return rows.slice(headerIndex + 1)
+    .filter(row => !/^-+$/.test(row) && row.length > availableStart)
+    .map(row => ({
+      name: row.slice(idStart, versionStart).trim(),
+      currentVersion: row.slice(versionStart, availableStart).trim(),
+      latestVersion: row.slice(availableStart, sourceStart === -1 ? undefined : sourceStart).trim()
+    }))
+    .filter(pkg => pkg.name && pkg.latestVersion);
+}
+
+/**
+ * `apt list --upgradable` - name/suite version arch [upgradable from: version]
+ */
+export function parseAptUpgradable(output: string): OutdatedPackage[] {
+  const packages: OutdatedPackage[] = [];
+  for (const line of lines(output)) {
+    const match = line.match(/^([^/\s]+)\/\S+\s+(\S+)\s+\S+\s+\[upgradable from: ([^\]]+)\]/);
+    if (match) {
+      packages.push({ name: match[1], latestVersion: match[2], currentVersion: match[3] });
+    }
+  }
+  return packages;
+}
+
+/**
+ * `dnf check-update` / `yum check-update` - name.arch version repository
+ */
+export function parseDnfCheckUpdate(output: string): OutdatedPackage[] {
+  const packages: OutdatedPackage[] = [];
+  for (const line of lines(output)) {
+    // Anything after this heading lists replaced packages, not upgrades
+    if (/^Obsoleting Packages/i.test(line)) {
+      break;
+    }
+    const match = line.match(/^(\S+)\.[^.\s]+\s+(\S+)\s+\S+$/);
+    if (match) {
+      packages.push({ name: match[1], latestVersion: match[2] });
+    }
+  }
+  return packages;
+}
+
+/**
+ * `pacman -Qu` - name current -> latest
+ */
+export function parsePacmanOutdated(output: string): OutdatedPackage[] {
+  const packages: OutdatedPackage[] = [];
+  for (const line of lines(output)) {
+    const match = line.match(/^(\S+)\s+(\S+)\s+->\s+(\S+)/);
+    if (match) {
+      packages.push({ name: match[1], currentVersion: match[2], latestVersion: match[3] });
+    }
+  }
+  return packages;
+}
+
+/**
+ * `zypper list-updates` - S | Repository | Name | Current Version | Available Version | Arch
+ */
+export function parseZypperUpdates(output: string): OutdatedPackage[] {
+  return lines(output)
+    .map(line => line.split('|').map(part => part.trim()))
+    .filter(parts => parts.length >= 5 && parts[0] === 'v')
+    .map(parts => ({ name: parts[2], currentVersion: parts[3], latestVersion: parts[4] }));
+}
+
+/**
+ * `apk version -l '<'` - name-version < latest
+ */
+export function parseApkVersion(output: string): OutdatedPackage[] {
+  const packages: OutdatedPackage[] = [];
+  for (const line of lines(output)) {
+    const match = line.match(/^(\S+?)-(\d\S*)\s+<\s+(\S+)/);
+    if (match) {
+      packages.push({ name: match[1], currentVersion: match[2], latestVersion: match[3] });
+    }
+  }
+  return packages;
+}
+
+/**
+ * `snap refresh --list` - Name Version Rev Size Publisher Notes
+ */
+export function parseSnapRefreshList(output: string): OutdatedPackage[] {
+  const rows = lines(output);
+  if (!rows[0]?.startsWith('Name')) {
+    return [];
+  }
+  return rows.slice(1).map(row => {
+    const [name, latestVersion] = row.split(/\s+/);
+    return { name, latestVersion };
+  });
+}
+
+/**
+ * `flatpak remote-ls --updates --columns=application,version` - tab separated
+ */
+export function parseFlatpakUpdates(output: string): OutdatedPackage[] {
+  return lines(output).map(line => {
+    const [name, latestVersion] = line.split('\t');
+    return { name: name.trim(), latestVersion: latestVersion?.trim() || undefined };
+  });
+}
+
+function lines(output: string): string[] {
+  return output.split('\n').map(line => line.trimEnd()).filter(line => line.trim().length > 0);
+}
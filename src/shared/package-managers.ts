@@ -0,0 +1,531 @@
+/**
+ * Package Managers
+ * Backends for the system package managers used to install manifest tools
+ */
+
+import {
+  parseApkVersion,
+  parseAptUpgradable,
+  parseBrewOutdated,
+  parseChocoOutdated,
+  parseDnfCheckUpdate,
+  parseFlatpakUpdates,
+  parsePacmanOutdated,
+  parseSnapRefreshList,
+  parseWingetUpgrade,
+  parseZypperUpdates
+} from './outdated-parsers';
+import { getPinnedVersion } from './version-constraint';
+import type { OutdatedPackage } from './outdated-parsers';
+import type { CommandProbe, PackageManagerId, Platform, SimpleTool } from './simple-manifest-types';
+
+/**
+ * A package manager that can install tools by package name
+ */
+export interface PackageManagerBackend {
+  id: PackageManagerId;
+  name: string;
+  platform: Platform;
+  // Executable used to check whether the package manager is available
+  executable: string;
+  // Universal managers (snap, flatpak) are only used when a tool names a package for them
+  fallback: boolean;
+  installCommand: (packageName: string) => string;
+  uninstallCommand: (packageName: string) => string;
+  upgradeCommand: (packageName: string) => string;
+  // Lists packages with a newer version available, read by parseOutdated
+  outdatedCommand: string;
+  parseOutdated: (output: string) => OutdatedPackage[];
+  // Shows an installed package; queryVersionPattern captures its version and doesn't match otherwise
+  queryCommand: (packageName: string) => string;
+  queryVersionPattern: RegExp;
+  // Shows a keg-only package, which isn't on PATH; its output matches queryVersionPattern
+  kegQueryCommand?: (packageName: string) => string;
+  // Files or directories that change whenever a package is installed or removed
+  statePaths: string[];
+  // Requests a specific version of a package, or null when the manager can't express it.
+  // Throws VersionPinError when installing anything else would be wrong.
+  pinVersion?: (packageName: string, version: string) => PinnedPackage | null;
+}
+
+/**
+ * Thrown when a package manager has no way to install the version a tool pins
+ */
+export class VersionPinError extends Error {
+  readonly manager: PackageManagerId;
+  readonly version: string;
+
+  constructor(message: string, manager: PackageManagerId, version: string) {
+    super(message);
+    this.name = 'VersionPinError';
+    this.manager = manager;
+    this.version = version;
+  }
+}
+
+/**
+ * A package name and the spec that installs one version of it
+ */
+export interface PinnedPackage {
+  // Name the package is installed (and removed) under
+  packageName: string;
+  // Argument passed to install and upgrade commands
+  packageSpec: string;
+  // Installed outside PATH, so its version is read through the package manager
+  kegOnly?: boolean;
+}
+
+/**
+ * The package managers chosen for this machine
+ */
+export interface PackageManagerSelection {
+  primary: PackageManagerId | null;
+  fallbacks: PackageManagerId[];
+}
+
+/**
+ * A tool's package resolved against a package manager
+ */
+export interface ResolvedPackage extends PinnedPackage {
+  manager: PackageManagerId;
+}
+
+/**
+ * Drop install flags from a package name (e.g. 'code --classic' -> 'code')
+ */
+export function stripFlags(packageName: string): string {
+  return packageName.split(/\s+/).filter(part => !part.startsWith('-')).join(' ');
+}
+
+// Package managers that only install exact versions ('15' is not enough for choco --version)
+function isFullVersion(version: string): boolean {
+  return /^\d+\.\d+\.\d+/.test(version);
+}
+
+// Formulae Homebrew ships versioned copies of, by how many version parts the name carries
+// (postgresql@15, python@3.12). Any other formula only ships its latest release.
+const BREW_RELEASE_LINES: Record<string, 1 | 2> = {
+  dotnet: 1,
+  gcc: 1,
+  llvm: 1,
+  node: 1,
+  openjdk: 1,
+  openssl: 1,
+  postgresql: 1,
+  go: 2,
+  lua: 2,
+  mysql: 2,
+  php: 2,
+  python: 2,
+  ruby: 2
+};
+
+// Only release lines that have a formula can be pinned, never a patch release.
+// Versioned formulae are keg-only, so they are not on PATH once installed.
+function pinBrewFormula(packageName: string, version: string): PinnedPackage | null {
+  const parts = BREW_RELEASE_LINES[packageName];
+  if (!parts) {
+    return null;
+  }
+
+  const segments = version.split('.');
+  if (segments.length !== parts) {
+    const [major, minor] = segments;
+    const releaseLine = parts === 1 ? `^${major}` : `~${major}.${minor ?? 0}`;
+    throw new VersionPinError(
+      `Homebrew has no ${packageName}@${version} formula; pin a release line such as ${releaseLine} instead`,
+      'brew',
+      version
+    );
+  }
+  return { packageName: `${packageName}@${version}`, packageSpec: `${packageName}@${version}`, kegOnly: true };
+}
+
+function pinWith(format: (packageName: string, version: string) => string, fullVersionOnly = false) {
+  return (packageName: string, version: string): PinnedPackage | null =>
+    fullVersionOnly && !isFullVersion(version) ? null : { packageName, packageSpec: format(packageName, version) };
+}
+
+const PACKAGE_MANAGERS: Record<PackageManagerId, PackageManagerBackend> = {
+  brew: {
+    id: 'brew',
+    name: 'Homebrew',
+    platform: 'darwin',
+    executable: 'brew',
+    fallback: false,
+    installCommand: pkg => `brew install ${pkg}`,
+    uninstallCommand: pkg => `brew uninstall ${pkg}`,
+    upgradeCommand: pkg => `brew upgrade ${pkg}`,
+    outdatedCommand: 'brew outdated --json=v2',
+    parseOutdated: parseBrewOutdated,
+    queryCommand: pkg => `brew list --versions ${pkg}`,
+    queryVersionPattern: /^\S+\s+(\S+)/m,
+    kegQueryCommand: pkg => `brew --prefix --installed ${pkg} >/dev/null && brew list --versions ${pkg}`,
+    statePaths: ['/opt/homebrew/Cellar', '/usr/local/Cellar', '/opt/homebrew/Caskroom', '/usr/local/Caskroom'],
+    // Versioned formulae are separate, keg-only packages (postgresql@15)
+    pinVersion: pinBrewFormula
+  },
+  chocolatey: {
+    id: 'chocolatey',
+    name: 'Chocolatey',
+    platform: 'win32',
+    executable: 'choco',
+    fallback: false,
+    installCommand: pkg => `choco install -y ${pkg}`,
+    uninstallCommand: pkg => `choco uninstall -y ${pkg}`,
+    upgradeCommand: pkg => `choco upgrade -y ${pkg}`,
+    outdatedCommand: 'choco outdated -r',
+    parseOutdated: parseChocoOutdated,
+    queryCommand: pkg => `choco list --exact --limit-output ${pkg}`,
+    queryVersionPattern: /^[^|\s]+\|(\S+)/m,
+    statePaths: ['%ChocolateyInstall%\\lib'],
+    pinVersion: pinWith((pkg, version) => `${pkg} --version ${version}`, true)
+  },
+  winget: {
+    id: 'winget',
+    name: 'WinGet',
+    platform: 'win32',
+    executable: 'winget',
+    fallback: true,
+    installCommand: pkg => `winget install --id ${pkg} -e --silent --accept-package-agreements --accept-source-agreements`,
+    uninstallCommand: pkg => `winget uninstall --id ${pkg} -e --silent`,
+    upgradeCommand: pkg => `winget upgrade --id ${pkg} -e --silent --accept-package-agreements --accept-source-agreements`,
+    outdatedCommand: 'winget upgrade --accept-source-agreements',
+    parseOutdated: parseWingetUpgrade,
+    queryCommand: pkg => `winget list --id ${pkg} -e --accept-source-agreements`,
+    queryVersionPattern: /\s(\d+(?:\.\d+)+)\s/,
+    // No local database to watch; cached winget detections expire by age
+    statePaths: [],
+    pinVersion: pinWith((pkg, version) => `${pkg} --version ${version}`, true)
+  },
+  apt: {
+    id: 'apt',
+    name: 'APT',
+    platform: 'linux',
+    executable: 'apt-get',
+    fallback: false,
+    installCommand: pkg => `sudo apt-get install -y ${pkg}`,
+    uninstallCommand: pkg => `sudo apt-get remove -y ${pkg}`,
+    upgradeCommand: pkg => `sudo apt-get install --only-upgrade -y ${pkg}`,
+    outdatedCommand: 'apt list --upgradable',
+    parseOutdated: parseAptUpgradable,
+    // Removed packages keep a Version line, so require the installed status
+    queryCommand: pkg => `dpkg -s ${pkg}`,
+    queryVersionPattern: /^Status: install ok installed$[\s\S]*?^Version:\s*(?:\d+:)?([^\s~+-]+)/m,
+    statePaths: ['/var/lib/dpkg/status'],
+    // Debian versions carry a revision suffix (15.4-1), so match by prefix
+    pinVersion: pinWith((pkg, version) => `"${pkg}=${version}*"`)
+  },
+  dnf: {
+    id: 'dnf',
+    name: 'DNF',
+    platform: 'linux',
+    executable: 'dnf',
+    fallback: false,
+    installCommand: pkg => `sudo dnf install -y ${pkg}`,
+    uninstallCommand: pkg => `sudo dnf remove -y ${pkg}`,
+    upgradeCommand: pkg => `sudo dnf upgrade -y ${pkg}`,
+    outdatedCommand: 'dnf check-update -q',
+    parseOutdated: parseDnfCheckUpdate,
+    queryCommand: pkg => `rpm -q --queryformat '%{VERSION}\\n' ${pkg}`,
+    queryVersionPattern: /^(\d[^\s-]*)$/m,
+    statePaths: ['/var/lib/rpm'],
+    pinVersion: pinWith((pkg, version) => `"${pkg}-${version}*"`)
+  },
+  yum: {
+    id: 'yum',
+    name: 'YUM',
+    platform: 'linux',
+    executable: 'yum',
+    fallback: false,
+    installCommand: pkg => `sudo yum install -y ${pkg}`,
+    uninstallCommand: pkg => `sudo yum remove -y ${pkg}`,
+    upgradeCommand: pkg => `sudo yum update -y ${pkg}`,
+    outdatedCommand: 'yum check-update -q',
+    parseOutdated: parseDnfCheckUpdate,
+    queryCommand: pkg => `rpm -q --queryformat '%{VERSION}\\n' ${pkg}`,
+    queryVersionPattern: /^(\d[^\s-]*)$/m,
+    statePaths: ['/var/lib/rpm'],
+    pinVersion: pinWith((pkg, version) => `"${pkg}-${version}*"`)
+  },
+  pacman: {
+    id: 'pacman',
+    name: 'pacman',
+    platform: 'linux',
+    executable: 'pacman',
+    fallback: false,
+    installCommand: pkg => `sudo pacman -S --noconfirm --needed ${pkg}`,
+    uninstallCommand: pkg => `sudo pacman -R --noconfirm ${pkg}`,
+    upgradeCommand: pkg => `sudo pacman -S --noconfirm --needed ${pkg}`,
+    outdatedCommand: 'pacman -Qu',
+    parseOutdated: parsePacmanOutdated,
+    queryCommand: pkg => `pacman -Q ${pkg}`,
+    queryVersionPattern: /^\S+\s+(?:\d+:)?([^\s-]+)/m,
+    statePaths: ['/var/lib/pacman/local']
+  },
+  zypper: {
+    id: 'zypper',
+    name: 'Zypper',
+    platform: 'linux',
+    executable: 'zypper',
+    fallback: false,
+    installCommand: pkg => `sudo zypper --non-interactive install ${pkg}`,
+    uninstallCommand: pkg => `sudo zypper --non-interactive remove ${pkg}`,
+    upgradeCommand: pkg => `sudo zypper --non-interactive update ${pkg}`,
+    outdatedCommand: 'zypper --quiet list-updates',
+    parseOutdated: parseZypperUpdates,
+    queryCommand: pkg => `rpm -q --queryformat '%{VERSION}\\n' ${pkg}`,
+    queryVersionPattern: /^(\d[^\s-]*)$/m,
+    statePaths: ['/var/lib/rpm'],
+    pinVersion: pinWith((pkg, version) => `'${pkg}=${version}'`, true)
+  },
+  apk: {
+    id: 'apk',
+    name: 'apk',
+    platform: 'linux',
+    executable: 'apk',
+    fallback: false,
+    installCommand: pkg => `sudo apk add ${pkg}`,
+    uninstallCommand: pkg => `sudo apk del ${pkg}`,
+    upgradeCommand: pkg => `sudo apk add --upgrade ${pkg}`,
+    outdatedCommand: "apk version -l '<'",
+    parseOutdated: parseApkVersion,
+    queryCommand: pkg => `apk list --installed ${pkg}`,
+    queryVersionPattern: /^\S+?-(\d[^\s-]*)-r\d+\s.*\[installed\]/m,
+    statePaths: ['/lib/apk/db/installed'],
+    // ~ is apk's fuzzy version match
+    pinVersion: pinWith((pkg, version) => `'${pkg}~${version}'`)
+  },
+  snap: {
+    id: 'snap',
+    name: 'Snap',
+    platform: 'linux',
+    executable: 'snap',
+    fallback: true,
+    // Snap names may carry flags, e.g. 'code --classic'
+    installCommand: pkg => `sudo snap install ${pkg}`,
+    uninstallCommand: pkg => `sudo snap remove ${stripFlags(pkg)}`,
+    upgradeCommand: pkg => `sudo snap refresh ${stripFlags(pkg)}`,
+    outdatedCommand: 'snap refresh --list',
+    parseOutdated: parseSnapRefreshList,
+    queryCommand: pkg => `snap list ${stripFlags(pkg)}`,
+    queryVersionPattern: /^(?!Name\s)\S+\s+(\S+)/m,
+    statePaths: ['/var/lib/snapd/state.json'],
+    pinVersion: pinWith((pkg, version) => `${pkg} --channel=${version}/stable`)
+  },
+  flatpak: {
+    id: 'flatpak',
+    name: 'Flatpak',
+    platform: 'linux',
+    executable: 'flatpak',
+    fallback: true,
+    installCommand: pkg => `flatpak install -y --noninteractive flathub ${pkg}`,
+    uninstallCommand: pkg => `flatpak uninstall -y --noninteractive ${pkg}`,
+    upgradeCommand: pkg => `flatpak update -y --noninteractive ${pkg}`,
+    outdatedCommand: 'flatpak remote-ls --updates --columns=application,version',
+    parseOutdated: parseFlatpakUpdates,
+    queryCommand: pkg => `flatpak info ${pkg}`,
+    queryVersionPattern: /^\s*Version:\s*(\S+)/m,
+    statePaths: ['/var/lib/flatpak/app', '~/.local/share/flatpak/app']
+  }
+};
+
+/**
+ * Distribution ids (from /etc/os-release ID and ID_LIKE) and their native package manager
+ */
+const DISTRIBUTION_PACKAGE_MANAGERS: Record<string, PackageManagerId> = {
+  debian: 'apt',
+  ubuntu: 'apt',
+  linuxmint: 'apt',
+  pop: 'apt',
+  elementary: 'apt',
+  raspbian: 'apt',
+  kali: 'apt',
+  fedora: 'dnf',
+  rhel: 'dnf',
+  centos: 'dnf',
+  rocky: 'dnf',
+  almalinux: 'dnf',
+  ol: 'dnf',
+  amzn: 'dnf',
+  arch: 'pacman',
+  manjaro: 'pacman',
+  endeavouros: 'pacman',
+  garuda: 'pacman',
+  opensuse: 'zypper',
+  'opensuse-leap': 'zypper',
+  'opensuse-tumbleweed': 'zypper',
+  suse: 'zypper',
+  sles: 'zypper',
+  alpine: 'apk'
+};
+
+const PLATFORM_DEFAULTS: Record<Platform, PackageManagerId> = {
+  darwin: 'brew',
+  win32: 'chocolatey',
+  linux: 'apt'
+};
+
+/**
+ * Get a package manager backend by id
+ */
+export function getPackageManager(id: PackageManagerId): PackageManagerBackend {
+  return PACKAGE_MANAGERS[id];
+}
+
+/**
+ * All package managers for a platform - native managers first, then fallbacks
+ */
+export function getPackageManagersForPlatform(platform: Platform): PackageManagerBackend[] {
+  return Object.values(PACKAGE_MANAGERS)
+    .filter(manager => manager.platform === platform)
+    .sort((a, b) => Number(a.fallback) - Number(b.fallback));
+}
+
+/**
+ * Ids of every known package manager
+ */
+export function getPackageManagerIds(): PackageManagerId[] {
+  return Object.keys(PACKAGE_MANAGERS) as PackageManagerId[];
+}
+
+/**
+ * Check whether a string is a known package manager id
+ */
+export function isPackageManagerId(value: string): value is PackageManagerId {
+  return Object.prototype.hasOwnProperty.call(PACKAGE_MANAGERS, value);
+}
+
+/**
+ * Pick the native package manager for a Linux distribution.
+ * The distribution id wins over ID_LIKE, so derivatives map to their parent.
+ */
+export function selectLinuxPackageManager(distribution?: { id?: string; idLike?: string[] }): PackageManagerId | null {
+  const candidates = [distribution?.id, ...(distribution?.idLike ?? [])];
+  for (const candidate of candidates) {
+    const manager = candidate && DISTRIBUTION_PACKAGE_MANAGERS[candidate.toLowerCase()];
+    if (manager) {
+      return manager;
+    }
+  }
+  return null;
+}
+
+/**
+ * The selection used when nothing has been detected (apt on Linux)
+ */
+export function getDefaultPackageManagerSelection(platform: Platform): PackageManagerSelection {
+  return { primary: PLATFORM_DEFAULTS[platform] ?? null, fallbacks: [] };
+}
+
+/**
+ * Find the package to install for a tool.
+ * The primary manager uses its own key (e.g. 'linux-dnf') or the plain platform name;
+ * fallbacks are only used when the tool names a package for them (e.g. 'linux-snap').
+ * Throws VersionPinError when the manager can't install the tool's pinned version.
+ */
+export function resolvePackage(
+  tool: SimpleTool,
+  platform: Platform,
+  selection: PackageManagerSelection
+): ResolvedPackage | null {
+  const packageNames = tool.packageNames ?? {};
+
+  if (selection.primary) {
+    const packageName = packageNames[`${platform}-${selection.primary}`] ?? packageNames[platform];
+    if (packageName) {
+      return pinPackage(selection.primary, packageName, tool.version);
+    }
+  }
+
+  for (const manager of selection.fallbacks) {
+    const packageName = packageNames[`${platform}-${manager}`];
+    if (packageName) {
+      return pinPackage(manager, packageName, tool.version);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the package a tool was installed as, for removing, upgrading or checking it.
+ * A pin the manager can't install means it never installed the package, so there is none.
+ */
+export function resolveInstalledPackage(
+  tool: SimpleTool,
+  platform: Platform,
+  selection: PackageManagerSelection
+): ResolvedPackage | null {
+  try {
+    return resolvePackage(tool, platform, selection);
+  } catch (error) {
+    if (error instanceof VersionPinError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * A probe that verifies a resolved package the tool's own probes can't see, or null.
+ * Keg-only packages aren't on PATH, so a `--version` probe would find another install or none.
+ */
+export function getKegOnlyProbe(resolved: ResolvedPackage): CommandProbe | null {
+  const backend = getPackageManager(resolved.manager);
+  if (!resolved.kegOnly || !backend.kegQueryCommand) {
+    return null;
+  }
+  return {
+    type: 'command',
+    command: backend.kegQueryCommand(resolved.packageName),
+    versionPattern: backend.queryVersionPattern.source
+  };
+}
+
+/**
+ * Apply a tool's version constraint to its package.
+ * A {version} placeholder in the name wins over the manager's own pinning; a name with a
+ * placeholder can't be installed when the constraint is a range. Managers that can't pin
+ * install the unversioned package and rely on post-install verification.
+ */
+function pinPackage(manager: PackageManagerId, packageName: string, constraint?: string): ResolvedPackage | null {
+  const version = constraint ? getPinnedVersion(constraint) : null;
+
+  if (packageName.includes('{version}')) {
+    if (!version) {
+      return null;
+    }
+    const pinnedName = packageName.split('{version}').join(version);
+    return { manager, packageName: pinnedName, packageSpec: pinnedName };
+  }
+
+  const pinned = version ? getPackageManager(manager).pinVersion?.(packageName, version) : null;
+  return { manager, ...(pinned ?? { packageName, packageSpec: packageName }) };
+}
+
+/**
+ * Choose the primary and fallback package managers from the ones found on the machine.
+ * The distribution's native manager wins; otherwise the first native manager found is used
+ * (e.g. yum on older RHEL without dnf). With nothing found the preferred manager is kept
+ * so commands can still be previewed.
+ */
+export function selectPackageManagers(
+  platform: Platform,
+  available: PackageManagerId[],
+  distribution?: { id?: string; idLike?: string[] }
+): PackageManagerSelection {
+  const managers = getPackageManagersForPlatform(platform);
+  const preferred = (platform === 'linux' ? selectLinuxPackageManager(distribution) : null) ??
+    getDefaultPackageManagerSelection(platform).primary;
+  const isAvailable = (manager: PackageManagerBackend) => available.includes(manager.id);
+
+  const primary = preferred && available.includes(preferred)
+    ? preferred
+    : managers.find(manager => !manager.fallback && isAvailable(manager))?.id ?? preferred;
+
+  return {
+    primary,
+    fallbacks: managers.filter(manager => manager.fallback && isAvailable(manager)).map(manager => manager.id)
+  };
+}
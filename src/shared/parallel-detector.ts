@@ -4,7 +4,8 @@
  */
 
 import { EventEmitter } from 'events';
-import { DetectionError } from './detection-errors';
+import { DetectionError, ErrorRecovery } from './detection-errors';
+import type { RetryOptions } from './detection-errors';
 import { DetectionLogger } from './detection-logger';
 import type { DetectionResult } from './detection-types';
 
@@ -23,6 +24,8 @@ export interface DetectionTask {
   detector: () => Promise<DetectionResult>;
   /** Timeout in milliseconds */
   timeout?: number;
+  /** Retry failed or timed-out attempts */
+  retry?: RetryOptions;
 }
 
 export interface ExecutionConfig {
@@ -72,6 +75,8 @@ export interface ExecutionSummary {
   failureCount: number;
   /** Number of cached results */
   cacheHits: number;
+  /** Per-task results, in completion order; tasks whose dependencies failed are absent */
+  results: ExecutionResult[];
   /** Performance metrics */
   performance: {
     avgExecutionTime: number;
@@ -161,9 +166,10 @@ export class ParallelDetector extends EventEmitter {
     const endTime = Date.now();
     const summary = this.generateExecutionSummary(results, endTime - startTime);
     
+    const { results: _results, ...stats } = summary;
     this.logger.info('ParallelDetector', 'executeDetections', 
       `Completed execution: ${summary.successCount}/${summary.tasksExecuted} successful`, 
-      { summary });
+      { summary: stats });
 
     this.emit('executionComplete', summary);
     return summary;
@@ -197,8 +203,14 @@ export class ParallelDetector extends EventEmitter {
     let resourceUsage: ExecutionResult['resourceUsage'];
 
     try {
-      // Execute with basic monitoring
-      result = await this.executeWithTimeout(task);
+      // Execute with basic monitoring; each retry gets the full timeout
+      result = task.retry
+        ? await ErrorRecovery.withRetry(() => this.executeWithTimeout(task), task.retry, {
+            component: 'ParallelDetector',
+            operation: 'executeDetection',
+            timestamp: new Date()
+          })
+        : await this.executeWithTimeout(task);
       
       // Basic resource usage tracking (simplified)
       if (this.config.enableMonitoring) {
@@ -456,6 +468,7 @@ export class ParallelDetector extends EventEmitter {
       successCount,
       failureCount,
       cacheHits,
+      results,
       performance: {
         avgExecutionTime,
         maxExecutionTime,
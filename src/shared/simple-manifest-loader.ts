@@ -5,18 +5,29 @@
 
 import { promises as fs } from 'fs';
 import * as path from 'path';
-import type { SimpleManifest, SimpleTool } from './simple-manifest-types';
+import { getManifestFormat, parseManifestSource } from './manifest-source';
+import type { ParsedManifestSource } from './manifest-source';
+import { mergeManifestLayers } from './manifest-layers';
+import type { SimpleManifest } from './simple-manifest-types';
 
 /**
- * Load a manifest from a JSON file
+ * Read and parse a JSON or YAML manifest file, keeping source positions for validation.
+ * Throws ManifestParseError (with line and column) for malformed files.
+ */
+export async function loadManifestSource(filePath: string): Promise<ParsedManifestSource> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  return parseManifestSource(content, getManifestFormat(filePath));
+}
+
+/**
+ * Load a manifest from a JSON or YAML file
  */
 export async function loadManifest(filePath: string): Promise<SimpleManifest> {
   try {
-    const content = await fs.readFile(filePath, 'utf-8');
-    const data = JSON.parse(content);
+    const { data } = await loadManifestSource(filePath);
     
     // Basic structure check
-    if (!data.version || !Array.isArray(data.tools)) {
+    if (!isManifestShaped(data)) {
       throw new Error('Invalid manifest format: missing version or tools array');
     }
     
@@ -38,7 +49,7 @@ export async function loadDefaultManifest(): Promise<SimpleManifest> {
 }
 
 /**
- * Save a manifest to a JSON file
+ * Save a manifest as JSON. JSON is also valid YAML, so .yaml paths load back unchanged.
  */
 export async function saveManifest(
   manifest: SimpleManifest, 
@@ -49,22 +60,43 @@ export async function saveManifest(
 }
 
 /**
- * Merge multiple manifests (for extensibility)
+ * File extensions picked up by manifest discovery
  */
-export function mergeManifests(...manifests: SimpleManifest[]): SimpleManifest {
-  const toolMap = new Map<string, SimpleTool>();
-  
-  // Later manifests override earlier ones
-  for (const manifest of manifests) {
-    for (const tool of manifest.tools) {
-      toolMap.set(tool.id, tool);
+export const MANIFEST_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/**
+ * Find manifest files in a directory, sorted by path so merge order is stable.
+ * Hidden directories and node_modules are skipped.
+ */
+export async function discoverManifests(directory: string, recursive = true): Promise<string[]> {
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  const found: string[] = [];
+
+  for (const entry of entries) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (recursive && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
+        found.push(...await discoverManifests(entryPath, recursive));
+      }
+    } else if (entry.isFile() && MANIFEST_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+      found.push(entryPath);
     }
   }
-  
-  return {
-    version: '1.0.0',
-    tools: Array.from(toolMap.values())
-  };
+
+  return found.sort();
+}
+
+/**
+ * Merge multiple manifests (for extensibility). Later manifests override earlier ones
+ * field by field; see mergeManifestLayers for layers with provenance.
+ */
+export function mergeManifests(...manifests: SimpleManifest[]): SimpleManifest {
+  return mergeManifestLayers(manifests.map(manifest => ({ layer: 'builtin', manifest }))).manifest;
+}
+
+function isManifestShaped(data: unknown): boolean {
+  const manifest = data as { version?: unknown; tools?: unknown } | null;
+  return typeof manifest === 'object' && manifest !== null && !!manifest.version && Array.isArray(manifest.tools);
 }
 
 // That's it! 65 lines of actually useful code.
\ No newline at end of file
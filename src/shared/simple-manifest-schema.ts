@@ -0,0 +1,291 @@
+/**
+ * Simple Manifest Schema
+ * JSON Schemas for complete manifests and layer overlays, published in schemas/,
+ * and the small schema checker the manifest validator runs them through
+ */
+
+import { MANIFEST_LAYERS } from './manifest-layers';
+import { getPackageManagerIds } from './package-managers';
+import type { ValuePath } from './manifest-source';
+import type { Platform, ToolCategory } from './simple-manifest-types';
+
+export const TOOL_CATEGORIES: ToolCategory[] = [
+  'language', 'ide', 'database', 'web-frameworks', 'containers',
+  'infrastructure', 'cloud', 'testing', 'monitoring',
+  'package-managers', 'developer-tools', 'other'
+];
+
+export const PLATFORMS: Platform[] = ['darwin', 'win32', 'linux'];
+
+type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * The draft-07 keywords the manifest schema uses
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  pattern?: string;
+  minLength?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  propertyNames?: JsonSchema;
+  definitions?: Record<string, JsonSchema>;
+}
+
+/**
+ * A value that doesn't match the schema
+ */
+export interface SchemaIssue {
+  path: ValuePath;
+  message: string;
+}
+
+/**
+ * A complete manifest (like default-tools.json) or an overlay for a higher layer,
+ * where tools only need an id, null deletes a field and `remove: true` deletes the tool
+ */
+export type ManifestSchemaKind = 'complete' | 'overlay';
+
+/**
+ * Build the manifest schema from the same lists the app uses
+ */
+export function buildManifestSchema(kind: ManifestSchemaKind = 'complete'): JsonSchema {
+  const overlay = kind === 'overlay';
+  const field = (schema: JsonSchema): JsonSchema => overlay ? nullable(schema) : schema;
+  const stringList: JsonSchema = { type: 'array', items: { type: 'string', minLength: 1 } };
+  const platformCommands = (description: string): JsonSchema => ({
+    description,
+    type: 'object',
+    propertyNames: { enum: PLATFORMS },
+    additionalProperties: { type: 'string', minLength: 1 }
+  });
+
+  const installScript: JsonSchema = {
+    type: 'object',
+    required: ['url', 'sha256'],
+    properties: {
+      url: { type: 'string', pattern: '^https://' },
+      sha256: { description: 'Hex SHA-256 of the script', type: 'string', pattern: '^[A-Fa-f0-9]{64}$' },
+      args: stringList
+    },
+    additionalProperties: false
+  };
+
+  // One schema for every probe type; the validator checks each type's required fields
+  const detection: JsonSchema = {
+    description: 'Probes tried in order to find the tool; used instead of verification',
+    type: 'object',
+    required: ['probes'],
+    properties: {
+      probes: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['type'],
+          properties: {
+            type: { enum: ['command', 'file', 'registry', 'package', 'app-bundle'] },
+            platforms: { type: 'array', items: { enum: PLATFORMS } },
+            versionPattern: { description: 'Regex whose first group is the version', type: 'string', minLength: 1 },
+            command: { type: 'string', minLength: 1 },
+            path: { type: 'string', minLength: 1 },
+            versionCommand: { type: 'string', minLength: 1 },
+            key: { type: 'string', minLength: 1 },
+            value: { type: 'string', minLength: 1 },
+            manager: { enum: getPackageManagerIds() },
+            name: { type: 'string', minLength: 1 }
+          },
+          additionalProperties: false
+        }
+      },
+      minVersion: { description: 'Older installed versions are reported as too old', type: 'string', minLength: 1 }
+    },
+    additionalProperties: false
+  };
+
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: overlay ? 'HatStart manifest overlay' : 'HatStart tool manifest',
+    type: 'object',
+    required: ['version', 'tools'],
+    properties: {
+      $schema: { type: 'string' },
+      version: { description: 'Version of this manifest', type: 'string', minLength: 1 },
+      compatibleWith: {
+        description: "Version constraints on the layers below, e.g. { \"organization\": \"^2\" }",
+        type: 'object',
+        propertyNames: { enum: MANIFEST_LAYERS },
+        additionalProperties: { type: 'string', minLength: 1 }
+      },
+      tools: { type: 'array', items: { $ref: '#/definitions/tool' } }
+    },
+    additionalProperties: false,
+    definitions: {
+      tool: {
+        type: 'object',
+        required: overlay ? ['id'] : ['id', 'name', 'category'],
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          ...(overlay ? { remove: { description: 'Remove the tool defined by a lower layer', type: 'boolean' } } : {}),
+          name: field({ type: 'string', minLength: 1 }),
+          category: field({ enum: TOOL_CATEGORIES }),
+          description: field({ type: 'string' }),
+          packageNames: field({
+            description: "Package name per platform; keys like 'linux-dnf' override it for one package manager",
+            type: 'object',
+            propertyNames: { pattern: `^(${PLATFORMS.join('|')})(-(${getPackageManagerIds().join('|')}))?$` },
+            additionalProperties: { type: 'string', minLength: 1 }
+          }),
+          version: field({
+            description: "Version constraint, exact ('15') or a semver range ('^20', '>=1.21 <2')",
+            type: 'string',
+            minLength: 1
+          }),
+          customInstall: field(platformCommands('Install command per platform, used instead of the package manager')),
+          installScript: field({
+            description: 'Install script per platform, downloaded and run only if its SHA-256 matches',
+            type: 'object',
+            propertyNames: { enum: PLATFORMS },
+            additionalProperties: installScript
+          }),
+          customUninstall: field(platformCommands('Uninstall command per platform for tools with a customInstall or installScript')),
+          verification: field({ description: 'Command that prints the installed version', type: 'string' }),
+          detection: field(detection),
+          dependsOn: field({ description: 'Tool ids that must be installed first', ...stringList }),
+          recommendedFor: field({ description: 'Job role ids this tool is recommended for', ...stringList })
+        },
+        additionalProperties: false
+      }
+    }
+  };
+}
+
+/**
+ * Check a value against a schema, collecting every mismatch
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema = schema,
+  path: ValuePath = []
+): SchemaIssue[] {
+  if (schema.$ref) {
+    return validateAgainstSchema(value, resolveRef(schema.$ref, root), root, path);
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [{ path, message: `must be one of: ${schema.enum.map(String).join(', ')}` }];
+  }
+  const types = schema.type === undefined ? [] : ([] as JsonSchemaType[]).concat(schema.type);
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    return [{ path, message: `must be ${types.map(describeType).join(' or ')}` }];
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return [{ path, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` }];
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      return [{ path, message: `must match ${schema.pattern}` }];
+    }
+    return [];
+  }
+
+  if (Array.isArray(value)) {
+    return schema.items
+      ? value.flatMap((item, index) => validateAgainstSchema(item, schema.items!, root, [...path, index]))
+      : [];
+  }
+
+  if (isObject(value)) {
+    return validateObject(value, schema, root, path);
+  }
+
+  return [];
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  root: JsonSchema,
+  path: ValuePath
+): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+
+  for (const key of schema.required ?? []) {
+    if (!(key in value)) {
+      issues.push({ path, message: `missing required property "${key}"` });
+    }
+  }
+
+  for (const [key, propertyValue] of Object.entries(value)) {
+    const propertyPath = [...path, key];
+    if (schema.propertyNames && validateAgainstSchema(key, schema.propertyNames, root).length > 0) {
+      issues.push({ path: propertyPath, message: 'unknown key' });
+      continue;
+    }
+
+    const propertySchema = schema.properties?.[key];
+    if (propertySchema) {
+      issues.push(...validateAgainstSchema(propertyValue, propertySchema, root, propertyPath));
+    } else if (schema.additionalProperties === false) {
+      issues.push({ path: propertyPath, message: 'unknown property' });
+    } else if (typeof schema.additionalProperties === 'object') {
+      issues.push(...validateAgainstSchema(propertyValue, schema.additionalProperties, root, propertyPath));
+    }
+  }
+
+  return issues;
+}
+
+// Overlays may set any field (and any key of an object field) to null to delete it
+function nullable(schema: JsonSchema): JsonSchema {
+  const result: JsonSchema = { ...schema };
+  if (schema.enum) {
+    result.enum = [...schema.enum, null];
+  }
+  if (schema.type) {
+    result.type = ([] as JsonSchemaType[]).concat(schema.type, 'null');
+  }
+  if (typeof schema.additionalProperties === 'object') {
+    result.additionalProperties = nullable(schema.additionalProperties);
+  }
+  return result;
+}
+
+function describeType(type: JsonSchemaType): string {
+  if (type === 'null') {
+    return 'null';
+  }
+  return `${/^[aeiou]/.test(type) ? 'an' : 'a'} ${type}`;
+}
+
+// Only local references ('#/definitions/tool') are used
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  const name = ref.replace(/^#\/definitions\//, '');
+  const resolved = root.definitions?.[name];
+  if (!resolved) {
+    throw new Error(`Unknown schema reference: ${ref}`);
+  }
+  return resolved;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'object': return isObject(value);
+    case 'array': return Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'null': return value === null;
+    default: return typeof value === type;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -12,19 +12,101 @@ export interface SimpleTool {
   category: ToolCategory;
   description?: string;
   
-  // Platform-specific package names (e.g., { darwin: 'node', win32: 'nodejs' })
+  // Platform-specific package names (e.g., { darwin: 'node', win32: 'nodejs' }).
+  // Keys like 'linux-dnf' override the platform name for one package manager.
   packageNames?: Record<string, string>;
   
+  // Version constraint, exact ('15', '3.12.1') or a semver range ('^20', '>=1.25 <2').
+  // Package names may use a {version} placeholder (e.g. 'postgresql@{version}').
+  version?: string;
+
   // Custom install commands if not using package manager
   customInstall?: Record<string, string>;
+
+  // Install scripts to download, check against their SHA-256 and run, instead of piping curl into sh
+  installScript?: Partial<Record<Platform, InstallScript>>;
+
+  // Custom uninstall commands, needed to remove tools that use customInstall
+  customUninstall?: Record<string, string>;
   
   // Command to verify installation (defaults to `${id} --version`)
   verification?: string;
-  
+
+  // Structured detection; used instead of verification when present
+  detection?: ToolDetectionSpec;
+
+  // Tool ids that must be installed before this one (e.g. ['nodejs'] for npm-based tools)
+  dependsOn?: string[];
+
   // Simple flag for job role recommendations
   recommendedFor?: string[];
 }
 
+/**
+ * A downloaded install script, run only if its SHA-256 matches
+ */
+export interface InstallScript {
+  url: string;
+  sha256: string;
+  // Arguments passed to the script (e.g. ['-y'] for rustup)
+  args?: string[];
+}
+
+/**
+ * How to find an installed tool: probes are tried in order and the first that finds it wins
+ */
+export interface ToolDetectionSpec {
+  probes: DetectionProbe[];
+  // Versions below this count as installed but too old
+  minVersion?: string;
+}
+
+export type DetectionProbe = CommandProbe | FileProbe | RegistryProbe | PackageProbe | AppBundleProbe;
+
+export type DetectionProbeType = DetectionProbe['type'];
+
+interface DetectionProbeBase {
+  // Platforms the probe applies to; all when omitted
+  platforms?: Platform[];
+  // Regex whose first capture group (or whole match) is the version
+  versionPattern?: string;
+}
+
+// Succeeds when the command exits with 0
+export interface CommandProbe extends DetectionProbeBase {
+  type: 'command';
+  command: string;
+}
+
+// Succeeds when the file exists; ~ and $VAR / %VAR% are expanded
+export interface FileProbe extends DetectionProbeBase {
+  type: 'file';
+  path: string;
+  // Prints the version; {path} is replaced with the expanded path
+  versionCommand?: string;
+}
+
+// Windows only: succeeds when the registry value exists
+export interface RegistryProbe extends DetectionProbeBase {
+  type: 'registry';
+  key: string;
+  // Defaults to DisplayVersion
+  value?: string;
+}
+
+// Succeeds when the package manager reports the package as installed
+export interface PackageProbe extends DetectionProbeBase {
+  type: 'package';
+  manager: PackageManagerId;
+  name: string;
+}
+
+// macOS only: succeeds when the .app exists, reading the version from its Info.plist
+export interface AppBundleProbe extends DetectionProbeBase {
+  type: 'app-bundle';
+  path: string;
+}
+
 /**
  * Tool categories - organized for better UI clarity
  */
@@ -48,6 +130,9 @@ export type ToolCategory =
 export interface SimpleManifest {
   version: string;
   tools: SimpleTool[];
+
+  // Version constraints on the layers below this manifest, e.g. { organization: '^2' }
+  compatibleWith?: Record<string, string>;
 }
 
 /**
@@ -56,9 +141,25 @@ export interface SimpleManifest {
 export interface PlatformInfo {
   platform: 'darwin' | 'win32' | 'linux';
   arch: 'x64' | 'arm64';
-  packageManager: 'brew' | 'chocolatey' | 'apt' | 'yum' | 'unknown';
+  packageManager: PackageManagerId | 'unknown';
 }
 
+/**
+ * Package managers HatStart can install through
+ */
+export type PackageManagerId =
+  | 'brew'
+  | 'chocolatey'
+  | 'winget'
+  | 'apt'
+  | 'dnf'
+  | 'yum'
+  | 'pacman'
+  | 'zypper'
+  | 'apk'
+  | 'snap'
+  | 'flatpak';
+
 /**
  * Installation method (how to install a tool)
  */
@@ -1,80 +1,141 @@
 /**
  * Simple Manifest Validator
- * Replaces 708 lines with basic validation that actually matters
+ * Checks manifests against the published JSON Schema, plus the few rules a schema can't express
  */
 
-import type { SimpleManifest, ToolCategory } from './simple-manifest-types';
+import { buildManifestSchema, validateAgainstSchema } from './simple-manifest-schema';
+import type { JsonSchema, ManifestSchemaKind, SchemaIssue } from './simple-manifest-schema';
+import { isValidVersionConstraint } from './version-constraint';
+import type { SourcePosition, ValuePath } from './manifest-source';
+import type { SimpleManifest } from './simple-manifest-types';
 
-const VALID_CATEGORIES: ToolCategory[] = [
-  'language', 'ide', 'database', 'web-frameworks', 'containers', 
-  'infrastructure', 'cloud', 'testing', 'monitoring', 
-  'package-managers', 'developer-tools', 'other'
-];
+/**
+ * A problem found in a manifest, located in its source file when one is available
+ */
+export interface ManifestValidationIssue {
+  path: ValuePath;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+const MANIFEST_SCHEMAS: Record<ManifestSchemaKind, JsonSchema> = {
+  complete: buildManifestSchema('complete'),
+  overlay: buildManifestSchema('overlay')
+};
 
 /**
- * Validate a manifest and return errors if any
+ * Validate a manifest and return issues if any.
+ * Pass `locate` (from parseManifestSource) to get line and column numbers, and
+ * kind 'overlay' for organization, team and user manifests.
  */
-export function validateManifest(manifest: unknown): string[] {
-  const errors: string[] = [];
-  
-  if (!isObject(manifest)) {
-    return ['Manifest must be an object'];
+export function getManifestIssues(
+  manifest: unknown,
+  locate?: (path: ValuePath) => SourcePosition | undefined,
+  kind: ManifestSchemaKind = 'complete'
+): ManifestValidationIssue[] {
+  const issues = validateAgainstSchema(manifest, MANIFEST_SCHEMAS[kind]);
+
+  // Version constraints are strings to the schema, but must also parse
+  const tools = isObject(manifest) && Array.isArray(manifest.tools) ? manifest.tools : [];
+  tools.forEach((tool, index) => {
+    if (isObject(tool) && typeof tool.version === 'string' && tool.version && !isValidVersionConstraint(tool.version)) {
+      issues.push({ path: ['tools', index, 'version'], message: 'must be a version or semver range' });
+    }
+    if (isObject(tool) && isObject(tool.detection)) {
+      issues.push(...getDetectionIssues(tool.detection, ['tools', index, 'detection']));
+    }
+  });
+  const compatibleWith = isObject(manifest) && isObject(manifest.compatibleWith) ? manifest.compatibleWith : {};
+  for (const [layer, constraint] of Object.entries(compatibleWith)) {
+    if (typeof constraint === 'string' && constraint && !isValidVersionConstraint(constraint)) {
+      issues.push({ path: ['compatibleWith', layer], message: 'must be a version or semver range' });
+    }
   }
-  
-  // Check version
-  if (!manifest.version || typeof manifest.version !== 'string') {
-    errors.push('Manifest must have a version string');
+
+  return issues.map(issue => ({ ...issue, ...locate?.(issue.path) }));
+}
+
+// Fields each probe type needs, beyond what the shared probe schema can say
+const PROBE_FIELDS: Record<string, string[]> = {
+  command: ['command'],
+  file: ['path'],
+  registry: ['key'],
+  package: ['manager', 'name'],
+  'app-bundle': ['path']
+};
+
+function getDetectionIssues(detection: Record<string, unknown>, path: ValuePath): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const probes = Array.isArray(detection.probes) ? detection.probes : [];
+
+  probes.forEach((probe, index) => {
+    if (!isObject(probe) || typeof probe.type !== 'string') {
+      return;
+    }
+    const probePath = [...path, 'probes', index];
+    for (const field of PROBE_FIELDS[probe.type] ?? []) {
+      if (!(field in probe)) {
+        issues.push({ path: probePath, message: `missing required property "${field}" for a ${probe.type} probe` });
+      }
+    }
+    if (typeof probe.versionPattern === 'string' && !isValidRegex(probe.versionPattern)) {
+      issues.push({ path: [...probePath, 'versionPattern'], message: 'must be a valid regular expression' });
+    }
+  });
+
+  if (typeof detection.minVersion === 'string' && detection.minVersion && !isValidVersionConstraint(detection.minVersion)) {
+    issues.push({ path: [...path, 'minVersion'], message: 'must be a version' });
   }
-  
-  // Check tools array
-  if (!Array.isArray(manifest.tools)) {
-    errors.push('Manifest must have a tools array');
-    return errors; // Can't continue without tools
+  return issues;
+}
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
   }
-  
-  // Validate each tool
-  manifest.tools.forEach((tool, index) => {
-    const toolErrors = validateTool(tool, index);
-    errors.push(...toolErrors);
-  });
-  
-  return errors;
 }
 
 /**
- * Validate a single tool
+ * Validate a manifest and return errors if any
  */
-function validateTool(tool: unknown, index: number): string[] {
-  const errors: string[] = [];
-  const prefix = `Tool[${index}]`;
-  
-  if (!isObject(tool)) {
-    return [`${prefix}: must be an object`];
-  }
-  
-  // Required fields
-  if (!tool.id || typeof tool.id !== 'string') {
-    errors.push(`${prefix}: must have an id string`);
-  }
-  
-  if (!tool.name || typeof tool.name !== 'string') {
-    errors.push(`${prefix}: must have a name string`);
-  }
-  
-  if (!tool.category || !VALID_CATEGORIES.includes(tool.category as ToolCategory)) {
-    errors.push(`${prefix}: must have a valid category (${VALID_CATEGORIES.join(', ')})`);
-  }
-  
-  // Optional fields validation
-  if (tool.packageNames && !isObject(tool.packageNames)) {
-    errors.push(`${prefix}: packageNames must be an object`);
+export function validateManifest(
+  manifest: unknown,
+  locate?: (path: ValuePath) => SourcePosition | undefined,
+  kind: ManifestSchemaKind = 'complete'
+): string[] {
+  return getManifestIssues(manifest, locate, kind).map(formatManifestIssue);
+}
+
+/**
+ * Format an issue as e.g. 'Tool[2].category: must be one of: ... (line 14, column 5)'
+ */
+export function formatManifestIssue(issue: ManifestValidationIssue): string {
+  const location = issue.line !== undefined ? ` (line ${issue.line}, column ${issue.column})` : '';
+  return `${formatPath(issue.path)}: ${issue.message}${location}`;
+}
+
+function formatPath(path: ValuePath): string {
+  if (path.length === 0) {
+    return 'Manifest';
   }
-  
-  if (tool.customInstall && !isObject(tool.customInstall)) {
-    errors.push(`${prefix}: customInstall must be an object`);
+
+  // Tools read as Tool[2] rather than Manifest.tools[2]
+  const [first, second, ...rest] = path;
+  let result = first === 'tools' && typeof second === 'number' ? `Tool[${second}]` : `Manifest.${first}`;
+  const remaining = first === 'tools' && typeof second === 'number' ? rest : path.slice(1);
+
+  for (const part of remaining) {
+    if (typeof part === 'number') {
+      result += `[${part}]`;
+    } else {
+      result += /^[A-Za-z_$][\w$]*$/.test(part) ? `.${part}` : `[${JSON.stringify(part)}]`;
+    }
   }
-  
-  return errors;
+  return result;
 }
 
 /**
@@ -90,5 +151,3 @@ function isObject(value: unknown): value is Record<string, unknown> {
 export function isValidManifest(manifest: unknown): manifest is SimpleManifest {
   return validateManifest(manifest).length === 0;
 }
-
-// 85 lines of practical validation
\ No newline at end of file
@@ -11,4 +11,4 @@ export * from './simple-manifest-validator';
 import defaultTools from './default-tools.json';
 import type { SimpleManifest } from './simple-manifest-types';
 
-export const DEFAULT_MANIFEST: SimpleManifest = defaultTools as SimpleManifest;
\ No newline at end of file
+export const DEFAULT_MANIFEST: SimpleManifest = defaultTools as unknown as SimpleManifest;
\ No newline at end of file
@@ -0,0 +1,231 @@
+/**
+ * Version Constraint
+ * Minimal semver-style ranges for pinning manifest tool versions
+ */
+
+import type { SimpleTool } from './simple-manifest-types';
+
+type VersionTuple = [number, number, number];
+
+interface Comparator {
+  op: '>=' | '>' | '<=' | '<' | '=';
+  version: VersionTuple;
+}
+
+/**
+ * A partially specified version such as "15", "3.12" or "1.2.3" (x/* wildcards allowed)
+ */
+interface PartialVersion {
+  parts: number[];
+}
+
+const PARTIAL_VERSION = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:[-+][0-9A-Za-z.-]*)?$/;
+const COMPARATOR = /^(>=|<=|>|<|=|\^|~)?\s*(.+)$/;
+
+/**
+ * Thrown when a constraint cannot be parsed
+ */
+export class InvalidVersionConstraintError extends Error {
+  readonly constraint: string;
+
+  constructor(constraint: string) {
+    super(`Invalid version constraint: "${constraint}"`);
+    this.name = 'InvalidVersionConstraintError';
+    this.constraint = constraint;
+  }
+}
+
+/**
+ * Check whether a constraint string can be parsed
+ */
+export function isValidVersionConstraint(constraint: string): boolean {
+  try {
+    parseConstraint(constraint);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pull the first dotted version number out of tool output (e.g. "Python 3.12.1" -> "3.12.1")
+ */
+export function coerceVersion(text: string): string | null {
+  const match = text.match(/(\d+)(?:\.(\d+))?(?:\.(\d+))?/);
+  return match ? [match[1], match[2] ?? '0', match[3] ?? '0'].join('.') : null;
+}
+
+/**
+ * Check whether a version satisfies a constraint.
+ * Supports exact and partial versions, x-ranges, ^, ~, comparison operators,
+ * space-separated AND, "a - b" hyphen ranges and || alternatives.
+ */
+export function satisfiesVersion(version: string, constraint: string): boolean {
+  const coerced = coerceVersion(version);
+  if (!coerced) {
+    return false;
+  }
+  const tuple = coerced.split('.').map(Number) as VersionTuple;
+
+  return parseConstraint(constraint).some(set =>
+    set.every(comparator => compare(tuple, comparator))
+  );
+}
+
+/**
+ * Check a detected version against a tool's version constraint.
+ * Unpinned tools accept any version; pinned tools need a detected one.
+ */
+export function satisfiesToolVersion(tool: Pick<SimpleTool, 'version'>, detectedVersion?: string): boolean {
+  if (!tool.version) {
+    return true;
+  }
+  return detectedVersion !== undefined && satisfiesVersion(detectedVersion, tool.version);
+}
+
+/**
+ * The version to ask a package manager for, or null if the constraint is a
+ * range no single version expresses (e.g. ">=15"). "^15.2" pins "15", "~3.12.1" pins "3.12".
+ */
+export function getPinnedVersion(constraint: string): string | null {
+  const trimmed = constraint.trim();
+  if (/\|\||\s/.test(trimmed)) {
+    return null;
+  }
+
+  const [, op = '', versionText] = trimmed.match(COMPARATOR) ?? [];
+  const partial = versionText ? parsePartial(versionText) : null;
+  if (!partial || partial.parts.length === 0) {
+    return null;
+  }
+
+  const { parts } = partial;
+  switch (op) {
+    case '':
+    case '=':
+      return parts.join('.');
+    case '^':
+      // Pin down to the first non-zero part, like the range itself
+      return parts[0] === 0 && parts.length > 1 ? parts.slice(0, 2).join('.') : String(parts[0]);
+    case '~':
+      return parts.slice(0, 2).join('.');
+    default:
+      return null;
+  }
+}
+
+function parseConstraint(constraint: string): Comparator[][] {
+  const alternatives = constraint.split('||').map(part => part.trim());
+  if (alternatives.some(part => part.length === 0)) {
+    throw new InvalidVersionConstraintError(constraint);
+  }
+
+  return alternatives.map((alternative): Comparator[] => {
+    const hyphen = alternative.match(/^(\S+)\s+-\s+(\S+)$/);
+    if (hyphen) {
+      const from = parsePartialOrThrow(hyphen[1], constraint);
+      const to = parsePartialOrThrow(hyphen[2], constraint);
+      return [
+        { op: '>=', version: fill(from.parts) },
+        to.parts.length === 3 ? { op: '<=', version: fill(to.parts) } : { op: '<', version: bump(to.parts) }
+      ];
+    }
+
+    // Allow a space between an operator and its version (">= 15")
+    const tokens = alternative.replace(/(>=|<=|>|<|=|\^|~)\s+/g, '$1').split(/\s+/);
+    return tokens.flatMap(token => parseComparator(token, constraint));
+  });
+}
+
+function parseComparator(token: string, constraint: string): Comparator[] {
+  const [, op = '', versionText] = token.match(COMPARATOR) ?? [];
+  const partial = parsePartialOrThrow(versionText ?? '', constraint);
+  const { parts } = partial;
+
+  if (parts.length === 0) {
+    // "*" or "x" - any version
+    return op === '<' || op === '>' ? [{ op: '<', version: [0, 0, 0] }] : [];
+  }
+
+  const lower = fill(parts);
+  switch (op) {
+    case '':
+    case '=':
+      return parts.length === 3
+        ? [{ op: '=', version: lower }]
+        : [{ op: '>=', version: lower }, { op: '<', version: bump(parts) }];
+    case '>=':
+      return [{ op: '>=', version: lower }];
+    case '>':
+      return parts.length === 3 ? [{ op: '>', version: lower }] : [{ op: '>=', version: bump(parts) }];
+    case '<':
+      return [{ op: '<', version: lower }];
+    case '<=':
+      return parts.length === 3 ? [{ op: '<=', version: lower }] : [{ op: '<', version: bump(parts) }];
+    case '^': {
+      const significant = parts.findIndex(part => part !== 0);
+      const index = significant === -1 ? parts.length - 1 : Math.min(significant, parts.length - 1);
+      return [{ op: '>=', version: lower }, { op: '<', version: bump(parts.slice(0, index + 1)) }];
+    }
+    case '~':
+      return [{ op: '>=', version: lower }, { op: '<', version: bump(parts.slice(0, Math.min(parts.length, 2))) }];
+    default:
+      throw new InvalidVersionConstraintError(constraint);
+  }
+}
+
+function parsePartial(text: string): PartialVersion | null {
+  const match = text.match(PARTIAL_VERSION);
+  if (!match) {
+    return null;
+  }
+
+  // Parts after a wildcard are ignored ("1.x.3" is "1.x")
+  const parts: number[] = [];
+  for (const part of match.slice(1, 4)) {
+    if (part === undefined || /[xX*]/.test(part)) {
+      break;
+    }
+    parts.push(Number(part));
+  }
+  return { parts };
+}
+
+function parsePartialOrThrow(text: string, constraint: string): PartialVersion {
+  const partial = parsePartial(text);
+  if (!partial) {
+    throw new InvalidVersionConstraintError(constraint);
+  }
+  return partial;
+}
+
+function fill(parts: number[]): VersionTuple {
+  return [parts[0] ?? 0, parts[1] ?? 0, parts[2] ?? 0];
+}
+
+// Smallest version above every version matching the partial ("1.2" -> 1.3.0)
+function bump(parts: number[]): VersionTuple {
+  const bumped = [...parts];
+  bumped[bumped.length - 1] += 1;
+  return fill(bumped);
+}
+
+function compare(version: VersionTuple, comparator: Comparator): boolean {
+  const diff = compareTuples(version, comparator.version);
+  switch (comparator.op) {
+    case '>=': return diff >= 0;
+    case '>': return diff > 0;
+    case '<=': return diff <= 0;
+    case '<': return diff < 0;
+    case '=': return diff === 0;
+  }
+}
+
+function compareTuples(a: VersionTuple, b: VersionTuple): number {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return 0;
+}
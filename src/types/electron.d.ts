@@ -1,4 +1,25 @@
 import type { DetectionResult, SystemDetectionReport } from '../shared/detection-types';
+import type { InstallPlan } from '../shared/install-planner';
+import type { DryRunReport } from '../services/install-dry-run';
+import type { InstallLogEntry } from '../services/install-runner';
+import type { InstallSession } from '../services/install-session';
+import type { DetectionCacheStatus, ToolDetectionResult } from '../services/tool-detection-service';
+import type { SimpleManifest } from '../shared/simple-manifest-types';
+import type { ManifestLayerName, ManifestProvenance } from '../shared/manifest-layers';
+import type { ManifestTrustCheck } from '../services/manifest-trust';
+import type { DoctorCheckId, DoctorFixResult, DoctorReport } from '../services/environment-doctor';
+import type { InventoryFormat, InventoryRedaction } from '../services/machine-inventory';
+import type { DriftReport } from '../services/inventory-drift';
+import type { ToolOwnership } from '../services/version-management-engine';
+import type { MigrationOptions, MigrationPlan, MigrationReport } from '../services/version-manager-migration';
+import type {
+  IVersionInfo,
+  IVersionOperationResult,
+  VersionedTool,
+  VersionInstallProgress,
+  VersionManagerStatus,
+  VersionManagerType
+} from '../services/version-manager-types';
 
 // File operation types
 export interface FileOperationOptions {
@@ -11,6 +32,38 @@ export interface SaveFileOptions extends FileOperationOptions {
   data: string;
 }
 
+// Result of a version-manager operation
+export interface VersionOperationResponse {
+  success: boolean;
+  result?: IVersionOperationResult;
+  // Manager an install needs but that is not installed; retry with installManager once the user agrees
+  managerRequired?: VersionManagerType;
+  error?: string;
+}
+
+// Result of an install run (fresh or resumed)
+export interface InstallToolsResult {
+  success: boolean;
+  summary?: {
+    total: number;
+    successful: number;
+    failed: number;
+    alreadyInstalled: number;
+    failures: Array<{ tool: string; error: string }>;
+  };
+  results?: Array<{
+    success: boolean;
+    skipped?: boolean;
+    cancelled?: boolean;
+    tool: string;
+    message: string;
+    error?: Error;
+  }>;
+  plan?: InstallPlan;
+  session?: InstallSession;
+  error?: string;
+}
+
 // Electron API types
 export interface ElectronAPI {
   // General IPC invoke method
@@ -22,12 +75,37 @@ export interface ElectronAPI {
   
   // Manifest loading APIs
   loadManifestFile: (filePath: string, type?: string) => Promise<unknown>;
-  loadMultipleManifests: (filePaths: string[]) => Promise<unknown>;
-  discoverManifests: (directory: string, recursive?: boolean) => Promise<string[]>;
-  saveManifest: (data: unknown, filePath: string) => Promise<{ success: boolean }>;
-  getDefaultManifestDirs: () => Promise<string[]>;
-  ensureCacheDir: () => Promise<{ success: boolean }>;
-  clearManifestCache: () => Promise<{ success: boolean }>;
+  loadMultipleManifests: (filePaths: string[]) => Promise<{
+    success?: boolean;
+    data?: SimpleManifest;
+    // Files that were merged, later ones overriding earlier ones
+    sources?: string[];
+    // Files left out because they failed to load or validate
+    errors?: Array<{ filePath: string; errors: string[] }>;
+    // Files left out until they are signed by a trusted publisher or the user trusts them
+    untrusted?: ManifestTrustCheck[];
+    // Some of the untrusted files can be approved with trustManifest
+    trustRequired?: boolean;
+    error?: string;
+  }>;
+  discoverManifests: (directory: string, recursive?: boolean) => Promise<{ success?: boolean; data?: string[]; error?: string }>;
+  saveManifest: (data: unknown, filePath: string) => Promise<{ success?: boolean; error?: string }>;
+  getDefaultManifestDirs: () => Promise<{ success: boolean; data: string[] }>;
+  getManifestLayers: () => Promise<{
+    success?: boolean;
+    // Every layer in merge order, with the files found in its directory
+    layers?: Array<{ layer: ManifestLayerName; directory: string; files: string[] }>;
+    provenance?: ManifestProvenance;
+    errors?: Array<{ filePath: string; errors: string[] }>;
+    // Overlay files held back until they are signed by a trusted publisher or the user trusts them
+    untrusted?: ManifestTrustCheck[];
+    error?: string;
+  }>;
+  checkManifestTrust: (filePath: string) => Promise<{ success?: boolean; trust?: ManifestTrustCheck; error?: string }>;
+  // Trust this file's current content, or with trustPublisher add its signer to the keyring
+  trustManifest: (filePath: string, trustPublisher?: boolean) => Promise<{ success?: boolean; trust?: ManifestTrustCheck; error?: string }>;
+  ensureCacheDir: () => Promise<{ success?: boolean; path?: string; error?: string }>;
+  clearManifestCache: () => Promise<{ success?: boolean; error?: string }>;
   
   // System detection APIs
   detectInstalledTools: () => Promise<{
@@ -88,38 +166,54 @@ export interface ElectronAPI {
   }) => Promise<{ success: boolean; error?: string }>;
   
   // Installation APIs
-  installTools: (toolIds: string[]) => Promise<{
-    success: boolean;
-    summary?: {
-      total: number;
-      successful: number;
-      failed: number;
-      alreadyInstalled: number;
-      failures: Array<{ tool: string; error: string }>;
-    };
-    results?: Array<{
-      success: boolean;
-      tool: string;
-      message: string;
-      error?: Error;
+  installTools: (toolIds: string[]) => Promise<InstallToolsResult>;
+  previewInstallPlan: (toolIds: string[]) => Promise<{
+    success: boolean;
+    plan?: InstallPlan;
+    error?: string;
+  }>;
+  dryRunInstall: (toolIds: string[]) => Promise<{
+    success: boolean;
+    report?: DryRunReport;
+    error?: string;
+  }>;
+  cancelInstallation: () => Promise<{ success: boolean; error?: string }>;
+  resumeInstallation: () => Promise<InstallToolsResult>;
+  getInstallSession: () => Promise<{
+    success: boolean;
+    session?: InstallSession | null;
+    resumable?: boolean;
+    remainingToolIds?: string[];
+    error?: string;
+  }>;
+  discardInstallSession: () => Promise<{ success: boolean; error?: string }>;
+  uninstallTools: (toolIds: string[]) => Promise<InstallToolsResult>;
+  getRollback: () => Promise<{
+    success: boolean;
+    tools?: Array<{
+      toolId: string;
+      name: string;
+      installedAt: string;
+      uninstallCommand: string | null;
     }>;
     error?: string;
   }>;
+  rollbackLastSession: () => Promise<InstallToolsResult>;
+  upgradeTools: (toolIds: string[]) => Promise<InstallToolsResult>;
   checkPrerequisites: () => Promise<{
     platform: string;
     packageManager: string;
+    packageManagerName?: string;
     available: boolean;
+    fallbacks?: string[];
+    distribution?: string;
+    error?: string;
   }>;
   
   // Tool detection APIs
   detectTools: (toolIds?: string[]) => Promise<{
     success: boolean;
-    results?: Array<{
-      toolId: string;
-      installed: boolean;
-      version?: string;
-      lastChecked: Date;
-    }>;
+    results?: DetectionResult[];
     error?: string;
   }>;
   detectSingleTool: (toolId: string) => Promise<{
@@ -133,9 +227,47 @@ export interface ElectronAPI {
     error?: string;
   }>;
   clearDetectionCache: (toolId?: string) => Promise<{ success: boolean }>;
+  getDetectionCache: () => Promise<{
+    success?: boolean;
+    entries?: DetectionCacheStatus[];
+    error?: string;
+  }>;
+  checkForUpdates: (toolIds?: string[]) => Promise<{
+    success: boolean;
+    results?: ToolDetectionResult[];
+    error?: string;
+  }>;
+  runDoctor: (checks?: DoctorCheckId[]) => Promise<{
+    success: boolean;
+    report?: DoctorReport;
+    error?: string;
+  }>;
+  applyDoctorFix: (findingId: string) => Promise<{
+    success: boolean;
+    result?: DoctorFixResult;
+    error?: string;
+  }>;
+  exportInventory: (format: InventoryFormat, redaction: InventoryRedaction) => Promise<{
+    success: boolean;
+    filePath?: string;
+    cancelled?: boolean;
+    error?: string;
+  }>;
+  // report is null until a baseline has been saved
+  checkDrift: () => Promise<{
+    success: boolean;
+    report?: DriftReport | null;
+    error?: string;
+  }>;
+  saveDriftBaseline: () => Promise<{
+    success: boolean;
+    generatedAt?: string;
+    error?: string;
+  }>;
   
   // Progress tracking APIs
   onInstallationProgress: (callback: (progress: { message: string; progress: number }) => void) => () => void;
+  onInstallationLog: (callback: (entry: InstallLogEntry) => void) => () => void;
   
   // Version Management APIs - Minimal MVP implementation
   versionManager: {
@@ -143,11 +275,13 @@ export interface ElectronAPI {
     list: () => Promise<{
       success: boolean;
       managers?: Array<{
-        type: string;
+        type: VersionManagerType;
         name: string;
         description: string;
+        homepage: string;
         isInstalled: boolean;
-        supportedTools: string[];
+        isRecommended: boolean;
+        supportedTools: VersionedTool[];
       }>;
       error?: string;
     }>;
@@ -159,19 +293,46 @@ export interface ElectronAPI {
       error?: string;
     }>;
     
-    // Get installed versions for a tool
-    listVersions: (tool: string) => Promise<{
+    // Get installed versions for a tool, optionally with the versions that can be installed
+    listVersions: (tool: VersionedTool, includeAvailable?: boolean) => Promise<{
       success: boolean;
-      versions?: string[];
+      // Manager that owns the tool; undefined when no installed manager supports it
+      manager?: VersionManagerType;
+      versions?: IVersionInfo[];
+      available?: IVersionInfo[];
       error?: string;
     }>;
     
     // Get current active version for a tool
-    getCurrentVersion: (tool: string) => Promise<{
+    getCurrentVersion: (tool: VersionedTool) => Promise<{
       success: boolean;
       version?: string;
       error?: string;
     }>;
+    
+    // Detect installed managers and which one owns each tool
+    detect: () => Promise<{
+      success: boolean;
+      detected?: Array<{ type: VersionManagerType; status: VersionManagerStatus }>;
+      ownership?: ToolOwnership[];
+      error?: string;
+    }>;
+    
+    // Version operations, routed to the manager that owns the tool
+    installVersion: (tool: VersionedTool, version: string, installManager?: boolean) => Promise<VersionOperationResponse>;
+    uninstallVersion: (tool: VersionedTool, version: string) => Promise<VersionOperationResponse>;
+    setGlobal: (tool: VersionedTool, version: string) => Promise<VersionOperationResponse>;
+    setLocal: (tool: VersionedTool, version: string, projectRoot: string) => Promise<VersionOperationResponse>;
+    
+    // Move nvm, pyenv and rbenv runtimes to mise, and undo the last migration
+    planMigration: (options?: MigrationOptions) => Promise<{ success: boolean; plan?: MigrationPlan; error?: string }>;
+    migrate: (options?: MigrationOptions) => Promise<{ success: boolean; report?: MigrationReport; error?: string }>;
+    rollbackMigration: () => Promise<{ success: boolean; report?: MigrationReport; error?: string }>;
+    // The last migration's report; null when there hasn't been one
+    getMigrationReport: () => Promise<{ success: boolean; report?: MigrationReport | null; error?: string }>;
+    
+    // Install progress
+    onProgress: (callback: (progress: VersionInstallProgress) => void) => () => void;
   };
   
   // Clean up listeners
@@ -3,6 +3,9 @@
  * Defines interfaces for category-based tool selection UI components
  */
 
+import type { ManifestLayerName } from '../shared/manifest-layers';
+import type { ToolInstallation } from '../services/tool-installations';
+
 /**
  * Represents a development tool that can be installed
  */
@@ -22,6 +25,17 @@ export interface Tool {
   platforms: Platform[];
   size?: string;
   installationTime?: string;
+  // Set when the package manager has a newer version than the installed one
+  updateAvailable?: boolean;
+  latestVersion?: string;
+  // Manifest layer that set each field ('packageNames.linux' -> 'team'); empty for built-in tools
+  provenance?: Record<string, ManifestLayerName>;
+  // Which detection probe found the tool, e.g. 'Found by brew package "node" (installed, version 22.1.0)'
+  detectionExplanation?: string;
+  // Every copy of the tool's executable found on PATH and in known install roots
+  installations?: ToolInstallation[];
+  // Set when a system or Homebrew binary shadows a version manager's shim
+  shadowingWarning?: string;
 }
 
 /**
@@ -193,6 +207,9 @@ export interface SelectionSummaryProps {
   onInstallSelected: (toolIds: string[]) => void;
   onClearSelection: () => void;
   onExportSelection?: () => void;
+  onPreviewCommands?: () => void;
+  onCancelInstallation?: () => void;
+  onUpgradeSelected?: (toolIds: string[]) => void;
   installationProgress?: InstallationProgress;
   estimatedTime?: string;
   estimatedSize?: string;
@@ -4,6 +4,7 @@
  */
 
 import type {
+    JdkVendor,
     VersionedTool,
     IVersionInfo,
     VersionInstallOptions,
@@ -123,6 +124,8 @@ export interface VersionSelectorFilters {
   showPrerelease: boolean;
   /** Search query */
   searchQuery: string;
+  /** JDK vendor (Java only) */
+  vendor?: JdkVendor;
   /** Version range filter */
   versionRange?: {
     min?: string;
@@ -0,0 +1,89 @@
+// Unit tests for the dependency-ordered install planner
+import { createInstallPlan, DependencyCycleError, findFailedPrerequisite, walkInstallPlan } from '../../src/shared/install-planner';
+import type { SimpleManifest } from '../../src/shared/simple-manifest-types';
+
+const manifest: SimpleManifest = {
+  version: '1.0.0',
+  tools: [
+    { id: 'nodejs', name: 'Node.js', category: 'language' },
+    { id: 'php', name: 'PHP', category: 'language' },
+    { id: 'composer', name: 'Composer', category: 'package-managers', dependsOn: ['php'] },
+    { id: 'laravel', name: 'Laravel', category: 'web-frameworks', dependsOn: ['php', 'composer'] },
+    { id: 'jest', name: 'Jest', category: 'testing', dependsOn: ['nodejs'] },
+    { id: 'git', name: 'Git', category: 'developer-tools' }
+  ]
+};
+
+describe('Install Planner', () => {
+  it('should place prerequisites before the tools that need them', () => {
+    const plan = createInstallPlan(['jest', 'nodejs'], manifest);
+
+    expect(plan.steps.map(step => step.toolId)).toEqual(['nodejs', 'jest']);
+    expect(plan.autoAdded).toEqual([]);
+  });
+
+  it('should auto-add missing prerequisites transitively', () => {
+    const plan = createInstallPlan(['laravel', 'git'], manifest);
+
+    expect(plan.steps.map(step => step.toolId)).toEqual(['php', 'composer', 'laravel', 'git']);
+    expect(plan.autoAdded).toEqual(['php', 'composer']);
+    expect(plan.steps.find(step => step.toolId === 'laravel')?.autoAdded).toBe(false);
+  });
+
+  it('should report unknown tool ids without failing', () => {
+    const plan = createInstallPlan(['git', 'does-not-exist'], manifest);
+
+    expect(plan.steps.map(step => step.toolId)).toEqual(['git']);
+    expect(plan.unknown).toEqual(['does-not-exist']);
+    expect(plan.missingDependencies).toEqual([]);
+  });
+
+  it('should report prerequisites that are not in the manifest', () => {
+    const plan = createInstallPlan(['symfony'], {
+      ...manifest,
+      tools: [...manifest.tools, { id: 'symfony', name: 'Symfony', category: 'web-frameworks', dependsOn: ['php', 'symfony-cli'] }]
+    });
+
+    expect(plan.steps.map(step => step.toolId)).toEqual(['php', 'symfony']);
+    expect(plan.unknown).toEqual(['symfony-cli']);
+    expect(plan.missingDependencies).toEqual([{ toolId: 'symfony', dependsOn: 'symfony-cli' }]);
+  });
+
+  it('should detect dependency cycles', () => {
+    const cyclic: SimpleManifest = {
+      version: '1.0.0',
+      tools: [
+        { id: 'a', name: 'A', category: 'other', dependsOn: ['b'] },
+        { id: 'b', name: 'B', category: 'other', dependsOn: ['c'] },
+        { id: 'c', name: 'C', category: 'other', dependsOn: ['a'] }
+      ]
+    };
+
+    expect(() => createInstallPlan(['a'], cyclic)).toThrow(DependencyCycleError);
+    try {
+      createInstallPlan(['a'], cyclic);
+    } catch (error) {
+      expect((error as DependencyCycleError).cycle).toEqual(['a', 'b', 'c', 'a']);
+    }
+  });
+
+  it('should find failed prerequisites for dependent steps', () => {
+    const plan = createInstallPlan(['laravel'], manifest);
+    const laravel = plan.steps.find(step => step.toolId === 'laravel')!;
+
+    expect(findFailedPrerequisite(laravel, new Set())).toBeUndefined();
+    expect(findFailedPrerequisite(laravel, new Set(['composer']))).toBe('composer');
+  });
+
+  it('should block dependents of steps that were not installed, transitively', async () => {
+    const plan = createInstallPlan(['laravel', 'git'], manifest);
+    const blocked: Record<string, string | undefined> = {};
+
+    await walkInstallPlan(plan.steps, async (step, blockedBy) => {
+      blocked[step.toolId] = blockedBy;
+      return step.toolId !== 'php' && !blockedBy;
+    });
+
+    expect(blocked).toEqual({ php: undefined, composer: 'php', laravel: 'php', git: undefined });
+  });
+});
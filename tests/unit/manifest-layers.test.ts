@@ -0,0 +1,120 @@
+// Unit tests for merging layered manifests
+import { getOverridingLayer, mergeManifestLayers } from '../../src/shared/manifest-layers';
+import type { LayerManifest } from '../../src/shared/manifest-layers';
+import { mergeManifests } from '../../src/shared/simple-manifest-loader';
+import type { SimpleManifest } from '../../src/shared/simple-manifest-types';
+
+const builtin: LayerManifest = {
+  layer: 'builtin',
+  manifest: {
+    version: '1.4.0',
+    tools: [
+      {
+        id: 'docker',
+        name: 'Docker',
+        category: 'containers',
+        description: 'Container runtime',
+        packageNames: { darwin: 'docker', linux: 'docker.io' },
+        recommendedFor: ['devops', 'backend']
+      },
+      { id: 'vscode', name: 'VS Code', category: 'ide' }
+    ]
+  }
+};
+
+function overlay(layer: LayerManifest['layer'], manifest: unknown, filePath?: string): LayerManifest {
+  return { layer, filePath, manifest: manifest as SimpleManifest };
+}
+
+describe('Manifest Layers', () => {
+  it('should merge objects key by key and replace scalars and arrays', () => {
+    const { manifest, issues } = mergeManifestLayers([
+      builtin,
+      overlay('team', {
+        version: '3.0.0',
+        tools: [{ id: 'docker', description: 'Podman, as Docker', packageNames: { linux: 'podman-docker' }, recommendedFor: ['qa'] }]
+      })
+    ]);
+
+    expect(issues).toEqual([]);
+    expect(manifest.version).toBe('3.0.0');
+    expect(manifest.tools[0]).toEqual({
+      id: 'docker',
+      name: 'Docker',
+      category: 'containers',
+      description: 'Podman, as Docker',
+      packageNames: { darwin: 'docker', linux: 'podman-docker' },
+      recommendedFor: ['qa']
+    });
+  });
+
+  it('should delete fields set to null and tools marked remove', () => {
+    const { manifest, provenance } = mergeManifestLayers([
+      builtin,
+      overlay('user', {
+        version: '1.0.0',
+        tools: [{ id: 'docker', description: null, packageNames: { darwin: null } }, { id: 'vscode', remove: true }]
+      })
+    ]);
+
+    expect(manifest.tools).toEqual([
+      { id: 'docker', name: 'Docker', category: 'containers', packageNames: { linux: 'docker.io' }, recommendedFor: ['devops', 'backend'] }
+    ]);
+    expect(provenance.vscode).toBeUndefined();
+    expect(provenance.docker.description).toBeUndefined();
+  });
+
+  it('should record which layer and file set each field', () => {
+    const { provenance } = mergeManifestLayers([
+      builtin,
+      overlay('organization', { version: '2.0.0', tools: [{ id: 'docker', packageNames: { linux: 'moby' } }] }, 'org.yaml'),
+      overlay('team', { version: '1.0.0', tools: [{ id: 'terraform', name: 'Terraform', category: 'infrastructure' }] }, 'team.yaml')
+    ]);
+
+    expect(provenance.docker.name).toEqual({ layer: 'builtin' });
+    expect(provenance.docker['packageNames.linux']).toEqual({ layer: 'organization', filePath: 'org.yaml' });
+    expect(provenance.docker['packageNames.darwin']).toEqual({ layer: 'builtin' });
+    expect(getOverridingLayer(provenance.docker)).toBe('organization');
+    expect(getOverridingLayer(provenance.terraform)).toBe('team');
+    expect(getOverridingLayer(provenance.vscode)).toBeNull();
+  });
+
+  it('should skip overlays whose compatibleWith is not met', () => {
+    const { manifest, issues } = mergeManifestLayers([
+      builtin,
+      overlay('organization', { version: '2.3.0', tools: [] }),
+      overlay('team', { version: '1.0.0', compatibleWith: { organization: '^3' }, tools: [{ id: 'docker', name: 'Moby' }] }, 'team.yaml'),
+      overlay('user', { version: '1.0.0', compatibleWith: { builtin: '^1.2', team: '^1' }, tools: [] }, 'user.yaml')
+    ]);
+
+    expect(manifest.tools[0].name).toBe('Docker');
+    expect(issues).toEqual([
+      { layer: 'team', filePath: 'team.yaml', message: 'Requires the organization manifest ^3, found version 2.3.0' },
+      { layer: 'user', filePath: 'user.yaml', message: 'Requires the team manifest (^1), which is not loaded' }
+    ]);
+  });
+
+  it('should reject new tools without a name and category', () => {
+    const { manifest, issues } = mergeManifestLayers([
+      builtin,
+      overlay('user', { version: '1.0.0', tools: [{ id: 'htop', description: 'Process viewer' }] })
+    ]);
+
+    expect(manifest.tools.map(tool => tool.id)).toEqual(['docker', 'vscode']);
+    expect(issues).toEqual([{
+      layer: 'user',
+      toolId: 'htop',
+      message: 'Tool "htop" is not defined by a lower layer, so it needs a name and category'
+    }]);
+  });
+
+  it('should keep the last version and unchanged fields in mergeManifests', () => {
+    const merged = mergeManifests(builtin.manifest, {
+      version: '1.5.0',
+      tools: [{ id: 'vscode', name: 'Visual Studio Code' } as SimpleManifest['tools'][number]]
+    });
+
+    expect(merged.version).toBe('1.5.0');
+    expect(merged.tools[1]).toEqual({ id: 'vscode', name: 'Visual Studio Code', category: 'ide' });
+  });
+});
@@ -0,0 +1,104 @@
+// Unit tests for JSON and YAML manifest parsing
+import { ManifestParseError, getManifestFormat, parseManifestSource } from '../../src/shared/manifest-source';
+
+const yaml = `# Team manifest
+version: "1.0.0"
+tools:
+  - id: postgresql
+    name: PostgreSQL
+    category: database
+    version: '15'   # pinned
+    packageNames: { darwin: postgresql, linux: "postgresql-{version}" }
+    recommendedFor: [backend-developer,
+      data-engineer]
+  - id: setup-script
+    name: Setup
+    category: other
+    description: >
+      Runs the team
+      bootstrap script
+    customInstall:
+      linux: |
+        curl -fsSL https://example.com/setup.sh -o setup.sh # kept
+        sh setup.sh
+    dependsOn:
+    - postgresql
+`;
+
+const json = JSON.stringify({
+  version: '1.0.0',
+  tools: [
+    {
+      id: 'postgresql',
+      name: 'PostgreSQL',
+      category: 'database',
+      version: '15',
+      packageNames: { darwin: 'postgresql', linux: 'postgresql-{version}' },
+      recommendedFor: ['backend-developer', 'data-engineer']
+    },
+    {
+      id: 'setup-script',
+      name: 'Setup',
+      category: 'other',
+      description: 'Runs the team bootstrap script\n',
+      customInstall: { linux: 'curl -fsSL https://example.com/setup.sh -o setup.sh # kept\nsh setup.sh\n' },
+      dependsOn: ['postgresql']
+    }
+  ]
+}, null, 2);
+
+describe('Manifest Source', () => {
+  it('should pick the format from the file extension', () => {
+    expect(getManifestFormat('team/tools.yaml')).toBe('yaml');
+    expect(getManifestFormat('team/tools.YML')).toBe('yaml');
+    expect(getManifestFormat('team/tools.json')).toBe('json');
+  });
+
+  it('should parse YAML and JSON into the same data', () => {
+    const fromYaml = parseManifestSource(yaml, 'yaml').data;
+    const fromJson = parseManifestSource(json, 'json').data;
+
+    expect(fromYaml).toEqual(JSON.parse(json));
+    expect(fromJson).toEqual(JSON.parse(json));
+  });
+
+  it('should resolve plain YAML scalars like JSON values', () => {
+    const { data } = parseManifestSource('a: 15\nb: 1.5\nc: true\nd: ~\ne: 1.0.0\nf: "15"\ng:\n', 'yaml');
+
+    expect(data).toEqual({ a: 15, b: 1.5, c: true, d: null, e: '1.0.0', f: '15', g: null });
+  });
+
+  it('should read the rest of YAML 1.2 the way the spec does', () => {
+    const { data } = parseManifestSource('a: .inf\nb: -.Inf\n? c\n: 3\nbase: &base { id: x }\ncopy: *base\n', 'yaml');
+
+    expect(data).toEqual({ a: Infinity, b: -Infinity, c: 3, base: { id: 'x' }, copy: { id: 'x' } });
+  });
+
+  it('should locate values by path', () => {
+    const fromYaml = parseManifestSource(yaml, 'yaml');
+    const fromJson = parseManifestSource(json, 'json');
+
+    expect(fromYaml.locate(['tools', 0, 'category'])).toEqual({ line: 6, column: 5 });
+    expect(fromYaml.locate(['tools', 1, 'dependsOn', 0])).toEqual({ line: 22, column: 7 });
+    expect(fromYaml.locate(['tools', 0, 'packageNames', 'linux'])).toEqual({ line: 8, column: 41 });
+    // Missing values fall back to their closest ancestor
+    expect(fromYaml.locate(['tools', 1, 'verification'])).toEqual({ line: 11, column: 5 });
+    expect(fromJson.locate(['tools', 1, 'category'])).toEqual({ line: 21, column: 7 });
+  });
+
+  it('should report syntax errors with a line and column', () => {
+    const cases: Array<[string, 'json' | 'yaml', string]> = [
+      ['{\n  "version": "1.0.0",\n  "tools": [,]\n}', 'json', 'Unexpected character "," (line 3, column 13)'],
+      ['{ "a": 1, "a": 2 }', 'json', 'Duplicate key "a" (line 1, column 11)'],
+      ['version: 1\nversion: 2', 'yaml', 'Duplicate key "version" (line 2, column 1)'],
+      ['tools:\n  - id: a\n     name: b', 'yaml', 'Nested mappings are not allowed in compact mappings (line 2, column 9)'],
+      ['name: "unterminated', 'yaml', 'Missing closing "quote (line 1, column 20)'],
+      ['a: 1\n---\nb: 2', 'yaml', 'Only one YAML document is supported (line 2, column 1)']
+    ];
+
+    for (const [content, format, message] of cases) {
+      expect(() => parseManifestSource(content, format)).toThrow(ManifestParseError);
+      expect(() => parseManifestSource(content, format)).toThrow(message);
+    }
+  });
+});
@@ -0,0 +1,95 @@
+// Unit tests for package manager outdated-output parsers
+import {
+  parseApkVersion,
+  parseAptUpgradable,
+  parseBrewOutdated,
+  parseChocoOutdated,
+  parseDnfCheckUpdate,
+  parsePacmanOutdated,
+  parseSnapRefreshList,
+  parseWingetUpgrade,
+  parseZypperUpdates
+} from '../../src/shared/outdated-parsers';
+
+describe('Outdated Parsers', () => {
+  it('should parse brew formulae and casks', () => {
+    const output = JSON.stringify({
+      formulae: [{ name: 'git', installed_versions: ['2.44.0'], current_version: '2.45.1' }],
+      casks: [{ name: 'visual-studio-code', installed_versions: '1.89.0', current_version: '1.90.0' }]
+    });
+
+    expect(parseBrewOutdated(output)).toEqual([
+      { name: 'git', currentVersion: '2.44.0', latestVersion: '2.45.1' },
+      { name: 'visual-studio-code', currentVersion: '1.89.0', latestVersion: '1.90.0' }
+    ]);
+    expect(parseBrewOutdated('Error: not json')).toEqual([]);
+  });
+
+  it('should parse apt list --upgradable', () => {
+    const output = [
+      'Listing... Done',
+      'git/jammy-updates 1:2.34.1-1ubuntu1.11 amd64 [upgradable from: 1:2.34.1-1ubuntu1.10]'
+    ].join('\n');
+
+    expect(parseAptUpgradable(output)).toEqual([
+      { name: 'git', latestVersion: '1:2.34.1-1ubuntu1.11', currentVersion: '1:2.34.1-1ubuntu1.10' }
+    ]);
+  });
+
+  it('should parse choco outdated -r', () => {
+    expect(parseChocoOutdated('git|2.44.0|2.45.1|false\nnodejs|20.1.0|20.12.2|false\n')).toEqual([
+      { name: 'git', currentVersion: '2.44.0', latestVersion: '2.45.1' },
+      { name: 'nodejs', currentVersion: '20.1.0', latestVersion: '20.12.2' }
+    ]);
+  });
+
+  it('should parse the winget upgrade table by column', () => {
+    const output = [
+      '   - \r   \\ \rName               Id                 Version Available Source',
+      '-----------------------------------------------------------------',
+      'Git                Git.Git            2.44.0  2.45.1    winget',
+      'Visual Studio Code Microsoft.VSCode   1.89.0  1.90.0    winget',
+      '2 upgrades available.'
+    ].join('\r\n');
+
+    expect(parseWingetUpgrade(output)).toEqual([
+      { name: 'Git.Git', currentVersion: '2.44.0', latestVersion: '2.45.1' },
+      { name: 'Microsoft.VSCode', currentVersion: '1.89.0', latestVersion: '1.90.0' }
+    ]);
+  });
+
+  it('should parse dnf check-update and stop at obsoleted packages', () => {
+    const output = [
+      '',
+      'git.x86_64                2.45.1-1.fc40          updates',
+      'nodejs.x86_64             1:20.12.2-1.fc40       updates',
+      'Obsoleting Packages',
+      'grub2-tools.x86_64        1:2.06-120.fc40        updates'
+    ].join('\n');
+
+    expect(parseDnfCheckUpdate(output)).toEqual([
+      { name: 'git', latestVersion: '2.45.1-1.fc40' },
+      { name: 'nodejs', latestVersion: '1:20.12.2-1.fc40' }
+    ]);
+  });
+
+  it('should parse pacman, zypper, apk and snap output', () => {
+    expect(parsePacmanOutdated('git 2.44.0-1 -> 2.45.1-1\n')).toEqual([
+      { name: 'git', currentVersion: '2.44.0-1', latestVersion: '2.45.1-1' }
+    ]);
+    expect(parseZypperUpdates([
+      'S | Repository | Name | Current Version | Available Version | Arch',
+      '--+------------+------+-----------------+-------------------+-------',
+      'v | Main       | git  | 2.44.0-1.1      | 2.45.1-1.1        | x86_64'
+    ].join('\n'))).toEqual([
+      { name: 'git', currentVersion: '2.44.0-1.1', latestVersion: '2.45.1-1.1' }
+    ]);
+    expect(parseApkVersion('Installed:                                Available:\nopenjdk17-jre-17.0.9_p9-r0 < 17.0.11_p9-r0\n')).toEqual([
+      { name: 'openjdk17-jre', currentVersion: '17.0.9_p9-r0', latestVersion: '17.0.11_p9-r0' }
+    ]);
+    expect(parseSnapRefreshList('Name  Version  Rev  Size  Publisher  Notes\ncode  1.90.0   160  100MB vscode**  classic\n')).toEqual([
+      { name: 'code', latestVersion: '1.90.0' }
+    ]);
+    expect(parseSnapRefreshList('All snaps up to date.')).toEqual([]);
+  });
+});
@@ -0,0 +1,182 @@
+// Unit tests for package manager backends and selection
+import { getInstallCommand, getScriptCommand, getUninstallCommand, getUpgradeCommand } from '../../src/shared/install-commands';
+import { getKegOnlyProbe, resolvePackage, selectLinuxPackageManager, selectPackageManagers } from '../../src/shared/package-managers';
+import type { SimpleTool } from '../../src/shared/simple-manifest-types';
+import { validateManifest } from '../../src/shared/simple-manifest-validator';
+
+const java: SimpleTool = {
+  id: 'java',
+  name: 'Java',
+  category: 'language',
+  packageNames: {
+    linux: 'openjdk-17-jdk',
+    'linux-dnf': 'java-17-openjdk-devel'
+  }
+};
+
+const vscode: SimpleTool = {
+  id: 'vscode',
+  name: 'Visual Studio Code',
+  category: 'ide',
+  packageNames: {
+    darwin: 'visual-studio-code',
+    'linux-snap': 'code --classic'
+  }
+};
+
+describe('Package Managers', () => {
+  it('should select the native manager from the distribution id or ID_LIKE', () => {
+    expect(selectLinuxPackageManager({ id: 'fedora' })).toBe('dnf');
+    expect(selectLinuxPackageManager({ id: 'arch' })).toBe('pacman');
+    expect(selectLinuxPackageManager({ id: 'opensuse-tumbleweed' })).toBe('zypper');
+    expect(selectLinuxPackageManager({ id: 'alpine' })).toBe('apk');
+    expect(selectLinuxPackageManager({ id: 'cachyos', idLike: ['arch'] })).toBe('pacman');
+    expect(selectLinuxPackageManager({ id: 'nixos' })).toBeNull();
+  });
+
+  it('should fall back to an available native manager when the preferred one is missing', () => {
+    const selection = selectPackageManagers('linux', ['yum', 'flatpak'], { id: 'centos' });
+
+    expect(selection).toEqual({ primary: 'yum', fallbacks: ['flatpak'] });
+  });
+
+  it('should keep apt as the default when nothing is detected', () => {
+    expect(selectPackageManagers('linux', [])).toEqual({ primary: 'apt', fallbacks: [] });
+    expect(selectPackageManagers('darwin', ['brew'])).toEqual({ primary: 'brew', fallbacks: [] });
+  });
+
+  it('should prefer package names keyed by package manager', () => {
+    expect(getInstallCommand(java, 'linux')).toBe('sudo apt-get install -y openjdk-17-jdk');
+    expect(getInstallCommand(java, 'linux', { primary: 'dnf', fallbacks: [] }))
+      .toBe('sudo dnf install -y java-17-openjdk-devel');
+    expect(getInstallCommand(java, 'linux', { primary: 'pacman', fallbacks: [] }))
+      .toBe('sudo pacman -S --noconfirm --needed openjdk-17-jdk');
+  });
+
+  it('should only use snap or flatpak when the tool names a package for them', () => {
+    expect(getInstallCommand(vscode, 'linux', { primary: 'dnf', fallbacks: ['snap'] }))
+      .toBe('sudo snap install code --classic');
+    expect(getInstallCommand(vscode, 'linux', { primary: 'dnf', fallbacks: ['flatpak'] })).toBeNull();
+    expect(getInstallCommand(java, 'linux', { primary: null, fallbacks: ['snap'] })).toBeNull();
+  });
+
+  it('should derive uninstall commands from the same package', () => {
+    expect(getUninstallCommand(java, 'linux', { primary: 'dnf', fallbacks: [] }))
+      .toBe('sudo dnf remove -y java-17-openjdk-devel');
+    expect(getUninstallCommand(vscode, 'darwin')).toBe('brew uninstall visual-studio-code');
+    expect(getUninstallCommand(vscode, 'linux', { primary: 'apt', fallbacks: ['snap'] }))
+      .toBe('sudo snap remove code');
+  });
+
+  it('should only uninstall custom installs through customUninstall', () => {
+    const jest: SimpleTool = {
+      id: 'jest',
+      name: 'Jest',
+      category: 'testing',
+      packageNames: { linux: 'jest' },
+      customInstall: { linux: 'npm install -g jest', darwin: 'npm install -g jest' },
+      customUninstall: { linux: 'npm uninstall -g jest' }
+    };
+
+    expect(getUninstallCommand(jest, 'linux')).toBe('npm uninstall -g jest');
+    expect(getUninstallCommand(jest, 'darwin')).toBeNull();
+  });
+
+  it('should run checksummed install scripts through the platform shell', () => {
+    const rust: SimpleTool = {
+      id: 'rust',
+      name: 'Rust',
+      category: 'language',
+      packageNames: { win32: 'rustup.install' },
+      installScript: { linux: { url: 'https://sh.rustup.rs', sha256: 'a'.repeat(64), args: ['-y'] } }
+    };
+
+    expect(getInstallCommand(rust, 'linux')).toContain(`echo "${'a'.repeat(64)}  $tmp/install.sh" | shasum -a 256 -c - && \\\nsh "$tmp/install.sh" "-y"`);
+    expect(getScriptCommand('C:\\Temp\\install.ps1', 'win32'))
+      .toBe('powershell -NoProfile -ExecutionPolicy Bypass -File "C:\\Temp\\install.ps1"');
+    expect(getUninstallCommand(rust, 'linux')).toBeNull();
+    expect(getUpgradeCommand(rust, 'linux')).toBeNull();
+    expect(getInstallCommand(rust, 'win32')).toBe('choco install -y rustup.install');
+  });
+
+  it('should translate a version constraint into a versioned package spec', () => {
+    const postgres: SimpleTool = {
+      id: 'postgresql',
+      name: 'PostgreSQL',
+      category: 'database',
+      version: '^15',
+      packageNames: { darwin: 'postgresql', win32: 'postgresql', linux: 'postgresql' }
+    };
+
+    expect(getInstallCommand(postgres, 'darwin')).toBe('brew install postgresql@15');
+    expect(getUninstallCommand(postgres, 'darwin')).toBe('brew uninstall postgresql@15');
+    expect(getInstallCommand(postgres, 'linux')).toBe('sudo apt-get install -y "postgresql=15*"');
+    expect(getUpgradeCommand(postgres, 'linux', { primary: 'dnf', fallbacks: [] }))
+      .toBe('sudo dnf upgrade -y "postgresql-15*"');
+    expect(getUninstallCommand(postgres, 'linux')).toBe('sudo apt-get remove -y postgresql');
+    // Chocolatey needs an exact version, so a major-only pin installs the latest and is verified afterwards
+    expect(getInstallCommand(postgres, 'win32')).toBe('choco install -y postgresql');
+    expect(getInstallCommand({ ...postgres, version: '15.4.0' }, 'win32'))
+      .toBe('choco install -y postgresql --version 15.4.0');
+  });
+
+  it('should use Homebrew release-line formulae and reject exact Homebrew pins', () => {
+    const python: SimpleTool = { id: 'python', name: 'Python', category: 'language', version: '~3.12', packageNames: { darwin: 'python' } };
+    const exact = { ...python, version: '3.12.1' };
+
+    expect(getInstallCommand(python, 'darwin')).toBe('brew install python@3.12');
+    expect(() => getInstallCommand(exact, 'darwin'))
+      .toThrow('Homebrew has no python@3.12.1 formula; pin a release line such as ~3.12 instead');
+    expect(getUninstallCommand(exact, 'darwin')).toBeNull();
+    expect(getUpgradeCommand(exact, 'darwin')).toBeNull();
+  });
+
+  it('should only pin Homebrew formulae that have a formula for the release line', () => {
+    const postgres: SimpleTool = { id: 'postgresql', name: 'PostgreSQL', category: 'database', version: '=15.4', packageNames: { darwin: 'postgresql' } };
+    const git: SimpleTool = { id: 'git', name: 'Git', category: 'developer-tools', version: '^2', packageNames: { darwin: 'git' } };
+
+    expect(() => getInstallCommand(postgres, 'darwin'))
+      .toThrow('Homebrew has no postgresql@15.4 formula; pin a release line such as ^15 instead');
+    // No versioned git formulae: install the latest and verify it afterwards
+    expect(getInstallCommand(git, 'darwin')).toBe('brew install git');
+  });
+
+  it('should verify keg-only Homebrew formulae through brew instead of PATH', () => {
+    const selection = { primary: 'brew' as const, fallbacks: [] };
+    const postgres: SimpleTool = { id: 'postgresql', name: 'PostgreSQL', category: 'database', version: '^15', packageNames: { darwin: 'postgresql' } };
+
+    expect(getKegOnlyProbe(resolvePackage(postgres, 'darwin', selection)!)).toEqual({
+      type: 'command',
+      command: 'brew --prefix --installed postgresql@15 >/dev/null && brew list --versions postgresql@15',
+      versionPattern: '^\\S+\\s+(\\S+)'
+    });
+    expect(getKegOnlyProbe(resolvePackage({ ...postgres, version: undefined }, 'darwin', selection)!)).toBeNull();
+  });
+
+  it('should fill a {version} placeholder in the package name', () => {
+    const java17: SimpleTool = {
+      ...java,
+      version: '17',
+      packageNames: { linux: 'openjdk-{version}-jdk', darwin: 'openjdk@{version}' }
+    };
+
+    expect(getInstallCommand(java17, 'linux')).toBe('sudo apt-get install -y openjdk-17-jdk');
+    expect(getInstallCommand(java17, 'darwin')).toBe('brew install openjdk@17');
+    expect(getInstallCommand({ ...java17, version: '>=17' }, 'linux')).toBeNull();
+  });
+
+  it('should reject unknown package name keys', () => {
+    const errors = validateManifest({
+      version: '1.0.0',
+      tools: [{ ...java, packageNames: { linux: 'jdk', 'linux-dfn': 'jdk', 'linux-dnf': 'jdk' } }]
+    });
+
+    expect(errors).toEqual(['Tool[0].packageNames["linux-dfn"]: unknown key']);
+  });
+
+  it('should reject invalid version constraints', () => {
+    const errors = validateManifest({ version: '1.0.0', tools: [{ ...java, version: 'latest' }] });
+
+    expect(errors).toEqual(['Tool[0].version: must be a version or semver range']);
+  });
+});
@@ -0,0 +1,108 @@
+// Unit tests for the manifest JSON Schema and schema-based validation
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseManifestSource } from '../../src/shared/manifest-source';
+import defaultTools from '../../src/shared/default-tools.json';
+import { buildManifestSchema } from '../../src/shared/simple-manifest-schema';
+import { getManifestIssues, validateManifest } from '../../src/shared/simple-manifest-validator';
+
+describe('Simple Manifest Schema', () => {
+  it('should match the published schema file', () => {
+    const published = JSON.parse(readFileSync(resolve(__dirname, '../../schemas/simple-manifest.schema.json'), 'utf-8'));
+
+    // Run `npm run schema:generate` if this fails
+    expect(published).toEqual(buildManifestSchema());
+  });
+
+  it('should match the published overlay schema file', () => {
+    const published = JSON.parse(readFileSync(resolve(__dirname, '../../schemas/simple-manifest-overlay.schema.json'), 'utf-8'));
+
+    expect(published).toEqual(buildManifestSchema('overlay'));
+  });
+
+  it('should accept partial tools and null deletions in overlays', () => {
+    const overlay = {
+      version: '2.1.0',
+      compatibleWith: { builtin: '^1' },
+      tools: [
+        { id: 'docker', packageNames: { linux: 'podman-docker', darwin: null } },
+        { id: 'vscode', remove: true }
+      ]
+    };
+
+    expect(validateManifest(overlay, undefined, 'overlay')).toEqual([]);
+    expect(validateManifest(overlay)).toContain('Tool[0]: missing required property "name"');
+    expect(validateManifest({ ...overlay, compatibleWith: { company: '^1', team: 'latest' } }, undefined, 'overlay')).toEqual([
+      'Manifest.compatibleWith.company: unknown key',
+      'Manifest.compatibleWith.team: must be a version or semver range'
+    ]);
+  });
+
+  it('should accept the built-in manifest', () => {
+    expect(validateManifest(defaultTools)).toEqual([]);
+  });
+
+  it('should report structural problems by path', () => {
+    const errors = validateManifest({
+      tools: [
+        { id: 'git', name: 'Git', category: 'tools', packageName: { linux: 'git' } },
+        { id: '', name: 'Node', category: 'language', dependsOn: 'npm', customInstall: { macos: 'brew install node' } }
+      ]
+    });
+
+    expect(errors).toEqual([
+      'Manifest: missing required property "version"',
+      'Tool[0].category: must be one of: language, ide, database, web-frameworks, containers, infrastructure, cloud, testing, monitoring, package-managers, developer-tools, other',
+      'Tool[0].packageName: unknown property',
+      'Tool[1].id: must not be empty',
+      'Tool[1].dependsOn: must be an array',
+      'Tool[1].customInstall.macos: unknown key'
+    ]);
+  });
+
+  it('should point validation errors at the line and column in YAML', () => {
+    const source = parseManifestSource([
+      'version: "1.0.0"',
+      'tools:',
+      '  - id: terraform',
+      '    name: Terraform',
+      '    category: infrastructure',
+      '    version: latest',
+      '    packageNames:',
+      '      linux-aptt: terraform'
+    ].join('\n'), 'yaml');
+
+    expect(getManifestIssues(source.data, source.locate)).toEqual([
+      { path: ['tools', 0, 'packageNames', 'linux-aptt'], message: 'unknown key', line: 8, column: 7 },
+      { path: ['tools', 0, 'version'], message: 'must be a version or semver range', line: 6, column: 5 }
+    ]);
+    expect(validateManifest(source.data, source.locate)[0])
+      .toBe('Tool[0].packageNames["linux-aptt"]: unknown key (line 8, column 7)');
+  });
+
+  it('should check detection probes for their type\'s fields, patterns and minimum version', () => {
+    const errors = validateManifest({
+      version: '1.0.0',
+      tools: [{
+        id: 'node',
+        name: 'Node.js',
+        category: 'language',
+        detection: {
+          minVersion: 'latest',
+          probes: [
+            { type: 'package', manager: 'brew' },
+            { type: 'command', command: 'node --version', versionPattern: 'v(\\d+' },
+            { type: 'service', name: 'node' }
+          ]
+        }
+      }]
+    });
+
+    expect(errors).toEqual([
+      'Tool[0].detection.probes[2].type: must be one of: command, file, registry, package, app-bundle',
+      'Tool[0].detection.probes[0]: missing required property "name" for a package probe',
+      'Tool[0].detection.probes[1].versionPattern: must be a valid regular expression',
+      'Tool[0].detection.minVersion: must be a version'
+    ]);
+  });
+});
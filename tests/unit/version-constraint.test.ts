@@ -0,0 +1,66 @@
+// Unit tests for manifest version constraints
+import {
+  coerceVersion,
+  getPinnedVersion,
+  isValidVersionConstraint,
+  satisfiesToolVersion,
+  satisfiesVersion
+} from '../../src/shared/version-constraint';
+
+describe('Version Constraint', () => {
+  it('should read versions out of tool output', () => {
+    expect(coerceVersion('psql (PostgreSQL) 15.4')).toBe('15.4.0');
+    expect(coerceVersion('v20.11.1')).toBe('20.11.1');
+    expect(coerceVersion('unknown')).toBeNull();
+  });
+
+  it('should match exact and partial versions', () => {
+    expect(satisfiesVersion('15.4', '15')).toBe(true);
+    expect(satisfiesVersion('16.0', '15')).toBe(false);
+    expect(satisfiesVersion('3.12.1', '3.12.1')).toBe(true);
+    expect(satisfiesVersion('3.12.2', '3.12.1')).toBe(false);
+    expect(satisfiesVersion('3.12.2', '3.12.x')).toBe(true);
+  });
+
+  it('should match caret, tilde and comparison ranges', () => {
+    expect(satisfiesVersion('20.11.1', '^20')).toBe(true);
+    expect(satisfiesVersion('21.0.0', '^20.1')).toBe(false);
+    expect(satisfiesVersion('0.3.9', '^0.3.1')).toBe(true);
+    expect(satisfiesVersion('0.4.0', '^0.3.1')).toBe(false);
+    expect(satisfiesVersion('3.12.9', '~3.12.1')).toBe(true);
+    expect(satisfiesVersion('3.13.0', '~3.12.1')).toBe(false);
+    expect(satisfiesVersion('1.25.0', '>=1.21 <1.26')).toBe(true);
+    expect(satisfiesVersion('1.26.1', '>= 1.21 < 1.26')).toBe(false);
+  });
+
+  it('should match hyphen ranges and alternatives', () => {
+    expect(satisfiesVersion('14.9', '14 - 15')).toBe(true);
+    expect(satisfiesVersion('15.9.9', '14 - 15')).toBe(true);
+    expect(satisfiesVersion('16.0.0', '14 - 15')).toBe(false);
+    expect(satisfiesVersion('17.0.2', '11 || 17 || 21')).toBe(true);
+    expect(satisfiesVersion('18.0.0', '11 || 17 || 21')).toBe(false);
+  });
+
+  it('should pin the version to request from a package manager', () => {
+    expect(getPinnedVersion('15')).toBe('15');
+    expect(getPinnedVersion('=3.12.1')).toBe('3.12.1');
+    expect(getPinnedVersion('^15.2')).toBe('15');
+    expect(getPinnedVersion('^0.3.1')).toBe('0.3');
+    expect(getPinnedVersion('~3.12.1')).toBe('3.12');
+    expect(getPinnedVersion('>=15')).toBeNull();
+    expect(getPinnedVersion('14 || 15')).toBeNull();
+  });
+
+  it('should reject unparseable constraints', () => {
+    expect(isValidVersionConstraint('>=1.2 <2')).toBe(true);
+    expect(isValidVersionConstraint('latest')).toBe(false);
+    expect(isValidVersionConstraint('1.2 ||')).toBe(false);
+    expect(() => satisfiesVersion('1.0.0', '=>1')).toThrow('Invalid version constraint');
+  });
+
+  it('should require a detected version only for pinned tools', () => {
+    expect(satisfiesToolVersion({}, undefined)).toBe(true);
+    expect(satisfiesToolVersion({ version: '15' }, undefined)).toBe(false);
+    expect(satisfiesToolVersion({ version: '15' }, '15.4')).toBe(true);
+  });
+});